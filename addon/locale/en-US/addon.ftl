@@ -1,16 +1,37 @@
 # Chat Panel
 chat-toolbar-button-tooltip = Open AI Chat Panel
+chat-collection-menu = Chat with Collection
+chat-collection-menu-subcollections = Chat with Collection and Subcollections
 chat-error-no-provider = ⚠️ No AI provider available. Please configure a provider in Settings.
+chat-error-hint-rate-limit = The provider is rate limiting requests. Wait a moment and regenerate, or add more API keys and turn on key rotation in Settings.
+chat-error-hint-auth = The API key was rejected. Check the key for this provider in Settings.
+chat-error-hint-quota = This API key is out of quota or credit. Top up the account, or add another key and turn on key rotation in Settings.
+chat-error-hint-context-length = The conversation is too long for this model. Start a new chat, attach fewer documents or lower the PDF character limit.
+chat-error-hint-server = The provider had a server error. Try regenerating later.
+chat-fallback-notice = ↪ fallback, { $provider } failed
 chat-start-conversation = Start a conversation
 chat-attach-pdf = Attach PDF
+chat-pdf-mode-tooltip = How the PDF is added to your question
+chat-pdf-mode-full = Full text
+chat-pdf-mode-smart = Smart context
+chat-attach-annotations = Attach annotations
+chat-attach-annotations-tooltip = Include highlights, notes and comments of this PDF with color, page and tags
+chat-tools-toggle = Library tools
+chat-tools-tooltip = Let the AI search your library, read metadata, annotations and PDF pages
 chat-new-chat = New Chat
 chat-history = Chat History
-chat-input-placeholder = Ask a question about the PDF...
+chat-input-placeholder = Ask a question about the PDF, or type / for prompt templates...
 chat-send = Send
 chat-no-messages = (no messages)
 chat-message-count = { $count } messages
 chat-show-more = Show more ({ $count } remaining)
 chat-no-history = No chat history
+chat-search-placeholder = Search all conversations
+chat-search-from = From date
+chat-search-to = To date
+chat-search-all-providers = All providers
+chat-search-all-documents = All documents
+chat-search-no-results = No matching conversations
 chat-close = Close
 chat-open-settings = Open Settings
 chat-select-model = Select Model
@@ -20,6 +41,16 @@ chat-switch-to-sidebar = Switch to sidebar mode
 chat-no-models = No models available
 chat-configure-provider = Please configure a provider in Settings first
 chat-model-list-title = Model List
+chat-session-model-pin = Pin model to this chat
+chat-session-model-unpin = Unpin model from this chat
+chat-session-model-tooltip = This chat uses { $provider } / { $model }. Click to follow the global model again.
+chat-compare = Compare models
+chat-compare-active = Comparing { $count } providers
+chat-compare-title = Compare up to { $max } providers
+chat-compare-need-providers = Configure at least two providers to compare
+chat-compare-keep = Keep
+chat-compare-keep-tooltip = Keep this answer as the reply
+chat-compare-failed = No provider returned an answer
 chat-delete = Delete
 chat-export-note = Export as Note
 chat-pin = Pin to top
@@ -30,6 +61,11 @@ chat-copy-code = Copy
 chat-regenerate = Regenerate
 chat-prev-version = Previous version
 chat-next-version = Next version
+chat-prev-branch = Previous branch
+chat-next-branch = Next branch
+chat-edit-question = Edit question (starts a new branch)
+chat-edit-save = Send
+chat-edit-cancel = Cancel
 chat-version-indicator = { $current }/{ $total }
 chat-quote-label = Quote
 chat-image-label = Image
@@ -41,12 +77,47 @@ chat-continue-prompt = Please continue from where you left off before, without r
 chat-enable-thinking = Enable thinking mode
 chat-disable-thinking = Disable thinking mode
 chat-thinking-title = Thinking
+chat-tool-calls-title = Library tool calls ({ $count })
+chat-tool-limit-reached = Stopped after too many tool calls. Try a more specific question.
+chat-summary-boundary = { $count } earlier messages summarized
+chat-summary-boundary-tooltip = Earlier messages are sent as this summary to keep requests short. Click to show it.
+chat-token-indicator = Estimated request size: { $tokens } of { $limit } input tokens for this model
+chat-token-indicator-over-limit = Estimated request size: { $tokens } tokens, over the { $limit } input tokens of this model. Older messages and document content will be trimmed.
 chat-openai-reasoning-effort = Set reasoning effort
 chat-openai-reasoning-effort-title = Reasoning Effort
 chat-thinking-effort = Set thinking effort
 chat-thinking-effort-title = Thinking Effort
 chat-copy = Copy
 chat-copied = Copied!
+chat-citation-goto-page = Go to page { $page } in the PDF
+chat-highlight-in-pdf = Highlight in PDF
+chat-highlight-with-comment = Highlight with note
+chat-highlight-done = Highlight added
+chat-highlight-no-reader = The PDF of this conversation could not be opened
+chat-highlight-not-found = Passage not found in the PDF
+chat-highlight-failed = Could not create the highlight
+
+# Structured Extraction
+extract-menu = Extract Data with AI
+extract-title = Structured Extraction
+extract-progress = Extracting { $done } of { $total }…
+extract-done = Extracted { $count } items, { $failed } with errors
+extract-failed = Extraction failed: { $error }
+extract-save-title = Save Extraction Table
+
+# Batch Jobs
+batch-menu = Run Prompt on Items…
+batch-prompt = Prompt to run on { $count } items (type /command for a prompt template):
+batch-title = Batch Jobs
+batch-pause = Pause
+batch-resume = Resume
+batch-retry-failed = Retry Failed
+batch-remove = Remove
+batch-close = Close
+batch-empty = No batch jobs
+batch-status-running = Running: { $done } of { $total } done, { $failed } failed
+batch-status-paused = Paused: { $done } of { $total } done, { $failed } failed
+batch-status-done = Finished: { $done } of { $total } done, { $failed } failed
 
 # Document Reference
 chat-document-label = Documents
@@ -8,11 +8,19 @@ pref-pdf-max-chars = PDF Max Chars
 pref-pdf-max-chars-hint = -1 for full PDF, ⚠️ increases latency and cost
 pref-max-documents = Max Documents
 pref-max-documents-hint = Maximum documents to select for multi-document chat
+pref-context-length = Context Length
+pref-context-length-hint = Tokens; empty uses the model's default
+pref-keep-alive = Keep Alive
+pref-keep-alive-hint = How long the model stays loaded, e.g. 10m; -1 keeps it loaded
+pref-api-version = API Version
+pref-api-version-hint = Azure api-version; empty uses the default
 pref-system-prompt = System Prompt
 pref-system-prompt-placeholder =
     .placeholder = Optional: Custom instructions for AI. Note: Markdown formatting requirements (for math formulas, etc.) are already built-in.
 pref-streaming-output = Streaming Output
 pref-streaming-output-hint = Enable to see AI responses in real-time
+pref-rotate-keys = Rotate API Keys
+pref-rotate-keys-hint = Switch to the next API key or endpoint on rate limits or exhausted quota
 
 # Provider Settings
 pref-builtin-providers = Built-in Providers
@@ -73,6 +81,7 @@ pref-add-apikey = + Add API Key
 pref-edit-apikey = Edit API Key
 pref-delete-apikey = Delete API Key
 pref-enter-apikey = Enter API key:
+pref-enter-aws-credentials = Enter AWS credentials as ACCESS_KEY_ID:SECRET_ACCESS_KEY, optionally followed by :SESSION_TOKEN, or a Bedrock API key:
 pref-enter-apikey-name = API Key name (optional):
 pref-edit-apikey-name = Edit API Key name (optional):
 pref-apikey-exists = This API key already exists
@@ -88,3 +97,98 @@ pref-delete-provider-confirm = Are you sure you want to delete provider "{ $name
 pref-add-openai-endpoint = + Add OpenAI Compatible
 pref-openai-compatible = OpenAI Compatible
 pref-anthropic-compatible = Anthropic Compatible
+
+# Prompt Templates
+pref-templates = Prompt Templates
+pref-template-add = + Add Template
+pref-template-import = Import
+pref-template-export = Export
+pref-template-reset = Restore Defaults
+pref-template-reset-confirm = Replace all prompt templates with the built-in ones?
+pref-template-command = Command
+pref-template-description = Description
+pref-template-prompt = Prompt
+pref-template-save = Save
+pref-template-cancel = Cancel
+pref-template-delete = Delete template
+pref-template-variables-hint = Variables: {"{{"}title{"}}"}, {"{{"}authors{"}}"}, {"{{"}year{"}}"}, {"{{"}abstract{"}}"}, {"{{"}selection{"}}"}
+pref-template-invalid-command = Command may only contain letters, digits, "-" and "_"
+pref-template-empty-prompt = Prompt must not be empty
+pref-template-exists = A template with this command already exists
+pref-template-import-title = Import Prompt Templates
+pref-template-export-title = Export Prompt Templates
+pref-template-imported = Imported { $count } templates
+pref-template-import-failed = Failed to import templates
+pref-template-exported = Templates exported
+pref-template-export-failed = Failed to export templates
+
+# Fallback Providers
+pref-fallback = Fallback Providers
+pref-fallback-save = Save Order
+pref-fallback-saved = Fallback order saved
+pref-fallback-unknown = Unknown provider: { $provider }
+pref-fallback-hint = One provider ID per line, optionally "provider/model". When a request hits a rate limit, a server error or a network error, the answer is retried with these in order.
+
+# Structured Extraction
+pref-extraction = Structured Extraction
+pref-extraction-target = Write to
+pref-extraction-target-note =
+    .label = Child note
+pref-extraction-target-extra =
+    .label = Extra field
+pref-extraction-target-both =
+    .label = Note and Extra
+pref-extraction-save = Save Schema
+pref-extraction-reset = Restore Defaults
+pref-extraction-saved = Schema saved
+pref-extraction-invalid = Invalid schema: { $error }
+pref-extraction-hint = JSON array of fields with "name", "description" and "type" (string, number or boolean). Run it from the item context menu; multiple items are also saved as CSV/TSV.
+
+# Usage
+pref-usage = Usage
+pref-usage-daily =
+    .label = Daily
+pref-usage-monthly =
+    .label = Monthly
+pref-usage-reset = Reset
+pref-usage-reset-confirm = Are you sure you want to reset all usage totals?
+pref-usage-empty = No usage recorded yet
+pref-usage-model = Provider / Model
+pref-usage-requests = Requests
+pref-usage-input = Input
+pref-usage-output = Output
+pref-usage-cost = Est. Cost
+pref-usage-hint = Cost is estimated from the model prices set with the $ button in the model list
+pref-model-price = Set price
+pref-model-price-input = Input price of { $model } in USD per 1M tokens (empty to clear):
+pref-model-price-output = Output price of { $model } in USD per 1M tokens (empty to clear):
+pref-model-price-label = ${ $input } / ${ $output } per 1M tokens
+pref-model-price-invalid = Price must be a non-negative number
+
+# Chat history backups
+pref-history-backup = Chat History Backup
+pref-history-backup-restore = Restore
+pref-history-backup-none = No backups yet
+pref-history-backup-confirm = Replace all chat history with the backup from { $date }? The current history is backed up first.
+pref-history-backup-done = History restored
+pref-history-backup-busy = An answer is being written; restore once it is done
+pref-history-backup-failed = Restore failed: { $error }
+pref-history-backup-hint = A backup of the chat history is kept each day, up to the last 5. Damaged history is repaired on startup; unreadable files are kept in zota/quarantine. Exported conversations can be imported on another computer that syncs the same library.
+pref-history-export = Export All Conversations
+pref-history-import = Import Conversations
+pref-history-export-title = Export Conversations
+pref-history-import-title = Import Conversations
+pref-history-exported = Exported { $count } conversations
+pref-history-export-failed = Export failed: { $error }
+pref-history-imported = Imported { $imported } conversations, { $skipped } already up to date, { $unresolved } for items not in this library
+pref-history-import-failed = Import failed: { $error }
+pref-history-sync = Chat History Sync
+pref-history-sync-choose = Choose Folder…
+pref-history-sync-off = Turn Off
+pref-history-sync-now = Sync Now
+pref-history-sync-title = Choose Sync Folder
+pref-history-sync-disabled = Sync is off
+pref-history-sync-running = Syncing…
+pref-history-sync-done = Synced: { $pushed } sent, { $pulled } received, { $deleted } deleted
+pref-history-sync-failed = Sync failed: { $error }
+pref-history-sync-hint = Choose a folder synced between your computers (e.g. Dropbox or a WebDAV drive). Conversations are stored there by Zotero item key and synced every 10 minutes; edits on both computers are merged.
@@ -1,16 +1,37 @@
 # Chat Panel
 chat-toolbar-button-tooltip = 打开 AI 聊天面板
+chat-collection-menu = 与分类对话
+chat-collection-menu-subcollections = 与分类及子分类对话
 chat-error-no-provider = ⚠️ 无可用 AI 提供商。请在设置中配置提供商。
+chat-error-hint-rate-limit = 提供商正在限制请求频率。请稍候再重新生成，或在设置中添加更多 API 密钥并开启密钥轮换。
+chat-error-hint-auth = API 密钥被拒绝。请在设置中检查该提供商的密钥。
+chat-error-hint-quota = 该 API 密钥的额度或余额已用尽。请充值，或在设置中添加其他密钥并开启密钥轮换。
+chat-error-hint-context-length = 对话超出该模型的上下文长度。请新建对话、减少附加文档或降低 PDF 字符上限。
+chat-error-hint-server = 提供商服务器出错。请稍后重新生成。
+chat-fallback-notice = ↪ 备用回答，{ $provider } 请求失败
 chat-start-conversation = 开始对话
 chat-attach-pdf = 附加 PDF
+chat-pdf-mode-tooltip = PDF 内容附加到问题的方式
+chat-pdf-mode-full = 全文
+chat-pdf-mode-smart = 智能上下文
+chat-attach-annotations = 附加注释
+chat-attach-annotations-tooltip = 附带此 PDF 的高亮、笔记和评论（含颜色、页码和标签）
+chat-tools-toggle = 文库工具
+chat-tools-tooltip = 允许 AI 检索文库、读取元数据、注释和 PDF 页面
 chat-new-chat = 新聊天
 chat-history = 聊天历史
-chat-input-placeholder = 询问关于 PDF 的问题...
+chat-input-placeholder = 询问关于 PDF 的问题，或输入 / 使用提示词模板...
 chat-send = 发送
 chat-no-messages = (无消息)
 chat-message-count = { $count } 条消息
 chat-show-more = 显示更多 ({ $count } 剩余)
 chat-no-history = 无聊天历史
+chat-search-placeholder = 搜索所有对话
+chat-search-from = 开始日期
+chat-search-to = 结束日期
+chat-search-all-providers = 所有提供商
+chat-search-all-documents = 所有文档
+chat-search-no-results = 没有匹配的对话
 chat-close = 关闭
 chat-open-settings = 打开设置
 chat-select-model = 选择模型
@@ -20,6 +41,16 @@ chat-switch-to-sidebar = 切换到侧边栏模式
 chat-no-models = 无可用模型
 chat-configure-provider = 请先在设置中配置提供商
 chat-model-list-title = 模型列表
+chat-session-model-pin = 将模型固定到此对话
+chat-session-model-unpin = 取消固定此对话的模型
+chat-session-model-tooltip = 此对话使用 { $provider } / { $model }。点击以恢复使用全局模型。
+chat-compare = 对比模型
+chat-compare-active = 正在对比 { $count } 个服务商
+chat-compare-title = 最多对比 { $max } 个服务商
+chat-compare-need-providers = 请至少配置两个服务商以进行对比
+chat-compare-keep = 保留
+chat-compare-keep-tooltip = 保留此回答作为回复
+chat-compare-failed = 没有服务商返回回答
 chat-delete = 删除
 chat-export-note = 导出为笔记
 chat-pin = 固定到顶部
@@ -30,6 +61,11 @@ chat-copy-code = 复制
 chat-regenerate = 重新生成
 chat-prev-version = 上一个版本
 chat-next-version = 下一个版本
+chat-prev-branch = 上一个分支
+chat-next-branch = 下一个分支
+chat-edit-question = 编辑问题（创建新分支）
+chat-edit-save = 发送
+chat-edit-cancel = 取消
 chat-version-indicator = { $current }/{ $total }
 chat-quote-label = 引用
 chat-image-label = 图片
@@ -41,12 +77,47 @@ chat-continue-prompt = 请接续你之前的内容，不要重复之前已经回
 chat-enable-thinking = 启用思考模式
 chat-disable-thinking = 关闭思考模式
 chat-thinking-title = 思考过程
+chat-tool-calls-title = 文库工具调用（{ $count }）
+chat-tool-limit-reached = 工具调用次数过多，已停止。请尝试更具体的问题。
+chat-summary-boundary = 已总结之前的 { $count } 条消息
+chat-summary-boundary-tooltip = 之前的消息将以此总结发送，以缩短请求。点击查看总结。
+chat-token-indicator = 预计请求大小：{ $tokens } / { $limit } 个输入 token（当前模型）
+chat-token-indicator-over-limit = 预计请求大小：{ $tokens } 个 token，超过当前模型的 { $limit } 个输入 token。较早的消息和文档内容将被裁剪。
 chat-openai-reasoning-effort = 设置推理强度
 chat-openai-reasoning-effort-title = 推理强度
 chat-thinking-effort = 设置思考强度
 chat-thinking-effort-title = 思考强度
 chat-copy = 复制
 chat-copied = 已复制！
+chat-citation-goto-page = 跳转到 PDF 第 { $page } 页
+chat-highlight-in-pdf = 在 PDF 中高亮
+chat-highlight-with-comment = 高亮并添加评论
+chat-highlight-done = 已添加高亮
+chat-highlight-no-reader = 无法打开此对话的 PDF
+chat-highlight-not-found = 未在 PDF 中找到该段落
+chat-highlight-failed = 无法创建高亮
+
+# Structured Extraction
+extract-menu = 用 AI 提取数据
+extract-title = 结构化提取
+extract-progress = 正在提取 { $done } / { $total }…
+extract-done = 已提取 { $count } 个条目，其中 { $failed } 个有错误
+extract-failed = 提取失败：{ $error }
+extract-save-title = 保存提取表格
+
+# Batch Jobs
+batch-menu = 对条目批量运行提示词…
+batch-prompt = 要对 { $count } 个条目运行的提示词（输入 /命令 使用提示词模板）：
+batch-title = 批量任务
+batch-pause = 暂停
+batch-resume = 继续
+batch-retry-failed = 重试失败项
+batch-remove = 移除
+batch-close = 关闭
+batch-empty = 暂无批量任务
+batch-status-running = 运行中：已完成 { $done } / { $total }，失败 { $failed }
+batch-status-paused = 已暂停：已完成 { $done } / { $total }，失败 { $failed }
+batch-status-done = 已结束：已完成 { $done } / { $total }，失败 { $failed }
 
 # Document Reference
 chat-document-label = 文档
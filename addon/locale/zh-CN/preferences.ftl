@@ -8,11 +8,19 @@ pref-pdf-max-chars = PDF字符上限
 pref-pdf-max-chars-hint = -1 完整上传，⚠️ 增加延迟和费用
 pref-max-documents = 最大文档数
 pref-max-documents-hint = 多文档聊天时最多可选文档数量
+pref-context-length = 上下文长度
+pref-context-length-hint = Token 数；留空则使用模型默认值
+pref-keep-alive = 保持加载
+pref-keep-alive-hint = 模型保持加载的时长，例如 10m；-1 表示一直加载
+pref-api-version = API 版本
+pref-api-version-hint = Azure api-version；留空则使用默认值
 pref-system-prompt = 系统提示词
 pref-system-prompt-placeholder =
     .placeholder = 可选：自定义 AI 指令。注意：Markdown 格式要求（数学公式等）已内置。
 pref-streaming-output = 流式输出
 pref-streaming-output-hint = 开启后实时显示 AI 响应
+pref-rotate-keys = 轮换 API 密钥
+pref-rotate-keys-hint = 遇到限流或额度用尽时切换到下一个 API 密钥或端点
 
 # Provider Settings
 pref-builtin-providers = 内置提供商
@@ -73,6 +81,7 @@ pref-add-apikey = + 新增 API 密钥
 pref-edit-apikey = 修改 API 密钥
 pref-delete-apikey = 删除 API 密钥
 pref-enter-apikey = 请输入 API 密钥:
+pref-enter-aws-credentials = 请输入 AWS 凭证，格式为 ACCESS_KEY_ID:SECRET_ACCESS_KEY，可在后面加上 :SESSION_TOKEN；也可输入 Bedrock API 密钥:
 pref-enter-apikey-name = API 密钥名称（可选）:
 pref-edit-apikey-name = 修改 API 密钥名称（可选）:
 pref-apikey-exists = 该 API 密钥已存在
@@ -88,3 +97,98 @@ pref-delete-provider-confirm = 确定要删除提供商 "{ $name }" 吗？
 pref-add-openai-endpoint = + 新增 OpenAI 兼容端点
 pref-openai-compatible = OpenAI 兼容端点
 pref-anthropic-compatible = Anthropic 兼容端点
+
+# Prompt Templates
+pref-templates = 提示词模板
+pref-template-add = + 添加模板
+pref-template-import = 导入
+pref-template-export = 导出
+pref-template-reset = 恢复默认
+pref-template-reset-confirm = 确定要用内置模板替换所有提示词模板吗？
+pref-template-command = 命令
+pref-template-description = 描述
+pref-template-prompt = 提示词
+pref-template-save = 保存
+pref-template-cancel = 取消
+pref-template-delete = 删除模板
+pref-template-variables-hint = 变量: {"{{"}title{"}}"}, {"{{"}authors{"}}"}, {"{{"}year{"}}"}, {"{{"}abstract{"}}"}, {"{{"}selection{"}}"}
+pref-template-invalid-command = 命令只能包含字母、数字、"-" 和 "_"
+pref-template-empty-prompt = 提示词不能为空
+pref-template-exists = 已存在使用该命令的模板
+pref-template-import-title = 导入提示词模板
+pref-template-export-title = 导出提示词模板
+pref-template-imported = 已导入 { $count } 个模板
+pref-template-import-failed = 导入模板失败
+pref-template-exported = 模板已导出
+pref-template-export-failed = 导出模板失败
+
+# Fallback Providers
+pref-fallback = 备用提供商
+pref-fallback-save = 保存顺序
+pref-fallback-saved = 备用顺序已保存
+pref-fallback-unknown = 未知提供商：{ $provider }
+pref-fallback-hint = 每行一个提供商 ID，可写作"提供商/模型"。请求遇到限流、服务器错误或网络错误时，将按顺序改用这些提供商重试。
+
+# Structured Extraction
+pref-extraction = 结构化提取
+pref-extraction-target = 写入
+pref-extraction-target-note =
+    .label = 子笔记
+pref-extraction-target-extra =
+    .label = 附加字段（Extra）
+pref-extraction-target-both =
+    .label = 笔记和附加字段
+pref-extraction-save = 保存模式
+pref-extraction-reset = 恢复默认
+pref-extraction-saved = 模式已保存
+pref-extraction-invalid = 模式无效：{ $error }
+pref-extraction-hint = 字段的 JSON 数组，每个字段包含 "name"、"description" 和 "type"（string、number 或 boolean）。在条目右键菜单中运行；多个条目时还会保存为 CSV/TSV。
+
+# Usage
+pref-usage = 用量
+pref-usage-daily =
+    .label = 按日
+pref-usage-monthly =
+    .label = 按月
+pref-usage-reset = 重置
+pref-usage-reset-confirm = 确定要重置所有用量统计吗？
+pref-usage-empty = 暂无用量记录
+pref-usage-model = 提供商 / 模型
+pref-usage-requests = 请求数
+pref-usage-input = 输入
+pref-usage-output = 输出
+pref-usage-cost = 预估费用
+pref-usage-hint = 费用根据模型列表中 $ 按钮设置的模型价格估算
+pref-model-price = 设置价格
+pref-model-price-input = { $model } 的输入价格（美元/百万 tokens，留空则清除）:
+pref-model-price-output = { $model } 的输出价格（美元/百万 tokens，留空则清除）:
+pref-model-price-label = ${ $input } / ${ $output } 每百万 tokens
+pref-model-price-invalid = 价格必须是非负数
+
+# Chat history backups
+pref-history-backup = 聊天历史备份
+pref-history-backup-restore = 恢复
+pref-history-backup-none = 暂无备份
+pref-history-backup-confirm = 用 { $date } 的备份替换全部聊天历史？当前历史会先被备份。
+pref-history-backup-done = 历史已恢复
+pref-history-backup-busy = 正在生成回答，请在完成后再恢复
+pref-history-backup-failed = 恢复失败：{ $error }
+pref-history-backup-hint = 每天保留一份聊天历史备份，最多保留最近 5 份。启动时会修复损坏的历史；无法读取的文件保存在 zota/quarantine 中。导出的对话可以在同步同一文库的其他电脑上导入。
+pref-history-export = 导出全部对话
+pref-history-import = 导入对话
+pref-history-export-title = 导出对话
+pref-history-import-title = 导入对话
+pref-history-exported = 已导出 { $count } 个对话
+pref-history-export-failed = 导出失败：{ $error }
+pref-history-imported = 已导入 { $imported } 个对话，{ $skipped } 个已是最新，{ $unresolved } 个的条目不在此文库中
+pref-history-import-failed = 导入失败：{ $error }
+pref-history-sync = 聊天历史同步
+pref-history-sync-choose = 选择文件夹…
+pref-history-sync-off = 关闭
+pref-history-sync-now = 立即同步
+pref-history-sync-title = 选择同步文件夹
+pref-history-sync-disabled = 同步已关闭
+pref-history-sync-running = 正在同步…
+pref-history-sync-done = 已同步：发送 { $pushed } 个，接收 { $pulled } 个，删除 { $deleted } 个
+pref-history-sync-failed = 同步失败：{ $error }
+pref-history-sync-hint = 选择一个在多台电脑间同步的文件夹（如 Dropbox 或 WebDAV 网盘）。对话按 Zotero 条目键保存在其中，每 10 分钟同步一次；两台电脑上的修改会被合并。
@@ -14,3 +14,25 @@ pref("panelMode", "sidebar");
 pref("keepWindowTop", false);
 pref("thinkingModeEnabled", false);
 pref("openaiReasoningEffort", "medium");
+
+// PDF Context
+pref("pdfContextMode", "full");
+
+// Tool Calling
+pref("toolsEnabled", false);
+
+// Prompt Templates (JSON, empty for the built-in templates)
+pref("promptTemplates", "");
+
+// Compare Mode (comma-separated provider IDs, empty when off)
+pref("compareProviders", "");
+
+// Structured Extraction (JSON schema, empty for the built-in fields)
+pref("extractionSchema", "");
+pref("extractionTarget", "note");
+
+// Batch Jobs (items processed at the same time)
+pref("batchConcurrency", 2);
+
+// Chat History Sync (folder synced between machines, empty when off)
+pref("historySyncFolder", "");
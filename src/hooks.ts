@@ -2,11 +2,22 @@ import { getString, initLocale } from "./utils/locale";
 import {
   registerPrefsScripts,
   unregisterPrefsScripts,
+  startHistorySync,
+  stopHistorySync,
 } from "./modules/preferences";
 import { createZToolkit } from "./utils/ztoolkit";
-import { registerToolbarButton, unregisterChatPanel } from "./modules/ui";
+import {
+  registerToolbarButton,
+  registerCollectionMenu,
+  registerExtractionMenu,
+  registerBatchMenu,
+  restoreBatchQueue,
+  destroyBatchQueue,
+  unregisterChatPanel,
+} from "./modules/ui";
 import { destroyProviderManager } from "./modules/providers";
 import {
+  closeStorageDatabase,
   registerItemTrashHandler,
   unregisterItemTrashHandler,
 } from "./modules/chat";
@@ -36,6 +47,12 @@ async function onStartup() {
     Zotero.getMainWindows().map((win) => onMainWindowLoad(win)),
   );
 
+  // Resume batch jobs interrupted by the last shutdown
+  await restoreBatchQueue();
+
+  // Sync chat history with the sync folder, if one is set
+  startHistorySync();
+
   addon.data.initialized = true;
 }
 
@@ -59,6 +76,9 @@ async function onMainWindowLoad(win: _ZoteroTypes.MainWindow): Promise<void> {
 
   // Register toolbar button for chat panel
   registerToolbarButton();
+  registerCollectionMenu();
+  registerExtractionMenu();
+  registerBatchMenu();
 }
 
 async function onMainWindowUnload(_win: Window): Promise<void> {
@@ -68,9 +88,12 @@ async function onMainWindowUnload(_win: Window): Promise<void> {
 
 function onShutdown(): void {
   ztoolkit.unregisterAll();
+  destroyBatchQueue();
+  stopHistorySync();
   unregisterChatPanel();
   destroyProviderManager();
   unregisterItemTrashHandler();
+  void closeStorageDatabase();
   addon.data.dialog?.window?.close();
   addon.data.alive = false;
   // @ts-expect-error - Plugin instance is not typed
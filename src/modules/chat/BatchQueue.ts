@@ -0,0 +1,307 @@
+/**
+ * BatchQueue - Run one prompt over many items in the background
+ *
+ * Jobs are saved after every state change, so they survive a restart:
+ * items that were running go back to pending and running jobs resume on
+ * restore. Each answer is saved as a child note of its item.
+ */
+
+import type { BatchJob, BatchJobItem, ChatSession } from "../../types/chat";
+import type { ChatManager } from "./ChatManager";
+import { getNoteExportService } from "./NoteExportService";
+import { fillPromptTemplate, getTemplateValues } from "./PromptTemplates";
+import { getPref } from "../../utils/prefs";
+import { ProviderError } from "../providers/ProviderError";
+
+// Requests per item, including the first one
+const MAX_ATTEMPTS = 3;
+// Delay before the first retry, doubled for each further retry
+const RETRY_DELAY_MS = 2000;
+const MAX_CONCURRENCY = 5;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class BatchQueue {
+  private chatManager: ChatManager;
+  private jobs: BatchJob[] = [];
+  private loaded: boolean = false;
+  private runningJobIds: Set<string> = new Set();
+  private listeners: Set<() => void> = new Set();
+  private stopped: boolean = false;
+  // Last write of the jobs file; writes run one after another
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(chatManager: ChatManager) {
+    this.chatManager = chatManager;
+  }
+
+  /**
+   * Load saved jobs and resume the ones that were running
+   */
+  async restore(): Promise<void> {
+    await this.load();
+    for (const job of this.jobs) {
+      if (job.status === "running") {
+        this.start(job);
+      }
+    }
+  }
+
+  /**
+   * Get all jobs, newest first
+   */
+  getJobs(): BatchJob[] {
+    return [...this.jobs].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Subscribe to job changes
+   * @returns Unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Queue a prompt over items and start running it
+   */
+  async createJob(items: Zotero.Item[], prompt: string): Promise<BatchJob> {
+    await this.load();
+    const firstLine = prompt.trim().split("\n")[0];
+    const now = Date.now();
+    const job: BatchJob = {
+      id: `${now}-${Math.random().toString(36).substring(2, 9)}`,
+      title:
+        firstLine.length > 50 ? firstLine.substring(0, 50) + "..." : firstLine,
+      prompt,
+      status: "running",
+      createdAt: now,
+      updatedAt: now,
+      items: items.map((item) => ({
+        itemId: item.id,
+        title: item.getDisplayTitle(),
+        status: "pending",
+        attempts: 0,
+      })),
+    };
+    this.jobs.push(job);
+    await this.save();
+    this.start(job);
+    return job;
+  }
+
+  /**
+   * Pause a job; items already sent finish first
+   */
+  async pauseJob(jobId: string): Promise<void> {
+    const job = this.findJob(jobId);
+    if (!job || job.status !== "running") return;
+    job.status = "paused";
+    await this.save();
+  }
+
+  async resumeJob(jobId: string): Promise<void> {
+    const job = this.findJob(jobId);
+    if (!job || job.status !== "paused") return;
+    job.status = "running";
+    delete job.error;
+    await this.save();
+    this.start(job);
+  }
+
+  /**
+   * Queue the failed items of a job again
+   */
+  async retryFailed(jobId: string): Promise<void> {
+    const job = this.findJob(jobId);
+    if (!job) return;
+    for (const entry of job.items) {
+      if (entry.status === "failed") {
+        entry.status = "pending";
+        entry.attempts = 0;
+        delete entry.error;
+      }
+    }
+    job.status = "running";
+    delete job.error;
+    await this.save();
+    this.start(job);
+  }
+
+  /**
+   * Remove a job; notes it created are kept
+   */
+  async removeJob(jobId: string): Promise<void> {
+    const job = this.findJob(jobId);
+    if (!job) return;
+    job.status = "paused";
+    this.jobs = this.jobs.filter((j) => j.id !== jobId);
+    await this.save();
+  }
+
+  /**
+   * Stop all workers without changing saved job states
+   */
+  stop(): void {
+    this.stopped = true;
+    this.listeners.clear();
+  }
+
+  private findJob(jobId: string): BatchJob | undefined {
+    return this.jobs.find((job) => job.id === jobId);
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    const stored = await this.chatManager.getStorageService().loadBatchJobs();
+    this.jobs = stored.map((job) => ({
+      ...job,
+      items: job.items.map((entry) =>
+        entry.status === "running"
+          ? { ...entry, status: "pending" as const }
+          : entry,
+      ),
+    }));
+    this.loaded = true;
+  }
+
+  private async save(): Promise<void> {
+    if (this.stopped) return;
+    // Workers save concurrently; overlapping writes of the same file fail
+    const saved = this.saving.then(() =>
+      this.chatManager.getStorageService().saveBatchJobs(this.jobs),
+    );
+    this.saving = saved.catch(() => undefined);
+    await saved;
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        ztoolkit.log("[BatchQueue] Listener error:", error);
+      }
+    }
+  }
+
+  /**
+   * Run a job in the background
+   * A run that fails, e.g. because the jobs could not be saved, pauses the
+   * job with the error so it can be resumed
+   */
+  private start(job: BatchJob): void {
+    this.run(job).catch((error) => {
+      ztoolkit.log("[BatchQueue] Job failed:", job.id, error);
+      job.status = "paused";
+      job.error = error instanceof Error ? error.message : String(error);
+      for (const entry of job.items) {
+        if (entry.status === "running") entry.status = "pending";
+      }
+      this.notify();
+      this.save().catch(() => undefined);
+    });
+  }
+
+  /**
+   * Work through the pending items of a job with bounded concurrency
+   */
+  private async run(job: BatchJob): Promise<void> {
+    if (this.runningJobIds.has(job.id)) return;
+    this.runningJobIds.add(job.id);
+
+    const concurrency = Math.min(
+      Math.max(Number(getPref("batchConcurrency")) || 1, 1),
+      MAX_CONCURRENCY,
+    );
+    const worker = async () => {
+      while (job.status === "running" && !this.stopped) {
+        const entry = job.items.find((e) => e.status === "pending");
+        if (!entry) return;
+        entry.status = "running";
+        await this.save();
+        await this.processItem(job, entry);
+        job.updatedAt = Date.now();
+        await this.save();
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      this.runningJobIds.delete(job.id);
+    }
+    if (this.stopped || job.status !== "running") return;
+
+    // Resumed while the last workers were finishing
+    if (job.items.some((entry) => entry.status === "pending")) {
+      this.start(job);
+      return;
+    }
+    if (job.items.every((entry) => entry.status !== "running")) {
+      job.status = "done";
+      await this.save();
+    }
+  }
+
+  /**
+   * Answer the prompt for one item and save it as a note
+   * Requests failing with a retryable provider error are retried.
+   * An item interrupted by pause or shutdown goes back to pending
+   */
+  private async processItem(job: BatchJob, entry: BatchJobItem): Promise<void> {
+    const item = await Zotero.Items.getAsync(entry.itemId);
+    if (!item) {
+      entry.status = "failed";
+      entry.error = "Item not found";
+      return;
+    }
+
+    const prompt = fillPromptTemplate(job.prompt, getTemplateValues(item, ""));
+    for (;;) {
+      let retryable: boolean;
+      entry.attempts++;
+      try {
+        const messages = await this.chatManager.runBatchPrompt(item, prompt);
+        const session: ChatSession = {
+          id: `${job.id}-${item.id}`,
+          itemId: item.id,
+          messages,
+          pdfAttached: true,
+          createdAt: job.createdAt,
+          updatedAt: Date.now(),
+          title: job.title,
+        };
+        const result = await getNoteExportService().exportSessionAsNote(
+          session,
+          item.id,
+        );
+        if (!result.success) {
+          throw new Error(result.message);
+        }
+        entry.status = "done";
+        entry.noteId = result.noteItem?.id;
+        delete entry.error;
+        return;
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+        ztoolkit.log("[BatchQueue] Item failed:", entry.itemId, error);
+        retryable = error instanceof ProviderError && error.isRetryable;
+      }
+
+      if (job.status !== "running" || this.stopped) {
+        entry.status = "pending";
+        return;
+      }
+      if (!retryable || entry.attempts >= MAX_ATTEMPTS) {
+        entry.status = "failed";
+        return;
+      }
+      await delay(RETRY_DELAY_MS * 2 ** (entry.attempts - 1));
+    }
+  }
+}
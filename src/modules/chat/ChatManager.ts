@@ -6,13 +6,58 @@
 import type {
   ChatMessage,
   ChatSession,
+  ComparisonAnswer,
+  ContentVersion,
+  DocumentReference,
+  ExtractionField,
+  ExtractionResult,
+  SessionModelPin,
+  MessageUsage,
+  PendingInput,
+  RetrievedChunk,
   SendMessageOptions,
+  SessionSearchQuery,
+  SessionSearchResult,
   StreamCallbacks,
   ChatManagerCallbacks,
+  TokenUsage,
+  UsageBucket,
 } from "../../types/chat";
-import type { ApiKeyProviderConfig } from "../../types/provider";
+import type { AIProvider, ApiKeyProviderConfig } from "../../types/provider";
+import type { ToolExchange } from "../../types/tool";
 import { StorageService } from "./StorageService";
-import { PdfExtractor } from "./PdfExtractor";
+import type { HistoryImportResult } from "./HistoryArchive";
+import { restoreStorageBackup } from "./StorageDatabase";
+import { PdfExtractor, formatAnnotations } from "./PdfExtractor";
+import { getPdfRetriever } from "./PdfRetriever";
+import { ZoteroTools } from "./ZoteroTools";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getContextBudget,
+  getTokenizerFamily,
+  planContext,
+  type ContextBudget,
+  type TokenizerFamily,
+} from "./TokenBudget";
+import {
+  applySummary,
+  buildSummaryRequest,
+  carriesSessionDocument,
+  getSummaryCandidate,
+  SUMMARY_SYSTEM_PROMPT,
+} from "./ConversationSummary";
+import {
+  buildCollectionContext,
+  getCollectionItems,
+  getCollectionSessionItemId,
+  isCollectionSessionItemId,
+} from "./CollectionContext";
+import {
+  buildExtractionRequest,
+  emptyExtractionValues,
+  parseExtractionResponse,
+} from "./StructuredExtraction";
 import {
   getProviderManager,
   SiliconFlowProvider,
@@ -23,6 +68,9 @@ import {
   OpenAIProvider,
   AnthropicProvider,
   GeminiProvider,
+  OllamaProvider,
+  ProviderError,
+  isNetworkError,
 } from "../providers";
 import { getString } from "../../utils/locale";
 import {
@@ -59,12 +107,85 @@ function getAbortController(): (new () => AbortController) | null {
   }
 }
 
+/**
+ * Stream a completion that always ends in onComplete or onError
+ * Providers return without calling back when a request is aborted before
+ * its stream starts; that is reported as an AbortError
+ */
+function streamCompletion(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+): Promise<void> {
+  let settled = false;
+  const settle = (error?: Error, fullContent = ""): void => {
+    if (settled) return;
+    settled = true;
+    if (error) {
+      callbacks.onError(error);
+    } else {
+      callbacks.onComplete(fullContent);
+    }
+  };
+
+  return provider
+    .streamChatCompletion(
+      messages,
+      {
+        ...callbacks,
+        onComplete: (fullContent) => settle(undefined, fullContent),
+        onError: (error) => settle(error),
+      },
+      signal,
+    )
+    .then(
+      () => {
+        if (settled) return;
+        const error = new Error(
+          signal?.aborted
+            ? "Request aborted"
+            : "Request ended without an answer",
+        );
+        if (signal?.aborted) error.name = "AbortError";
+        settle(error);
+      },
+      (error) =>
+        settle(error instanceof Error ? error : new Error(String(error))),
+    );
+}
+
+// Smart context block of a question, up to the next block
+const PDF_EXCERPTS_BLOCK =
+  /\[PDF Excerpts\]:\n[\s\S]*?(?=\n\n\[(?:PDF |Document: |Selected text|Question\])|$)/;
+
+/**
+ * Format retrieved chunks as the smart context block of a question
+ */
+function formatPdfExcerpts(chunks: RetrievedChunk[]): string {
+  const excerpts = chunks
+    .map((chunk) => `[Page ${chunk.pageLabel}]\n${chunk.text}`)
+    .join("\n\n");
+  return `[PDF Excerpts]:\n${excerpts}`;
+}
+
 export class ChatManager {
   // In-memory cache: itemId -> current active session
   private activeSessions: Map<number, ChatSession> = new Map();
+  // Sessions with a summary request in flight
+  private summarizingSessions: Set<string> = new Set();
+  // Estimated PDF tokens by "itemId/maxChars/family", for the token indicator
+  private pdfTokenCache: Map<string, number> = new Map();
   private activeItemId: number | null = null;
   private storageService: StorageService;
   private pdfExtractor: PdfExtractor;
+  private zoteroTools: ZoteroTools;
+
+  // Maximum model round-trips per message when tools are enabled
+  private static readonly MAX_TOOL_ITERATIONS = 6;
+
+  // Maximum providers answering side by side in compare mode
+  static readonly MAX_COMPARE_PROVIDERS = 3;
 
   // AbortController for cancelling streaming requests
   private currentAbortController: AbortController | null = null;
@@ -87,6 +208,7 @@ export class ChatManager {
   constructor() {
     this.storageService = new StorageService();
     this.pdfExtractor = new PdfExtractor();
+    this.zoteroTools = new ZoteroTools(this.pdfExtractor);
   }
 
   /**
@@ -96,15 +218,396 @@ export class ChatManager {
     return getProviderManager().getActiveProvider();
   }
 
+  /**
+   * Get the provider for a session: its pinned provider and model if set,
+   * otherwise the active provider
+   */
+  private getSessionProvider(session: ChatSession | null): AIProvider | null {
+    const pin = session?.modelPin;
+    if (!pin) return this.getActiveProvider();
+
+    const overrides: Partial<ApiKeyProviderConfig> = {
+      defaultModel: pin.model,
+    };
+    if (pin.temperature !== undefined) {
+      overrides.temperature = pin.temperature;
+    }
+    return getProviderManager().createProviderWithOverrides(
+      pin.providerId,
+      overrides,
+    );
+  }
+
   /**
    * Check if streaming is enabled
    */
-  private isStreamingEnabled(): boolean {
-    const provider = this.getActiveProvider();
+  private isStreamingEnabled(provider: AIProvider | null): boolean {
     if (!provider) return true;
     return provider.config.streamingOutput ?? true;
   }
 
+  /**
+   * Get the global reasoning or thinking effort pref for a provider's type
+   */
+  private getGlobalReasoningEffort(provider: AIProvider): string | undefined {
+    if (provider instanceof AnthropicProvider) {
+      return (getClaudeThinkingEffort() as string) || "none";
+    }
+    if (provider instanceof GeminiProvider) {
+      return (getGeminiThinkingEffort() as string) || "none";
+    }
+    if (provider instanceof OpenAIProvider) {
+      return (getPref("openaiReasoningEffort") as string) || "medium";
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply thinking settings to the provider before a request
+   * Settings pinned to a session take precedence over the global prefs
+   */
+  private configureThinking(provider: AIProvider, pin?: SessionModelPin): void {
+    const thinkingModeEnabled =
+      pin?.thinkingModeEnabled ?? (getPref("thinkingModeEnabled") as boolean);
+    const currentModel = pin?.model ?? ((getPref("model") as string) || "");
+
+    // Set thinking mode for SiliconFlow, MiniMax and Ollama providers
+    if (
+      provider instanceof SiliconFlowProvider ||
+      provider instanceof MiniMaxProvider ||
+      provider instanceof OllamaProvider
+    ) {
+      provider.setThinkingMode(thinkingModeEnabled);
+    }
+
+    // Set thinking mode and current model for DeepSeek, Kimi and GLM providers
+    if (
+      provider instanceof DeepSeekProvider ||
+      provider instanceof KimiProvider ||
+      provider instanceof GLMProvider
+    ) {
+      provider.setThinkingMode(thinkingModeEnabled);
+      provider.setCurrentModel(currentModel);
+    }
+
+    const effort =
+      pin?.reasoningEffort ?? this.getGlobalReasoningEffort(provider);
+
+    // Set reasoning effort for OpenAI provider
+    if (provider instanceof OpenAIProvider) {
+      provider.setReasoningEffort(
+        effort as "none" | "low" | "medium" | "high" | "xhigh",
+      );
+    }
+
+    // Set thinking effort for Anthropic/Claude and Gemini providers
+    if (
+      provider instanceof AnthropicProvider ||
+      provider instanceof GeminiProvider
+    ) {
+      provider.setThinkingEffort(effort as "none" | "low" | "medium" | "high");
+    }
+  }
+
+  /**
+   * Check if library tools should be offered to the provider
+   */
+  private shouldUseTools(provider: AIProvider): boolean {
+    return !!getPref("toolsEnabled") && provider.supportsToolCalling();
+  }
+
+  /**
+   * Identify a provider and model among those tried for one answer
+   */
+  private getProviderKey(provider: AIProvider): string {
+    return `${provider.config.id}/${provider.config.defaultModel}`;
+  }
+
+  /**
+   * Get the thinking settings for a fallback provider or a comparison
+   * column: its own model with the global thinking prefs, since the session
+   * pin is for another provider
+   */
+  private getFallbackPin(provider: AIProvider): SessionModelPin {
+    return {
+      providerId: provider.config.id,
+      model: provider.config.defaultModel,
+    };
+  }
+
+  /**
+   * Get the next fallback provider to retry a failed request with
+   * Only rate limits, server errors and network errors fall back; each
+   * provider and model is tried once per answer
+   */
+  private getFallbackProvider(
+    error: Error,
+    triedProviders: Set<string>,
+  ): AIProvider | null {
+    const retryable =
+      error instanceof ProviderError
+        ? error.isRetryable
+        : isNetworkError(error);
+    if (!retryable) return null;
+    return (
+      getProviderManager()
+        .getFallbackProviders()
+        .find(
+          (provider) => !triedProviders.has(this.getProviderKey(provider)),
+        ) || null
+    );
+  }
+
+  /**
+   * Reset a failed answer for a fallback provider, keeping the provider
+   * that failed first for the notice shown with the answer
+   */
+  private switchToFallback(
+    message: ChatMessage,
+    failed: AIProvider,
+    fallback: AIProvider,
+    error: Error,
+  ): void {
+    ztoolkit.log(
+      "[Fallback]",
+      failed.config.id,
+      "failed, retrying with",
+      fallback.config.id,
+    );
+    message.fallbackFrom ??= {
+      providerId: failed.config.id,
+      model: failed.config.defaultModel,
+      error: error.message,
+    };
+    message.providerId = fallback.config.id;
+    message.model = fallback.config.defaultModel;
+    message.content = "";
+    delete message.reasoningContent;
+    delete message.toolCalls;
+  }
+
+  /**
+   * Get the input token budget of the provider's current model
+   */
+  private getContextBudget(provider: AIProvider): ContextBudget {
+    const modelInfo = getProviderManager().getModelInfo(
+      provider.config.id,
+      provider.config.defaultModel,
+    );
+    return getContextBudget(provider.config, modelInfo);
+  }
+
+  /**
+   * Trim the request history so it fits the model's context window
+   */
+  private fitToContextWindow(
+    provider: AIProvider,
+    messages: ChatMessage[],
+  ): ChatMessage[] {
+    const budget = this.getContextBudget(provider);
+    const plan = planContext(
+      applySummary(messages),
+      budget.inputLimit,
+      getTokenizerFamily(provider.config.type),
+    );
+    if (plan.droppedMessages > 0 || plan.truncated) {
+      ztoolkit.log(
+        "[ChatManager] Context trimmed to fit the context window:",
+        `${plan.droppedMessages} messages dropped,`,
+        `document content truncated: ${plan.truncated},`,
+        `~${plan.estimatedTokens}/${budget.inputLimit} tokens`,
+      );
+    }
+    return plan.messages;
+  }
+
+  /**
+   * Estimate the tokens of the next request for an item's active session
+   * @param pending Text typed in the input and the attachments not yet sent
+   */
+  async estimateContextUsage(
+    itemId: number,
+    pending: PendingInput,
+  ): Promise<{ tokens: number; limit: number } | null> {
+    const session = await this.getActiveSession(itemId);
+    const provider = this.getSessionProvider(session);
+    if (!provider) return null;
+
+    const family = getTokenizerFamily(provider.config.type);
+    const historyTokens = applySummary(session?.messages ?? []).reduce(
+      (sum, message) => sum + estimateMessageTokens(message, family),
+      0,
+    );
+
+    const pdfMaxChars = provider.config.pdfMaxChars ?? 50000;
+    let pendingTokens = estimateMessageTokens(
+      {
+        id: "",
+        role: "user",
+        content: pending.text,
+        timestamp: 0,
+        images: pending.images,
+      },
+      family,
+    );
+    for (const doc of pending.documents ?? []) {
+      pendingTokens += await this.estimatePdfTokens(
+        doc.id,
+        pdfMaxChars,
+        family,
+      );
+    }
+    // The full text is only sent when not attached yet; smart context
+    // retrieves up to the same limit on every turn
+    const pdfAlreadyAttached =
+      pending.pdfContextMode !== "smart" && session?.pdfAttached;
+    if (pending.pdfItemId && !pdfAlreadyAttached) {
+      pendingTokens += await this.estimatePdfTokens(
+        pending.pdfItemId,
+        pdfMaxChars,
+        family,
+      );
+    }
+
+    return {
+      tokens: historyTokens + pendingTokens,
+      limit: this.getContextBudget(provider).inputLimit,
+    };
+  }
+
+  /**
+   * Estimate the tokens of an item's PDF text, up to a character limit
+   * Counts are cached, as the estimate is updated while typing
+   * @param pdfMaxChars Truncation limit, -1 for unlimited
+   */
+  private async estimatePdfTokens(
+    itemId: number,
+    pdfMaxChars: number,
+    family: TokenizerFamily,
+  ): Promise<number> {
+    const key = `${itemId}/${pdfMaxChars}/${family}`;
+    let tokens = this.pdfTokenCache.get(key);
+    if (tokens === undefined) {
+      const item = await Zotero.Items.getAsync(itemId);
+      const text = item
+        ? await this.pdfExtractor.extractPdfTextWithPageMarkers(
+            item as Zotero.Item,
+          )
+        : null;
+      const truncated =
+        text && pdfMaxChars > 0 ? text.substring(0, pdfMaxChars) : text;
+      tokens = truncated ? estimateTokens(truncated, family) : 0;
+      this.pdfTokenCache.set(key, tokens);
+    }
+    return tokens;
+  }
+
+  /**
+   * Record the usage of a request in the usage totals
+   * @param message Answer the usage is attached to, if any
+   */
+  private recordUsage(
+    provider: AIProvider,
+    usage: TokenUsage,
+    message?: ChatMessage,
+  ): void {
+    const messageUsage: MessageUsage = {
+      ...usage,
+      providerId: provider.config.id,
+      model: provider.config.defaultModel,
+    };
+    if (message) {
+      message.usage = messageUsage;
+    }
+    this.storageService.recordUsage(messageUsage).catch((error) => {
+      ztoolkit.log("[ChatManager] Failed to record usage:", error);
+    });
+  }
+
+  /**
+   * Run the tool loop: let the model call Zotero tools until it answers
+   * Executed calls are recorded on the message for display. When streaming,
+   * each round's text is shown as it arrives and dropped again if the
+   * round ends in tool calls.
+   */
+  private async runToolLoop(
+    provider: AIProvider,
+    contextMessages: ChatMessage[],
+    message: ChatMessage,
+    itemId: number,
+    sessionId: string,
+    allMessages: ChatMessage[],
+    stream: boolean,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const tools = this.zoteroTools.getDefinitions();
+    const exchanges: ToolExchange[] = [];
+    message.toolCalls = [];
+    // Usage summed over all iterations
+    const usage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedInputTokens: 0,
+    };
+    let hasUsage = false;
+
+    const onChunk = (chunk: string): void => {
+      message.content += chunk;
+      this.onStreamingUpdate?.(itemId, message.content, sessionId);
+    };
+
+    for (let i = 0; i < ChatManager.MAX_TOOL_ITERATIONS; i++) {
+      message.content = "";
+      const result = stream
+        ? await provider.streamChatCompletionWithTools(
+            contextMessages,
+            tools,
+            exchanges,
+            onChunk,
+            signal,
+          )
+        : await provider.chatCompletionWithTools(
+            contextMessages,
+            tools,
+            exchanges,
+            signal,
+          );
+      if (result.usage) {
+        usage.inputTokens += result.usage.inputTokens;
+        usage.outputTokens += result.usage.outputTokens;
+        usage.cachedInputTokens += result.usage.cachedInputTokens ?? 0;
+        hasUsage = true;
+      }
+      if (result.toolCalls.length === 0) {
+        if (hasUsage) this.recordUsage(provider, usage, message);
+        return result.content;
+      }
+
+      const results = [];
+      for (const call of result.toolCalls) {
+        const toolResult = await this.zoteroTools.execute(call);
+        results.push(toolResult);
+        message.toolCalls.push({
+          name: call.name,
+          arguments: call.arguments,
+          result: toolResult.content,
+          isError: toolResult.isError,
+        });
+      }
+      this.onMessageUpdate?.(itemId, allMessages, sessionId);
+
+      exchanges.push({
+        content: result.content,
+        toolCalls: result.toolCalls,
+        results,
+      });
+    }
+
+    ztoolkit.log("[ChatManager] Tool iteration limit reached");
+    if (hasUsage) this.recordUsage(provider, usage, message);
+    return getString("chat-tool-limit-reached");
+  }
+
   /**
    * Set UI callbacks
    */
@@ -186,6 +689,37 @@ export class ChatManager {
     await this.storageService.saveSession(session);
   }
 
+  /**
+   * Get a document's PDF text as a "[Document: title]" block
+   * @param pdfMaxChars Truncation limit, -1 for unlimited
+   * @returns The block, or null when the document has no readable PDF
+   */
+  private async extractDocumentContent(
+    doc: DocumentReference,
+    pdfMaxChars: number,
+  ): Promise<string | null> {
+    try {
+      const zoteroItem = await Zotero.Items.getAsync(doc.id);
+      if (!zoteroItem) return null;
+
+      const pdfText = await this.pdfExtractor.extractPdfTextWithPageMarkers(
+        zoteroItem as Zotero.Item,
+      );
+      if (!pdfText) return null;
+
+      const truncatedText =
+        pdfMaxChars > 0 ? pdfText.substring(0, pdfMaxChars) : pdfText;
+      return `[Document: ${doc.title}]:\n${truncatedText}`;
+    } catch (error) {
+      ztoolkit.log(
+        "[ChatManager] Error extracting PDF for document:",
+        doc.id,
+        error,
+      );
+      return null;
+    }
+  }
+
   /**
    * Send message (unified method, supports both global chat and item-bound chat)
    * @param content Message content
@@ -197,7 +731,9 @@ export class ChatManager {
   ): Promise<void> {
     const item = options.item;
     let itemId = item?.id ?? 0;
-    const isGlobalChat = !item || item.id === 0;
+    // Collection sessions use a negative itemId and have no PDF of their own
+    const isGlobalChat =
+      !item || item.id === 0 || isCollectionSessionItemId(item.id);
 
     // Clear abort state from previous requests
     if (this.currentAbortController) {
@@ -239,37 +775,21 @@ export class ChatManager {
         itemId = 0;
       }
 
+      // Get PDF max chars config (default 50000, -1 means unlimited)
+      const providerManager = getProviderManager();
+      const providerConfig = providerManager.getProviderConfig(
+        providerManager.getActiveProviderId(),
+      ) as ApiKeyProviderConfig | null;
+      const pdfMaxChars = providerConfig?.pdfMaxChars ?? 50000;
+
       // Extract PDF content for each document
       for (const doc of options.documents) {
-        try {
-          const zoteroItem = await Zotero.Items.getAsync(doc.id);
-          if (zoteroItem) {
-            const pdfText = await this.pdfExtractor.extractPdfText(
-              zoteroItem as Zotero.Item,
-            );
-            if (pdfText) {
-              // Get PDF max chars config (default 50000, -1 means unlimited)
-              const providerManager = getProviderManager();
-              const activeProviderId = providerManager.getActiveProviderId();
-              const providerConfig = providerManager.getProviderConfig(
-                activeProviderId,
-              ) as ApiKeyProviderConfig | null;
-              const pdfMaxChars = providerConfig?.pdfMaxChars ?? 50000;
-
-              const truncatedText =
-                pdfMaxChars > 0 ? pdfText.substring(0, pdfMaxChars) : pdfText;
-
-              documentContents.push(
-                `[Document: ${doc.title}]:\n${truncatedText}`,
-              );
-            }
-          }
-        } catch (error) {
-          ztoolkit.log(
-            "[ChatManager] Error extracting PDF for document:",
-            doc.id,
-            error,
-          );
+        const documentContent = await this.extractDocumentContent(
+          doc,
+          pdfMaxChars,
+        );
+        if (documentContent) {
+          documentContents.push(documentContent);
         }
       }
     }
@@ -283,8 +803,8 @@ export class ChatManager {
       session.documentNames = documentNames;
     }
 
-    // Get active AI provider
-    const provider = this.getActiveProvider();
+    // Get the session's AI provider
+    const provider = this.getSessionProvider(session);
 
     if (!provider || !provider.isReady()) {
       const errorMessage: ChatMessage = {
@@ -311,8 +831,59 @@ export class ChatManager {
       pdfWasAttached = true;
     }
 
-    // 2. Process PDF content (only when attach PDF is checked and not already in session)
-    if (!isGlobalChat && options.attachPdf && item) {
+    // Whether this message carries the session's pdfContent
+    let pdfContentAttached = false;
+
+    // Collection chat: the context is built for the first question and,
+    // like the full PDF text, attached once per session
+    if (session.collectionId && !session.pdfAttached) {
+      const collection = Zotero.Collections.get(session.collectionId);
+      if (collection) {
+        const pdfMaxChars = provider.config.pdfMaxChars ?? 50000;
+
+        const collectionItems = getCollectionItems(
+          collection,
+          session.includeSubcollections ?? false,
+        );
+        const query = [content, options.selectedText || ""].join("\n");
+        const collectionContext =
+          session.pdfContent ||
+          (await buildCollectionContext(
+            this.pdfExtractor,
+            collectionItems,
+            query,
+            pdfMaxChars,
+          ));
+        if (collectionContext) {
+          session.pdfContent = collectionContext;
+          session.pdfAttached = true;
+          messageParts.push(collectionContext);
+          pdfWasAttached = true;
+          pdfContentAttached = true;
+        }
+      }
+    }
+
+    // 2. Process PDF content
+    // Smart mode: retrieve the chunks relevant to this question on every turn
+    // Full mode: attach the full text once per session
+    let retrievedChunks: RetrievedChunk[] | undefined;
+    const isSmartContext = options.pdfContextMode === "smart";
+    if (!isGlobalChat && options.attachPdf && item && isSmartContext) {
+      const query = [content, options.selectedText || ""].join("\n");
+      retrievedChunks =
+        (await this.retrievePdfChunks(
+          item,
+          query,
+          provider.config.pdfMaxChars ?? 50000,
+        )) ?? undefined;
+
+      if (retrievedChunks && retrievedChunks.length > 0) {
+        session.pdfAttached = true;
+        pdfWasAttached = true;
+        messageParts.push(formatPdfExcerpts(retrievedChunks));
+      }
+    } else if (!isGlobalChat && options.attachPdf && item) {
       // Check if PDF content is already attached to current session
       const isPdfAlreadyInContext = session.pdfAttached && session.pdfContent;
 
@@ -320,19 +891,16 @@ export class ChatManager {
         const pdfInfo = await this.pdfExtractor.getPdfInfo(item);
 
         // Prioritize text extraction
-        const pdfText = await this.pdfExtractor.extractPdfText(item);
+        const pdfText =
+          await this.pdfExtractor.extractPdfTextWithPageMarkers(item);
         if (pdfText) {
           session.pdfContent = pdfText;
           session.pdfAttached = true;
           pdfWasAttached = true;
+          pdfContentAttached = true;
 
           // Get PDF max chars config (default 50000, -1 means unlimited)
-          const providerManager = getProviderManager();
-          const activeProviderId = providerManager.getActiveProviderId();
-          const providerConfig = providerManager.getProviderConfig(
-            activeProviderId,
-          ) as ApiKeyProviderConfig | null;
-          const pdfMaxChars = providerConfig?.pdfMaxChars ?? 50000;
+          const pdfMaxChars = provider.config.pdfMaxChars ?? 50000;
 
           // Truncate or upload full content based on config
           const truncatedText =
@@ -343,7 +911,19 @@ export class ChatManager {
       }
     }
 
-    // 3. Process selected text
+    // 3. Process annotations (highlights, notes and comments)
+    let annotationCount: number | undefined;
+    if (!isGlobalChat && options.attachAnnotations && item) {
+      const annotations = await this.pdfExtractor.extractAnnotations(item);
+      if (annotations.length > 0) {
+        annotationCount = annotations.length;
+        messageParts.push(
+          `[PDF Annotations]:\n${formatAnnotations(annotations)}`,
+        );
+      }
+    }
+
+    // 4. Process selected text
     if (options.selectedText) {
       const prefix = isGlobalChat
         ? "[Selected text]"
@@ -351,7 +931,7 @@ export class ChatManager {
       messageParts.push(`${prefix}:\n"${options.selectedText}"`);
     }
 
-    // 4. Add user question
+    // 5. Add user question
     if (content) {
       messageParts.push(`[Question]:\n${content}`);
     }
@@ -366,6 +946,9 @@ export class ChatManager {
       content: finalContent,
       timestamp: Date.now(),
       pdfContext: options.attachPdf,
+      pdfContentAttached: pdfContentAttached || undefined,
+      retrievedChunks,
+      annotationCount,
       selectedText: options.selectedText,
       images: options.images,
       documents: options.documents,
@@ -410,6 +993,10 @@ export class ChatManager {
       };
     }
 
+    // Record which provider and model produce the answer
+    assistantMessage.providerId = provider.config.id;
+    assistantMessage.model = provider.config.defaultModel;
+
     // Only push if not continuing from existing message (message already exists)
     if (
       !continueFromMessageId ||
@@ -419,6 +1006,22 @@ export class ChatManager {
     }
     this.onMessageUpdate?.(itemId, session.messages, session.id);
 
+    // Compare mode: the answer is produced by several providers side by side
+    if (
+      options.compareProviderIds &&
+      options.compareProviderIds.length > 1 &&
+      !continueFromMessageId
+    ) {
+      await this.runComparison(
+        session,
+        itemId,
+        assistantMessage,
+        options.compareProviderIds,
+        pdfWasAttached,
+      );
+      return;
+    }
+
     // Store session ID for callbacks
     const currentSessionId = session.id;
 
@@ -429,76 +1032,36 @@ export class ChatManager {
       : null;
     const signal = this.currentAbortController?.signal;
 
-    // Check if streaming is enabled
-    const isStreaming = this.isStreamingEnabled();
-
     // Throttle save during streaming to reduce IO overhead
     let lastSaveTime = 0;
     let chunkCount = 0;
     const SAVE_INTERVAL_MS = 500; // Save at most every 500ms
     const SAVE_EVERY_N_CHUNKS = 10; // Or every 10 chunks
 
-    // Check thinking mode preference
-    const thinkingModeEnabled = getPref("thinkingModeEnabled") as boolean;
-
-    // Set thinking mode for SiliconFlow provider
-    if (provider instanceof SiliconFlowProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-    }
-
-    // Set thinking mode and current model for DeepSeek provider
-    if (provider instanceof DeepSeekProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
-
-    // Set thinking mode and current model for Kimi provider
-    if (provider instanceof KimiProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
-
-    // Set thinking mode and current model for GLM provider
-    if (provider instanceof GLMProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
+    // Providers already tried for this turn
+    const triedProviders = new Set<string>();
 
-    // Set thinking mode for MiniMax provider
-    if (provider instanceof MiniMaxProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-    }
+    // Call API; a failed request is handed to the next fallback provider
+    const attemptRequest = async (provider: AIProvider): Promise<void> => {
+      triedProviders.add(this.getProviderKey(provider));
 
-    // Set reasoning effort for OpenAI provider
-    if (provider instanceof OpenAIProvider) {
-      const reasoningEffort =
-        (getPref("openaiReasoningEffort") as string) || "medium";
-      provider.setReasoningEffort(
-        reasoningEffort as "none" | "low" | "medium" | "high" | "xhigh",
-      );
-    }
+      // Tool turns run in the tool loop, which streams on its own
+      const useTools = this.shouldUseTools(provider);
+      const isStreaming = this.isStreamingEnabled(provider) && !useTools;
 
-    // Set thinking effort for Anthropic/Claude provider
-    if (provider instanceof AnthropicProvider) {
-      const thinkingEffort = (getClaudeThinkingEffort() as string) || "none";
-      provider.setThinkingEffort(
-        thinkingEffort as "none" | "low" | "medium" | "high",
+      this.configureThinking(
+        provider,
+        triedProviders.size > 1
+          ? this.getFallbackPin(provider)
+          : session.modelPin,
       );
-    }
 
-    // Set thinking effort for Gemini provider
-    if (provider instanceof GeminiProvider) {
-      const thinkingEffort = (getGeminiThinkingEffort() as string) || "none";
-      provider.setThinkingEffort(
-        thinkingEffort as "none" | "low" | "medium" | "high",
+      // Fit history and document content into the model's context window
+      const contextMessages = this.fitToContextWindow(
+        provider,
+        session.messages.slice(0, -1),
       );
-    }
 
-    // Call API
-    const attemptRequest = async (): Promise<void> => {
       return new Promise((resolve) => {
         if (isStreaming) {
           // Streaming mode
@@ -515,7 +1078,7 @@ export class ChatManager {
 
               if (shouldSave) {
                 lastSaveTime = now;
-                await this.storageService.saveSession(session);
+                await this.storageService.saveSession(session, true);
               }
 
               this.onStreamingUpdate?.(
@@ -545,6 +1108,9 @@ export class ChatManager {
                 );
               }
             },
+            onUsage: (usage: TokenUsage) => {
+              this.recordUsage(provider, usage, assistantMessage);
+            },
             onComplete: async (fullContent: string) => {
               assistantMessage.content = fullContent;
               assistantMessage.timestamp = Date.now();
@@ -579,6 +1145,7 @@ export class ChatManager {
               }
               this.onMessageComplete?.(itemId, currentSessionId);
               resolve();
+              this.summarizeIfNeeded(session, itemId);
             },
             onError: async (error: Error) => {
               ztoolkit.log("[API Error]", error.message, "name:", error.name);
@@ -598,6 +1165,19 @@ export class ChatManager {
                 return;
               }
 
+              const fallback = this.getFallbackProvider(error, triedProviders);
+              if (fallback) {
+                this.switchToFallback(
+                  assistantMessage,
+                  provider,
+                  fallback,
+                  error,
+                );
+                await attemptRequest(fallback);
+                resolve();
+                return;
+              }
+
               // Show error message
               session.messages.pop();
 
@@ -605,6 +1185,8 @@ export class ChatManager {
                 id: this.generateId(),
                 role: "error",
                 content: error.message,
+                errorKind:
+                  error instanceof ProviderError ? error.kind : undefined,
                 timestamp: Date.now(),
               };
               session.messages.push(errorMessage);
@@ -620,17 +1202,27 @@ export class ChatManager {
             },
           };
 
-          provider.streamChatCompletion(
-            session.messages.slice(0, -1),
-            callbacks,
-            signal,
-          );
+          streamCompletion(provider, contextMessages, callbacks, signal);
         } else {
-          // Non-streaming mode
+          // Non-streaming mode, or the tool loop
           this.setSessionSendingState(itemId, currentSessionId, true);
 
-          provider
-            .chatCompletion(session.messages.slice(0, -1))
+          const completion = useTools
+            ? this.runToolLoop(
+                provider,
+                contextMessages,
+                assistantMessage,
+                itemId,
+                currentSessionId,
+                session.messages,
+                this.isStreamingEnabled(provider),
+                signal,
+              )
+            : provider.chatCompletion(contextMessages, (usage) =>
+                this.recordUsage(provider, usage, assistantMessage),
+              );
+
+          completion
             .then(async (fullContent: string) => {
               assistantMessage.content = fullContent;
               assistantMessage.timestamp = Date.now();
@@ -664,10 +1256,37 @@ export class ChatManager {
               }
               this.onMessageComplete?.(itemId, currentSessionId);
               resolve();
+              this.summarizeIfNeeded(session, itemId);
             })
             .catch(async (error: Error) => {
               ztoolkit.log("[API Error]", error.message);
 
+              if (error.name === "AbortError") {
+                ztoolkit.log("[API] Request aborted during tool calls");
+                assistantMessage.isComplete = false;
+                this.onMessageUpdate?.(
+                  itemId,
+                  session.messages,
+                  currentSessionId,
+                );
+                await this.storageService.saveSession(session);
+                resolve();
+                return;
+              }
+
+              const fallback = this.getFallbackProvider(error, triedProviders);
+              if (fallback) {
+                this.switchToFallback(
+                  assistantMessage,
+                  provider,
+                  fallback,
+                  error,
+                );
+                await attemptRequest(fallback);
+                resolve();
+                return;
+              }
+
               // Show error message
               session.messages.pop();
 
@@ -675,6 +1294,8 @@ export class ChatManager {
                 id: this.generateId(),
                 role: "error",
                 content: error.message,
+                errorKind:
+                  error instanceof ProviderError ? error.kind : undefined,
                 timestamp: Date.now(),
               };
               session.messages.push(errorMessage);
@@ -695,7 +1316,7 @@ export class ChatManager {
       });
     };
 
-    await attemptRequest();
+    await attemptRequest(provider);
     this.currentAbortController = null;
   }
 
@@ -728,14 +1349,13 @@ export class ChatManager {
       return;
     }
 
-    // Get active AI provider
-    const provider = this.getActiveProvider();
+    // Get the session's AI provider
+    const provider = this.getSessionProvider(session);
     if (!provider || !provider.isReady()) {
       ztoolkit.log("[Regenerate] Provider not ready");
       return;
     }
 
-    const isStreaming = this.isStreamingEnabled();
     const currentSessionId = session.id;
 
     // Create AbortController for this request (use safe getter for Zotero sandbox)
@@ -750,6 +1370,7 @@ export class ChatManager {
       // Convert error message to assistant message
       message.role = "assistant";
       message.content = "";
+      delete message.errorKind;
       message.contentVersions = [];
       message.currentVersionIndex = 0;
     } else {
@@ -763,6 +1384,8 @@ export class ChatManager {
         message.contentVersions.push({
           content: message.content,
           timestamp: message.timestamp,
+          providerId: message.providerId,
+          model: message.model,
         });
       }
 
@@ -770,6 +1393,16 @@ export class ChatManager {
       message.content = "";
     }
 
+    // Tool calls, compared answers and fallback notices belong to the
+    // previous generation
+    delete message.toolCalls;
+    delete message.comparison;
+    delete message.fallbackFrom;
+
+    // The new content may come from a different provider or model
+    message.providerId = provider.config.id;
+    message.model = provider.config.defaultModel;
+
     // Update timestamp
     message.timestamp = Date.now();
 
@@ -783,61 +1416,34 @@ export class ChatManager {
     const SAVE_INTERVAL_MS = 500;
     const SAVE_EVERY_N_CHUNKS = 10;
 
-    // Check thinking mode preference
-    const thinkingModeEnabled = getPref("thinkingModeEnabled") as boolean;
+    // Usage is reported again for the new content
+    message.usage = undefined;
 
-    // Set thinking mode for SiliconFlow provider
-    if (provider instanceof SiliconFlowProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-    }
+    // Providers already tried for this answer
+    const triedProviders = new Set<string>();
 
-    // Set thinking mode and current model for DeepSeek provider
-    if (provider instanceof DeepSeekProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
+    // Call API; a failed request is handed to the next fallback provider
+    const attemptRequest = async (provider: AIProvider): Promise<void> => {
+      triedProviders.add(this.getProviderKey(provider));
 
-    // Set thinking mode and current model for Kimi provider
-    if (provider instanceof KimiProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
-
-    // Set thinking mode and current model for GLM provider
-    if (provider instanceof GLMProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-      const currentModel = (getPref("model") as string) || "";
-      provider.setCurrentModel(currentModel);
-    }
+      // Tool turns run in the tool loop, which streams on its own
+      const useTools = this.shouldUseTools(provider);
+      const isStreaming = this.isStreamingEnabled(provider) && !useTools;
 
-    // Set thinking mode for MiniMax provider
-    if (provider instanceof MiniMaxProvider) {
-      provider.setThinkingMode(thinkingModeEnabled);
-    }
-
-    // Set thinking effort for Anthropic/Claude provider
-    if (provider instanceof AnthropicProvider) {
-      const thinkingEffort = (getClaudeThinkingEffort() as string) || "none";
-      provider.setThinkingEffort(
-        thinkingEffort as "none" | "low" | "medium" | "high",
+      this.configureThinking(
+        provider,
+        triedProviders.size > 1
+          ? this.getFallbackPin(provider)
+          : session.modelPin,
       );
-    }
 
-    // Set thinking effort for Gemini provider
-    if (provider instanceof GeminiProvider) {
-      const thinkingEffort = (getGeminiThinkingEffort() as string) || "none";
-      provider.setThinkingEffort(
-        thinkingEffort as "none" | "low" | "medium" | "high",
+      // Get messages up to this point for context (excluding the message being regenerated)
+      // and fit them into the model's context window
+      const contextMessages = this.fitToContextWindow(
+        provider,
+        session.messages.slice(0, messageIndex),
       );
-    }
-
-    // Get messages up to this point for context (excluding the message being regenerated)
-    const contextMessages = session.messages.slice(0, messageIndex);
 
-    // Call API
-    const attemptRequest = async (): Promise<void> => {
       return new Promise((resolve) => {
         if (isStreaming) {
           const callbacks: StreamCallbacks = {
@@ -852,7 +1458,7 @@ export class ChatManager {
 
               if (shouldSave) {
                 lastSaveTime = now;
-                await this.storageService.saveSession(session);
+                await this.storageService.saveSession(session, true);
               }
 
               this.onStreamingUpdate?.(
@@ -882,6 +1488,9 @@ export class ChatManager {
                 );
               }
             },
+            onUsage: (usage: TokenUsage) => {
+              this.recordUsage(provider, usage, message);
+            },
             onComplete: async (fullContent: string) => {
               message.content = fullContent;
               message.timestamp = Date.now();
@@ -893,6 +1502,8 @@ export class ChatManager {
               message.contentVersions.push({
                 content: fullContent,
                 timestamp: Date.now(),
+                providerId: provider.config.id,
+                model: provider.config.defaultModel,
               });
               message.currentVersionIndex = message.contentVersions.length - 1;
 
@@ -930,9 +1541,19 @@ export class ChatManager {
                 return;
               }
 
+              const fallback = this.getFallbackProvider(error, triedProviders);
+              if (fallback) {
+                this.switchToFallback(message, provider, fallback, error);
+                await attemptRequest(fallback);
+                resolve();
+                return;
+              }
+
               // Convert back to error message
               message.role = "error";
               message.content = error.message;
+              message.errorKind =
+                error instanceof ProviderError ? error.kind : undefined;
               message.timestamp = Date.now();
 
               this.onError?.(error, itemId, currentSessionId);
@@ -946,7 +1567,8 @@ export class ChatManager {
             },
           };
 
-          provider.streamChatCompletion(
+          streamCompletion(
+            provider,
             contextMessages,
             callbacks,
             this.currentAbortController?.signal,
@@ -954,8 +1576,22 @@ export class ChatManager {
         } else {
           this.setSessionSendingState(itemId, currentSessionId, true);
 
-          provider
-            .chatCompletion(contextMessages)
+          const completion = useTools
+            ? this.runToolLoop(
+                provider,
+                contextMessages,
+                message,
+                itemId,
+                currentSessionId,
+                session.messages,
+                this.isStreamingEnabled(provider),
+                signal,
+              )
+            : provider.chatCompletion(contextMessages, (usage) =>
+                this.recordUsage(provider, usage, message),
+              );
+
+          completion
             .then(async (fullContent: string) => {
               message.content = fullContent;
               message.timestamp = Date.now();
@@ -967,6 +1603,8 @@ export class ChatManager {
               message.contentVersions.push({
                 content: fullContent,
                 timestamp: Date.now(),
+                providerId: provider.config.id,
+                model: provider.config.defaultModel,
               });
               message.currentVersionIndex = message.contentVersions.length - 1;
 
@@ -1004,9 +1642,19 @@ export class ChatManager {
                 return;
               }
 
+              const fallback = this.getFallbackProvider(error, triedProviders);
+              if (fallback) {
+                this.switchToFallback(message, provider, fallback, error);
+                await attemptRequest(fallback);
+                resolve();
+                return;
+              }
+
               // Convert back to error message
               message.role = "error";
               message.content = error.message;
+              message.errorKind =
+                error instanceof ProviderError ? error.kind : undefined;
               message.timestamp = Date.now();
 
               this.onError?.(error, itemId, currentSessionId);
@@ -1025,12 +1673,211 @@ export class ChatManager {
       });
     };
 
-    await attemptRequest();
+    await attemptRequest(provider);
 
     // Clear AbortController after request completes
     this.currentAbortController = null;
   }
 
+  /**
+   * Send the request to several providers in parallel and collect their
+   * answers side by side on the message until one is kept
+   * Library tools are not offered while comparing
+   */
+  private async runComparison(
+    session: ChatSession,
+    itemId: number,
+    message: ChatMessage,
+    providerIds: string[],
+    pdfWasAttached: boolean,
+  ): Promise<void> {
+    const providerManager = getProviderManager();
+    const providers = providerIds
+      .map((id) => providerManager.getProvider(id))
+      .filter((provider): provider is AIProvider => !!provider?.isReady())
+      .slice(0, ChatManager.MAX_COMPARE_PROVIDERS);
+
+    delete message.providerId;
+    delete message.model;
+    const answers: ComparisonAnswer[] = providers.map((provider) => ({
+      providerId: provider.config.id,
+      model: provider.config.defaultModel,
+      content: "",
+    }));
+    message.comparison = answers;
+
+    const currentSessionId = session.id;
+    const AbortControllerCtor = getAbortController();
+    this.currentAbortController = AbortControllerCtor
+      ? new AbortControllerCtor()
+      : null;
+    const signal = this.currentAbortController?.signal;
+
+    this.setSessionSendingState(itemId, currentSessionId, true);
+    this.onMessageUpdate?.(itemId, session.messages, currentSessionId);
+
+    // Re-render at most every 300ms while the answers stream in
+    let lastUpdateTime = 0;
+    const UPDATE_INTERVAL_MS = 300;
+    const onProgress = () => {
+      const now = Date.now();
+      if (now - lastUpdateTime > UPDATE_INTERVAL_MS) {
+        lastUpdateTime = now;
+        this.onMessageUpdate?.(itemId, session.messages, currentSessionId);
+      }
+    };
+
+    const history = session.messages.slice(0, -1);
+    await Promise.all(
+      providers.map((provider, index) =>
+        this.requestComparisonAnswer(
+          provider,
+          this.fitToContextWindow(provider, history),
+          answers[index],
+          onProgress,
+          signal,
+        ),
+      ),
+    );
+
+    message.timestamp = Date.now();
+    message.isComplete = true;
+    session.updatedAt = Date.now();
+
+    // The first answer is sent with later questions until one is kept
+    const firstAnswer = answers.find(
+      (answer) => !answer.error && answer.content.trim(),
+    );
+    if (firstAnswer) {
+      message.content = firstAnswer.content;
+    } else {
+      message.role = "error";
+      message.content =
+        answers
+          .filter((answer) => answer.error)
+          .map((answer) => `${answer.providerId}: ${answer.error}`)
+          .join("\n") || getString("chat-compare-failed");
+      delete message.comparison;
+    }
+
+    if (!session.title) {
+      try {
+        await this.generateSessionTitle(session, itemId);
+      } catch (titleError) {
+        ztoolkit.log(
+          "Error generating title (ignored, continuing):",
+          titleError,
+        );
+      }
+    }
+
+    await this.storageService.saveSession(session);
+    this.setSessionSendingState(itemId, currentSessionId, false);
+    this.onMessageUpdate?.(itemId, session.messages, currentSessionId);
+
+    if (pdfWasAttached) {
+      this.onPdfAttached?.();
+    }
+    this.onMessageComplete?.(itemId, currentSessionId);
+    this.currentAbortController = null;
+  }
+
+  /**
+   * Request one answer of a comparison
+   * Failures are recorded on the answer so the other answers still complete
+   */
+  private async requestComparisonAnswer(
+    provider: AIProvider,
+    contextMessages: ChatMessage[],
+    answer: ComparisonAnswer,
+    onProgress: () => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this.configureThinking(provider, this.getFallbackPin(provider));
+    const onUsage = (usage: TokenUsage) => this.recordUsage(provider, usage);
+
+    try {
+      if (this.isStreamingEnabled(provider)) {
+        await new Promise<void>((resolve, reject) => {
+          streamCompletion(
+            provider,
+            contextMessages,
+            {
+              onChunk: (chunk: string) => {
+                answer.content += chunk;
+                onProgress();
+              },
+              onUsage,
+              onComplete: (fullContent: string) => {
+                answer.content = fullContent;
+                resolve();
+              },
+              onError: reject,
+            },
+            signal,
+          );
+        });
+      } else {
+        answer.content = await provider.chatCompletion(
+          contextMessages,
+          onUsage,
+        );
+      }
+      answer.isComplete = true;
+    } catch (error) {
+      const err = error as Error;
+      if (err.name === "AbortError") {
+        answer.isComplete = false;
+      } else {
+        ztoolkit.log("[Compare] Request failed:", answer.providerId, err);
+        answer.error = err.message;
+      }
+    }
+    onProgress();
+  }
+
+  /**
+   * Keep one answer of a comparison as the message's reply
+   * The other answers are kept as earlier versions of the message
+   */
+  async keepComparisonAnswer(
+    itemId: number,
+    messageId: string,
+    answerIndex: number,
+  ): Promise<void> {
+    const session = await this.getActiveSession(itemId);
+    const message = session?.messages.find((msg) => msg.id === messageId);
+    const answers = message?.comparison;
+    const kept = answers?.[answerIndex];
+    if (!session || !message || !answers || !kept || kept.error) {
+      ztoolkit.log("[Compare] Answer not found:", messageId, answerIndex);
+      return;
+    }
+
+    const toVersion = (answer: ComparisonAnswer): ContentVersion => ({
+      content: answer.content,
+      timestamp: message.timestamp,
+      providerId: answer.providerId,
+      model: answer.model,
+    });
+    const others = answers.filter(
+      (answer, index) =>
+        index !== answerIndex && !answer.error && answer.content.trim(),
+    );
+    message.contentVersions = [...others.map(toVersion), toVersion(kept)];
+    message.currentVersionIndex = message.contentVersions.length - 1;
+    message.content = kept.content;
+    message.providerId = kept.providerId;
+    message.model = kept.model;
+    message.isComplete = kept.isComplete !== false;
+    delete message.comparison;
+
+    session.updatedAt = Date.now();
+    await this.storageService.saveSession(session);
+    this.onMessageUpdate?.(itemId, session.messages, session.id);
+    this.summarizeIfNeeded(session, itemId);
+  }
+
   /**
    * Switch to a different version of a message
    */
@@ -1058,14 +1905,216 @@ export class ChatManager {
 
     // Update current version index and content
     message.currentVersionIndex = versionIndex;
-    message.content = message.contentVersions[versionIndex].content;
-    message.timestamp = message.contentVersions[versionIndex].timestamp;
+    const version = message.contentVersions[versionIndex];
+    message.content = version.content;
+    message.timestamp = version.timestamp;
+    if (version.providerId) {
+      message.providerId = version.providerId;
+      message.model = version.model;
+    }
 
     // Save and update UI
     await this.storageService.saveSession(session);
     this.onMessageUpdate?.(itemId, session.messages, session.id);
   }
 
+  /**
+   * Get the branches forking before a path position, including the selected
+   * one, oldest first
+   */
+  private getBranchesAt(
+    session: ChatSession,
+    index: number,
+  ): { parentId: string | null; branches: ChatMessage[][] } {
+    const parentId = index > 0 ? session.messages[index - 1].id : null;
+    const branches = [
+      session.messages.slice(index),
+      ...(session.branches ?? [])
+        .filter((branch) => branch.parentId === parentId)
+        .map((branch) => branch.messages),
+    ];
+    branches.sort((a, b) => a[0].timestamp - b[0].timestamp);
+    return { parentId, branches };
+  }
+
+  /**
+   * Update the branch position shown on questions of the selected path
+   */
+  private updateBranchPositions(session: ChatSession): void {
+    session.messages.forEach((msg, index) => {
+      const { branches } = this.getBranchesAt(session, index);
+      if (msg.role === "user" && branches.length > 1) {
+        msg.branchIndex = branches.findIndex((branch) => branch[0] === msg);
+        msg.branchCount = branches.length;
+      } else {
+        delete msg.branchIndex;
+        delete msg.branchCount;
+      }
+    });
+
+    // The full PDF text or collection context is sent once per session;
+    // attach it again if the message carrying it is no longer on the
+    // selected path
+    if (session.pdfContent && !session.messages.some(carriesSessionDocument)) {
+      session.pdfAttached = false;
+    }
+  }
+
+  /**
+   * Retrieve the chunks of an item's PDF relevant to a question
+   * @param pdfMaxChars Character budget of the chunks
+   * @returns null when the item has no readable PDF
+   */
+  private async retrievePdfChunks(
+    item: Zotero.Item,
+    query: string,
+    pdfMaxChars: number,
+  ): Promise<RetrievedChunk[] | null> {
+    const extracted = await this.pdfExtractor.extractPdfPages(item);
+    if (!extracted) return null;
+    return getPdfRetriever().retrieve(
+      extracted.attachmentId,
+      extracted.pages,
+      query,
+      { maxChars: pdfMaxChars },
+    );
+  }
+
+  /**
+   * Replace the question of a user message, keeping its attached context
+   */
+  private replaceQuestion(content: string, question: string): string {
+    const marker = "[Question]:";
+    const index = content.lastIndexOf(marker);
+    return index === -1
+      ? question
+      : `${content.substring(0, index)}${marker}\n${question}`;
+  }
+
+  /**
+   * Edit an earlier question and answer it on a new branch
+   * The question and everything after it are kept as an inactive branch.
+   * Excerpts retrieved for the old question are retrieved again.
+   */
+  async editUserMessage(
+    itemId: number,
+    messageId: string,
+    question: string,
+  ): Promise<void> {
+    const session = await this.getActiveSession(itemId);
+    if (!session) {
+      ztoolkit.log("[EditMessage] No active session found for item:", itemId);
+      return;
+    }
+
+    const index = session.messages.findIndex((msg) => msg.id === messageId);
+    const original = session.messages[index];
+    if (!original || original.role !== "user" || original.isHidden) {
+      ztoolkit.log("[EditMessage] Cannot edit message:", messageId);
+      return;
+    }
+
+    // Leave the session as it is when the question cannot be answered
+    const provider = this.getSessionProvider(session);
+    if (!provider || !provider.isReady()) {
+      this.onError?.(
+        new Error(
+          getString(
+            "chat-error-no-provider" as Parameters<typeof getString>[0],
+          ),
+        ),
+        itemId,
+        session.id,
+      );
+      return;
+    }
+
+    let content = this.replaceQuestion(original.content, question);
+    let retrievedChunks = original.retrievedChunks;
+    const item = retrievedChunks ? Zotero.Items.get(session.itemId) : null;
+    if (item) {
+      const chunks = await this.retrievePdfChunks(
+        item,
+        [question, original.selectedText || ""].join("\n"),
+        provider.config.pdfMaxChars ?? 50000,
+      );
+      if (chunks) {
+        retrievedChunks = chunks;
+        content = content.replace(
+          PDF_EXCERPTS_BLOCK,
+          chunks.length > 0 ? formatPdfExcerpts(chunks) : "",
+        );
+      }
+    }
+
+    const parentId = index > 0 ? session.messages[index - 1].id : null;
+    const tail = session.messages.splice(index);
+    session.branches = [
+      ...(session.branches ?? []),
+      { parentId, messages: tail },
+    ];
+
+    const edited: ChatMessage = {
+      ...original,
+      id: this.generateId(),
+      content: content.replace(/^\n+/, ""),
+      retrievedChunks,
+      timestamp: Date.now(),
+    };
+    const answer: ChatMessage = {
+      id: this.generateId(),
+      role: "assistant",
+      content: "",
+      timestamp: Date.now(),
+    };
+    session.messages.push(edited, answer);
+    this.updateBranchPositions(session);
+    session.updatedAt = Date.now();
+
+    await this.storageService.saveSession(session);
+    this.onMessageUpdate?.(itemId, session.messages, session.id);
+
+    await this.regenerateMessage(itemId, answer.id);
+  }
+
+  /**
+   * Select another branch forking at a question of the selected path
+   */
+  async switchBranch(
+    itemId: number,
+    messageId: string,
+    branchIndex: number,
+  ): Promise<void> {
+    const session = await this.getActiveSession(itemId);
+    if (!session) {
+      ztoolkit.log("[SwitchBranch] No active session found for item:", itemId);
+      return;
+    }
+
+    const index = session.messages.findIndex((msg) => msg.id === messageId);
+    if (index === -1) {
+      ztoolkit.log("[SwitchBranch] Message not found:", messageId);
+      return;
+    }
+
+    const { parentId, branches } = this.getBranchesAt(session, index);
+    const target = branches[branchIndex];
+    if (!target || target[0] === session.messages[index]) return;
+
+    const tail = session.messages.splice(index);
+    session.messages.push(...target);
+    session.branches = [
+      ...(session.branches ?? []).filter(
+        (branch) => branch.messages !== target,
+      ),
+      { parentId, messages: tail },
+    ];
+    this.updateBranchPositions(session);
+
+    await this.storageService.saveSession(session);
+    this.onMessageUpdate?.(itemId, session.messages, session.id);
+  }
+
   /**
    * Set sending state for a session
    */
@@ -1099,16 +2148,44 @@ export class ChatManager {
     }
 
     // Create new session
+    return this.createNewSession(itemId);
+  }
+
+  /**
+   * Create new session (for new chat button)
+   */
+  async createNewSession(itemId: number): Promise<ChatSession> {
     const newSession = await this.storageService.createNewSession(itemId);
+
+    // Keep collection settings when starting a new chat on a collection
+    if (isCollectionSessionItemId(itemId)) {
+      const previous = this.activeSessions.get(itemId);
+      const collection = Zotero.Collections.get(-itemId);
+      newSession.collectionId = -itemId;
+      newSession.collectionName =
+        (collection && collection.name) || previous?.collectionName;
+      newSession.includeSubcollections =
+        previous?.includeSubcollections ?? false;
+      await this.storageService.saveSession(newSession);
+    }
+
     this.activeSessions.set(itemId, newSession);
     return newSession;
   }
 
   /**
-   * Create new session (for new chat button)
+   * Create a new session over all items of a collection
    */
-  async createNewSession(itemId: number): Promise<ChatSession> {
+  async createCollectionSession(
+    collection: Zotero.Collection,
+    includeSubcollections: boolean,
+  ): Promise<ChatSession> {
+    const itemId = getCollectionSessionItemId(collection.id);
     const newSession = await this.storageService.createNewSession(itemId);
+    newSession.collectionId = collection.id;
+    newSession.collectionName = collection.name;
+    newSession.includeSubcollections = includeSubcollections;
+    await this.storageService.saveSession(newSession);
     this.activeSessions.set(itemId, newSession);
     return newSession;
   }
@@ -1189,6 +2266,76 @@ export class ChatManager {
     return newSession;
   }
 
+  /**
+   * Get the provider and model pinned to the item's active session
+   * (sync - from memory cache only)
+   */
+  getSessionModelPin(itemId: number): SessionModelPin | null {
+    return this.activeSessions.get(itemId)?.modelPin ?? null;
+  }
+
+  /**
+   * Pin the current global provider, model and thinking settings to the
+   * item's active session
+   */
+  async pinSessionModel(itemId: number): Promise<ChatSession | null> {
+    const providerManager = getProviderManager();
+    return this.setSessionModel(
+      itemId,
+      providerManager.getActiveProviderId(),
+      (getPref("model") as string) || "",
+    );
+  }
+
+  /**
+   * Set the provider and model of the item's active session
+   * Thinking settings are taken from the global prefs when first pinned or
+   * when the provider changes
+   */
+  async setSessionModel(
+    itemId: number,
+    providerId: string,
+    model: string,
+  ): Promise<ChatSession | null> {
+    const session = await this.getActiveSession(itemId);
+    if (!session) return null;
+
+    const pin = session.modelPin;
+    if (pin && pin.providerId === providerId) {
+      pin.model = model;
+    } else {
+      const provider = getProviderManager().createProviderWithOverrides(
+        providerId,
+        { defaultModel: model },
+      );
+      session.modelPin = {
+        providerId,
+        model,
+        temperature: provider?.config.temperature,
+        thinkingModeEnabled: getPref("thinkingModeEnabled") as boolean,
+        reasoningEffort: provider
+          ? this.getGlobalReasoningEffort(provider)
+          : undefined,
+      };
+    }
+
+    await this.storageService.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Remove the pinned provider and model so the session follows the global
+   * settings again
+   */
+  async unpinSessionModel(itemId: number): Promise<ChatSession | null> {
+    const session = await this.getActiveSession(itemId);
+    if (!session) return null;
+
+    delete session.modelPin;
+    await this.storageService.saveSession(session);
+    return session;
+  }
+
   /**
    * Delete specific session
    */
@@ -1219,6 +2366,124 @@ export class ChatManager {
     return this.pdfExtractor.hasPdfAttachment(item);
   }
 
+  /**
+   * Extract schema fields from each item's PDF with the active provider
+   * Items are processed one at a time; failures are reported per item
+   * @param onProgress Called before each item with the number done so far
+   */
+  async extractStructuredData(
+    items: Zotero.Item[],
+    fields: ExtractionField[],
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<ExtractionResult[]> {
+    const provider = this.getActiveProvider();
+    if (!provider || !provider.isReady()) {
+      throw new Error(
+        getString("chat-error-no-provider" as Parameters<typeof getString>[0]),
+      );
+    }
+    const pdfMaxChars = provider.config.pdfMaxChars ?? 50000;
+
+    const results: ExtractionResult[] = [];
+    for (const item of items) {
+      onProgress?.(results.length, items.length);
+      const title = item.getDisplayTitle();
+      const result: ExtractionResult = {
+        itemId: item.id,
+        itemKey: item.key,
+        title,
+        values: emptyExtractionValues(fields),
+        errors: [],
+      };
+      results.push(result);
+
+      const documentContent = await this.extractDocumentContent(
+        { id: item.id, title },
+        pdfMaxChars,
+      );
+      if (!documentContent) {
+        result.errors.push("No PDF text found");
+        continue;
+      }
+
+      try {
+        const response = await provider.chatCompletionJson(
+          [
+            {
+              id: this.generateId(),
+              role: "user",
+              content: buildExtractionRequest(fields, documentContent),
+              timestamp: Date.now(),
+            },
+          ],
+          (usage) => this.recordUsage(provider, usage),
+        );
+        Object.assign(result, parseExtractionResponse(response, fields));
+      } catch (error) {
+        ztoolkit.log(
+          "[ChatManager] Extraction failed for item:",
+          item.id,
+          error,
+        );
+        result.errors.push(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+    onProgress?.(results.length, items.length);
+    return results;
+  }
+
+  /**
+   * Answer a prompt about one item's PDF with the active provider
+   * Runs outside any session, for batch jobs; the answer is not streamed
+   * and no tools are offered
+   * @returns The question and answer messages
+   */
+  async runBatchPrompt(
+    item: Zotero.Item,
+    prompt: string,
+  ): Promise<ChatMessage[]> {
+    const provider = this.getActiveProvider();
+    if (!provider || !provider.isReady()) {
+      throw new Error(
+        getString("chat-error-no-provider" as Parameters<typeof getString>[0]),
+      );
+    }
+
+    const documentContent = await this.extractDocumentContent(
+      { id: item.id, title: item.getDisplayTitle() },
+      provider.config.pdfMaxChars ?? 50000,
+    );
+    if (!documentContent) {
+      throw new Error("No PDF text found");
+    }
+
+    const question: ChatMessage = {
+      id: this.generateId(),
+      role: "user",
+      content: `${documentContent}\n\n[Question]:\n${prompt}`,
+      timestamp: Date.now(),
+      pdfContext: true,
+    };
+    let usage: TokenUsage | undefined;
+    const content = await provider.chatCompletion([question], (reported) => {
+      usage = reported;
+    });
+    const answer: ChatMessage = {
+      id: this.generateId(),
+      role: "assistant",
+      content,
+      timestamp: Date.now(),
+      providerId: provider.config.id,
+      model: provider.config.defaultModel,
+    };
+    if (usage) {
+      this.recordUsage(provider, usage, answer);
+    }
+    return [question, answer];
+  }
+
   /**
    * Get selected PDF text
    */
@@ -1233,6 +2498,13 @@ export class ChatManager {
     return this.pdfExtractor;
   }
 
+  /**
+   * Get storage service
+   */
+  getStorageService(): StorageService {
+    return this.storageService;
+  }
+
   /**
    * Generate unique ID
    */
@@ -1255,6 +2527,77 @@ export class ChatManager {
     "- IMPORTANT: The title MUST be in the SAME LANGUAGE as the user's message\n\n" +
     "Respond with ONLY the title, nothing else.";
 
+  /**
+   * Roll older turns into a summary once the sent history grows too long
+   * Runs after an answer completes; failures leave the session unchanged
+   */
+  private async summarizeIfNeeded(
+    session: ChatSession,
+    itemId: number,
+  ): Promise<void> {
+    const provider = this.getSessionProvider(session);
+    if (!provider || !provider.isReady()) return;
+    if (this.summarizingSessions.has(session.id)) return;
+
+    const candidate = getSummaryCandidate(
+      session.messages,
+      this.getContextBudget(provider).inputLimit,
+      getTokenizerFamily(provider.config.type),
+    );
+    if (!candidate) return;
+
+    this.summarizingSessions.add(session.id);
+    try {
+      const summaryMessages: ChatMessage[] = [
+        {
+          id: this.generateId(),
+          role: "system",
+          content: SUMMARY_SYSTEM_PROMPT,
+          timestamp: Date.now(),
+        },
+        {
+          id: this.generateId(),
+          role: "user",
+          content: buildSummaryRequest(candidate),
+          timestamp: Date.now(),
+        },
+      ];
+      const summary = (
+        await provider.chatCompletion(summaryMessages, (usage) =>
+          this.recordUsage(provider, usage),
+        )
+      ).trim();
+      if (!summary) return;
+
+      // Messages may have been added meanwhile; insert after the boundary
+      const boundaryIndex = session.messages.findIndex(
+        (msg) => msg.id === candidate.boundaryMessageId,
+      );
+      if (boundaryIndex === -1) return;
+
+      session.messages.splice(boundaryIndex + 1, 0, {
+        id: this.generateId(),
+        role: "system",
+        content: summary,
+        timestamp: Date.now(),
+        isSummary: true,
+        summarizedCount: candidate.coveredCount,
+      });
+      await this.storageService.saveSession(session);
+      ztoolkit.log(
+        "[ChatManager] Summarized",
+        candidate.messages.length,
+        "messages of session",
+        session.id,
+      );
+      this.onMessageUpdate?.(itemId, session.messages, session.id);
+    } catch (error) {
+      ztoolkit.log("[ChatManager] Error summarizing conversation:", error);
+    } finally {
+      this.summarizingSessions.delete(session.id);
+    }
+  }
+
   /**
    * Generate session title
    * Uses AI to generate a short title based on first round of conversation
@@ -1264,7 +2607,7 @@ export class ChatManager {
     itemId: number,
   ): Promise<void> {
     try {
-      const provider = this.getActiveProvider();
+      const provider = this.getSessionProvider(session);
       if (!provider || !provider.isReady()) return;
 
       // Get first round of conversation content
@@ -1286,7 +2629,10 @@ export class ChatManager {
       let userQuestion = questionMatch
         ? questionMatch[1].trim()
         : userContent
-            .replace(/\[PDF Content\]:[\s\S]*?(?=\[Question\]:|$)/, "")
+            .replace(
+              /\[PDF (?:Content|Excerpts|Annotations)\]:[\s\S]*?(?=\[Question\]:|$)/,
+              "",
+            )
             .replace(/\[Selected[^\]]*\]:\s*/g, "")
             .trim();
 
@@ -1311,7 +2657,10 @@ export class ChatManager {
         },
       ];
 
-      const generatedTitle = await provider.chatCompletion(titleMessages);
+      const generatedTitle = await provider.chatCompletion(
+        titleMessages,
+        (usage) => this.recordUsage(provider, usage),
+      );
       const title = generatedTitle.trim().slice(0, 100);
 
       if (title) {
@@ -1330,7 +2679,10 @@ export class ChatManager {
           const userQuestion = questionMatch
             ? questionMatch[1].trim()
             : userContent
-                .replace(/\[PDF Content\]:[\s\S]*?(?=\[Question\]:|$)/, "")
+                .replace(
+                  /\[PDF (?:Content|Excerpts|Annotations)\]:[\s\S]*?(?=\[Question\]:|$)/,
+                  "",
+                )
                 .replace(/\[Selected[^\]]*\]:\s*/g, "")
                 .trim();
           const fallbackTitle =
@@ -1381,6 +2733,22 @@ export class ChatManager {
     }));
   }
 
+  /**
+   * Search the messages of all stored sessions
+   */
+  async searchSessions(
+    query: SessionSearchQuery,
+  ): Promise<SessionSearchResult[]> {
+    return this.storageService.searchSessions(query);
+  }
+
+  /**
+   * Get the providers that answered in any stored session
+   */
+  async getSearchProviderIds(): Promise<string[]> {
+    return this.storageService.getSearchProviderIds();
+  }
+
   /**
    * Get session with its title
    */
@@ -1391,6 +2759,94 @@ export class ChatManager {
     return this.storageService.loadSession(itemId, sessionId);
   }
 
+  /**
+   * Export the whole chat history as an archive
+   */
+  async exportHistory(): Promise<{ json: string; count: number }> {
+    return this.storageService.exportArchive();
+  }
+
+  /**
+   * Import the sessions of a chat history archive
+   */
+  async importHistory(json: string): Promise<HistoryImportResult> {
+    const result = await this.storageService.importArchive(json, (session) =>
+      this.isSessionBusy(session.itemId, session.id),
+    );
+    if (result.imported === 0) return result;
+
+    // The panel holds the cached sessions; newer imported copies replace
+    // their content in place
+    for (const [itemId, cached] of [...this.activeSessions]) {
+      const session = await this.storageService.loadSession(itemId, cached.id);
+      if (session && session.updatedAt > cached.updatedAt) {
+        this.replaceCachedSession(session);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replace the whole history with a backup
+   * Cached sessions are read again from the backup in place, so the panel
+   * does not save its copies over the restored history
+   * @returns false when a request is running, so nothing was restored
+   */
+  async restoreHistoryBackup(backupPath: string): Promise<boolean> {
+    if (this.isStreaming()) return false;
+    await restoreStorageBackup(backupPath);
+
+    for (const [itemId, cached] of [...this.activeSessions]) {
+      const session = await this.storageService.loadSession(itemId, cached.id);
+      if (session) {
+        this.replaceCachedSession(session);
+      } else {
+        // Not in the backup; the item's active session is read on next use
+        this.activeSessions.delete(itemId);
+        this.onMessageUpdate?.(itemId, [], cached.id);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Whether a session is cached while a request runs, which may be
+   * answering in it
+   */
+  isSessionBusy(itemId: number, sessionId: string): boolean {
+    return this.isStreaming() && this.getSession(itemId, sessionId) !== null;
+  }
+
+  /**
+   * Replace the content of a cached session with a copy changed elsewhere,
+   * e.g. merged by a sync
+   * The panel holds the cached object and saves it on the next change, so
+   * it is updated in place rather than dropped
+   */
+  replaceCachedSession(session: ChatSession): void {
+    const cached = this.getSession(session.itemId, session.id);
+    if (!cached) return;
+    for (const key of Object.keys(cached) as Array<keyof ChatSession>) {
+      delete cached[key];
+    }
+    Object.assign(cached, session);
+    this.onMessageUpdate?.(cached.itemId, cached.messages, cached.id);
+  }
+
+  /**
+   * Get daily usage totals per provider and model
+   */
+  async getUsage(): Promise<UsageBucket[]> {
+    return this.storageService.getUsage();
+  }
+
+  /**
+   * Reset usage totals
+   */
+  async clearUsage(): Promise<void> {
+    await this.storageService.clearUsage();
+  }
+
   /**
    * Load session for specified item to current (for session switching)
    * @deprecated Use switchSession instead
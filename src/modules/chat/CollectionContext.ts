@@ -0,0 +1,129 @@
+/**
+ * CollectionContext - Build chat context over every item in a collection
+ *
+ * Collection sessions are stored under a negative itemId (-collectionId) so
+ * they never collide with item sessions or global chat (itemId 0).
+ * Every item contributes either the PDF passages most relevant to the first
+ * question or, when the collection is too large for that, a summary of its
+ * metadata and abstract, so the combined context stays within budget. The
+ * context is built once per session and attached to the first message.
+ */
+
+import type { PdfExtractor } from "./PdfExtractor";
+import { getPdfRetriever } from "./PdfRetriever";
+
+// Character budget used when the provider's PDF limit is unlimited (-1)
+const DEFAULT_COLLECTION_MAX_CHARS = 200000;
+// Below this share per item, fall back to metadata and abstract summaries
+const MIN_RETRIEVAL_CHARS_PER_ITEM = 1500;
+// Below this share per item, only titles are listed
+const MIN_SUMMARY_CHARS_PER_ITEM = 100;
+// Up to this many chunks are retrieved per item
+const MAX_CHUNKS_PER_ITEM = 4;
+
+/**
+ * Get the session itemId used for a collection
+ */
+export function getCollectionSessionItemId(collectionId: number): number {
+  return -collectionId;
+}
+
+/**
+ * Check if a session itemId belongs to a collection session
+ */
+export function isCollectionSessionItemId(itemId: number): boolean {
+  return itemId < 0;
+}
+
+/**
+ * Get the regular items of a collection, optionally including subcollections
+ */
+export function getCollectionItems(
+  collection: Zotero.Collection,
+  includeSubcollections: boolean,
+): Zotero.Item[] {
+  const items = new Map<number, Zotero.Item>();
+  const collections = [collection];
+  if (includeSubcollections) {
+    collections.push(...Zotero.Collections.getByParent(collection.id, true));
+  }
+  for (const current of collections) {
+    for (const item of current.getChildItems(false)) {
+      if (item.isRegularItem() && !item.deleted) {
+        items.set(item.id, item);
+      }
+    }
+  }
+  return Array.from(items.values());
+}
+
+/**
+ * Describe an item by title, creators and year
+ */
+function formatItemHeader(item: Zotero.Item): string {
+  const title = item.getDisplayTitle() || `Item ${item.id}`;
+  const creators = item.getField("firstCreator");
+  const year = item.getField("year");
+  const details = [creators, year].filter(Boolean).join(", ");
+  return details ? `${title} (${details})` : title;
+}
+
+/**
+ * Summarize an item by its abstract
+ */
+function summarizeItem(item: Zotero.Item, maxChars: number): string {
+  const abstract = (item.getField("abstractNote") as string).trim();
+  if (!abstract) return "";
+  return abstract.length > maxChars
+    ? `${abstract.substring(0, maxChars)}...`
+    : abstract;
+}
+
+/**
+ * Build the per-item context for a question over a collection
+ * @param maxChars Total character budget (-1 for the default budget)
+ */
+export async function buildCollectionContext(
+  pdfExtractor: PdfExtractor,
+  items: Zotero.Item[],
+  query: string,
+  maxChars: number,
+): Promise<string> {
+  if (items.length === 0) return "";
+
+  const budget = maxChars > 0 ? maxChars : DEFAULT_COLLECTION_MAX_CHARS;
+  const perItemChars = Math.floor(budget / items.length);
+  const useRetrieval = perItemChars >= MIN_RETRIEVAL_CHARS_PER_ITEM;
+
+  const sections: string[] = [];
+  for (const item of items) {
+    let content = "";
+    if (useRetrieval) {
+      try {
+        const extracted = await pdfExtractor.extractPdfPages(item);
+        if (extracted) {
+          content = getPdfRetriever()
+            .retrieve(extracted.attachmentId, extracted.pages, query, {
+              topK: MAX_CHUNKS_PER_ITEM,
+              maxChars: perItemChars,
+            })
+            .map((chunk) => `[Page ${chunk.pageLabel}]\n${chunk.text}`)
+            .join("\n\n");
+        }
+      } catch (error) {
+        ztoolkit.log(
+          "[CollectionContext] Error retrieving item content:",
+          item.id,
+          error,
+        );
+      }
+    }
+    if (!content && perItemChars >= MIN_SUMMARY_CHARS_PER_ITEM) {
+      content = summarizeItem(item, perItemChars);
+    }
+
+    const header = `[Document: ${formatItemHeader(item)}]:`;
+    sections.push(content ? `${header}\n${content}` : header);
+  }
+  return sections.join("\n\n");
+}
@@ -0,0 +1,169 @@
+/**
+ * ConversationSummary - Roll older turns of long sessions into a summary
+ *
+ * The summary is stored as a system message placed after the last turn it
+ * covers. Covered messages stay in the session for display and export, but
+ * requests only carry the latest summary and the turns after it. The full
+ * PDF text or collection context, attached once per session, is carried
+ * over from the message holding it when a summary covers that message.
+ */
+
+import type { ChatMessage } from "../../types/chat";
+import {
+  estimateMessageTokens,
+  getDocumentBlocks,
+  stripDocumentBlocks,
+  type TokenizerFamily,
+} from "./TokenBudget";
+
+// Summarize once the sent history exceeds this share of the input limit
+const SUMMARY_TRIGGER_RATIO = 0.5;
+// ...or this many tokens, whichever is lower
+const SUMMARY_TRIGGER_TOKENS = 32000;
+// Latest messages always sent as they are
+const KEEP_RECENT_MESSAGES = 4;
+// Characters of each message included in the summarization request
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 4000;
+
+export const SUMMARY_SYSTEM_PROMPT = `You summarize conversations between a user and an AI assistant about academic documents.
+Write a concise summary that preserves:
+- the questions the user asked
+- key findings, facts, figures and quotations from the answers, with page numbers when given
+- conclusions reached and points left open
+If a previous summary is provided, merge it into the new summary.
+Write in the language of the conversation. Output only the summary.`;
+
+export interface SummaryCandidate {
+  previousSummary?: string;
+  messages: ChatMessage[]; // Turns to roll into the summary
+  boundaryMessageId: string; // Last message covered by the new summary
+  coveredCount: number; // Messages covered, including earlier summaries
+}
+
+/**
+ * Get the index of the latest summary message, or -1
+ */
+function findLatestSummaryIndex(messages: ChatMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].isSummary) return i;
+  }
+  return -1;
+}
+
+/**
+ * Check if a message carries the session's pdfContent
+ * Older messages are only marked in their content
+ */
+export function carriesSessionDocument(message: ChatMessage): boolean {
+  return (
+    !!message.pdfContentAttached || message.content.includes("[PDF Content]:")
+  );
+}
+
+/**
+ * Get the messages to send: the latest summary and the turns after it
+ * The summary is merged into the first following user message, since not
+ * every provider accepts system messages inside the conversation, together
+ * with the session document when the summary covers the message holding it.
+ */
+export function applySummary(messages: ChatMessage[]): ChatMessage[] {
+  const summaryIndex = findLatestSummaryIndex(messages);
+  if (summaryIndex === -1) return messages;
+
+  const summary = messages[summaryIndex];
+  const recent = messages
+    .slice(summaryIndex + 1)
+    .filter((msg) => !msg.isSummary);
+  const firstUserIndex = recent.findIndex((msg) => msg.role === "user");
+  if (firstUserIndex === -1) return recent;
+
+  const parts = [`[Conversation Summary]:\n${summary.content}`];
+  if (!recent.some(carriesSessionDocument)) {
+    const documentMessage = messages
+      .slice(0, summaryIndex)
+      .reverse()
+      .find(carriesSessionDocument);
+    if (documentMessage) {
+      parts.unshift(...getDocumentBlocks(documentMessage.content));
+    }
+  }
+
+  const firstUser = recent[firstUserIndex];
+  const merged: ChatMessage = {
+    ...firstUser,
+    content: `${parts.join("\n\n")}\n\n${firstUser.content}`,
+  };
+  return [
+    ...recent.slice(0, firstUserIndex),
+    merged,
+    ...recent.slice(firstUserIndex + 1),
+  ];
+}
+
+/**
+ * Select the turns to summarize when the sent history is too long
+ * Returns null while the history fits or there are too few turns to roll up
+ */
+export function getSummaryCandidate(
+  messages: ChatMessage[],
+  inputLimit: number,
+  family: TokenizerFamily,
+): SummaryCandidate | null {
+  const sentTokens = applySummary(messages).reduce(
+    (sum, msg) => sum + estimateMessageTokens(msg, family),
+    0,
+  );
+  const threshold = Math.min(
+    inputLimit * SUMMARY_TRIGGER_RATIO,
+    SUMMARY_TRIGGER_TOKENS,
+  );
+  if (sentTokens <= threshold) return null;
+
+  const summaryIndex = findLatestSummaryIndex(messages);
+  const start = summaryIndex + 1;
+
+  // End the summary after an answer that is followed by a question
+  let boundary = -1;
+  for (let i = messages.length - 1 - KEEP_RECENT_MESSAGES; i >= start; i--) {
+    if (
+      messages[i].role === "assistant" &&
+      messages[i + 1]?.role === "user" &&
+      messages[i].isComplete !== false
+    ) {
+      boundary = i;
+      break;
+    }
+  }
+  if (boundary === -1) return null;
+
+  const previous = summaryIndex >= 0 ? messages[summaryIndex] : undefined;
+  const covered = messages
+    .slice(start, boundary + 1)
+    .filter((msg) => msg.role === "user" || msg.role === "assistant");
+  return {
+    previousSummary: previous?.content,
+    messages: covered,
+    boundaryMessageId: messages[boundary].id,
+    coveredCount: (previous?.summarizedCount ?? 0) + covered.length,
+  };
+}
+
+/**
+ * Build the summarization request from a candidate
+ * Document content is left out; the answers carry what was discussed
+ */
+export function buildSummaryRequest(candidate: SummaryCandidate): string {
+  const transcript = candidate.messages
+    .map((msg) => {
+      const text = stripDocumentBlocks(msg.content).substring(
+        0,
+        MAX_TRANSCRIPT_MESSAGE_CHARS,
+      );
+      return `${msg.role === "user" ? "User" : "Assistant"}: ${text}`;
+    })
+    .join("\n\n");
+
+  return candidate.previousSummary
+    ? `[Previous Summary]:\n${candidate.previousSummary}\n\n[Conversation]:\n${transcript}`
+    : `[Conversation]:\n${transcript}`;
+}
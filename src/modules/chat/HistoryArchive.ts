@@ -0,0 +1,318 @@
+/**
+ * HistoryArchive - Versioned archive of the whole chat history
+ *
+ * An archive is a JSON file holding every session with its messages, the
+ * message images (stored once each, by image ID) and an index listing the
+ * sessions by name. Items and collections are referenced by library key
+ * rather than by their local IDs, so an archive imports correctly into
+ * another Zotero database holding the same (synced) library.
+ * History sync stores each session in the same form (see HistorySync).
+ */
+
+import type {
+  ChatMessage,
+  ChatSession,
+  DocumentReference,
+  MessageBranch,
+  MessageImage,
+  StoredSessionMeta,
+} from "../../types/chat";
+import {
+  getCollectionLibraryKey,
+  getItemLibraryKey,
+  isLibraryKey,
+  resolveCollectionLibraryKey,
+  resolveItemLibraryKey,
+  type LibraryKey,
+} from "./LibraryKey";
+import { isCollectionSessionItemId } from "./CollectionContext";
+
+const ARCHIVE_FORMAT = "zota-chat-history";
+// Version of the archive format; archives of a newer version are rejected
+const ARCHIVE_VERSION = 1;
+
+type ArchiveDocumentReference = Omit<DocumentReference, "id"> & {
+  item: LibraryKey | null; // null when the item was not found on export
+};
+
+interface ArchiveMessage extends Omit<ChatMessage, "images" | "documents"> {
+  imageIds?: string[]; // Keys of the archive's images
+  documents?: ArchiveDocumentReference[];
+}
+
+interface ArchiveBranch extends Omit<MessageBranch, "messages"> {
+  messages: ArchiveMessage[];
+}
+
+export interface ArchiveSession extends Omit<
+  ChatSession,
+  "itemId" | "documentIds" | "collectionId" | "messages" | "branches"
+> {
+  // Neither item nor collection is set for global chat sessions
+  item?: LibraryKey; // Document of a document session
+  collection?: LibraryKey; // Collection of a collection session
+  documents?: Array<LibraryKey | null>; // Documents of a multi-document session
+  messages: ArchiveMessage[];
+  branches?: ArchiveBranch[];
+  active?: boolean; // Whether it is the active session of its document
+}
+
+// Index entry, to list an archive's sessions without reading them
+interface ArchiveIndexEntry {
+  sessionId: string;
+  itemName: string;
+  sessionTitle?: string;
+  messageCount: number;
+  lastUpdated: number;
+}
+
+interface HistoryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  index: ArchiveIndexEntry[];
+  sessions: ArchiveSession[];
+  images: Record<string, MessageImage>;
+}
+
+// Session read from or written to an archive, with local IDs
+export interface ArchivedSession {
+  session: ChatSession;
+  active: boolean;
+}
+
+export interface HistoryImportResult {
+  imported: number; // New sessions and sessions replaced by newer copies
+  skipped: number; // Sessions already stored, as new or newer, or answering
+  unresolved: number; // Sessions whose item or collection is not in the library
+}
+
+function toArchiveMessage(
+  message: ChatMessage,
+  images: Record<string, MessageImage>,
+): ArchiveMessage {
+  const { images: messageImages, documents, ...rest } = message;
+  const archived: ArchiveMessage = rest;
+  if (messageImages && messageImages.length > 0) {
+    archived.imageIds = messageImages.map((image) => {
+      images[image.id] = image;
+      return image.id;
+    });
+  }
+  if (documents) {
+    archived.documents = documents.map(({ id, ...document }) => ({
+      ...document,
+      item: getItemLibraryKey(id),
+    }));
+  }
+  return archived;
+}
+
+function fromArchiveMessage(
+  archived: ArchiveMessage,
+  images: Record<string, MessageImage>,
+): ChatMessage {
+  const { imageIds, documents, ...rest } = archived;
+  const message: ChatMessage = rest;
+  if (imageIds) {
+    message.images = imageIds.map((id) => images[id]).filter(Boolean);
+  }
+  if (documents) {
+    // References to items missing here are dropped, like deleted items
+    message.documents = documents.flatMap(({ item, ...document }) => {
+      const id = item && resolveItemLibraryKey(item);
+      return id ? [{ ...document, id }] : [];
+    });
+  }
+  return message;
+}
+
+/**
+ * Convert a session to its archive form
+ * @returns null when its item or collection no longer exists
+ */
+export function toArchiveSession(
+  { session, active }: ArchivedSession,
+  images: Record<string, MessageImage>,
+): ArchiveSession | null {
+  const { itemId, documentIds, collectionId, messages, branches, ...rest } =
+    session;
+  const archived: ArchiveSession = {
+    ...rest,
+    messages: messages.map((message) => toArchiveMessage(message, images)),
+  };
+
+  if (isCollectionSessionItemId(itemId)) {
+    const collection = getCollectionLibraryKey(collectionId ?? -itemId);
+    if (!collection) return null;
+    archived.collection = collection;
+  } else if (itemId !== 0) {
+    const item = getItemLibraryKey(itemId);
+    if (!item) return null;
+    archived.item = item;
+  }
+  if (documentIds) {
+    archived.documents = documentIds.map((id) => getItemLibraryKey(id));
+  }
+  if (branches) {
+    archived.branches = branches.map((branch) => ({
+      ...branch,
+      messages: branch.messages.map((message) =>
+        toArchiveMessage(message, images),
+      ),
+    }));
+  }
+  if (active) archived.active = true;
+  return archived;
+}
+
+/**
+ * Convert a session from its archive form
+ * @returns null when its item or collection is not in the library
+ */
+export function fromArchiveSession(
+  archived: ArchiveSession,
+  images: Record<string, MessageImage>,
+): ArchivedSession | null {
+  const { item, collection, documents, messages, branches, active, ...rest } =
+    archived;
+  const session: ChatSession = {
+    ...rest,
+    itemId: 0,
+    messages: messages.map((message) => fromArchiveMessage(message, images)),
+  };
+
+  if (collection) {
+    const collectionId = resolveCollectionLibraryKey(collection);
+    if (!collectionId) return null;
+    session.collectionId = collectionId;
+    session.itemId = -collectionId;
+  } else if (item) {
+    const itemId = resolveItemLibraryKey(item);
+    if (!itemId) return null;
+    session.itemId = itemId;
+  }
+
+  if (documents) {
+    // Keep names paired with the documents that were found
+    const names = session.documentNames;
+    const documentIds: number[] = [];
+    const documentNames: string[] = [];
+    documents.forEach((document, i) => {
+      const id = document && resolveItemLibraryKey(document);
+      if (!id) return;
+      documentIds.push(id);
+      if (names?.[i] !== undefined) documentNames.push(names[i]);
+    });
+    session.documentIds = documentIds;
+    if (names) session.documentNames = documentNames;
+  }
+  if (branches) {
+    session.branches = branches.map((branch) => ({
+      ...branch,
+      messages: branch.messages.map((message) =>
+        fromArchiveMessage(message, images),
+      ),
+    }));
+  }
+  return { session, active: !!active };
+}
+
+/**
+ * Check a session read from an archive
+ */
+export function isArchiveSession(value: unknown): value is ArchiveSession {
+  const session = value as ArchiveSession;
+  return (
+    typeof session?.id === "string" &&
+    typeof session.createdAt === "number" &&
+    typeof session.updatedAt === "number" &&
+    Array.isArray(session.messages) &&
+    (session.item === undefined || isLibraryKey(session.item)) &&
+    (session.collection === undefined || isLibraryKey(session.collection))
+  );
+}
+
+/**
+ * Serialize sessions to an archive
+ * Sessions of items or collections that no longer exist are left out
+ * @param metas - Metadata of the sessions, for the archive's index
+ */
+export function createHistoryArchive(
+  sessions: ArchivedSession[],
+  metas: StoredSessionMeta[],
+): { json: string; count: number } {
+  const images: Record<string, MessageImage> = {};
+  const archived: ArchiveSession[] = [];
+  for (const session of sessions) {
+    const archiveSession = toArchiveSession(session, images);
+    if (archiveSession) {
+      archived.push(archiveSession);
+    } else {
+      ztoolkit.log(
+        "Archive skips session of missing item:",
+        session.session.id,
+      );
+    }
+  }
+
+  const metaById = new Map(metas.map((meta) => [meta.sessionId, meta]));
+  const index: ArchiveIndexEntry[] = archived.map((session) => {
+    const meta = metaById.get(session.id);
+    return {
+      sessionId: session.id,
+      itemName: meta?.itemName || "",
+      sessionTitle: meta?.sessionTitle || session.title,
+      messageCount: meta?.messageCount ?? session.messages.length,
+      lastUpdated: session.updatedAt,
+    };
+  });
+
+  const archive: HistoryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    index,
+    sessions: archived,
+    images,
+  };
+  return { json: JSON.stringify(archive), count: archived.length };
+}
+
+/**
+ * Read the sessions of an archive, mapping its library keys to local IDs
+ * @returns The sessions, and the number left out because their item or
+ *   collection is not in the library
+ */
+export function readHistoryArchive(json: string): {
+  sessions: ArchivedSession[];
+  unresolved: number;
+} {
+  const archive = JSON.parse(json) as HistoryArchive;
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.sessions)) {
+    throw new Error("Not a chat history archive");
+  }
+  if (
+    typeof archive.version !== "number" ||
+    archive.version > ARCHIVE_VERSION
+  ) {
+    throw new Error(`Unsupported archive version: ${archive.version}`);
+  }
+
+  const images = archive.images || {};
+  const sessions: ArchivedSession[] = [];
+  let unresolved = 0;
+  for (const value of archive.sessions) {
+    if (!isArchiveSession(value)) {
+      ztoolkit.log("Archive session invalid, skipping");
+      continue;
+    }
+    const session = fromArchiveSession(value, images);
+    if (session) {
+      sessions.push(session);
+    } else {
+      unresolved++;
+    }
+  }
+  return { sessions, unresolved };
+}
@@ -0,0 +1,373 @@
+/**
+ * HistorySync - Sync chat history through a shared folder
+ *
+ * Each session is kept as one file in the zota-sessions folder of a folder
+ * the user picks, synced between machines by any file sync service. Items
+ * are referenced by library key, so a session is found under the same item
+ * on every machine syncing the library.
+ *
+ * Both copies of a session that changed are merged by message ID: the newer
+ * copy wins for the messages both have, and messages only the older copy
+ * has are kept when they were added after the last sync and after the last
+ * message both share (anything older was deleted from the newer copy).
+ * Deleted sessions leave a tombstone file, so they are deleted on the other
+ * machines too. Only sessions updated on either side since the last sync
+ * are read; a session cached for the panel is updated in place, so the
+ * panel does not save its old copy over the synced one.
+ */
+
+import type {
+  ChatMessage,
+  ChatSession,
+  HistorySyncState,
+  MessageImage,
+  StoredSessionMeta,
+} from "../../types/chat";
+import type { ChatManager } from "./ChatManager";
+import {
+  fromArchiveSession,
+  isArchiveSession,
+  toArchiveSession,
+  type ArchiveSession,
+  type ArchivedSession,
+} from "./HistoryArchive";
+import { getPref } from "../../utils/prefs";
+
+const SYNC_FORMAT = "zota-chat-sync";
+// Version of the session file format; newer files are left alone
+const SYNC_VERSION = 1;
+const SYNC_FOLDER_NAME = "zota-sessions";
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+interface SyncFile {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  sessionId: string;
+  updatedAt: number;
+  deletedAt?: number; // Set for tombstones, which have no session
+  session?: ArchiveSession;
+  images?: Record<string, MessageImage>;
+}
+
+export interface HistorySyncResult {
+  pushed: number; // Sessions written to the sync folder
+  pulled: number; // Sessions added or changed here
+  deleted: number; // Sessions deleted here or in the sync folder
+}
+
+/**
+ * Merge two copies of a session by message ID and timestamp
+ * @param syncedAt - updatedAt of the session when it was last synced
+ */
+export function mergeSessions(
+  a: ChatSession,
+  b: ChatSession,
+  syncedAt: number = -Infinity,
+): ChatSession {
+  const [newer, older] = a.updatedAt >= b.updatedAt ? [a, b] : [b, a];
+  const newerIds = new Set(newer.messages.map((message) => message.id));
+
+  // Time of the last message both copies have, or of the last sync
+  let shared = syncedAt;
+  for (const message of older.messages) {
+    if (newerIds.has(message.id)) {
+      shared = Math.max(shared, message.timestamp);
+    }
+  }
+
+  const messages: ChatMessage[] = [...newer.messages];
+  let added = false;
+  older.messages.forEach((message, i) => {
+    if (newerIds.has(message.id) || message.timestamp <= shared) return;
+    // Insert after the message it followed, or at the end when that one
+    // is gone
+    let index = 0;
+    if (i > 0) {
+      const previousId = older.messages[i - 1].id;
+      const previousIndex = messages.findIndex((m) => m.id === previousId);
+      index = previousIndex >= 0 ? previousIndex + 1 : messages.length;
+    }
+    messages.splice(index, 0, message);
+    added = true;
+  });
+
+  if (!added) return newer;
+  return { ...newer, messages };
+}
+
+export class HistorySync {
+  private chatManager: ChatManager;
+  private running: Promise<HistorySyncResult> | null = null;
+  private timer: number | null = null;
+  private listeners: Set<(result: HistorySyncResult) => void> = new Set();
+
+  constructor(chatManager: ChatManager) {
+    this.chatManager = chatManager;
+  }
+
+  /**
+   * Whether a sync folder is set
+   */
+  isEnabled(): boolean {
+    return !!getPref("historySyncFolder");
+  }
+
+  /**
+   * Sync now and then every few minutes while a sync folder is set
+   */
+  start(): void {
+    this.stop();
+    const tick = () => {
+      if (!this.isEnabled()) return;
+      this.sync().catch((error) => {
+        ztoolkit.log("History sync error:", error);
+      });
+    };
+    tick();
+    this.timer = setInterval(tick, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribe to finished syncs
+   * @returns Unsubscribe function
+   */
+  onSync(listener: (result: HistorySyncResult) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Sync with the sync folder; a sync already running is joined
+   */
+  sync(): Promise<HistorySyncResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<HistorySyncResult> {
+    const folder = getPref("historySyncFolder");
+    if (!folder) {
+      throw new Error("No sync folder set");
+    }
+    const storage = this.chatManager.getStorageService();
+    const syncPath = PathUtils.join(folder, SYNC_FOLDER_NAME);
+    await IOUtils.makeDirectory(syncPath, {
+      createAncestors: true,
+      ignoreExisting: true,
+    });
+
+    // The state of another folder says nothing about this one
+    const stored = await storage.loadSyncState();
+    const state: HistorySyncState =
+      stored?.folder === folder
+        ? stored
+        : { folder, sessions: {}, lastSync: 0 };
+
+    // Sessions unchanged on both sides since the last sync are not read
+    const local = new Map(
+      (await storage.listSessions()).map((meta) => [meta.sessionId, meta]),
+    );
+    const remote = await this.readSyncFolder(syncPath);
+
+    const result: HistorySyncResult = { pushed: 0, pulled: 0, deleted: 0 };
+    const pulled: ArchivedSession[] = [];
+    const deleted: StoredSessionMeta[] = [];
+
+    for (const sessionId of new Set([...local.keys(), ...remote.keys()])) {
+      const meta = local.get(sessionId);
+      const file = remote.get(sessionId);
+      const syncedAt = state.sessions[sessionId];
+      if (
+        syncedAt !== undefined &&
+        meta?.lastUpdated === syncedAt &&
+        file?.updatedAt === syncedAt
+      ) {
+        continue;
+      }
+      // Sessions answering now are synced next time, once they are saved
+      if (meta && this.chatManager.isSessionBusy(meta.itemId, sessionId)) {
+        continue;
+      }
+
+      // Deleted on another machine, unless changed here since
+      if (file?.deletedAt !== undefined) {
+        if (meta && meta.lastUpdated > file.deletedAt) {
+          const localSession = await storage.loadSession(
+            meta.itemId,
+            sessionId,
+          );
+          if (
+            localSession &&
+            (await this.writeSession(syncPath, localSession))
+          ) {
+            state.sessions[sessionId] = localSession.updatedAt;
+            result.pushed++;
+          }
+        } else {
+          if (meta) {
+            deleted.push(meta);
+            result.deleted++;
+          }
+          delete state.sessions[sessionId];
+        }
+        continue;
+      }
+
+      // Files of items not in this library are left for the machines
+      // that have them
+      const remoteSession =
+        file?.session && fromArchiveSession(file.session, file.images || {});
+      if (file && !remoteSession) continue;
+
+      if (!meta) {
+        if (!remoteSession) continue;
+        if (
+          syncedAt !== undefined &&
+          remoteSession.session.updatedAt <= syncedAt
+        ) {
+          // Deleted here since the last sync
+          await this.writeTombstone(syncPath, sessionId);
+          delete state.sessions[sessionId];
+          result.deleted++;
+        } else {
+          pulled.push({ session: remoteSession.session, active: false });
+          state.sessions[sessionId] = remoteSession.session.updatedAt;
+          result.pulled++;
+        }
+        continue;
+      }
+
+      const localSession = await storage.loadSession(meta.itemId, sessionId);
+      if (!localSession) continue;
+
+      if (!remoteSession) {
+        if (await this.writeSession(syncPath, localSession)) {
+          state.sessions[sessionId] = localSession.updatedAt;
+          result.pushed++;
+        }
+        continue;
+      }
+
+      // mergeSessions returns one of the copies as it is when it has
+      // everything
+      const merged = mergeSessions(
+        localSession,
+        remoteSession.session,
+        syncedAt,
+      );
+      if (merged !== localSession) {
+        pulled.push({ session: merged, active: false });
+        this.chatManager.replaceCachedSession(merged);
+        result.pulled++;
+      }
+      if (merged !== remoteSession.session) {
+        await this.writeSession(syncPath, merged);
+        result.pushed++;
+      }
+      state.sessions[sessionId] = merged.updatedAt;
+    }
+
+    await storage.storeArchivedSessions(pulled);
+    for (const meta of deleted) {
+      await this.chatManager.deleteSession(meta.itemId, meta.sessionId);
+    }
+    state.lastSync = Date.now();
+    await storage.saveSyncState(state);
+
+    ztoolkit.log(
+      `History sync: ${result.pushed} pushed, ${result.pulled} pulled, ${result.deleted} deleted`,
+    );
+    this.listeners.forEach((listener) => listener(result));
+    return result;
+  }
+
+  /**
+   * Read the session files of the sync folder
+   * Files that cannot be read are skipped; they may be mid-sync
+   */
+  private async readSyncFolder(
+    syncPath: string,
+  ): Promise<Map<string, SyncFile>> {
+    const files = new Map<string, SyncFile>();
+    for (const path of await IOUtils.getChildren(syncPath)) {
+      if (!path.endsWith(".json")) continue;
+      try {
+        const file = (await IOUtils.readJSON(path)) as SyncFile;
+        if (
+          file?.format !== SYNC_FORMAT ||
+          typeof file.sessionId !== "string" ||
+          file.version > SYNC_VERSION
+        ) {
+          continue;
+        }
+        if (file.deletedAt === undefined && !isArchiveSession(file.session)) {
+          continue;
+        }
+        files.set(file.sessionId, file);
+      } catch (error) {
+        ztoolkit.log("Sync file unreadable, skipping:", path, error);
+      }
+    }
+    return files;
+  }
+
+  private getFilePath(syncPath: string, sessionId: string): string {
+    // Session IDs are made of digits, letters and "-"
+    return PathUtils.join(
+      syncPath,
+      `${sessionId.replace(/[^\w-]/g, "_")}.json`,
+    );
+  }
+
+  private async writeFile(syncPath: string, file: SyncFile): Promise<void> {
+    const path = this.getFilePath(syncPath, file.sessionId);
+    await IOUtils.writeJSON(path, file, { tmpPath: `${path}.tmp` });
+  }
+
+  /**
+   * Write a session to the sync folder
+   * @returns false when its item no longer exists, so it was not written
+   */
+  private async writeSession(
+    syncPath: string,
+    session: ChatSession,
+  ): Promise<boolean> {
+    const images: Record<string, MessageImage> = {};
+    const archived = toArchiveSession({ session, active: false }, images);
+    if (!archived) return false;
+    await this.writeFile(syncPath, {
+      format: SYNC_FORMAT,
+      version: SYNC_VERSION,
+      sessionId: session.id,
+      updatedAt: session.updatedAt,
+      session: archived,
+      images,
+    });
+    return true;
+  }
+
+  private async writeTombstone(
+    syncPath: string,
+    sessionId: string,
+  ): Promise<void> {
+    const now = Date.now();
+    await this.writeFile(syncPath, {
+      format: SYNC_FORMAT,
+      version: SYNC_VERSION,
+      sessionId,
+      updatedAt: now,
+      deletedAt: now,
+    });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * LibraryKey - Portable references to Zotero items and collections
+ *
+ * Item and collection IDs are local to a Zotero database, and group
+ * library IDs are too. A library key (the object key plus, for a group
+ * library, the group ID) names the same object on every synced machine.
+ */
+
+export interface LibraryKey {
+  key: string;
+  groupID?: number; // Unset for the user library
+}
+
+/**
+ * Get the library key of an object of a library
+ * @returns null for objects of feeds, which are not synced
+ */
+function toLibraryKey(libraryID: number, key: string): LibraryKey | null {
+  switch (Zotero.Libraries.getType(libraryID)) {
+    case "user":
+      return { key };
+    case "group":
+      return { key, groupID: Zotero.Groups.getGroupIDFromLibraryID(libraryID) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the local library ID of a library key
+ * @returns null when the group library is not on this machine
+ */
+function getLibraryID(ref: LibraryKey): number | null {
+  if (ref.groupID === undefined) {
+    return Zotero.Libraries.userLibraryID;
+  }
+  return Zotero.Groups.getLibraryIDFromGroupID(ref.groupID) || null;
+}
+
+/**
+ * Check a value read from a file
+ */
+export function isLibraryKey(value: unknown): value is LibraryKey {
+  const ref = value as LibraryKey;
+  return (
+    typeof ref?.key === "string" &&
+    (ref.groupID === undefined || typeof ref.groupID === "number")
+  );
+}
+
+/**
+ * Format a library key as text, e.g. "user/ABCD2345" or "group/123/ABCD2345"
+ */
+export function formatLibraryKey(ref: LibraryKey): string {
+  return ref.groupID === undefined
+    ? `user/${ref.key}`
+    : `group/${ref.groupID}/${ref.key}`;
+}
+
+/**
+ * Parse a library key formatted by formatLibraryKey
+ * @returns null for any other text
+ */
+export function parseLibraryKey(text: string): LibraryKey | null {
+  const parts = text.split("/");
+  if (parts.length === 2 && parts[0] === "user" && parts[1]) {
+    return { key: parts[1] };
+  }
+  if (parts.length === 3 && parts[0] === "group" && parts[2]) {
+    const groupID = Number(parts[1]);
+    return Number.isInteger(groupID) ? { key: parts[2], groupID } : null;
+  }
+  return null;
+}
+
+/**
+ * Get the library key of an item
+ * @returns null when the item does not exist
+ */
+export function getItemLibraryKey(itemId: number): LibraryKey | null {
+  const libraryKey = Zotero.Items.getLibraryAndKeyFromID(itemId);
+  return libraryKey ? toLibraryKey(libraryKey.libraryID, libraryKey.key) : null;
+}
+
+/**
+ * Get the library key of a collection
+ * @returns null when the collection does not exist
+ */
+export function getCollectionLibraryKey(
+  collectionId: number,
+): LibraryKey | null {
+  const libraryKey = Zotero.Collections.getLibraryAndKeyFromID(collectionId);
+  return libraryKey ? toLibraryKey(libraryKey.libraryID, libraryKey.key) : null;
+}
+
+/**
+ * Get the local ID of the item a library key names
+ * @returns null when the item is not in this library
+ */
+export function resolveItemLibraryKey(ref: LibraryKey): number | null {
+  const libraryID = getLibraryID(ref);
+  if (libraryID === null) return null;
+  return Zotero.Items.getIDFromLibraryAndKey(libraryID, ref.key) || null;
+}
+
+/**
+ * Get the local ID of the collection a library key names
+ * @returns null when the collection is not in this library
+ */
+export function resolveCollectionLibraryKey(ref: LibraryKey): number | null {
+  const libraryID = getLibraryID(ref);
+  if (libraryID === null) return null;
+  return Zotero.Collections.getIDFromLibraryAndKey(libraryID, ref.key) || null;
+}
@@ -16,6 +16,7 @@ export class NoteExportService {
    * - User questions as H2
    * - AI responses as content
    * - Include quotes (selectedText), images, and document references
+   * - Follow the selected branch and answer versions; inactive branches are left out
    */
   generateMarkdown(
     session: ChatSession,
@@ -88,13 +89,8 @@ export class NoteExportService {
           }
         }
       } else if (message.role === "assistant") {
-        // For regenerated messages, use the last version's content
-        let answer = message.content;
-        if (message.contentVersions && message.contentVersions.length > 0) {
-          answer =
-            message.contentVersions[message.contentVersions.length - 1].content;
-        }
-        answer = answer.trim();
+        // Regenerated messages hold the selected version's content
+        const answer = message.content.trim();
 
         // Include reasoning content if present
         if (message.reasoningContent && message.reasoningContent.trim()) {
@@ -149,13 +145,13 @@ export class NoteExportService {
     // Remove [Document: Title]: sections with their full content
     // Pattern matches: [Document: Title]:\n...content... until next section or end
     question = question.replace(
-      /\[Document:\s*[^\]]+\]:[\s\S]*?(?=\[Document:|\[Question\]:|\[Selected|\[PDF Content\]:|$)/g,
+      /\[Document:\s*[^\]]+\]:[\s\S]*?(?=\[Document:|\[Question\]:|\[Selected|\[PDF (?:Content|Excerpts|Annotations)\]:|$)/g,
       "",
     );
 
     // Remove PDF content section
     question = question.replace(
-      /\[PDF Content\]:[\s\S]*?(?=\[Question\]:|$)/,
+      /\[PDF (?:Content|Excerpts|Annotations)\]:[\s\S]*?(?=\[Question\]:|$)/,
       "",
     );
 
@@ -2,6 +2,145 @@
  * PdfExtractor - PDF content extraction utility
  */
 
+// Text of a single PDF page
+export interface PdfPageText {
+  pageIndex: number; // 0-based page index
+  pageLabel: string; // Physical page number used in markers and citations
+  text: string;
+}
+
+// Annotation on a PDF attachment
+export interface PdfAnnotation {
+  type: string; // highlight, underline, note, text, image or ink
+  page: number; // 1-based physical page number
+  color: string; // Hex color
+  colorName: string; // Zotero color name, or the hex value if unknown
+  text: string; // Annotated text (highlight/underline)
+  comment: string;
+  tags: string[];
+}
+
+// Names of the Zotero reader's annotation colors
+const ANNOTATION_COLOR_NAMES: Record<string, string> = {
+  "#ffd400": "yellow",
+  "#ff6666": "red",
+  "#5fb236": "green",
+  "#2ea8e5": "blue",
+  "#a28ae5": "purple",
+  "#e56eee": "magenta",
+  "#f19837": "orange",
+  "#aaaaaa": "gray",
+};
+
+// Text item of a pdf.js page, positioned in PDF user space
+export interface PdfJsTextItem {
+  str?: string;
+  transform?: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+  width?: number;
+  height?: number;
+}
+
+// Minimal pdf.js surface used for per-page extraction
+export interface PdfJsDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<{
+    view: number[]; // Page box [x1, y1, x2, y2]
+    getTextContent(): Promise<{ items: PdfJsTextItem[] }>;
+  }>;
+}
+
+// Reader view window, exposing the pdf.js viewer
+interface ReaderViewWindow {
+  PDFViewerApplication?: { pdfDocument?: PdfJsDocument };
+}
+
+/**
+ * Get the pdf.js document of an attachment open in a reader tab, if any
+ */
+export function getReaderPdfDocument(
+  attachmentId: number,
+): PdfJsDocument | null {
+  const readers = (Zotero.Reader as unknown as { _readers?: unknown[] })
+    ._readers;
+  const reader = readers?.find(
+    (r) => (r as { itemID?: number }).itemID === attachmentId,
+  ) as
+    | {
+        _internalReader?: {
+          _primaryView?: {
+            _iframeWindow?: ReaderViewWindow & {
+              wrappedJSObject?: ReaderViewWindow;
+            };
+          };
+        };
+      }
+    | undefined;
+  const iframeWindow = reader?._internalReader?._primaryView?._iframeWindow;
+  const app = (iframeWindow?.wrappedJSObject ?? iframeWindow)
+    ?.PDFViewerApplication;
+  return app?.pdfDocument ?? null;
+}
+
+/**
+ * Find PDF attachment for an item
+ * Unified PDF attachment lookup logic to avoid code duplication
+ */
+export async function findPdfAttachment(
+  item: Zotero.Item,
+): Promise<Zotero.Item | null> {
+  // Check if the item itself is a PDF attachment
+  if (item.isAttachment() && item.attachmentContentType === "application/pdf") {
+    return item;
+  }
+
+  // Otherwise, look for PDF attachments on the item
+  const attachments = item.getAttachments();
+  for (const attachmentID of attachments) {
+    const attachment = await Zotero.Items.getAsync(attachmentID);
+    if (attachment?.attachmentContentType === "application/pdf") {
+      return attachment;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Join page texts, prefixing each page with a [Page N] marker
+ */
+export function formatPagesWithMarkers(pages: PdfPageText[]): string {
+  return pages
+    .filter((page) => page.text.trim())
+    .map((page) => `[Page ${page.pageLabel}]\n${page.text.trim()}`)
+    .join("\n\n");
+}
+
+/**
+ * Format annotations as a structured block, one entry per annotation
+ */
+export function formatAnnotations(annotations: PdfAnnotation[]): string {
+  return annotations
+    .map((annotation) => {
+      const header = [
+        `[Page ${annotation.page}]`,
+        annotation.type,
+        annotation.colorName,
+      ];
+      if (annotation.tags.length > 0) {
+        header.push(`tags: ${annotation.tags.join(", ")}`);
+      }
+      const lines = [`- ${header.join(" | ")}`];
+      if (annotation.text) {
+        lines.push(`  Text: "${annotation.text}"`);
+      }
+      if (annotation.comment) {
+        lines.push(`  Comment: ${annotation.comment}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
 export class PdfExtractor {
   // Stores currently selected text
   private currentSelectedText: string | null = null;
@@ -122,39 +261,12 @@ export class PdfExtractor {
     return null;
   }
 
-  /**
-   * Find PDF attachment for an item
-   * Unified PDF attachment lookup logic to avoid code duplication
-   */
-  private async findPdfAttachment(
-    item: Zotero.Item,
-  ): Promise<Zotero.Item | null> {
-    // Check if the item itself is a PDF attachment
-    if (
-      item.isAttachment() &&
-      item.attachmentContentType === "application/pdf"
-    ) {
-      return item;
-    }
-
-    // Otherwise, look for PDF attachments on the item
-    const attachments = item.getAttachments();
-    for (const attachmentID of attachments) {
-      const attachment = await Zotero.Items.getAsync(attachmentID);
-      if (attachment?.attachmentContentType === "application/pdf") {
-        return attachment;
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Extract text from item's PDF attachment
    */
   async extractPdfText(item: Zotero.Item): Promise<string | null> {
     try {
-      const pdfAttachment = await this.findPdfAttachment(item);
+      const pdfAttachment = await findPdfAttachment(item);
       if (!pdfAttachment) return null;
 
       const text = await pdfAttachment.attachmentText;
@@ -168,12 +280,133 @@ export class PdfExtractor {
     }
   }
 
+  /**
+   * Extract text from item's PDF attachment split by page
+   * Uses the open reader's pdf.js document when available, otherwise falls
+   * back to the full-text cache, whose pages are separated by form feeds
+   */
+  async extractPdfPages(
+    item: Zotero.Item,
+  ): Promise<{ attachmentId: number; pages: PdfPageText[] } | null> {
+    try {
+      const pdfAttachment = await findPdfAttachment(item);
+      if (!pdfAttachment) return null;
+
+      const readerPages = await this.extractPagesFromReader(pdfAttachment.id);
+      if (readerPages && readerPages.length > 0) {
+        return { attachmentId: pdfAttachment.id, pages: readerPages };
+      }
+
+      const text = await pdfAttachment.attachmentText;
+      if (!text) return null;
+
+      const pages = text.split("\f").map((pageText, index) => ({
+        pageIndex: index,
+        pageLabel: String(index + 1),
+        text: pageText,
+      }));
+      return { attachmentId: pdfAttachment.id, pages };
+    } catch (error) {
+      ztoolkit.log("Error extracting PDF pages:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract text from item's PDF attachment with [Page N] markers
+   * Falls back to the plain text when page boundaries are unknown
+   */
+  async extractPdfTextWithPageMarkers(
+    item: Zotero.Item,
+  ): Promise<string | null> {
+    const extracted = await this.extractPdfPages(item);
+    if (!extracted) return null;
+    if (extracted.pages.length <= 1) {
+      return extracted.pages[0]?.text || null;
+    }
+    return formatPagesWithMarkers(extracted.pages);
+  }
+
+  /**
+   * Read page texts from an open reader tab for the attachment, if any
+   */
+  private async extractPagesFromReader(
+    attachmentId: number,
+  ): Promise<PdfPageText[] | null> {
+    const pdfDocument = getReaderPdfDocument(attachmentId);
+    if (!pdfDocument) return null;
+
+    const pages: PdfPageText[] = [];
+    for (let i = 1; i <= pdfDocument.numPages; i++) {
+      const page = await pdfDocument.getPage(i);
+      const content = await page.getTextContent();
+      pages.push({
+        pageIndex: i - 1,
+        pageLabel: String(i),
+        text: content.items.map((textItem) => textItem.str ?? "").join(" "),
+      });
+    }
+    return pages;
+  }
+
+  /**
+   * Collect the annotations of item's PDF attachment in reading order
+   */
+  async extractAnnotations(item: Zotero.Item): Promise<PdfAnnotation[]> {
+    try {
+      const pdfAttachment = await findPdfAttachment(item);
+      if (!pdfAttachment) return [];
+
+      return pdfAttachment
+        .getAnnotations()
+        .sort((a, b) =>
+          String(a.annotationSortIndex || "").localeCompare(
+            String(b.annotationSortIndex || ""),
+          ),
+        )
+        .map((annotation) => {
+          const color = (annotation.annotationColor || "").toLowerCase();
+          return {
+            type: annotation.annotationType,
+            page: this.getAnnotationPage(annotation),
+            color,
+            colorName: ANNOTATION_COLOR_NAMES[color] || color,
+            text: (annotation.annotationText || "").trim(),
+            comment: (annotation.annotationComment || "").trim(),
+            tags: annotation.getTags().map((tag) => tag.tag),
+          };
+        })
+        .filter((annotation) => annotation.text || annotation.comment);
+    } catch (error) {
+      ztoolkit.log("Error extracting annotations:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the physical page number of an annotation
+   * Falls back to the page label when the position cannot be parsed
+   */
+  private getAnnotationPage(annotation: Zotero.Item): number {
+    try {
+      const position = JSON.parse(annotation.annotationPosition) as {
+        pageIndex?: number;
+      };
+      if (typeof position.pageIndex === "number") {
+        return position.pageIndex + 1;
+      }
+    } catch {
+      // Ignore malformed position
+    }
+    return parseInt(annotation.annotationPageLabel, 10) || 0;
+  }
+
   /**
    * Check if item has PDF attachment
    */
   async hasPdfAttachment(item: Zotero.Item): Promise<boolean> {
     try {
-      const pdfAttachment = await this.findPdfAttachment(item);
+      const pdfAttachment = await findPdfAttachment(item);
       return pdfAttachment !== null;
     } catch (error) {
       ztoolkit.log("Error checking PDF attachment:", error);
@@ -188,7 +421,7 @@ export class PdfExtractor {
     item: Zotero.Item,
   ): Promise<{ name: string; size: number } | null> {
     try {
-      const pdfAttachment = await this.findPdfAttachment(item);
+      const pdfAttachment = await findPdfAttachment(item);
       if (!pdfAttachment) return null;
 
       const path = await pdfAttachment.getFilePathAsync();
@@ -0,0 +1,297 @@
+/**
+ * PdfHighlighter - Create Zotero highlight annotations from quoted passages
+ *
+ * Quotes are located in the text layer of the session's PDF, opened in the
+ * reader if needed, so the annotation rects line up with what the reader
+ * renders.
+ */
+
+import {
+  findPdfAttachment,
+  getReaderPdfDocument,
+  type PdfJsDocument,
+  type PdfJsTextItem,
+} from "./PdfExtractor";
+
+// Default Zotero highlight color (yellow)
+const HIGHLIGHT_COLOR = "#ffd400";
+// Shortest normalized quote that can be located reliably
+const MIN_QUOTE_LENGTH = 12;
+// Share of the font size above/below the baseline covered by a highlight
+const ASCENT_RATIO = 0.8;
+const DESCENT_RATIO = 0.2;
+// How long to wait for a PDF opened in the reader to load
+const READER_LOAD_TIMEOUT_MS = 15000;
+const READER_LOAD_POLL_MS = 200;
+
+export type HighlightError = "no-reader" | "not-found" | "failed";
+
+export interface HighlightResult {
+  success: boolean;
+  error?: HighlightError;
+  annotation?: Zotero.Item;
+}
+
+// Position of a normalized character in the page's text items
+interface CharPosition {
+  item: number;
+  char: number;
+}
+
+// Page text reduced to lowercase letters and digits, mapped back to items
+interface NormalizedPage {
+  text: string;
+  positions: CharPosition[];
+}
+
+// Located quote on a page
+interface QuoteMatch {
+  pageIndex: number;
+  items: PdfJsTextItem[];
+  start: CharPosition;
+  end: CharPosition; // Inclusive
+  pageHeight: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Reduce text to lowercase letters and digits so that whitespace, hyphenation
+ * and typographic quotes do not affect matching
+ */
+function normalizeText(text: string): string {
+  let result = "";
+  for (const ch of text) {
+    if (WORD_CHAR.test(ch)) {
+      result += ch.toLowerCase();
+    }
+  }
+  return result;
+}
+
+function normalizeItems(items: PdfJsTextItem[]): NormalizedPage {
+  let text = "";
+  const positions: CharPosition[] = [];
+  items.forEach((item, itemIndex) => {
+    const str = item.str ?? "";
+    let charIndex = 0;
+    for (const ch of str) {
+      if (WORD_CHAR.test(ch)) {
+        for (const lower of ch.toLowerCase()) {
+          text += lower;
+          positions.push({ item: itemIndex, char: charIndex });
+        }
+      }
+      charIndex += ch.length;
+    }
+  });
+  return { text, positions };
+}
+
+/**
+ * Get the candidate strings to search for, longest first
+ * Quotes shortened with an ellipsis are matched by their longest fragment
+ */
+function getSearchFragments(quote: string): string[] {
+  const cleaned = quote.replace(/\[pp?\.[^\]]*\]/g, " ");
+  const fragments = [normalizeText(cleaned)];
+  const parts = cleaned
+    .split(/\.{3}|…/)
+    .map(normalizeText)
+    .sort((a, b) => b.length - a.length);
+  if (parts.length > 1) {
+    fragments.push(parts[0]);
+  }
+  return fragments.filter((fragment) => fragment.length >= MIN_QUOTE_LENGTH);
+}
+
+/**
+ * Get the pages cited in the quote, as 0-based indexes
+ */
+function getCitedPageIndexes(quote: string): number[] {
+  const pages: number[] = [];
+  for (const match of quote.matchAll(/\[pp?\.\s*(\d+)/g)) {
+    pages.push(parseInt(match[1], 10) - 1);
+  }
+  return pages;
+}
+
+export class PdfHighlighter {
+  /**
+   * Highlight a quoted passage in the PDF of a session's item
+   * @param itemId Session item: the PDF attachment or its parent item
+   * @param quote Passage quoted by the assistant
+   * @param comment Optional annotation comment
+   */
+  async highlightInItem(
+    itemId: number,
+    quote: string,
+    comment?: string,
+  ): Promise<HighlightResult> {
+    const item = itemId > 0 ? Zotero.Items.get(itemId) : null;
+    const attachment = item ? await findPdfAttachment(item) : null;
+    if (!attachment) {
+      return { success: false, error: "no-reader" };
+    }
+
+    try {
+      const reader = await Zotero.Reader.open(attachment.id);
+      const pdfDocument = await this.waitForPdfDocument(attachment.id);
+      if (!reader || !pdfDocument) {
+        return { success: false, error: "no-reader" };
+      }
+
+      const match = await this.findQuote(pdfDocument, quote);
+      if (!match) {
+        return { success: false, error: "not-found" };
+      }
+
+      const annotation = await this.createHighlight(attachment, match, comment);
+      await reader.navigate({ pageIndex: match.pageIndex });
+      return { success: true, annotation };
+    } catch (error) {
+      ztoolkit.log("[PdfHighlighter] Failed to create highlight:", error);
+      return { success: false, error: "failed" };
+    }
+  }
+
+  /**
+   * Wait for the reader to load an attachment's PDF
+   * @returns null when it did not load in time
+   */
+  private async waitForPdfDocument(
+    attachmentId: number,
+  ): Promise<PdfJsDocument | null> {
+    const deadline = Date.now() + READER_LOAD_TIMEOUT_MS;
+    for (;;) {
+      const pdfDocument = getReaderPdfDocument(attachmentId);
+      if (pdfDocument || Date.now() >= deadline) return pdfDocument;
+      await new Promise((resolve) => setTimeout(resolve, READER_LOAD_POLL_MS));
+    }
+  }
+
+  /**
+   * Locate the quote in the text layer, trying cited pages first
+   */
+  private async findQuote(
+    pdfDocument: PdfJsDocument,
+    quote: string,
+  ): Promise<QuoteMatch | null> {
+    const fragments = getSearchFragments(quote);
+    if (fragments.length === 0) return null;
+
+    const cited = getCitedPageIndexes(quote).filter(
+      (index) => index >= 0 && index < pdfDocument.numPages,
+    );
+    const pageOrder = [
+      ...new Set([
+        ...cited,
+        ...Array.from({ length: pdfDocument.numPages }, (_, i) => i),
+      ]),
+    ];
+
+    for (const fragment of fragments) {
+      for (const pageIndex of pageOrder) {
+        const page = await pdfDocument.getPage(pageIndex + 1);
+        const content = await page.getTextContent();
+        const normalized = normalizeItems(content.items);
+        const start = normalized.text.indexOf(fragment);
+        if (start === -1) continue;
+
+        return {
+          pageIndex,
+          items: content.items,
+          start: normalized.positions[start],
+          end: normalized.positions[start + fragment.length - 1],
+          pageHeight: page.view[3] - page.view[1],
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Compute highlight rects in PDF user space for the matched characters
+   * Partially covered text items are cropped proportionally
+   */
+  private getMatchRects(match: QuoteMatch): number[][] {
+    const rects: number[][] = [];
+    for (let i = match.start.item; i <= match.end.item; i++) {
+      const item = match.items[i];
+      const str = item.str ?? "";
+      if (!str.trim() || !item.transform) continue;
+
+      const [, , skewX, scaleY, x, y] = item.transform;
+      const width = item.width ?? 0;
+      const fontSize = item.height || Math.hypot(skewX, scaleY);
+      const from = i === match.start.item ? match.start.char : 0;
+      const to = i === match.end.item ? match.end.char + 1 : str.length;
+
+      rects.push([
+        x + (width * from) / str.length,
+        y - fontSize * DESCENT_RATIO,
+        x + (width * to) / str.length,
+        y + fontSize * ASCENT_RATIO,
+      ]);
+    }
+    return rects;
+  }
+
+  private getMatchText(match: QuoteMatch): string {
+    const parts: string[] = [];
+    for (let i = match.start.item; i <= match.end.item; i++) {
+      const str = match.items[i].str ?? "";
+      const from = i === match.start.item ? match.start.char : 0;
+      const to = i === match.end.item ? match.end.char + 1 : str.length;
+      parts.push(str.substring(from, to));
+    }
+    return parts.join(" ").replace(/\s+/g, " ").trim();
+  }
+
+  private async createHighlight(
+    attachment: Zotero.Item,
+    match: QuoteMatch,
+    comment?: string,
+  ): Promise<Zotero.Item> {
+    const rects = this.getMatchRects(match);
+    const top = Math.max(...rects.map((rect) => rect[3]));
+    // Characters before the match, used for ordering in the sidebar
+    const offset =
+      match.items
+        .slice(0, match.start.item)
+        .reduce((sum, item) => sum + (item.str?.length ?? 0), 0) +
+      match.start.char;
+    const sortIndex = [
+      String(match.pageIndex).padStart(5, "0"),
+      String(offset).padStart(6, "0"),
+      String(Math.max(0, Math.floor(match.pageHeight - top))).padStart(5, "0"),
+    ].join("|");
+
+    const annotation = new Zotero.Item("annotation");
+    annotation.libraryID = attachment.libraryID;
+    annotation.parentID = attachment.id;
+    annotation.annotationType = "highlight";
+    annotation.annotationText = this.getMatchText(match);
+    annotation.annotationComment = comment?.trim() || "";
+    annotation.annotationColor = HIGHLIGHT_COLOR;
+    annotation.annotationPageLabel = String(match.pageIndex + 1);
+    // Zotero stores the sort index as a "page|offset|top" string
+    annotation.annotationSortIndex = sortIndex as unknown as number;
+    annotation.annotationPosition = JSON.stringify({
+      pageIndex: match.pageIndex,
+      rects,
+    });
+    await annotation.saveTx();
+    return annotation;
+  }
+}
+
+// Singleton instance
+let pdfHighlighter: PdfHighlighter | null = null;
+
+export function getPdfHighlighter(): PdfHighlighter {
+  if (!pdfHighlighter) {
+    pdfHighlighter = new PdfHighlighter();
+  }
+  return pdfHighlighter;
+}
@@ -0,0 +1,318 @@
+/**
+ * PdfRetriever - Retrieval-augmented PDF context
+ *
+ * Splits PDF text into page-aware chunks, keeps a per-attachment index in
+ * memory and returns the chunks most relevant to a question. Scoring is
+ * pluggable; BM25 is used by default and runs fully locally.
+ */
+
+import type { RetrievedChunk } from "../../types/chat";
+import type { PdfPageText } from "./PdfExtractor";
+
+// A chunk of PDF text that never crosses a page boundary
+export interface PdfChunk {
+  id: number;
+  pageIndex: number;
+  pageLabel: string;
+  text: string;
+}
+
+// Index built by a scorer over a fixed list of chunks
+export interface ChunkScoringIndex {
+  score(query: string): number[]; // One score per chunk, same order as input
+}
+
+// Pluggable local scorer (BM25 by default)
+export interface ChunkScorer {
+  readonly name: string;
+  buildIndex(chunks: PdfChunk[]): ChunkScoringIndex;
+}
+
+export interface RetrieveOptions {
+  topK?: number; // Maximum number of chunks to return
+  maxChars?: number; // Character budget for all returned chunks (-1 = unlimited)
+}
+
+// Target chunk size and overlap, in characters
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const DEFAULT_TOP_K = 8;
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "which",
+  "with",
+]);
+
+/**
+ * Tokenize text for lexical scoring
+ * Latin words are lowercased; CJK runs are split into character bigrams
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  for (const word of matches) {
+    if (/[぀-ヿ㐀-鿿가-힯]/.test(word)) {
+      if (word.length === 1) {
+        tokens.push(word);
+        continue;
+      }
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.push(word.substring(i, i + 2));
+      }
+    } else if (word.length > 1 && !STOPWORDS.has(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Okapi BM25 scorer
+ */
+export class Bm25Scorer implements ChunkScorer {
+  readonly name = "bm25";
+
+  constructor(
+    private k1: number = 1.2,
+    private b: number = 0.75,
+  ) {}
+
+  buildIndex(chunks: PdfChunk[]): ChunkScoringIndex {
+    const termFreqs: Map<string, number>[] = [];
+    const docFreq = new Map<string, number>();
+    let totalLength = 0;
+
+    for (const chunk of chunks) {
+      const tf = new Map<string, number>();
+      const tokens = tokenize(chunk.text);
+      for (const token of tokens) {
+        tf.set(token, (tf.get(token) || 0) + 1);
+      }
+      for (const term of tf.keys()) {
+        docFreq.set(term, (docFreq.get(term) || 0) + 1);
+      }
+      termFreqs.push(tf);
+      totalLength += tokens.length;
+    }
+
+    const lengths = termFreqs.map((tf) =>
+      Array.from(tf.values()).reduce((sum, n) => sum + n, 0),
+    );
+    const avgLength = chunks.length > 0 ? totalLength / chunks.length : 0;
+    const n = chunks.length;
+    const { k1, b } = this;
+
+    return {
+      score(query: string): number[] {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        return termFreqs.map((tf, i) => {
+          let score = 0;
+          for (const term of queryTerms) {
+            const freq = tf.get(term);
+            if (!freq) continue;
+            const df = docFreq.get(term) || 0;
+            const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+            const norm =
+              freq + k1 * (1 - b + (b * lengths[i]) / (avgLength || 1));
+            score += idf * ((freq * (k1 + 1)) / norm);
+          }
+          return score;
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Split page texts into overlapping chunks that stay within a page
+ */
+export function chunkPages(pages: PdfPageText[]): PdfChunk[] {
+  const chunks: PdfChunk[] = [];
+
+  for (const page of pages) {
+    const text = page.text.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(start + CHUNK_SIZE, text.length);
+      // Prefer to break at a sentence or word boundary
+      if (end < text.length) {
+        const sentenceEnd = text.lastIndexOf(". ", end);
+        const wordEnd = text.lastIndexOf(" ", end);
+        if (sentenceEnd > start + CHUNK_SIZE / 2) {
+          end = sentenceEnd + 1;
+        } else if (wordEnd > start + CHUNK_SIZE / 2) {
+          end = wordEnd;
+        }
+      }
+
+      chunks.push({
+        id: chunks.length,
+        pageIndex: page.pageIndex,
+        pageLabel: page.pageLabel,
+        text: text.substring(start, end).trim(),
+      });
+
+      if (end >= text.length) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+  }
+
+  return chunks;
+}
+
+interface AttachmentIndex {
+  signature: string;
+  scorerName: string;
+  chunks: PdfChunk[];
+  index: ChunkScoringIndex;
+}
+
+export class PdfRetriever {
+  // attachmentId -> chunk index
+  private indexes: Map<number, AttachmentIndex> = new Map();
+  private scorer: ChunkScorer;
+
+  constructor(scorer: ChunkScorer = new Bm25Scorer()) {
+    this.scorer = scorer;
+  }
+
+  /**
+   * Replace the scorer used for new indexes
+   * Existing indexes are rebuilt lazily on next retrieval
+   */
+  setScorer(scorer: ChunkScorer): void {
+    this.scorer = scorer;
+  }
+
+  getScorer(): ChunkScorer {
+    return this.scorer;
+  }
+
+  /**
+   * Get or build the index for an attachment
+   * The index is rebuilt when the page texts change
+   */
+  private getIndex(
+    attachmentId: number,
+    pages: PdfPageText[],
+  ): AttachmentIndex {
+    const signature = `${pages.length}:${pages.reduce(
+      (sum, page) => sum + page.text.length,
+      0,
+    )}`;
+    const cached = this.indexes.get(attachmentId);
+    if (
+      cached &&
+      cached.signature === signature &&
+      cached.scorerName === this.scorer.name
+    ) {
+      return cached;
+    }
+
+    const chunks = chunkPages(pages);
+    const entry: AttachmentIndex = {
+      signature,
+      scorerName: this.scorer.name,
+      chunks,
+      index: this.scorer.buildIndex(chunks),
+    };
+    this.indexes.set(attachmentId, entry);
+    ztoolkit.log(
+      `[PdfRetriever] Indexed attachment ${attachmentId}: ${chunks.length} chunks`,
+    );
+    return entry;
+  }
+
+  /**
+   * Retrieve the chunks most relevant to a query
+   * Results are returned in reading order (page, then position)
+   */
+  retrieve(
+    attachmentId: number,
+    pages: PdfPageText[],
+    query: string,
+    options: RetrieveOptions = {},
+  ): RetrievedChunk[] {
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const maxChars = options.maxChars ?? -1;
+    const { chunks, index } = this.getIndex(attachmentId, pages);
+    if (chunks.length === 0) return [];
+
+    const scores = index.score(query);
+    let ranked = chunks
+      .map((chunk, i) => ({ chunk, score: scores[i] }))
+      .sort((a, b) => b.score - a.score);
+
+    // No lexical overlap at all - fall back to the beginning of the document
+    if (ranked[0].score <= 0) {
+      ranked = chunks.map((chunk) => ({ chunk, score: 0 }));
+    }
+
+    const selected: Array<{ chunk: PdfChunk; score: number }> = [];
+    let usedChars = 0;
+    for (const entry of ranked) {
+      if (selected.length >= topK) break;
+      // Skip chunks that do not fit; smaller, lower-ranked ones still may
+      if (maxChars > 0 && usedChars + entry.chunk.text.length > maxChars) {
+        if (selected.length > 0) continue;
+      }
+      selected.push(entry);
+      usedChars += entry.chunk.text.length;
+    }
+
+    return selected
+      .sort((a, b) => a.chunk.id - b.chunk.id)
+      .map(({ chunk, score }) => ({
+        pageIndex: chunk.pageIndex,
+        pageLabel: chunk.pageLabel,
+        text: chunk.text,
+        score: Math.round(score * 1000) / 1000,
+      }));
+  }
+
+  /**
+   * Drop the cached index for an attachment (or all attachments)
+   */
+  invalidate(attachmentId?: number): void {
+    if (attachmentId === undefined) {
+      this.indexes.clear();
+    } else {
+      this.indexes.delete(attachmentId);
+    }
+  }
+}
+
+// Singleton instance
+let pdfRetriever: PdfRetriever | null = null;
+
+export function getPdfRetriever(): PdfRetriever {
+  if (!pdfRetriever) {
+    pdfRetriever = new PdfRetriever();
+  }
+  return pdfRetriever;
+}
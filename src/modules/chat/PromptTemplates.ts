@@ -0,0 +1,202 @@
+/**
+ * PromptTemplates - User-managed prompt library for slash commands
+ *
+ * Templates are stored as JSON in the promptTemplates pref; an empty pref
+ * means the built-in templates. Variables such as {{title}} are filled
+ * from the active Zotero item when a template is inserted.
+ */
+
+import type { PromptTemplate } from "../../types/chat";
+import { getPref, setPref } from "../../utils/prefs";
+
+// Version of the import/export file format
+const EXPORT_VERSION = 1;
+
+const COMMAND_PATTERN = /^[\w-]+$/;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const TEMPLATE_VARIABLES = [
+  "title",
+  "authors",
+  "year",
+  "abstract",
+  "selection",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateValues = Record<TemplateVariable, string>;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    command: "methods",
+    description: "Extract methods and sample size",
+    prompt:
+      'Extract the methods of "{{title}}" ({{authors}}, {{year}}): study design, data sources, sample size and its selection, and the main analyses. Cite page numbers.',
+  },
+  {
+    command: "limitations",
+    description: "List limitations",
+    prompt:
+      'List the limitations of "{{title}}", both those acknowledged by the authors and those they do not mention. Cite page numbers.',
+  },
+  {
+    command: "stats",
+    description: "Critique the statistics",
+    prompt:
+      'Critique the statistical analysis of "{{title}}": appropriateness of the tests, assumptions, effect sizes, multiple comparisons and how the results are reported.',
+  },
+  {
+    command: "explain",
+    description: "Explain the selected passage",
+    prompt: "Explain this passage in plain language:\n\n{{selection}}",
+  },
+];
+
+/**
+ * Check a value read from prefs or an import file
+ */
+function isPromptTemplate(value: unknown): value is PromptTemplate {
+  const template = value as PromptTemplate;
+  return (
+    !!template &&
+    typeof template.command === "string" &&
+    COMMAND_PATTERN.test(template.command) &&
+    typeof template.prompt === "string" &&
+    template.prompt.trim() !== "" &&
+    (template.description === undefined ||
+      typeof template.description === "string")
+  );
+}
+
+function normalizeTemplate(template: PromptTemplate): PromptTemplate {
+  return {
+    command: template.command,
+    description: template.description || "",
+    prompt: template.prompt,
+  };
+}
+
+/**
+ * Check if a command name can be used for a template
+ */
+export function isValidCommand(command: string): boolean {
+  return COMMAND_PATTERN.test(command);
+}
+
+/**
+ * Get the template library
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  const stored = getPref("promptTemplates");
+  if (!stored) return [...DEFAULT_PROMPT_TEMPLATES];
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter(isPromptTemplate).map(normalizeTemplate)
+      : [...DEFAULT_PROMPT_TEMPLATES];
+  } catch (error) {
+    ztoolkit.log("[PromptTemplates] Invalid templates pref:", error);
+    return [...DEFAULT_PROMPT_TEMPLATES];
+  }
+}
+
+/**
+ * Save the template library
+ */
+export function savePromptTemplates(templates: PromptTemplate[]): void {
+  setPref("promptTemplates", JSON.stringify(templates.map(normalizeTemplate)));
+}
+
+/**
+ * Get the templates whose command starts with the typed text, sorted
+ */
+export function matchPromptTemplates(query: string): PromptTemplate[] {
+  const lower = query.toLowerCase();
+  return getPromptTemplates()
+    .filter((template) => template.command.toLowerCase().startsWith(lower))
+    .sort((a, b) => a.command.localeCompare(b.command));
+}
+
+/**
+ * Get variable values from an item and the selected PDF text
+ * Attachments use their parent item's metadata
+ */
+export function getTemplateValues(
+  item: Zotero.Item | null,
+  selection: string,
+): TemplateValues {
+  const values: TemplateValues = {
+    title: "",
+    authors: "",
+    year: "",
+    abstract: "",
+    selection,
+  };
+  if (!item || item.id <= 0) return values;
+
+  const target =
+    item.isAttachment() && item.parentItem ? item.parentItem : item;
+  if (!target.isRegularItem()) return values;
+
+  values.title = target.getField("title") as string;
+  values.authors = target
+    .getCreators()
+    .map((creator) =>
+      [creator.firstName, creator.lastName].filter(Boolean).join(" "),
+    )
+    .join(", ");
+  values.year = target.getField("year") as string;
+  values.abstract = target.getField("abstractNote") as string;
+  return values;
+}
+
+/**
+ * Replace {{variables}} in a prompt; unknown variables are kept as typed
+ */
+export function fillPromptTemplate(
+  prompt: string,
+  values: TemplateValues,
+): string {
+  return prompt.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in values ? values[name as TemplateVariable] : match,
+  );
+}
+
+/**
+ * Serialize the template library for sharing
+ */
+export function exportPromptTemplates(): string {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, templates: getPromptTemplates() },
+    null,
+    2,
+  );
+}
+
+/**
+ * Merge templates from an export file into the library
+ * Imported templates replace existing ones with the same command
+ * @returns Number of templates imported
+ */
+export function importPromptTemplates(json: string): number {
+  const parsed = JSON.parse(json);
+  const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error("No templates found in file");
+  }
+
+  const imported = list.filter(isPromptTemplate).map(normalizeTemplate);
+  if (imported.length === 0) {
+    throw new Error("No valid templates found in file");
+  }
+
+  const commands = new Set(imported.map((template) => template.command));
+  savePromptTemplates([
+    ...getPromptTemplates().filter(
+      (template) => !commands.has(template.command),
+    ),
+    ...imported,
+  ]);
+  return imported.length;
+}
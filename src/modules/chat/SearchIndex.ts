@@ -0,0 +1,210 @@
+/**
+ * SearchIndex - Inverted index for full-text search over stored sessions
+ *
+ * Kept in _search.json and updated with the session metadata: a session
+ * is only tokenized again when its content changes. The index narrows
+ * a search to candidate sessions; StorageService then reads those sessions
+ * to confirm matches and build snippets.
+ */
+
+import type { ChatMessage, ChatSession } from "../../types/chat";
+import { tokenize } from "./PdfRetriever";
+
+// Bumped when tokenization changes, so older indexes are rebuilt
+const SEARCH_INDEX_VERSION = 1;
+
+interface SearchIndexEntry {
+  itemId: number;
+  signature: string; // Changes whenever the indexed content may have changed
+  providerIds: string[]; // Providers that answered in the session
+  terms: string[]; // Distinct terms, to remove the session's postings
+}
+
+interface SearchIndexData {
+  version: number;
+  sessions: Record<string, SearchIndexEntry>;
+  postings: Record<string, string[]>; // Term to session IDs
+}
+
+/**
+ * Get the text of a message that search covers
+ * Document content sent with a question is left out, only the question
+ * itself is searched
+ */
+export function getSearchableText(message: ChatMessage): string {
+  if (message.role === "error" || message.isHidden) return "";
+  if (message.role === "user") {
+    const question = message.content.match(/\[Question\]:\s*(.+)/s);
+    return question ? question[1].trim() : message.content;
+  }
+  return message.content;
+}
+
+/**
+ * Get the distinct index terms of a query
+ */
+export function getQueryTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+/**
+ * Get the words of a query to highlight in results
+ */
+export function getHighlightTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words));
+}
+
+/**
+ * Get a cheap fingerprint of a session's searchable state
+ * Not every edit touches updatedAt, so the message count and content
+ * length are part of it
+ */
+function getSessionSignature(session: ChatSession, itemId: number): string {
+  const messages = session.messages || [];
+  const contentLength = messages.reduce(
+    (sum, message) => sum + (message.content?.length ?? 0),
+    0,
+  );
+  return [
+    itemId,
+    session.updatedAt,
+    session.title || "",
+    messages.length,
+    contentLength,
+  ].join(":");
+}
+
+export class SearchIndex {
+  private data: SearchIndexData = {
+    version: SEARCH_INDEX_VERSION,
+    sessions: {},
+    postings: {},
+  };
+  private dirty: boolean = false;
+
+  /**
+   * Load the index from a file
+   * @returns Whether a current index was loaded; false means it must be
+   *   rebuilt
+   */
+  async load(path: string): Promise<boolean> {
+    try {
+      if (await IOUtils.exists(path)) {
+        const data = (await IOUtils.readJSON(path)) as SearchIndexData;
+        if (data.version === SEARCH_INDEX_VERSION) {
+          this.data = data;
+          return true;
+        }
+      }
+    } catch {
+      ztoolkit.log("Search index file invalid, rebuilding...");
+    }
+    this.clear();
+    return false;
+  }
+
+  /**
+   * Save the index if it changed since the last save
+   */
+  async save(path: string): Promise<void> {
+    if (!this.dirty) return;
+    await IOUtils.writeJSON(path, this.data, { tmpPath: `${path}.tmp` });
+    this.dirty = false;
+  }
+
+  clear(): void {
+    this.data = { version: SEARCH_INDEX_VERSION, sessions: {}, postings: {} };
+    this.dirty = true;
+  }
+
+  /**
+   * Index a session, replacing its previous terms
+   * Sessions that did not change since they were indexed are skipped
+   */
+  updateSession(session: ChatSession, itemId: number): void {
+    const signature = getSessionSignature(session, itemId);
+    if (this.data.sessions[session.id]?.signature === signature) return;
+    this.removeSession(session.id);
+
+    const texts = [session.title || ""];
+    const providerIds = new Set<string>();
+    for (const message of session.messages || []) {
+      texts.push(getSearchableText(message));
+      if (message.providerId) providerIds.add(message.providerId);
+    }
+    const terms = Array.from(new Set(tokenize(texts.join("\n"))));
+
+    for (const term of terms) {
+      (this.data.postings[term] ||= []).push(session.id);
+    }
+    this.data.sessions[session.id] = {
+      itemId,
+      signature,
+      providerIds: Array.from(providerIds),
+      terms,
+    };
+    this.dirty = true;
+  }
+
+  removeSession(sessionId: string): void {
+    const entry = this.data.sessions[sessionId];
+    if (!entry) return;
+
+    for (const term of entry.terms) {
+      const postings = this.data.postings[term]?.filter(
+        (id) => id !== sessionId,
+      );
+      if (postings && postings.length > 0) {
+        this.data.postings[term] = postings;
+      } else {
+        delete this.data.postings[term];
+      }
+    }
+    delete this.data.sessions[sessionId];
+    this.dirty = true;
+  }
+
+  /**
+   * Get the IDs of sessions containing every query term, each term
+   * matching as a prefix of an indexed term
+   * @returns null when the query has no searchable terms
+   */
+  findSessions(query: string): Set<string> | null {
+    const queryTerms = getQueryTerms(query);
+    if (queryTerms.length === 0) return null;
+
+    const indexedTerms = Object.keys(this.data.postings);
+    let result: Set<string> | null = null;
+    for (const queryTerm of queryTerms) {
+      const matches = new Set<string>();
+      for (const term of indexedTerms) {
+        if (!term.startsWith(queryTerm)) continue;
+        for (const sessionId of this.data.postings[term]) {
+          if (!result || result.has(sessionId)) matches.add(sessionId);
+        }
+      }
+      result = matches;
+      if (result.size === 0) break;
+    }
+    return result;
+  }
+
+  /**
+   * Get the providers that answered in a session
+   */
+  getProviderIds(sessionId: string): string[] {
+    return this.data.sessions[sessionId]?.providerIds || [];
+  }
+
+  /**
+   * Get every provider that answered in any session
+   */
+  getAllProviderIds(): string[] {
+    const providerIds = new Set<string>();
+    for (const entry of Object.values(this.data.sessions)) {
+      entry.providerIds.forEach((id) => providerIds.add(id));
+    }
+    return Array.from(providerIds).sort();
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * StorageDatabase - SQLite database for conversation history
+ *
+ * Opened through Zotero's DBConnection at zota/conversations.sqlite. The
+ * schema version is kept in PRAGMA user_version; on open, the migrations
+ * after it are applied in order, each in its own transaction.
+ *
+ * On open the database is also checked: a damaged file is moved to
+ * zota/quarantine/ and the sessions that can still be read are copied into
+ * a new database. A backup is kept in zota/backups/ once a day, rolling
+ * over the last few, and any of them can be restored from the preferences.
+ */
+
+export type StorageDatabase = _ZoteroTypes.DBConnection;
+
+export interface StorageBackup {
+  path: string;
+  date: number;
+}
+
+// Number of rolling database backups kept
+const MAX_BACKUPS = 5;
+// Minimum time between two automatic backups
+const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const BACKUP_FILE_PATTERN = /^conversations-(\d+)\.sqlite$/;
+
+// Columns copied for each table when salvaging a damaged database
+// Library keys are left out: they are filled in again on open
+const SALVAGE_TABLES: Record<string, string[]> = {
+  sessions: ["sessionId", "itemId", "createdAt", "updatedAt", "data", "meta"],
+  messages: ["sessionId", "position", "messageId", "data"],
+  images: ["sessionId", "position", "imageIndex", "data"],
+};
+
+// Schema migrations; the schema version is the number applied
+const SCHEMA_MIGRATIONS: string[][] = [
+  // 1: Sessions with their messages, and message images kept apart so that
+  // rewriting a message does not rewrite its images
+  [
+    `CREATE TABLE documents (
+      itemId INTEGER PRIMARY KEY,
+      activeSessionId TEXT
+    )`,
+    `CREATE TABLE sessions (
+      sessionId TEXT PRIMARY KEY,
+      itemId INTEGER NOT NULL,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      meta TEXT
+    )`,
+    `CREATE INDEX sessions_itemId ON sessions(itemId)`,
+    `CREATE TABLE messages (
+      sessionId TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      messageId TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (sessionId, position)
+    )`,
+    `CREATE TABLE images (
+      sessionId TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      imageIndex INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (sessionId, position, imageIndex)
+    )`,
+  ],
+  // 2: Library key of each session's item or collection, which unlike the
+  // local itemId is the same on every machine syncing the library
+  [`ALTER TABLE sessions ADD COLUMN libraryKey TEXT`],
+];
+
+/**
+ * Get the path of a file or folder in the plugin's data folder
+ */
+function getDataPath(...parts: string[]): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, "zota", ...parts);
+}
+
+/**
+ * Get the database file path
+ */
+export function getStorageDatabasePath(): string {
+  return getDataPath("conversations.sqlite");
+}
+
+/**
+ * Move a file that cannot be read out of the way, keeping it in
+ * zota/quarantine/ for inspection
+ * @returns The new path of the file
+ */
+export async function quarantineFile(path: string): Promise<string> {
+  const quarantinePath = getDataPath("quarantine");
+  await IOUtils.makeDirectory(quarantinePath, { createAncestors: true });
+  const target = PathUtils.join(
+    quarantinePath,
+    `${Date.now()}-${PathUtils.filename(path)}`,
+  );
+  await IOUtils.move(path, target);
+  ztoolkit.log("Quarantined unreadable file:", path, "->", target);
+  return target;
+}
+
+/**
+ * Remove the journal files SQLite keeps next to a database
+ */
+async function removeJournalFiles(path: string): Promise<void> {
+  for (const suffix of ["-journal", "-wal", "-shm"]) {
+    await IOUtils.remove(path + suffix, { ignoreAbsent: true });
+  }
+}
+
+/**
+ * List the database backups, newest first
+ */
+export async function listStorageBackups(): Promise<StorageBackup[]> {
+  const backupsPath = getDataPath("backups");
+  if (!(await IOUtils.exists(backupsPath))) return [];
+
+  const backups: StorageBackup[] = [];
+  for (const path of await IOUtils.getChildren(backupsPath)) {
+    const match = PathUtils.filename(path).match(BACKUP_FILE_PATTERN);
+    if (match) {
+      backups.push({ path, date: Number(match[1]) });
+    }
+  }
+  return backups.sort((a, b) => b.date - a.date);
+}
+
+/**
+ * Write a consistent copy of the database to the backups folder and drop
+ * the oldest backups past the limit
+ * @param force - Back up even if the last backup is recent
+ */
+async function backupDatabase(
+  db: StorageDatabase,
+  force: boolean = false,
+): Promise<void> {
+  const backups = await listStorageBackups();
+  if (
+    !force &&
+    backups.length > 0 &&
+    Date.now() - backups[0].date < BACKUP_INTERVAL_MS
+  ) {
+    return;
+  }
+
+  const backupsPath = getDataPath("backups");
+  await IOUtils.makeDirectory(backupsPath, { createAncestors: true });
+  // VACUUM INTO writes a complete copy even while the database is in use
+  await db.queryAsync("VACUUM INTO ?", [
+    PathUtils.join(backupsPath, `conversations-${Date.now()}.sqlite`),
+  ]);
+
+  for (const backup of (await listStorageBackups()).slice(MAX_BACKUPS)) {
+    await IOUtils.remove(backup.path, { ignoreAbsent: true });
+  }
+}
+
+/**
+ * Copy the sessions that can still be read from a damaged database
+ * Each session is copied with its messages and images in one transaction,
+ * so a session is either salvaged whole or skipped
+ */
+async function salvageDatabase(
+  brokenPath: string,
+  db: StorageDatabase,
+): Promise<void> {
+  const broken = new Zotero.DBConnection(brokenPath);
+  let salvaged = 0;
+  let lost = 0;
+
+  try {
+    const sessionIds =
+      (await broken.columnQueryAsync<string>(
+        "SELECT sessionId FROM sessions",
+      )) || [];
+
+    for (const sessionId of sessionIds) {
+      try {
+        const tables: Array<[string, string[], Record<string, unknown>[]]> = [];
+        for (const [table, columns] of Object.entries(SALVAGE_TABLES)) {
+          const rows =
+            (await broken.queryAsync(
+              `SELECT ${columns.join(", ")} FROM ${table} WHERE sessionId = ?`,
+              [sessionId],
+            )) || [];
+          tables.push([table, columns, rows]);
+        }
+        // The session row must at least hold readable session data
+        const sessionRow = tables[0][2][0];
+        JSON.parse(String(sessionRow?.data));
+
+        await db.executeTransaction(async () => {
+          for (const [table, columns, rows] of tables) {
+            for (const row of rows) {
+              await db.queryAsync(
+                `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+                columns.map((column) => row[column] as string | number | null),
+              );
+            }
+          }
+        });
+        salvaged++;
+      } catch {
+        lost++;
+      }
+    }
+
+    // Active sessions are only a convenience; keep those that can be read
+    try {
+      const documents = (await broken.queryAsync(
+        "SELECT itemId, activeSessionId FROM documents",
+      )) as Array<{ itemId: number; activeSessionId: string | null }>;
+      await db.executeTransaction(async () => {
+        for (const document of documents || []) {
+          await db.queryAsync(
+            "INSERT OR REPLACE INTO documents (itemId, activeSessionId) VALUES (?, ?)",
+            [document.itemId, document.activeSessionId],
+          );
+        }
+      });
+    } catch {
+      // Sessions without a document row fall back to their first session
+    }
+  } catch (error) {
+    ztoolkit.log("Damaged conversation database could not be read:", error);
+  } finally {
+    await broken.closeDatabase(true).catch(() => undefined);
+  }
+
+  ztoolkit.log(
+    `Salvaged ${salvaged} sessions from the damaged conversation database, ${lost} lost`,
+  );
+}
+
+/**
+ * Open the database at a path, repairing it if it fails its check
+ */
+async function openDatabase(path: string): Promise<StorageDatabase> {
+  let db = new Zotero.DBConnection(path);
+
+  let healthy = false;
+  try {
+    healthy = await db.quickCheck();
+  } catch (error) {
+    ztoolkit.log("Conversation database check error:", error);
+  }
+
+  if (!healthy) {
+    ztoolkit.log("Conversation database is damaged, repairing...");
+    await db.closeDatabase(true).catch(() => undefined);
+    const brokenPath = await quarantineFile(path);
+    await removeJournalFiles(path);
+
+    db = new Zotero.DBConnection(path);
+    await migrateSchema(db);
+    await salvageDatabase(brokenPath, db);
+    return db;
+  }
+
+  // Back up before migrating, so a failed migration can be undone
+  const version = Number(await db.valueQueryAsync("PRAGMA user_version")) || 0;
+  if (version > 0) {
+    try {
+      await backupDatabase(db);
+    } catch (error) {
+      ztoolkit.log("Conversation database backup error:", error);
+    }
+  }
+
+  await migrateSchema(db);
+  return db;
+}
+
+/**
+ * Apply the migrations the database has not had yet
+ */
+async function migrateSchema(db: StorageDatabase): Promise<void> {
+  const version = Number(await db.valueQueryAsync("PRAGMA user_version")) || 0;
+  if (version > SCHEMA_MIGRATIONS.length) {
+    // Written by a newer version of the plugin; its changes are additive
+    ztoolkit.log(
+      `Conversation database schema ${version} is newer than ${SCHEMA_MIGRATIONS.length}`,
+    );
+    return;
+  }
+
+  for (let next = version; next < SCHEMA_MIGRATIONS.length; next++) {
+    await db.executeTransaction(async () => {
+      for (const sql of SCHEMA_MIGRATIONS[next]) {
+        await db.queryAsync(sql);
+      }
+      await db.queryAsync(`PRAGMA user_version = ${next + 1}`);
+    });
+    ztoolkit.log(`Conversation database migrated to schema ${next + 1}`);
+  }
+}
+
+// Shared connection, opened once for every StorageService
+let databasePromise: Promise<StorageDatabase> | null = null;
+// Incremented when the database file is replaced, so services reload it
+let databaseGeneration = 0;
+// Set while a backup replaces the database file; opens wait for it
+let restoring: Promise<void> | null = null;
+
+/**
+ * Open the database, creating or migrating its schema on first use
+ */
+export function getStorageDatabase(): Promise<StorageDatabase> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      await restoring;
+      const path = getStorageDatabasePath();
+      const dir = PathUtils.parent(path)!;
+      if (!(await IOUtils.exists(dir))) {
+        await IOUtils.makeDirectory(dir, { createAncestors: true });
+      }
+      return openDatabase(path);
+    })();
+    // Let a later call retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Get the number of times the database file was replaced
+ */
+export function getStorageDatabaseGeneration(): number {
+  return databaseGeneration;
+}
+
+/**
+ * Replace the database with a backup
+ * The current database is backed up first, so a restore can be undone
+ */
+export async function restoreStorageBackup(backupPath: string): Promise<void> {
+  const path = getStorageDatabasePath();
+  // Copy first: backing up the current database may drop the oldest backup
+  const restorePath = `${path}.restore`;
+  await IOUtils.copy(backupPath, restorePath);
+
+  const db = await getStorageDatabase();
+  await backupDatabase(db, true);
+
+  let restored!: () => void;
+  restoring = new Promise((resolve) => {
+    restored = resolve;
+  });
+  try {
+    // Services opening the database from now on get the restored one
+    databaseGeneration++;
+    // Transactions wait for the running one, so this lets a save finish
+    await db.executeTransaction(async () => undefined);
+    await closeStorageDatabase();
+    await IOUtils.move(restorePath, path);
+    await removeJournalFiles(path);
+  } finally {
+    restoring = null;
+    restored();
+  }
+}
+
+/**
+ * Close the database on shutdown
+ */
+export async function closeStorageDatabase(): Promise<void> {
+  if (!databasePromise) return;
+  const pending = databasePromise;
+  databasePromise = null;
+  try {
+    const db = await pending;
+    await db.closeDatabase(true);
+  } catch (error) {
+    ztoolkit.log("Close conversation database error:", error);
+  }
+}
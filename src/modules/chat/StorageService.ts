@@ -1,22 +1,98 @@
 /**
  * StorageService - Conversation history persistence
  *
- * Uses JSON files in Zotero Profile directory to store conversation history
- * Uses index file to cache metadata, avoiding frequent reads of all session files
+ * Stores sessions, their messages and message images in separate tables of
+ * an SQLite database (see StorageDatabase). Messages are written as rows, so
+ * the saves during streaming only write the message that changed
+ * Session metadata is stored with each session and cached in memory,
+ * avoiding reads of all sessions for the history list
+ * Keeps an inverted index of message text for full-text search
  * Supports multiple sessions per document
+ * Sessions also store the library key of their item, which stays the same
+ * when the item's local ID changes; sessions are moved to their item's
+ * current ID on init
+ * The whole history can be exported to an archive and imported from one
+ * (see HistoryArchive)
+ *
+ * Earlier versions stored one JSON file per document in zota/conversations/;
+ * those files are migrated once and then moved to its legacy/ folder
+ *
+ * JSON files are written to a temporary file first and then renamed over
+ * the old one, so a crash during a save cannot leave a half-written file.
+ * Files that cannot be read are quarantined instead of overwritten.
  */
 
 import type {
+  BatchJob,
+  ChatMessage,
   ChatSession,
   StoredSessionMeta,
   DocumentSessions,
+  HistorySyncState,
+  MessageImage,
+  MessageUsage,
+  SessionSearchQuery,
+  SessionSearchResult,
+  TokenUsage,
+  UsageBucket,
 } from "../../types/chat";
 import { getString } from "../../utils/locale";
+import {
+  createHistoryArchive,
+  readHistoryArchive,
+  type ArchivedSession,
+  type HistoryImportResult,
+} from "./HistoryArchive";
+import {
+  SearchIndex,
+  getHighlightTerms,
+  getQueryTerms,
+  getSearchableText,
+} from "./SearchIndex";
+import {
+  formatLibraryKey,
+  getCollectionLibraryKey,
+  getItemLibraryKey,
+  parseLibraryKey,
+  resolveCollectionLibraryKey,
+  resolveItemLibraryKey,
+  type LibraryKey,
+} from "./LibraryKey";
+import { isCollectionSessionItemId } from "./CollectionContext";
+import {
+  getStorageDatabase,
+  getStorageDatabaseGeneration,
+  quarantineFile,
+  type StorageDatabase,
+} from "./StorageDatabase";
+
+// Most results a search returns, newest first
+const MAX_SEARCH_RESULTS = 100;
+// Characters of context shown before a match in result snippets
+const SNIPPET_CONTEXT = 40;
+const SNIPPET_LENGTH = 140;
+
+// Stored form of a message row, compared on save to skip unchanged messages
+interface StoredMessageRow {
+  data: string; // Message JSON without images
+  images: string; // IDs of the message's images
+}
+
+// JSON files are migrated once, however many services are initialized
+let jsonMigration: Promise<void> | null = null;
 
 export class StorageService {
   private storagePath: string;
   private initialized: boolean = false;
+  private db: StorageDatabase | null = null;
+  // Database generation the caches were loaded from
+  private databaseGeneration: number = -1;
   private indexCache: StoredSessionMeta[] | null = null;
+  private usageCache: UsageBucket[] | null = null;
+  private batchJobsCache: BatchJob[] | null = null;
+  private searchIndex: SearchIndex = new SearchIndex();
+  // Message rows each session was last written with, by session ID
+  private savedMessages = new Map<string, StoredMessageRow[]>();
 
   constructor() {
     // Storage path: Zotero Profile/zota/conversations/
@@ -24,10 +100,21 @@ export class StorageService {
   }
 
   /**
-   * Initialize storage directory
+   * Initialize storage directory and database
    */
   async init(): Promise<void> {
-    if (this.initialized) return;
+    if (
+      this.initialized &&
+      this.databaseGeneration === getStorageDatabaseGeneration()
+    ) {
+      return;
+    }
+
+    // The database was replaced, e.g. restored from a backup
+    const replaced = this.initialized;
+    this.initialized = false;
+    this.databaseGeneration = getStorageDatabaseGeneration();
+    this.savedMessages.clear();
 
     try {
       // Get Zotero data directory
@@ -41,8 +128,28 @@ export class StorageService {
         });
       }
 
-      // Load or rebuild index
-      await this.loadOrRebuildIndex();
+      this.db = await getStorageDatabase();
+
+      // Move history of earlier versions into the database
+      if (!jsonMigration) {
+        jsonMigration = this.migrateJsonSessions();
+        jsonMigration.catch(() => {
+          jsonMigration = null;
+        });
+      }
+      await jsonMigration;
+
+      const moved = await this.relinkSessions();
+
+      // Load index
+      const searchIndexLoaded =
+        !replaced &&
+        moved === 0 &&
+        (await this.searchIndex.load(this.getSearchIndexPath()));
+      await this.loadIndex();
+      if (!searchIndexLoaded) {
+        await this.rebuildSearchIndex();
+      }
 
       this.initialized = true;
     } catch (error) {
@@ -52,89 +159,481 @@ export class StorageService {
   }
 
   /**
-   * Get index file path
+   * Get the database, once init has opened it
    */
-  private getIndexPath(): string {
-    return PathUtils.join(this.storagePath, "_index.json");
+  private getDatabase(): StorageDatabase {
+    if (!this.db) {
+      throw new Error("StorageService is not initialized");
+    }
+    return this.db;
   }
 
   /**
-   * Get document sessions file path
+   * Get search index file path
    */
-  private getDocumentSessionsPath(itemId: number): string {
-    return PathUtils.join(this.storagePath, `${itemId}.json`);
+  private getSearchIndexPath(): string {
+    return PathUtils.join(this.storagePath, "_search.json");
   }
 
   /**
-   * Load or rebuild index
+   * Get usage ledger file path
    */
-  private async loadOrRebuildIndex(): Promise<void> {
-    const indexPath = this.getIndexPath();
+  private getUsagePath(): string {
+    return PathUtils.join(this.storagePath, "_usage.json");
+  }
 
-    try {
-      if (await IOUtils.exists(indexPath)) {
-        this.indexCache = (await IOUtils.readJSON(
-          indexPath,
-        )) as StoredSessionMeta[];
-        return;
-      }
-    } catch {
-      ztoolkit.log("Index file invalid, rebuilding...");
-    }
+  /**
+   * Get batch jobs file path
+   */
+  private getBatchJobsPath(): string {
+    return PathUtils.join(this.storagePath, "_batch.json");
+  }
+
+  /**
+   * Get history sync state file path
+   */
+  private getSyncStatePath(): string {
+    return PathUtils.join(this.storagePath, "_sync.json");
+  }
 
-    // Rebuild index
-    await this.rebuildIndex();
+  /**
+   * Write a JSON file atomically, through a temporary file
+   */
+  private async writeJSONFile(path: string, data: unknown): Promise<void> {
+    await IOUtils.writeJSON(path, data, { tmpPath: `${path}.tmp` });
   }
 
   /**
-   * Rebuild index (from all session files)
-   * Uses parallel reads for better performance
+   * Get the folder that migrated JSON files are moved to
    */
-  private async rebuildIndex(): Promise<void> {
+  private getLegacyPath(): string {
+    return PathUtils.join(this.storagePath, "legacy");
+  }
+
+  /**
+   * Move the sessions of the JSON files of earlier versions into the
+   * database
+   * Sessions already in the database are skipped, so a migration that was
+   * interrupted can run again
+   */
+  private async migrateJsonSessions(): Promise<void> {
     const children = await IOUtils.getChildren(this.storagePath);
+    // Document session files are named after the item ID
+    const sessionFiles = children.filter((f) =>
+      /^-?\d+\.json$/.test(PathUtils.filename(f)),
+    );
+    if (sessionFiles.length === 0) return;
 
-    // Filter session files (exclude index file)
-    const sessionFiles = children.filter(
-      (f) => f.endsWith(".json") && !f.endsWith("_index.json"),
+    ztoolkit.log(
+      `Migrating ${sessionFiles.length} conversation files to the database...`,
     );
+    const db = this.getDatabase();
+    const legacyPath = this.getLegacyPath();
+    await IOUtils.makeDirectory(legacyPath, { ignoreExisting: true });
 
-    // Read all session files in parallel
-    const metaPromises = sessionFiles.map(async (filePath) => {
+    for (const filePath of sessionFiles) {
+      let data: DocumentSessions;
       try {
-        const data = (await IOUtils.readJSON(filePath)) as DocumentSessions;
-        if (data.sessions && Array.isArray(data.sessions)) {
-          // Create metadata for each session
-          const metas: StoredSessionMeta[] = [];
-          for (const session of data.sessions) {
-            const meta = await this.buildSessionMeta(session, data.itemId);
-            metas.push(meta);
+        data = (await IOUtils.readJSON(filePath)) as DocumentSessions;
+      } catch (error) {
+        ztoolkit.log("Conversation file unreadable:", filePath, error);
+        await quarantineFile(filePath);
+        continue;
+      }
+
+      try {
+        // Skip sessions damaged beyond use, keep the rest
+        const sessions = (
+          Array.isArray(data.sessions) ? data.sessions : []
+        ).filter(
+          (session) =>
+            typeof session?.id === "string" && Array.isArray(session.messages),
+        );
+        const metas: StoredSessionMeta[] = [];
+        for (const session of sessions) {
+          metas.push(await this.buildSessionMeta(session, data.itemId));
+        }
+
+        await db.executeTransaction(async () => {
+          await db.queryAsync(
+            "INSERT OR IGNORE INTO documents (itemId, activeSessionId) VALUES (?, ?)",
+            [data.itemId, data.activeSessionId ?? null],
+          );
+          for (let i = 0; i < sessions.length; i++) {
+            const exists = await db.valueQueryAsync(
+              "SELECT 1 FROM sessions WHERE sessionId = ?",
+              [sessions[i].id],
+            );
+            if (!exists) {
+              await this.writeSession(sessions[i], data.itemId, metas[i]);
+            }
           }
-          return metas;
+        });
+
+        await IOUtils.move(
+          filePath,
+          PathUtils.join(legacyPath, PathUtils.filename(filePath)),
+        );
+      } catch (error) {
+        // Files stay in place and are tried again on next start
+        ztoolkit.log("Migrate conversation file error:", filePath, error);
+      }
+    }
+
+    // The metadata index file is replaced by the sessions table
+    await IOUtils.remove(PathUtils.join(this.storagePath, "_index.json"), {
+      ignoreAbsent: true,
+    });
+  }
+
+  /**
+   * Load the metadata of all sessions into the index cache
+   */
+  private async loadIndex(): Promise<void> {
+    const db = this.getDatabase();
+    const rows =
+      (await db.queryAsync("SELECT sessionId, itemId, meta FROM sessions")) ||
+      [];
+
+    const metas: StoredSessionMeta[] = [];
+    for (const row of rows) {
+      try {
+        metas.push(JSON.parse(row.meta) as StoredSessionMeta);
+      } catch {
+        // Rebuild metadata that cannot be read
+        const [session] = await this.readSessions("sessionId = ?", [
+          row.sessionId,
+        ]);
+        if (session) {
+          metas.push(await this.buildSessionMeta(session, row.itemId));
         }
-        return null;
+      }
+    }
+
+    // Sort by update time
+    metas.sort((a, b) => b.lastUpdated - a.lastUpdated);
+    this.indexCache = metas;
+  }
+
+  /**
+   * Rebuild the search index from all stored sessions
+   */
+  private async rebuildSearchIndex(): Promise<void> {
+    const db = this.getDatabase();
+    this.searchIndex.clear();
+
+    const itemIds =
+      (await db.columnQueryAsync<number>(
+        "SELECT DISTINCT itemId FROM sessions",
+      )) || [];
+    for (const itemId of itemIds) {
+      for (const session of await this.readSessions("itemId = ?", [itemId])) {
+        this.searchIndex.updateSession(session, itemId);
+      }
+    }
+    await this.saveSearchIndex();
+  }
+
+  /**
+   * Save the search index (only written when it changed)
+   */
+  private async saveSearchIndex(): Promise<void> {
+    await this.searchIndex.save(this.getSearchIndexPath());
+  }
+
+  /**
+   * Read sessions with their messages and message images
+   * @param where - Condition on the sessions table
+   */
+  private async readSessions(
+    where: string,
+    params: Array<string | number>,
+  ): Promise<ChatSession[]> {
+    const db = this.getDatabase();
+    const sessionRows =
+      (await db.queryAsync(
+        `SELECT sessionId, data FROM sessions WHERE ${where} ORDER BY rowid`,
+        params,
+      )) || [];
+
+    const sessions: ChatSession[] = [];
+    for (const sessionRow of sessionRows) {
+      let session: ChatSession;
+      try {
+        session = JSON.parse(sessionRow.data) as ChatSession;
       } catch {
-        // Ignore invalid JSON files
-        return null;
+        ztoolkit.log("Skipping unreadable session:", sessionRow.sessionId);
+        continue;
       }
-    });
 
-    const results = await Promise.all(metaPromises);
-    const allMetas = results
-      .filter((metas): metas is StoredSessionMeta[] => metas !== null)
-      .flat();
+      const images = new Map<number, MessageImage[]>();
+      const imageRows =
+        (await db.queryAsync(
+          "SELECT position, data FROM images WHERE sessionId = ? ORDER BY position, imageIndex",
+          [sessionRow.sessionId],
+        )) || [];
+      for (const imageRow of imageRows) {
+        const messageImages = images.get(imageRow.position) || [];
+        try {
+          messageImages.push(JSON.parse(imageRow.data) as MessageImage);
+        } catch {
+          // Leave out images that cannot be read
+        }
+        images.set(imageRow.position, messageImages);
+      }
 
-    this.indexCache = allMetas;
+      const messageRows =
+        (await db.queryAsync(
+          "SELECT position, data FROM messages WHERE sessionId = ? ORDER BY position",
+          [sessionRow.sessionId],
+        )) || [];
+      // Messages that cannot be read are left out, keeping the others
+      session.messages = [];
+      for (const messageRow of messageRows) {
+        try {
+          const message = JSON.parse(messageRow.data) as ChatMessage;
+          const messageImages = images.get(messageRow.position);
+          if (messageImages) {
+            message.images = messageImages;
+          }
+          session.messages.push(message);
+        } catch {
+          ztoolkit.log(
+            "Skipping unreadable message:",
+            sessionRow.sessionId,
+            messageRow.position,
+          );
+        }
+      }
 
-    await this.saveIndex();
+      sessions.push(session);
+    }
+    return sessions;
   }
 
   /**
-   * Save index
+   * Get the stored form of a message
    */
-  private async saveIndex(): Promise<void> {
-    if (!this.indexCache) return;
-    const indexPath = this.getIndexPath();
-    await IOUtils.writeJSON(indexPath, this.indexCache);
+  private toMessageRow(message: ChatMessage): StoredMessageRow {
+    return {
+      data: JSON.stringify({ ...message, images: undefined }),
+      images: (message.images || []).map((image) => image.id).join(","),
+    };
+  }
+
+  /**
+   * Write a session and the messages that changed since it was last
+   * written; must run in a transaction
+   * Messages are only all rewritten on a session's first save in a run
+   * @returns The message rows as written, to compare the next save with
+   */
+  private async writeSession(
+    session: ChatSession,
+    itemId: number,
+    meta: StoredSessionMeta,
+  ): Promise<StoredMessageRow[]> {
+    const db = this.getDatabase();
+    const { messages, ...data } = session;
+
+    // Kept with every write, for relinkSessions to find the item by
+    const libraryKey = this.getSessionLibraryKey(itemId);
+    await db.queryAsync(
+      `INSERT INTO sessions (sessionId, itemId, createdAt, updatedAt, data, meta, libraryKey)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (sessionId) DO UPDATE SET
+         itemId = excluded.itemId,
+         createdAt = excluded.createdAt,
+         updatedAt = excluded.updatedAt,
+         data = excluded.data,
+         meta = excluded.meta,
+         libraryKey = excluded.libraryKey`,
+      [
+        session.id,
+        itemId,
+        session.createdAt,
+        session.updatedAt,
+        JSON.stringify(data),
+        JSON.stringify(meta),
+        libraryKey ? formatLibraryKey(libraryKey) : null,
+      ],
+    );
+
+    // Compare with the rows last written, unless the session was changed
+    // elsewhere since (e.g. deleted by another service)
+    let saved = this.savedMessages.get(session.id);
+    if (saved) {
+      const count = await db.valueQueryAsync(
+        "SELECT COUNT(*) FROM messages WHERE sessionId = ?",
+        [session.id],
+      );
+      if (Number(count) !== saved.length) {
+        saved = undefined;
+      }
+    }
+    if (!saved) {
+      await db.queryAsync("DELETE FROM messages WHERE sessionId = ?", [
+        session.id,
+      ]);
+      await db.queryAsync("DELETE FROM images WHERE sessionId = ?", [
+        session.id,
+      ]);
+      saved = [];
+    }
+
+    const rows = (messages || []).map((message) => this.toMessageRow(message));
+    for (let position = 0; position < rows.length; position++) {
+      const row = rows[position];
+      const savedRow = saved[position];
+
+      if (savedRow?.data !== row.data) {
+        await db.queryAsync(
+          "INSERT OR REPLACE INTO messages (sessionId, position, messageId, data) VALUES (?, ?, ?, ?)",
+          [session.id, position, messages[position].id, row.data],
+        );
+      }
+
+      if (savedRow?.images !== row.images) {
+        await db.queryAsync(
+          "DELETE FROM images WHERE sessionId = ? AND position = ?",
+          [session.id, position],
+        );
+        const images = messages[position].images || [];
+        for (let imageIndex = 0; imageIndex < images.length; imageIndex++) {
+          await db.queryAsync(
+            "INSERT INTO images (sessionId, position, imageIndex, data) VALUES (?, ?, ?, ?)",
+            [
+              session.id,
+              position,
+              imageIndex,
+              JSON.stringify(images[imageIndex]),
+            ],
+          );
+        }
+      }
+    }
+
+    // Remove messages past the end, e.g. after a regeneration
+    if (saved.length > rows.length) {
+      await db.queryAsync(
+        "DELETE FROM messages WHERE sessionId = ? AND position >= ?",
+        [session.id, rows.length],
+      );
+      await db.queryAsync(
+        "DELETE FROM images WHERE sessionId = ? AND position >= ?",
+        [session.id, rows.length],
+      );
+    }
+
+    return rows;
+  }
+
+  /**
+   * Get the library key of the item or collection a session belongs to
+   * @returns null for global chat, or when the item no longer exists
+   */
+  private getSessionLibraryKey(itemId: number): LibraryKey | null {
+    if (isCollectionSessionItemId(itemId)) {
+      return getCollectionLibraryKey(-itemId);
+    }
+    return itemId !== 0 ? getItemLibraryKey(itemId) : null;
+  }
+
+  /**
+   * Match sessions to their items by library key
+   * Sessions stored before library keys are given theirs, and sessions
+   * whose item now has another local ID (e.g. after the library was
+   * downloaded again) are moved to it.
+   * Sessions are still looked up by item ID rather than by library key:
+   * callers only have local IDs, global chat has no key, and the key of a
+   * deleted item cannot be read any more. Relinking once here keeps the
+   * indexed itemId column right, so no query has to resolve keys.
+   * @returns The number of sessions moved
+   */
+  private async relinkSessions(): Promise<number> {
+    const db = this.getDatabase();
+    const rows =
+      (await db.queryAsync(
+        "SELECT sessionId, itemId, libraryKey FROM sessions WHERE itemId != 0",
+      )) || [];
+
+    let moved = 0;
+    for (const row of rows) {
+      const itemId = row.itemId as number;
+      if (!row.libraryKey) {
+        const libraryKey = this.getSessionLibraryKey(itemId);
+        if (libraryKey) {
+          await db.queryAsync(
+            "UPDATE sessions SET libraryKey = ? WHERE sessionId = ?",
+            [formatLibraryKey(libraryKey), row.sessionId],
+          );
+        }
+        continue;
+      }
+
+      const libraryKey = parseLibraryKey(row.libraryKey);
+      if (!libraryKey) continue;
+      let currentId: number | null;
+      if (isCollectionSessionItemId(itemId)) {
+        const collectionId = resolveCollectionLibraryKey(libraryKey);
+        currentId = collectionId && -collectionId;
+      } else {
+        currentId = resolveItemLibraryKey(libraryKey);
+      }
+      // Items not found may not have synced yet; leave their sessions
+      if (!currentId || currentId === itemId) continue;
+
+      const [session] = await this.readSessions("sessionId = ?", [
+        row.sessionId,
+      ]);
+      if (!session) continue;
+      session.itemId = currentId;
+      if (session.collectionId !== undefined) {
+        session.collectionId = -currentId;
+      }
+      const meta = await this.buildSessionMeta(session, currentId);
+      await db.executeTransaction(async () => {
+        await this.writeSession(session, currentId, meta);
+        await db.queryAsync(
+          "INSERT OR IGNORE INTO documents (itemId, activeSessionId) VALUES (?, ?)",
+          [currentId, session.id],
+        );
+      });
+      ztoolkit.log(
+        `Moved session ${session.id} from item ${itemId} to ${currentId}`,
+      );
+      moved++;
+    }
+    return moved;
+  }
+
+  /**
+   * Set the active session of a document; must run in a transaction
+   */
+  private async writeDocument(
+    itemId: number,
+    activeSessionId: string | null,
+  ): Promise<void> {
+    await this.getDatabase().queryAsync(
+      `INSERT INTO documents (itemId, activeSessionId) VALUES (?, ?)
+       ON CONFLICT (itemId) DO UPDATE SET activeSessionId = excluded.activeSessionId`,
+      [itemId, activeSessionId],
+    );
+  }
+
+  /**
+   * Delete a session with its messages and images; must run in a
+   * transaction
+   */
+  private async deleteSessionRows(sessionId: string): Promise<void> {
+    const db = this.getDatabase();
+    await db.queryAsync("DELETE FROM images WHERE sessionId = ?", [sessionId]);
+    await db.queryAsync("DELETE FROM messages WHERE sessionId = ?", [
+      sessionId,
+    ]);
+    await db.queryAsync("DELETE FROM sessions WHERE sessionId = ?", [
+      sessionId,
+    ]);
+    this.savedMessages.delete(sessionId);
   }
 
   /**
@@ -149,8 +648,15 @@ export class StorageService {
     let documentIds: number[] | undefined;
     let documentNames: string[] | undefined;
 
-    // Check if session has document references (multi-document session)
-    if (session.documentIds && session.documentIds.length > 0) {
+    // Collection sessions are listed under the collection name
+    if (session.collectionId) {
+      const collection = Zotero.Collections.get(session.collectionId);
+      itemName =
+        (collection && collection.name) ||
+        session.collectionName ||
+        `Collection ${session.collectionId}`;
+    } else if (session.documentIds && session.documentIds.length > 0) {
+      // Check if session has document references (multi-document session)
       documentIds = session.documentIds;
       documentNames = session.documentNames;
 
@@ -248,6 +754,16 @@ export class StorageService {
       }
     }
 
+    // Sum token usage of the session's answers
+    let usage: TokenUsage | undefined;
+    for (const msg of session.messages || []) {
+      if (!msg.usage) continue;
+      usage = {
+        inputTokens: (usage?.inputTokens ?? 0) + msg.usage.inputTokens,
+        outputTokens: (usage?.outputTokens ?? 0) + msg.usage.outputTokens,
+      };
+    }
+
     return {
       itemId: itemId,
       itemName,
@@ -259,21 +775,28 @@ export class StorageService {
       isEmpty,
       documentIds,
       documentNames,
+      collectionId: session.collectionId,
+      usage,
     };
   }
 
   /**
    * Update single entry in index
+   * @param search - Whether to index the session for search too
    */
   private async updateIndexEntry(
     session: ChatSession,
     itemId: number,
+    meta: StoredSessionMeta,
+    search: boolean = true,
   ): Promise<void> {
     if (!this.indexCache) {
       this.indexCache = [];
     }
 
-    const meta = await this.buildSessionMeta(session, itemId);
+    if (search) {
+      this.searchIndex.updateSession(session, itemId);
+    }
 
     // Find and update or add
     const existingIndex = this.indexCache.findIndex(
@@ -288,7 +811,7 @@ export class StorageService {
     // Sort by update time
     this.indexCache.sort((a, b) => b.lastUpdated - a.lastUpdated);
 
-    await this.saveIndex();
+    await this.saveSearchIndex();
   }
 
   /**
@@ -298,7 +821,8 @@ export class StorageService {
     if (!this.indexCache) return;
 
     this.indexCache = this.indexCache.filter((m) => m.sessionId !== sessionId);
-    await this.saveIndex();
+    this.searchIndex.removeSession(sessionId);
+    await this.saveSearchIndex();
   }
 
   /**
@@ -308,26 +832,31 @@ export class StorageService {
     await this.init();
 
     try {
-      const filePath = this.getDocumentSessionsPath(itemId);
-
-      if (await IOUtils.exists(filePath)) {
-        const data = (await IOUtils.readJSON(filePath)) as DocumentSessions;
-
-        // Filter out empty content messages (fix historical data issues)
-        if (data.sessions) {
-          for (const session of data.sessions) {
-            if (session.messages) {
-              session.messages = session.messages.filter(
-                (msg) => msg.content && msg.content.trim() !== "",
-              );
-            }
-          }
-        }
+      const sessions = await this.readSessions("itemId = ?", [itemId]);
+      if (sessions.length === 0) {
+        return null;
+      }
 
-        return data;
+      // Filter out empty content messages (fix historical data issues)
+      for (const session of sessions) {
+        if (session.messages) {
+          session.messages = session.messages.filter(
+            (msg) => msg.content && msg.content.trim() !== "",
+          );
+        }
       }
 
-      return null;
+      const activeSessionId = await this.getDatabase().valueQueryAsync(
+        "SELECT activeSessionId FROM documents WHERE itemId = ?",
+        [itemId],
+      );
+
+      return {
+        itemId,
+        sessions,
+        activeSessionId:
+          typeof activeSessionId === "string" ? activeSessionId : null,
+      };
     } catch (error) {
       ztoolkit.log("Load document sessions error:", error);
       return null;
@@ -336,60 +865,87 @@ export class StorageService {
 
   /**
    * Save all sessions for a document
+   * Stored sessions of the document that are not in the list are deleted
    */
   async saveDocumentSessions(
     documentSessions: DocumentSessions,
   ): Promise<void> {
     await this.init();
 
+    const { itemId, sessions } = documentSessions;
+    const db = this.getDatabase();
+
     try {
-      const filePath = this.getDocumentSessionsPath(documentSessions.itemId);
+      const metas: StoredSessionMeta[] = [];
+      for (const session of sessions) {
+        metas.push(await this.buildSessionMeta(session, itemId));
+      }
 
-      await IOUtils.writeJSON(filePath, documentSessions);
+      const keptIds = new Set(sessions.map((s) => s.id));
+      const removedIds = (
+        (await db.columnQueryAsync<string>(
+          "SELECT sessionId FROM sessions WHERE itemId = ?",
+          [itemId],
+        )) || []
+      ).filter((id) => !keptIds.has(id));
+
+      await db.executeTransaction(async () => {
+        await this.writeDocument(itemId, documentSessions.activeSessionId);
+        for (const sessionId of removedIds) {
+          await this.deleteSessionRows(sessionId);
+        }
+        for (let i = 0; i < sessions.length; i++) {
+          this.savedMessages.set(
+            sessions[i].id,
+            await this.writeSession(sessions[i], itemId, metas[i]),
+          );
+        }
+      });
 
       // Update index
-      for (const session of documentSessions.sessions) {
-        await this.updateIndexEntry(session, documentSessions.itemId);
+      for (const sessionId of removedIds) {
+        await this.removeIndexEntry(sessionId);
+      }
+      for (let i = 0; i < sessions.length; i++) {
+        await this.updateIndexEntry(sessions[i], itemId, metas[i]);
       }
     } catch (error) {
+      // Rows written before the failure were rolled back
+      this.savedMessages.clear();
       ztoolkit.log("Save document sessions error:", error);
       throw error;
     }
   }
 
   /**
-   * Save single session (auto creates or updates document sessions list)
+   * Save single session and make it the document's active session
+   * Only messages that changed since the last save are written
+   * @param streaming - Saved while an answer streams: the search index is
+   *   left for the save that completes the answer, so it is not tokenized
+   *   and rewritten with every chunk
    */
-  async saveSession(session: ChatSession): Promise<void> {
+  async saveSession(
+    session: ChatSession,
+    streaming: boolean = false,
+  ): Promise<void> {
     await this.init();
 
     try {
-      // Load existing document sessions
-      let docSessions = await this.loadDocumentSessions(session.itemId);
-
-      if (!docSessions) {
-        // Create new document sessions list
-        docSessions = {
-          itemId: session.itemId,
-          sessions: [session],
-          activeSessionId: session.id,
-        };
-      } else {
-        // Find and update existing session, or add new session
-        const existingIndex = docSessions.sessions.findIndex(
-          (s) => s.id === session.id,
+      session.updatedAt = Date.now();
+      const meta = await this.buildSessionMeta(session, session.itemId);
+
+      await this.getDatabase().executeTransaction(async () => {
+        await this.writeDocument(session.itemId, session.id);
+        this.savedMessages.set(
+          session.id,
+          await this.writeSession(session, session.itemId, meta),
         );
-        if (existingIndex >= 0) {
-          docSessions.sessions[existingIndex] = session;
-        } else {
-          docSessions.sessions.push(session);
-        }
-        docSessions.activeSessionId = session.id;
-      }
+      });
 
-      session.updatedAt = Date.now();
-      await this.saveDocumentSessions(docSessions);
+      await this.updateIndexEntry(session, session.itemId, meta, !streaming);
     } catch (error) {
+      // Rows written before the failure were rolled back
+      this.savedMessages.delete(session.id);
       ztoolkit.log("Save session error:", error);
       throw error;
     }
@@ -405,18 +961,18 @@ export class StorageService {
     await this.init();
 
     try {
-      const docSessions = await this.loadDocumentSessions(itemId);
-      if (docSessions && docSessions.sessions) {
-        const session = docSessions.sessions.find((s) => s.id === sessionId);
-        if (session) {
-          // Filter empty messages
-          if (session.messages) {
-            session.messages = session.messages.filter(
-              (msg) => msg.content && msg.content.trim() !== "",
-            );
-          }
-          return session;
+      const [session] = await this.readSessions(
+        "itemId = ? AND sessionId = ?",
+        [itemId, sessionId],
+      );
+      if (session) {
+        // Filter empty messages
+        if (session.messages) {
+          session.messages = session.messages.filter(
+            (msg) => msg.content && msg.content.trim() !== "",
+          );
         }
+        return session;
       }
       return null;
     } catch (error) {
@@ -453,11 +1009,11 @@ export class StorageService {
    * Set active session for a document
    */
   async setActiveSession(itemId: number, sessionId: string): Promise<void> {
-    const docSessions = await this.loadDocumentSessions(itemId);
-    if (docSessions) {
-      docSessions.activeSessionId = sessionId;
-      await this.saveDocumentSessions(docSessions);
-    }
+    await this.init();
+    await this.getDatabase().queryAsync(
+      "UPDATE documents SET activeSessionId = ? WHERE itemId = ?",
+      [sessionId, itemId],
+    );
   }
 
   /**
@@ -466,33 +1022,31 @@ export class StorageService {
   async deleteSession(itemId: number, sessionId: string): Promise<void> {
     await this.init();
 
+    const db = this.getDatabase();
     try {
-      const docSessions = await this.loadDocumentSessions(itemId);
-      if (docSessions) {
-        // Remove from session list
-        docSessions.sessions = docSessions.sessions.filter(
-          (s) => s.id !== sessionId,
-        );
+      await db.executeTransaction(async () => {
+        await this.deleteSessionRows(sessionId);
 
-        // If deleted session was active, reset active session
-        if (docSessions.activeSessionId === sessionId) {
-          docSessions.activeSessionId =
-            docSessions.sessions.length > 0 ? docSessions.sessions[0].id : null;
-        }
-
-        // If session list is empty, delete entire file
-        if (docSessions.sessions.length === 0) {
-          const filePath = this.getDocumentSessionsPath(itemId);
-          if (await IOUtils.exists(filePath)) {
-            await IOUtils.remove(filePath);
-          }
+        const firstSessionId = await db.valueQueryAsync(
+          "SELECT sessionId FROM sessions WHERE itemId = ? ORDER BY rowid LIMIT 1",
+          [itemId],
+        );
+        if (typeof firstSessionId === "string") {
+          // If deleted session was active, reset active session
+          await db.queryAsync(
+            "UPDATE documents SET activeSessionId = ? WHERE itemId = ? AND activeSessionId = ?",
+            [firstSessionId, itemId, sessionId],
+          );
         } else {
-          await this.saveDocumentSessions(docSessions);
+          // If session list is empty, delete the document
+          await db.queryAsync("DELETE FROM documents WHERE itemId = ?", [
+            itemId,
+          ]);
         }
+      });
 
-        // Update index
-        await this.removeIndexEntry(sessionId);
-      }
+      // Update index
+      await this.removeIndexEntry(sessionId);
     } catch (error) {
       ztoolkit.log("Delete session error:", error);
       throw error;
@@ -505,19 +1059,24 @@ export class StorageService {
   async deleteAllSessionsForItem(itemId: number): Promise<void> {
     await this.init();
 
+    const db = this.getDatabase();
     try {
-      const docSessions = await this.loadDocumentSessions(itemId);
-      if (docSessions) {
-        // Remove all sessions from index
-        for (const session of docSessions.sessions) {
-          await this.removeIndexEntry(session.id);
+      const sessionIds =
+        (await db.columnQueryAsync<string>(
+          "SELECT sessionId FROM sessions WHERE itemId = ?",
+          [itemId],
+        )) || [];
+
+      await db.executeTransaction(async () => {
+        for (const sessionId of sessionIds) {
+          await this.deleteSessionRows(sessionId);
         }
+        await db.queryAsync("DELETE FROM documents WHERE itemId = ?", [itemId]);
+      });
 
-        // Delete file
-        const filePath = this.getDocumentSessionsPath(itemId);
-        if (await IOUtils.exists(filePath)) {
-          await IOUtils.remove(filePath);
-        }
+      // Remove all sessions from index
+      for (const sessionId of sessionIds) {
+        await this.removeIndexEntry(sessionId);
       }
     } catch (error) {
       ztoolkit.log("Delete all sessions error:", error);
@@ -551,6 +1110,120 @@ export class StorageService {
     return result;
   }
 
+  /**
+   * Search the messages of all sessions
+   * Candidates come from the search index, then each is read to confirm
+   * every query term occurs and to build a snippet around the first match
+   */
+  async searchSessions(
+    query: SessionSearchQuery,
+  ): Promise<SessionSearchResult[]> {
+    await this.init();
+
+    let metas = (this.indexCache || []).filter((m) => {
+      if (m.isEmpty) return false;
+      if (query.itemId !== undefined && m.itemId !== query.itemId) {
+        return false;
+      }
+      if (query.from !== undefined && m.lastUpdated < query.from) return false;
+      if (query.to !== undefined && m.lastUpdated > query.to) return false;
+      if (
+        query.providerId &&
+        !this.searchIndex.getProviderIds(m.sessionId).includes(query.providerId)
+      ) {
+        return false;
+      }
+      return true;
+    });
+    metas.sort((a, b) => b.lastUpdated - a.lastUpdated);
+
+    // Without text, the filters alone select sessions
+    const terms = getQueryTerms(query.text);
+    if (terms.length === 0) {
+      return metas
+        .slice(0, MAX_SEARCH_RESULTS)
+        .map((meta) => ({ meta, snippet: "", matchCount: 0 }));
+    }
+
+    const candidates = this.searchIndex.findSessions(query.text);
+    if (!candidates) return [];
+    metas = metas.filter((m) => candidates.has(m.sessionId));
+
+    const highlightTerms = getHighlightTerms(query.text);
+    const documentsCache = new Map<number, DocumentSessions | null>();
+    const results: SessionSearchResult[] = [];
+
+    for (const meta of metas) {
+      if (results.length >= MAX_SEARCH_RESULTS) break;
+
+      if (!documentsCache.has(meta.itemId)) {
+        documentsCache.set(
+          meta.itemId,
+          await this.loadDocumentSessions(meta.itemId),
+        );
+      }
+      const session = documentsCache
+        .get(meta.itemId)
+        ?.sessions.find((s) => s.id === meta.sessionId);
+      if (!session) continue;
+
+      const texts = [session.title || ""]
+        .concat(session.messages.map(getSearchableText))
+        .filter((text) => text);
+      const lowerTexts = texts.map((text) => text.toLowerCase());
+      const allText = lowerTexts.join("\n");
+      if (!terms.every((term) => allText.includes(term))) continue;
+
+      const matchCount = lowerTexts.filter((text) =>
+        terms.some((term) => text.includes(term)),
+      ).length;
+      results.push({
+        meta,
+        snippet: this.buildSnippet(texts, lowerTexts, highlightTerms, terms),
+        matchCount,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the providers that answered in any stored session
+   */
+  async getSearchProviderIds(): Promise<string[]> {
+    await this.init();
+    return this.searchIndex.getAllProviderIds();
+  }
+
+  /**
+   * Build a one-line snippet around the first match in a session's texts
+   */
+  private buildSnippet(
+    texts: string[],
+    lowerTexts: string[],
+    highlightTerms: string[],
+    terms: string[],
+  ): string {
+    const needles = highlightTerms.length > 0 ? highlightTerms : terms;
+    for (let i = 0; i < texts.length; i++) {
+      const positions = needles
+        .map((needle) => lowerTexts[i].indexOf(needle))
+        .filter((pos) => pos >= 0);
+      if (positions.length === 0) continue;
+
+      const matchPos = Math.min(...positions);
+      const start = Math.max(0, matchPos - SNIPPET_CONTEXT);
+      const end = Math.min(texts[i].length, start + SNIPPET_LENGTH);
+      const snippet = texts[i].substring(start, end).replace(/\s+/g, " ");
+      return (
+        (start > 0 ? "..." : "") +
+        snippet.trim() +
+        (end < texts[i].length ? "..." : "")
+      );
+    }
+    return "";
+  }
+
   /**
    * Create new session
    */
@@ -572,23 +1245,153 @@ export class StorageService {
     return newSession;
   }
 
+  /**
+   * Load the usage ledger
+   */
+  private async loadUsage(): Promise<UsageBucket[]> {
+    if (this.usageCache) return this.usageCache;
+
+    try {
+      const usagePath = this.getUsagePath();
+      if (await IOUtils.exists(usagePath)) {
+        this.usageCache = (await IOUtils.readJSON(usagePath)) as UsageBucket[];
+        return this.usageCache;
+      }
+    } catch (error) {
+      ztoolkit.log("Usage file invalid, starting a new one:", error);
+      await quarantineFile(this.getUsagePath()).catch(() => undefined);
+    }
+
+    this.usageCache = [];
+    return this.usageCache;
+  }
+
+  /**
+   * Add the usage of one request to the daily totals of its provider and model
+   */
+  async recordUsage(
+    usage: MessageUsage,
+    timestamp: number = Date.now(),
+  ): Promise<void> {
+    await this.init();
+    const buckets = await this.loadUsage();
+
+    const date = new Date(timestamp);
+    const day = [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, "0"),
+      String(date.getDate()).padStart(2, "0"),
+    ].join("-");
+
+    let bucket = buckets.find(
+      (b) =>
+        b.date === day &&
+        b.providerId === usage.providerId &&
+        b.model === usage.model,
+    );
+    if (!bucket) {
+      bucket = {
+        date: day,
+        providerId: usage.providerId,
+        model: usage.model,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cachedInputTokens: 0,
+      };
+      buckets.push(bucket);
+    }
+    bucket.requests++;
+    bucket.inputTokens += usage.inputTokens;
+    bucket.outputTokens += usage.outputTokens;
+    bucket.cachedInputTokens += usage.cachedInputTokens ?? 0;
+
+    try {
+      await this.writeJSONFile(this.getUsagePath(), buckets);
+    } catch (error) {
+      ztoolkit.log("Save usage error:", error);
+    }
+  }
+
+  /**
+   * Get daily usage totals per provider and model
+   */
+  async getUsage(): Promise<UsageBucket[]> {
+    await this.init();
+    return [...(await this.loadUsage())];
+  }
+
+  /**
+   * Reset usage totals
+   */
+  async clearUsage(): Promise<void> {
+    await this.init();
+    this.usageCache = [];
+    await this.writeJSONFile(this.getUsagePath(), this.usageCache);
+  }
+
+  /**
+   * Load batch jobs
+   */
+  async loadBatchJobs(): Promise<BatchJob[]> {
+    await this.init();
+    if (this.batchJobsCache) return this.batchJobsCache;
+
+    try {
+      const batchPath = this.getBatchJobsPath();
+      if (await IOUtils.exists(batchPath)) {
+        this.batchJobsCache = (await IOUtils.readJSON(batchPath)) as BatchJob[];
+        return this.batchJobsCache;
+      }
+    } catch (error) {
+      ztoolkit.log("Batch jobs file invalid, starting a new one:", error);
+      await quarantineFile(this.getBatchJobsPath()).catch(() => undefined);
+    }
+
+    this.batchJobsCache = [];
+    return this.batchJobsCache;
+  }
+
+  /**
+   * Save batch jobs
+   */
+  async saveBatchJobs(jobs: BatchJob[]): Promise<void> {
+    await this.init();
+    this.batchJobsCache = jobs;
+
+    try {
+      await this.writeJSONFile(this.getBatchJobsPath(), jobs);
+    } catch (error) {
+      ztoolkit.log("Save batch jobs error:", error);
+    }
+  }
+
   /**
    * Clear all sessions
    */
   async clearAll(): Promise<void> {
     await this.init();
 
+    const db = this.getDatabase();
     try {
-      const children = await IOUtils.getChildren(this.storagePath);
-
-      for (const filePath of children) {
-        if (filePath.endsWith(".json")) {
-          await IOUtils.remove(filePath);
+      // Usage totals and batch jobs are kept, they are not chat history
+      await db.executeTransaction(async () => {
+        for (const table of ["images", "messages", "sessions", "documents"]) {
+          await db.queryAsync(`DELETE FROM ${table}`);
         }
-      }
+      });
+      this.savedMessages.clear();
+
+      // Migrated JSON files are history as well
+      await IOUtils.remove(this.getLegacyPath(), {
+        recursive: true,
+        ignoreAbsent: true,
+      });
 
       // Clear index cache
       this.indexCache = [];
+      this.searchIndex.clear();
+      await this.saveSearchIndex();
     } catch (error) {
       ztoolkit.log("Clear all sessions error:", error);
       throw error;
@@ -637,6 +1440,146 @@ export class StorageService {
     }
   }
 
+  /**
+   * Load every session with messages, flagging each document's active
+   * session
+   */
+  async loadArchivedSessions(): Promise<ArchivedSession[]> {
+    await this.init();
+
+    const sessionIds = new Set(
+      (this.indexCache || []).filter((m) => !m.isEmpty).map((m) => m.sessionId),
+    );
+    const itemIds = new Set(
+      (this.indexCache || [])
+        .filter((m) => sessionIds.has(m.sessionId))
+        .map((m) => m.itemId),
+    );
+    const sessions: ArchivedSession[] = [];
+    for (const itemId of itemIds) {
+      const docSessions = await this.loadDocumentSessions(itemId);
+      for (const session of docSessions?.sessions || []) {
+        if (!sessionIds.has(session.id)) continue;
+        sessions.push({
+          session,
+          active: session.id === docSessions!.activeSessionId,
+        });
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Store sessions, replacing stored sessions with the same ID
+   * A session flagged active only becomes active in a document that had no
+   * sessions yet
+   */
+  async storeArchivedSessions(sessions: ArchivedSession[]): Promise<void> {
+    await this.init();
+
+    const byItem = new Map<number, ArchivedSession[]>();
+    for (const archived of sessions) {
+      const itemSessions = byItem.get(archived.session.itemId) || [];
+      itemSessions.push(archived);
+      byItem.set(archived.session.itemId, itemSessions);
+    }
+
+    for (const [itemId, archivedSessions] of byItem) {
+      const existing = await this.loadDocumentSessions(itemId);
+      const docSessions: DocumentSessions = existing || {
+        itemId,
+        sessions: [],
+        activeSessionId: null,
+      };
+      for (const { session, active } of archivedSessions) {
+        const index = docSessions.sessions.findIndex(
+          (s) => s.id === session.id,
+        );
+        if (index >= 0) {
+          docSessions.sessions[index] = session;
+        } else {
+          docSessions.sessions.push(session);
+        }
+        if (active && !existing) {
+          docSessions.activeSessionId = session.id;
+        }
+      }
+      docSessions.activeSessionId ||= docSessions.sessions[0].id;
+
+      await this.saveDocumentSessions(docSessions);
+    }
+  }
+
+  /**
+   * Export every session with messages as an archive
+   * @returns The archive JSON and the number of sessions in it
+   */
+  async exportArchive(): Promise<{ json: string; count: number }> {
+    const sessions = await this.loadArchivedSessions();
+    return createHistoryArchive(
+      sessions,
+      (this.indexCache || []).filter((m) => !m.isEmpty),
+    );
+  }
+
+  /**
+   * Import the sessions of an archive
+   * A session already stored is only replaced by a newer copy
+   * @param isBusy - Whether a stored session is being answered, so it is
+   *   left as it is
+   */
+  async importArchive(
+    json: string,
+    isBusy: (session: ChatSession) => boolean = () => false,
+  ): Promise<HistoryImportResult> {
+    await this.init();
+
+    const { sessions, unresolved } = readHistoryArchive(json);
+    const storedUpdatedAt = new Map(
+      (this.indexCache || []).map((m) => [m.sessionId, m.lastUpdated]),
+    );
+    const newer = sessions.filter(({ session }) => {
+      const updatedAt = storedUpdatedAt.get(session.id);
+      if (updatedAt === undefined) return true;
+      return updatedAt < session.updatedAt && !isBusy(session);
+    });
+
+    await this.storeArchivedSessions(newer);
+    return {
+      imported: newer.length,
+      skipped: sessions.length - newer.length,
+      unresolved,
+    };
+  }
+
+  /**
+   * Load the state of the last history sync
+   */
+  async loadSyncState(): Promise<HistorySyncState | null> {
+    await this.init();
+
+    try {
+      const syncPath = this.getSyncStatePath();
+      if (await IOUtils.exists(syncPath)) {
+        return (await IOUtils.readJSON(syncPath)) as HistorySyncState;
+      }
+    } catch (error) {
+      // Without it, the next sync cannot tell deleted sessions from new
+      // ones and keeps both
+      ztoolkit.log("Sync state file invalid, starting a new one:", error);
+      await quarantineFile(this.getSyncStatePath()).catch(() => undefined);
+    }
+    return null;
+  }
+
+  /**
+   * Save the state of the last history sync
+   */
+  async saveSyncState(state: HistorySyncState): Promise<void> {
+    await this.init();
+    await this.writeJSONFile(this.getSyncStatePath(), state);
+  }
+
   /**
    * Generate unique ID
    */
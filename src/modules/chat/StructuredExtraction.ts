@@ -0,0 +1,374 @@
+/**
+ * StructuredExtraction - Extract a user-defined schema from papers
+ *
+ * The schema is stored as JSON in the extractionSchema pref; an empty pref
+ * means the built-in fields. Model answers are parsed and validated against
+ * the schema, then written to a child note table and/or the Extra field,
+ * and exported as CSV/TSV for systematic reviews.
+ */
+
+import type {
+  ExtractionField,
+  ExtractionResult,
+  ExtractionTarget,
+  ExtractionValue,
+} from "../../types/chat";
+import { getPref, setPref } from "../../utils/prefs";
+
+const FIELD_TYPES: ExtractionField["type"][] = ["string", "number", "boolean"];
+const EXTRACTION_TARGETS: ExtractionTarget[] = ["note", "extra", "both"];
+
+// Heading of the child note holding extracted values, used to find it again
+export const EXTRACTION_NOTE_TITLE = "Extracted Data";
+
+export const DEFAULT_EXTRACTION_SCHEMA: ExtractionField[] = [
+  {
+    name: "sample_size",
+    description: "Number of participants or samples analyzed",
+    type: "number",
+  },
+  {
+    name: "dataset",
+    description: "Name of the dataset or data source used",
+    type: "string",
+  },
+  {
+    name: "metric",
+    description: "Primary outcome measure or evaluation metric",
+    type: "string",
+  },
+  {
+    name: "result",
+    description: "Main quantitative result for the primary metric",
+    type: "string",
+  },
+];
+
+/**
+ * Check a field read from prefs or typed in the schema editor
+ * Names end up as Extra field keys, so they may not contain ":" or newlines
+ */
+function isExtractionField(value: unknown): value is ExtractionField {
+  const field = value as ExtractionField;
+  return (
+    !!field &&
+    typeof field.name === "string" &&
+    field.name.trim() !== "" &&
+    !/[:\n]/.test(field.name) &&
+    (field.description === undefined ||
+      typeof field.description === "string") &&
+    FIELD_TYPES.includes(field.type)
+  );
+}
+
+function normalizeField(field: ExtractionField): ExtractionField {
+  return {
+    name: field.name.trim(),
+    description: field.description || "",
+    type: field.type,
+  };
+}
+
+/**
+ * Parse and validate a schema
+ * @throws Error naming the first invalid or duplicate field
+ */
+export function parseExtractionSchema(json: string): ExtractionField[] {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("Schema must be a non-empty array of fields");
+  }
+
+  const names = new Set<string>();
+  return parsed.map((value, index) => {
+    if (!isExtractionField(value)) {
+      throw new Error(`Invalid field at position ${index + 1}`);
+    }
+    const field = normalizeField(value);
+    if (names.has(field.name)) {
+      throw new Error(`Duplicate field "${field.name}"`);
+    }
+    names.add(field.name);
+    return field;
+  });
+}
+
+/**
+ * Get the extraction schema
+ */
+export function getExtractionSchema(): ExtractionField[] {
+  const stored = getPref("extractionSchema");
+  if (!stored) return [...DEFAULT_EXTRACTION_SCHEMA];
+
+  try {
+    return parseExtractionSchema(stored);
+  } catch (error) {
+    ztoolkit.log("[StructuredExtraction] Invalid schema pref:", error);
+    return [...DEFAULT_EXTRACTION_SCHEMA];
+  }
+}
+
+/**
+ * Save the extraction schema; an empty array restores the built-in fields
+ */
+export function saveExtractionSchema(fields: ExtractionField[]): void {
+  setPref(
+    "extractionSchema",
+    fields.length > 0 ? JSON.stringify(fields.map(normalizeField)) : "",
+  );
+}
+
+/**
+ * Get where extracted values are written
+ */
+export function getExtractionTarget(): ExtractionTarget {
+  const stored = getPref("extractionTarget") as ExtractionTarget;
+  return EXTRACTION_TARGETS.includes(stored) ? stored : "note";
+}
+
+/**
+ * Build the extraction request for one document
+ * The instructions travel in the user message, since not every provider
+ * accepts system messages
+ */
+export function buildExtractionRequest(
+  fields: ExtractionField[],
+  documentContent: string,
+): string {
+  const fieldLines = fields
+    .map((field) => `- "${field.name}" (${field.type}): ${field.description}`)
+    .join("\n");
+
+  return `${documentContent}
+
+[Extraction Task]:
+Extract the following fields from the document above:
+${fieldLines}
+
+Respond with a single JSON object that has exactly these keys.
+Use null when the document does not report a value; never guess.
+Numbers must be JSON numbers without units, booleans must be true or false.
+Do not add page citations, comments or any text outside the JSON object.`;
+}
+
+/**
+ * Get a result with every field set to null
+ */
+export function emptyExtractionValues(
+  fields: ExtractionField[],
+): Record<string, ExtractionValue> {
+  return Object.fromEntries(fields.map((field) => [field.name, null]));
+}
+
+/**
+ * Get the JSON object from a model answer, which may be wrapped in a code
+ * fence or surrounded by text when the provider has no JSON mode
+ */
+function extractJsonObject(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("No JSON object in response");
+  }
+  return JSON.parse(body.substring(start, end + 1));
+}
+
+/**
+ * Convert a value to the field's type
+ * @returns The converted value, or undefined when it cannot be converted
+ */
+function coerceValue(
+  value: unknown,
+  type: ExtractionField["type"],
+): ExtractionValue | undefined {
+  if (value === null || value === "") return null;
+
+  switch (type) {
+    case "number": {
+      if (typeof value === "number") {
+        return Number.isFinite(value) ? value : undefined;
+      }
+      if (typeof value !== "string") return undefined;
+      const cleaned = value.replace(/[,\s]/g, "");
+      return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)
+        ? Number(cleaned)
+        : undefined;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const lower = String(value).trim().toLowerCase();
+      if (lower === "true" || lower === "yes") return true;
+      if (lower === "false" || lower === "no") return false;
+      return undefined;
+    }
+    default:
+      if (Array.isArray(value)) return value.map(String).join("; ");
+      if (typeof value === "object") return JSON.stringify(value);
+      return String(value);
+  }
+}
+
+/**
+ * Parse and validate a model answer against the schema
+ * Missing or invalid values are set to null and reported as errors
+ */
+export function parseExtractionResponse(
+  text: string,
+  fields: ExtractionField[],
+): Pick<ExtractionResult, "values" | "errors"> {
+  const values = emptyExtractionValues(fields);
+  const errors: string[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = extractJsonObject(text);
+  } catch (error) {
+    errors.push(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return { values, errors };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    errors.push("Response is not a JSON object");
+    return { values, errors };
+  }
+
+  const object = parsed as Record<string, unknown>;
+  for (const field of fields) {
+    if (!(field.name in object)) {
+      errors.push(`${field.name}: missing`);
+      continue;
+    }
+    const value = coerceValue(object[field.name], field.type);
+    if (value === undefined) {
+      errors.push(`${field.name}: expected ${field.type}`);
+    } else {
+      values[field.name] = value;
+    }
+  }
+  return { values, errors };
+}
+
+function formatValue(value: ExtractionValue): string {
+  return value === null ? "" : String(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render a result as the HTML of a child note
+ */
+export function formatExtractionNote(
+  fields: ExtractionField[],
+  result: ExtractionResult,
+): string {
+  const rows = fields
+    .map(
+      (field) =>
+        `<tr><th>${escapeHtml(field.name)}</th><td>${escapeHtml(formatValue(result.values[field.name]))}</td></tr>`,
+    )
+    .join("");
+  const errors =
+    result.errors.length > 0
+      ? `<p><em>${escapeHtml(result.errors.join("; "))}</em></p>`
+      : "";
+  return `<h1>${EXTRACTION_NOTE_TITLE}</h1><table><tbody>${rows}</tbody></table>${errors}`;
+}
+
+/**
+ * Set "name: value" lines in an Extra field
+ * Existing lines for the schema fields are replaced, other lines are kept;
+ * fields without a value are removed
+ */
+export function mergeExtraField(
+  extra: string,
+  fields: ExtractionField[],
+  values: Record<string, ExtractionValue>,
+): string {
+  const names = new Set(fields.map((field) => field.name));
+  const kept = extra
+    .split("\n")
+    .filter((line) => !names.has(line.split(":")[0].trim()));
+  const added = fields
+    .filter((field) => values[field.name] !== null)
+    .map((field) => `${field.name}: ${formatValue(values[field.name])}`);
+  return [...kept, ...added].join("\n").replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Serialize results as CSV (delimiter ",") or TSV (delimiter "\t")
+ */
+export function formatExtractionTable(
+  fields: ExtractionField[],
+  results: ExtractionResult[],
+  delimiter: "," | "\t",
+): string {
+  const formatCell = (text: string): string => {
+    if (delimiter === "\t") return text.replace(/[\t\r\n]+/g, " ");
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = ["key", "title", ...fields.map((field) => field.name)];
+  const rows = results.map((result) => [
+    result.itemKey,
+    result.title,
+    ...fields.map((field) => formatValue(result.values[field.name])),
+  ]);
+  if (results.some((result) => result.errors.length > 0)) {
+    header.push("errors");
+    rows.forEach((row, index) => row.push(results[index].errors.join("; ")));
+  }
+
+  return [header, ...rows]
+    .map((row) => row.map(formatCell).join(delimiter))
+    .join("\n");
+}
+
+/**
+ * Find the note written by an earlier extraction
+ */
+function findExtractionNote(item: Zotero.Item): Zotero.Item | null {
+  for (const noteId of item.getNotes()) {
+    const note = Zotero.Items.get(noteId);
+    if (note?.getNote().includes(`<h1>${EXTRACTION_NOTE_TITLE}</h1>`)) {
+      return note;
+    }
+  }
+  return null;
+}
+
+/**
+ * Write a result to its item's child note and/or Extra field
+ */
+export async function writeExtractionResult(
+  item: Zotero.Item,
+  fields: ExtractionField[],
+  result: ExtractionResult,
+  target: ExtractionTarget,
+): Promise<void> {
+  if (target === "note" || target === "both") {
+    const note = findExtractionNote(item) ?? new Zotero.Item("note");
+    note.setNote(formatExtractionNote(fields, result));
+    if (!note.parentID) {
+      note.parentID = item.id;
+    }
+    await note.saveTx();
+  }
+
+  if (target === "extra" || target === "both") {
+    const extra = item.getField("extra") as string;
+    const merged = mergeExtraField(extra, fields, result.values);
+    if (merged !== extra) {
+      item.setField("extra", merged);
+      await item.saveTx();
+    }
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * TokenBudget - Estimate token usage and fit requests into the context window
+ *
+ * Token counts are estimated from character classes per provider family,
+ * since exact tokenizers are not available inside Zotero. The planner keeps
+ * the newest turns and the turn carrying document content, drops older turns
+ * that do not fit, and truncates document content when it alone is too large.
+ */
+
+import type { ChatMessage } from "../../types/chat";
+import type {
+  ApiKeyProviderConfig,
+  ModelInfo,
+  ProviderType,
+} from "../../types/provider";
+
+export type TokenizerFamily = "openai" | "anthropic" | "gemini";
+
+// Characters per token for Latin text, and tokens per CJK character
+const TOKENIZER_RATIOS: Record<
+  TokenizerFamily,
+  { charsPerToken: number; tokensPerCjkChar: number }
+> = {
+  openai: { charsPerToken: 4, tokensPerCjkChar: 1 },
+  anthropic: { charsPerToken: 3.5, tokensPerCjkChar: 1.3 },
+  gemini: { charsPerToken: 4, tokensPerCjkChar: 0.8 },
+};
+
+// Fixed cost of message framing (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Approximate cost of one attached image
+const IMAGE_TOKENS = 1000;
+// Reserve for the built-in system prompt and formatting requirements
+const SYSTEM_PROMPT_TOKENS = 1000;
+// Used when the model does not declare its limits
+const DEFAULT_CONTEXT_WINDOW = 128000;
+const DEFAULT_MAX_OUTPUT = 4096;
+// Share of the input limit used, to absorb estimation error
+const SAFETY_MARGIN = 0.9;
+
+const CJK_CHARS =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+// Document context blocks that may be truncated to fit the budget
+const DOCUMENT_BLOCK =
+  /(\[(?:PDF (?:Content|Excerpts|Annotations)|Document: [^\]\n]*)\]:\n)([\s\S]*?)(?=\n\n\[(?:PDF |Document: |Selected text|Question\])|$)/g;
+
+export interface ContextBudget {
+  contextWindow: number;
+  reservedOutput: number;
+  inputLimit: number; // Tokens available for system prompt and messages
+}
+
+export interface ContextPlan {
+  messages: ChatMessage[];
+  estimatedTokens: number;
+  droppedMessages: number;
+  truncated: boolean; // Document content was shortened
+}
+
+/**
+ * Get the tokenizer family that best approximates a provider
+ */
+export function getTokenizerFamily(type: ProviderType): TokenizerFamily {
+  switch (type) {
+    case "anthropic-compatible":
+    case "bedrock":
+    case "minimax":
+      return "anthropic";
+    case "gemini":
+      return "gemini";
+    default:
+      return "openai";
+  }
+}
+
+/**
+ * Estimate the token count of a text
+ */
+export function estimateTokens(text: string, family: TokenizerFamily): number {
+  if (!text) return 0;
+  const ratio = TOKENIZER_RATIOS[family];
+  const cjkCount = text.match(CJK_CHARS)?.length ?? 0;
+  const otherCount = text.length - cjkCount;
+  return Math.ceil(
+    otherCount / ratio.charsPerToken + cjkCount * ratio.tokensPerCjkChar,
+  );
+}
+
+/**
+ * Estimate the token count of a message as sent to the provider
+ */
+export function estimateMessageTokens(
+  message: ChatMessage,
+  family: TokenizerFamily,
+): number {
+  return (
+    MESSAGE_OVERHEAD_TOKENS +
+    estimateTokens(message.content, family) +
+    (message.images?.length ?? 0) * IMAGE_TOKENS
+  );
+}
+
+/**
+ * Get the input budget for a model: context window minus reserved output
+ */
+export function getContextBudget(
+  config: ApiKeyProviderConfig,
+  modelInfo: ModelInfo | null,
+): ContextBudget {
+  const contextWindow =
+    config.contextLength || modelInfo?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const outputLimits = [config.maxTokens, modelInfo?.maxOutput].filter(
+    (limit): limit is number => !!limit && limit > 0,
+  );
+  const reservedOutput = Math.min(
+    outputLimits.length > 0 ? Math.min(...outputLimits) : DEFAULT_MAX_OUTPUT,
+    Math.floor(contextWindow / 2),
+  );
+  const family = getTokenizerFamily(config.type);
+  const systemTokens =
+    SYSTEM_PROMPT_TOKENS + estimateTokens(config.systemPrompt || "", family);
+  return {
+    contextWindow,
+    reservedOutput,
+    inputLimit: Math.max(
+      0,
+      Math.floor((contextWindow - reservedOutput) * SAFETY_MARGIN) -
+        systemTokens,
+    ),
+  };
+}
+
+/**
+ * Remove document context blocks from a message, keeping the question
+ */
+export function stripDocumentBlocks(content: string): string {
+  return content
+    .replace(DOCUMENT_BLOCK, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Get the document context blocks of a message, with their headers
+ */
+export function getDocumentBlocks(content: string): string[] {
+  return Array.from(content.matchAll(DOCUMENT_BLOCK), (match) =>
+    match[0].trim(),
+  );
+}
+
+/**
+ * Shorten the document blocks of a message until it fits the token limit
+ * Blocks are cut proportionally; question and selected text are kept
+ */
+function truncateDocumentBlocks(
+  message: ChatMessage,
+  maxTokens: number,
+  family: TokenizerFamily,
+): ChatMessage {
+  const excess = estimateMessageTokens(message, family) - maxTokens;
+  if (excess <= 0) return message;
+
+  const blocks = Array.from(message.content.matchAll(DOCUMENT_BLOCK));
+  const documentChars = blocks.reduce((sum, m) => sum + m[2].length, 0);
+  if (documentChars === 0) return message;
+
+  // Convert the token excess to a share of the document text, with headroom
+  const documentTokens = blocks.reduce(
+    (sum, m) => sum + estimateTokens(m[2], family),
+    0,
+  );
+  const keepRatio = Math.max(0, 1 - (excess * 1.05) / documentTokens);
+
+  const content = message.content.replace(
+    DOCUMENT_BLOCK,
+    (_match, header: string, body: string) => {
+      const keepChars = Math.floor(body.length * keepRatio);
+      return keepChars >= body.length
+        ? header + body
+        : `${header}${body.substring(0, keepChars)}\n[...truncated to fit the context window]`;
+    },
+  );
+  return { ...message, content };
+}
+
+/**
+ * Fit messages into the input limit
+ * The last message and the latest message with document content are always
+ * kept; other turns are added newest first while they fit.
+ */
+export function planContext(
+  messages: ChatMessage[],
+  inputLimit: number,
+  family: TokenizerFamily,
+): ContextPlan {
+  const tokens = messages.map((m) => estimateMessageTokens(m, family));
+  const total = tokens.reduce((sum, t) => sum + t, 0);
+  if (total <= inputLimit || messages.length === 0) {
+    return {
+      messages,
+      estimatedTokens: total,
+      droppedMessages: 0,
+      truncated: false,
+    };
+  }
+
+  const lastIndex = messages.length - 1;
+  let documentIndex = -1;
+  for (let i = lastIndex; i >= 0; i--) {
+    if (
+      messages[i].role === "user" &&
+      messages[i].content.search(DOCUMENT_BLOCK) !== -1
+    ) {
+      documentIndex = i;
+      break;
+    }
+  }
+
+  const result: (ChatMessage | null)[] = messages.map(() => null);
+  let used = 0;
+  let truncated = false;
+
+  // Pinned messages: truncate document content if they alone exceed the limit
+  const pinned = [...new Set([lastIndex, documentIndex])].filter((i) => i >= 0);
+  const pinnedTokens = pinned.reduce((sum, i) => sum + tokens[i], 0);
+  for (const index of pinned) {
+    let message = messages[index];
+    if (pinnedTokens > inputLimit) {
+      const others = pinnedTokens - tokens[index];
+      message = truncateDocumentBlocks(message, inputLimit - others, family);
+      truncated = truncated || message !== messages[index];
+    }
+    result[index] = message;
+    used += estimateMessageTokens(message, family);
+  }
+
+  // Remaining turns, newest first; stop at the first one that does not fit
+  for (let i = lastIndex - 1; i >= 0; i--) {
+    if (result[i]) continue;
+    if (used + tokens[i] > inputLimit) break;
+    result[i] = messages[i];
+    used += tokens[i];
+  }
+
+  let kept = result.filter((m): m is ChatMessage => m !== null);
+  // Conversations must start with a user turn
+  while (kept.length > 1 && kept[0].role === "assistant") {
+    used -= estimateMessageTokens(kept[0], family);
+    kept = kept.slice(1);
+  }
+
+  return {
+    messages: kept,
+    estimatedTokens: used,
+    droppedMessages: messages.length - kept.length,
+    truncated,
+  };
+}
+
+/**
+ * Format a token count for display (e.g. 950, 12.3k, 1.2M)
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 10000) return `${Math.round(tokens / 1000)}k`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
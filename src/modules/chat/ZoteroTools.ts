@@ -0,0 +1,252 @@
+/**
+ * ZoteroTools - Library tools the model can call during a conversation
+ *
+ * Each tool returns a JSON string that is fed back to the model.
+ * Errors are reported as tool results instead of being thrown, so the
+ * model can recover (e.g. retry with a different item ID).
+ */
+
+import type { ToolCall, ToolDefinition, ToolResult } from "../../types/tool";
+import type { PdfExtractor } from "./PdfExtractor";
+
+// Maximum number of search results returned to the model
+const MAX_SEARCH_RESULTS = 20;
+// Maximum characters of page text returned per call
+const MAX_PAGE_TEXT_CHARS = 8000;
+
+export const ZOTERO_TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: "search_items",
+    description:
+      "Search the user's Zotero library by title, creator or year. Returns matching items with their IDs.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search terms (title words, author name or year)",
+        },
+        limit: {
+          type: "integer",
+          description: `Maximum number of results (default 10, max ${MAX_SEARCH_RESULTS})`,
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_item_metadata",
+    description:
+      "Get bibliographic metadata of a Zotero item: title, creators, date, publication, DOI, abstract, tags and attachments.",
+    parameters: {
+      type: "object",
+      properties: {
+        itemId: {
+          type: "integer",
+          description: "Zotero item ID",
+        },
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "list_annotations",
+    description:
+      "List the annotations (highlights, underlines, notes) on a Zotero item's PDF, with page, color, comment and tags.",
+    parameters: {
+      type: "object",
+      properties: {
+        itemId: {
+          type: "integer",
+          description: "Zotero item ID (parent item or PDF attachment)",
+        },
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "get_pdf_page_text",
+    description:
+      "Get the text of one page of a Zotero item's PDF. Pages are numbered from 1.",
+    parameters: {
+      type: "object",
+      properties: {
+        itemId: {
+          type: "integer",
+          description: "Zotero item ID (parent item or PDF attachment)",
+        },
+        page: {
+          type: "integer",
+          description: "1-based page number",
+        },
+      },
+      required: ["itemId", "page"],
+    },
+  },
+];
+
+export class ZoteroTools {
+  constructor(private pdfExtractor: PdfExtractor) {}
+
+  getDefinitions(): ToolDefinition[] {
+    return ZOTERO_TOOL_DEFINITIONS;
+  }
+
+  /**
+   * Execute a tool call and serialize its result
+   */
+  async execute(call: ToolCall): Promise<ToolResult> {
+    try {
+      const result = await this.run(call.name, call.arguments);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(result),
+      };
+    } catch (error) {
+      ztoolkit.log("[ZoteroTools] Tool failed:", call.name, error);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+        }),
+        isError: true,
+      };
+    }
+  }
+
+  private async run(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<unknown> {
+    switch (name) {
+      case "search_items":
+        return this.searchItems(String(args.query ?? ""), Number(args.limit));
+      case "get_item_metadata":
+        return this.getItemMetadata(await this.getItem(args.itemId));
+      case "list_annotations":
+        return this.listAnnotations(await this.getItem(args.itemId));
+      case "get_pdf_page_text":
+        return this.getPdfPageText(
+          await this.getItem(args.itemId),
+          Number(args.page),
+        );
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async getItem(itemId: unknown): Promise<Zotero.Item> {
+    const id = Number(itemId);
+    const item = Number.isInteger(id)
+      ? ((await Zotero.Items.getAsync(id)) as Zotero.Item | false)
+      : false;
+    if (!item) {
+      throw new Error(`Item not found: ${String(itemId)}`);
+    }
+    return item;
+  }
+
+  private async searchItems(query: string, limit: number): Promise<unknown> {
+    if (!query.trim()) {
+      throw new Error("Query must not be empty");
+    }
+    const maxResults = Math.min(
+      Number.isFinite(limit) && limit > 0 ? limit : 10,
+      MAX_SEARCH_RESULTS,
+    );
+
+    const search = new Zotero.Search({
+      libraryID: Zotero.Libraries.userLibraryID,
+    });
+    search.addCondition("quicksearch-titleCreatorYear", "contains", query);
+    search.addCondition("itemType", "isNot", "attachment");
+    search.addCondition("itemType", "isNot", "note");
+    search.addCondition("itemType", "isNot", "annotation");
+    const ids = await search.search();
+
+    const items = (await Zotero.Items.getAsync(
+      ids.slice(0, maxResults),
+    )) as Zotero.Item[];
+    return {
+      total: ids.length,
+      items: items.map((item) => ({
+        itemId: item.id,
+        title: item.getField("title"),
+        creators: item.getField("firstCreator"),
+        year: item.getField("year"),
+        itemType: item.itemType,
+      })),
+    };
+  }
+
+  private getItemMetadata(item: Zotero.Item): unknown {
+    const target =
+      item.isAttachment() && item.parentItem ? item.parentItem : item;
+    return {
+      itemId: target.id,
+      itemType: target.itemType,
+      title: target.getField("title"),
+      creators: target
+        .getCreatorsJSON()
+        .map((creator) =>
+          "name" in creator && creator.name
+            ? creator.name
+            : `${creator.firstName || ""} ${creator.lastName || ""}`.trim(),
+        ),
+      date: target.getField("date"),
+      publication: target.getField("publicationTitle"),
+      doi: target.getField("DOI"),
+      url: target.getField("url"),
+      abstract: target.getField("abstractNote"),
+      tags: target.getTags().map((tag) => tag.tag),
+      attachments: target.isRegularItem()
+        ? target.getAttachments().map((id) => {
+            const attachment = Zotero.Items.get(id) as Zotero.Item;
+            return {
+              itemId: id,
+              title: attachment.getField("title"),
+              contentType: attachment.attachmentContentType,
+            };
+          })
+        : [],
+    };
+  }
+
+  private async listAnnotations(item: Zotero.Item): Promise<unknown> {
+    const annotations = await this.pdfExtractor.extractAnnotations(item);
+    return {
+      count: annotations.length,
+      annotations: annotations.map((annotation) => ({
+        type: annotation.type,
+        page: annotation.page,
+        color: annotation.colorName,
+        text: annotation.text,
+        comment: annotation.comment,
+        tags: annotation.tags,
+      })),
+    };
+  }
+
+  private async getPdfPageText(
+    item: Zotero.Item,
+    page: number,
+  ): Promise<unknown> {
+    const extracted = await this.pdfExtractor.extractPdfPages(item);
+    if (!extracted) {
+      throw new Error("Item has no PDF text available");
+    }
+    const pageText = extracted.pages[page - 1];
+    if (!pageText) {
+      throw new Error(
+        `Page ${page} is out of range (1-${extracted.pages.length})`,
+      );
+    }
+    return {
+      page,
+      totalPages: extracted.pages.length,
+      text: pageText.text.substring(0, MAX_PAGE_TEXT_CHARS),
+    };
+  }
+}
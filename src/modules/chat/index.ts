@@ -4,7 +4,88 @@
 
 export { ChatManager } from "./ChatManager";
 export { StorageService } from "./StorageService";
+export {
+  closeStorageDatabase,
+  listStorageBackups,
+  restoreStorageBackup,
+} from "./StorageDatabase";
+export type { StorageBackup } from "./StorageDatabase";
+export type { HistoryImportResult } from "./HistoryArchive";
+export { HistorySync, mergeSessions } from "./HistorySync";
+export type { HistorySyncResult } from "./HistorySync";
+export {
+  formatLibraryKey,
+  getCollectionLibraryKey,
+  getItemLibraryKey,
+  parseLibraryKey,
+  resolveCollectionLibraryKey,
+  resolveItemLibraryKey,
+} from "./LibraryKey";
+export type { LibraryKey } from "./LibraryKey";
 export { PdfExtractor } from "./PdfExtractor";
+export { PdfRetriever, getPdfRetriever, Bm25Scorer } from "./PdfRetriever";
+export type { ChunkScorer, ChunkScoringIndex, PdfChunk } from "./PdfRetriever";
+export {
+  estimateTokens,
+  estimateMessageTokens,
+  formatTokenCount,
+  getContextBudget,
+  getDocumentBlocks,
+  getTokenizerFamily,
+  planContext,
+  stripDocumentBlocks,
+} from "./TokenBudget";
+export type {
+  ContextBudget,
+  ContextPlan,
+  TokenizerFamily,
+} from "./TokenBudget";
+export { PdfHighlighter, getPdfHighlighter } from "./PdfHighlighter";
+export {
+  SearchIndex,
+  getHighlightTerms,
+  getSearchableText,
+} from "./SearchIndex";
+export {
+  applySummary,
+  buildSummaryRequest,
+  carriesSessionDocument,
+  getSummaryCandidate,
+} from "./ConversationSummary";
+export type { SummaryCandidate } from "./ConversationSummary";
+export {
+  buildCollectionContext,
+  getCollectionItems,
+  getCollectionSessionItemId,
+  isCollectionSessionItemId,
+} from "./CollectionContext";
+export { ZoteroTools, ZOTERO_TOOL_DEFINITIONS } from "./ZoteroTools";
+export {
+  DEFAULT_PROMPT_TEMPLATES,
+  TEMPLATE_VARIABLES,
+  exportPromptTemplates,
+  fillPromptTemplate,
+  getPromptTemplates,
+  getTemplateValues,
+  importPromptTemplates,
+  matchPromptTemplates,
+  savePromptTemplates,
+} from "./PromptTemplates";
+export type { TemplateValues, TemplateVariable } from "./PromptTemplates";
+export {
+  DEFAULT_EXTRACTION_SCHEMA,
+  buildExtractionRequest,
+  formatExtractionNote,
+  formatExtractionTable,
+  getExtractionSchema,
+  getExtractionTarget,
+  mergeExtraField,
+  parseExtractionResponse,
+  parseExtractionSchema,
+  saveExtractionSchema,
+  writeExtractionResult,
+} from "./StructuredExtraction";
+export { BatchQueue } from "./BatchQueue";
 export { NoteExportService, getNoteExportService } from "./NoteExportService";
 export {
   registerItemTrashHandler,
@@ -16,6 +97,12 @@ export {
 export type {
   ChatMessage,
   ChatSession,
+  ComparisonAnswer,
+  BatchJob,
+  BatchJobItem,
+  ExtractionField,
+  ExtractionResult,
+  PromptTemplate,
   SendMessageOptions,
   StreamCallbacks,
 } from "../../types/chat";
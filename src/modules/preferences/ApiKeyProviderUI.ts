@@ -4,7 +4,11 @@
 
 import { getString } from "../../utils/locale";
 import { prefColors } from "../../utils/colors";
-import { getProviderManager, getModelStateManager } from "../providers";
+import {
+  getProviderManager,
+  getModelStateManager,
+  AZURE_DEFAULT_API_VERSION,
+} from "../providers";
 import type {
   ApiKeyProviderConfig,
   EndpointConfig,
@@ -17,6 +21,37 @@ const ENDPOINTS_DATA_KEY = "__zota_endpoints_data__";
 const CURRENT_INDEX_KEY = "__zota_current_endpoint_index__";
 const CURRENT_API_KEY_INDEX_KEY = "__zota_current_api_key_index__";
 
+/**
+ * Whether the provider works without an API key, like local servers
+ */
+function isApiKeyOptional(providerId: string): boolean {
+  return !!getProviderManager().getProviderMetadata(providerId)?.apiKeyOptional;
+}
+
+/**
+ * Whether the endpoints are enough to enable the provider: an API key, or
+ * a base URL for providers that need no key
+ */
+function hasUsableEndpoint(
+  providerId: string,
+  endpoints: EndpointConfig[],
+): boolean {
+  return isApiKeyOptional(providerId)
+    ? endpoints.some((ep) => ep.baseUrl.trim() !== "")
+    : endpoints.some((ep) => ep.apiKeys.some((k) => k.key.trim() !== ""));
+}
+
+/**
+ * Whether endpoints can be added, edited and deleted: custom providers, and
+ * built-ins whose URL differs per account
+ */
+function canEditEndpoints(config: ApiKeyProviderConfig): boolean {
+  return (
+    !config.isBuiltin ||
+    !!getProviderManager().getProviderMetadata(config.id)?.editableEndpoints
+  );
+}
+
 function getEndpointsData(
   win: Window,
   providerId: string,
@@ -152,6 +187,9 @@ export function populateApiKeyPanel(
   const streamingOutputEl = doc.getElementById(
     "pref-streaming-output",
   ) as HTMLInputElement;
+  const rotateKeysEl = doc.getElementById(
+    "pref-rotate-keys",
+  ) as HTMLInputElement;
 
   let endpoints = getEndpointsData(win, config.id);
 
@@ -212,7 +250,7 @@ export function populateApiKeyPanel(
     doc,
     endpoints,
     currentEndpointIndex,
-    config.isBuiltin,
+    canEditEndpoints(config),
     metadata,
   );
   populateApiKeyDropdown(
@@ -253,6 +291,41 @@ export function populateApiKeyPanel(
   if (streamingOutputEl) {
     streamingOutputEl.checked = config.streamingOutput ?? true;
   }
+  if (rotateKeysEl) {
+    rotateKeysEl.checked = config.rotateApiKeys ?? false;
+  }
+
+  // Context length and keep alive only apply to local servers
+  const contextLengthEl = doc.getElementById(
+    "pref-context-length",
+  ) as HTMLInputElement;
+  if (contextLengthEl) {
+    contextLengthEl.value = config.contextLength
+      ? String(config.contextLength)
+      : "";
+  }
+  const keepAliveEl = doc.getElementById("pref-keep-alive") as HTMLInputElement;
+  if (keepAliveEl) keepAliveEl.value = config.keepAlive || "";
+  const contextLengthRow = doc.getElementById("pref-context-length-row");
+  if (contextLengthRow) {
+    (contextLengthRow as HTMLElement).hidden = !metadata?.apiKeyOptional;
+  }
+  const keepAliveRow = doc.getElementById("pref-keep-alive-row");
+  if (keepAliveRow) {
+    (keepAliveRow as HTMLElement).hidden = config.type !== "ollama";
+  }
+
+  const apiVersionEl = doc.getElementById(
+    "pref-api-version",
+  ) as HTMLInputElement;
+  if (apiVersionEl) {
+    apiVersionEl.value = config.apiVersion || "";
+    apiVersionEl.placeholder = AZURE_DEFAULT_API_VERSION;
+  }
+  const apiVersionRow = doc.getElementById("pref-api-version-row");
+  if (apiVersionRow) {
+    (apiVersionRow as HTMLElement).hidden = config.type !== "azure-openai";
+  }
 
   // Update visit website button state based on provider type
   const visitWebsiteBtn = doc.getElementById(
@@ -279,7 +352,7 @@ function populateEndpointDropdown(
   doc: Document,
   endpoints: EndpointConfig[],
   selectedIndex: number,
-  isBuiltin: boolean,
+  editable: boolean,
   metadata?: ProviderMetadata | null,
 ): void {
   const baseurlSelect = doc.getElementById(
@@ -298,7 +371,7 @@ function populateEndpointDropdown(
     baseurlPopup.appendChild(menuitem);
   });
 
-  if (!isBuiltin && endpoints.length > 0) {
+  if (editable && endpoints.length > 0) {
     const separator1 = doc.createXULElement("menuseparator");
     baseurlPopup.appendChild(separator1);
 
@@ -321,7 +394,7 @@ function populateEndpointDropdown(
     baseurlPopup.appendChild(deleteItem);
   }
 
-  if (!isBuiltin) {
+  if (editable) {
     const separator2 = doc.createXULElement("menuseparator");
     baseurlPopup.appendChild(separator2);
 
@@ -412,6 +485,55 @@ function populateApiKeyDropdown(
   }
 }
 
+/**
+ * Prompt for the prices of a model, used to estimate usage cost
+ * Empty input clears a price; invalid input leaves the prices unchanged
+ */
+function editModelPrice(
+  doc: Document,
+  providerId: string,
+  modelId: string,
+  currentEndpoint?: EndpointConfig,
+): void {
+  const providerManager = getProviderManager();
+  const modelInfo = providerManager.getModelInfo(providerId, modelId);
+
+  const parsePrice = (value: string): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const price = parseFloat(value);
+    return Number.isFinite(price) && price >= 0 ? price : null;
+  };
+
+  const inputValue = addon.data.prefs?.window?.prompt(
+    getString("pref-model-price-input", { args: { model: modelId } }),
+    modelInfo?.inputPrice !== undefined ? String(modelInfo.inputPrice) : "",
+  );
+  if (inputValue === null || inputValue === undefined) return;
+  const outputValue = addon.data.prefs?.window?.prompt(
+    getString("pref-model-price-output", { args: { model: modelId } }),
+    modelInfo?.outputPrice !== undefined ? String(modelInfo.outputPrice) : "",
+  );
+  if (outputValue === null || outputValue === undefined) return;
+
+  const inputPrice = parsePrice(inputValue);
+  const outputPrice = parsePrice(outputValue);
+  if (inputPrice === null || outputPrice === null) {
+    showTestResult(doc, getString("pref-model-price-invalid"), true);
+    return;
+  }
+
+  providerManager.setModelPrice(providerId, modelId, {
+    inputPrice,
+    outputPrice,
+  });
+  const updatedConfig = providerManager.getProviderConfig(
+    providerId,
+  ) as ApiKeyProviderConfig | null;
+  if (updatedConfig) {
+    populateModelList(doc, updatedConfig, currentEndpoint);
+  }
+}
+
 function populateModelList(
   doc: Document,
   config: ApiKeyProviderConfig,
@@ -472,8 +594,47 @@ function populateModelList(
     }
 
     infoContainer.appendChild(nameRow);
+
+    const modelInfo = providerManager.getModelInfo(config.id, modelId);
+    if (
+      modelInfo?.inputPrice !== undefined ||
+      modelInfo?.outputPrice !== undefined
+    ) {
+      const priceSpan = doc.createElementNS(
+        "http://www.w3.org/1999/xhtml",
+        "span",
+      ) as HTMLSpanElement;
+      priceSpan.textContent = getString("pref-model-price-label", {
+        args: {
+          input: modelInfo.inputPrice ?? "—",
+          output: modelInfo.outputPrice ?? "—",
+        },
+      });
+      priceSpan.style.cssText = "font-size: 10px; opacity: 0.6;";
+      infoContainer.appendChild(priceSpan);
+    }
     item.appendChild(infoContainer);
 
+    const priceBtn = doc.createElementNS(
+      "http://www.w3.org/1999/xhtml",
+      "button",
+    ) as HTMLButtonElement;
+    priceBtn.textContent = "$";
+    priceBtn.title = getString("pref-model-price");
+    priceBtn.style.cssText = `
+      border: none;
+      background: none;
+      cursor: pointer;
+      font-size: 12px;
+      padding: 0 4px;
+      line-height: 1;
+      opacity: 0.6;
+    `;
+    priceBtn.addEventListener("click", () => {
+      editModelPrice(doc, config.id, modelId, currentEndpoint);
+    });
+    item.appendChild(priceBtn);
+
     if (isCustom) {
       const deleteBtn = doc.createElementNS(
         "http://www.w3.org/1999/xhtml",
@@ -572,6 +733,16 @@ export function saveCurrentProviderConfig(
   const streamingOutputEl = doc.getElementById(
     "pref-streaming-output",
   ) as HTMLInputElement;
+  const rotateKeysEl = doc.getElementById(
+    "pref-rotate-keys",
+  ) as HTMLInputElement;
+  const contextLengthEl = doc.getElementById(
+    "pref-context-length",
+  ) as HTMLInputElement;
+  const keepAliveEl = doc.getElementById("pref-keep-alive") as HTMLInputElement;
+  const apiVersionEl = doc.getElementById(
+    "pref-api-version",
+  ) as HTMLInputElement;
 
   const currentEndpointIndex = getCurrentIndex(win, currentProviderId);
   const currentApiKeyIndex = getCurrentApiKeyIndex(
@@ -593,9 +764,7 @@ export function saveCurrentProviderConfig(
 
   const currentEndpoint = endpoints[currentEndpointIndex];
   const currentApiKey = currentEndpoint?.apiKeys[currentApiKeyIndex]?.key || "";
-  const isNowEnabled = endpoints.some((ep) =>
-    ep.apiKeys.some((k) => k.key.trim() !== ""),
-  );
+  const isNowEnabled = hasUsableEndpoint(currentProviderId, endpoints);
 
   const updates: Partial<ApiKeyProviderConfig> = {
     enabled: isNowEnabled,
@@ -609,6 +778,10 @@ export function saveCurrentProviderConfig(
     maxDocuments: parseInt(maxDocumentsEl?.value) || 3,
     systemPrompt: systemPromptEl?.value || "",
     streamingOutput: streamingOutputEl?.checked ?? true,
+    rotateApiKeys: rotateKeysEl?.checked ?? false,
+    contextLength: parseInt(contextLengthEl?.value) || undefined,
+    keepAlive: keepAliveEl?.value.trim() || undefined,
+    apiVersion: apiVersionEl?.value.trim() || undefined,
     endpoints,
   };
 
@@ -630,7 +803,7 @@ function addNewEndpoint(doc: Document, currentProviderId: string): void {
     currentProviderId,
   ) as ApiKeyProviderConfig;
 
-  if (config.isBuiltin) {
+  if (!canEditEndpoints(config)) {
     showTestResult(
       doc,
       getString("pref-cannot-add-endpoint-builtin" as any) ||
@@ -725,7 +898,7 @@ function editEndpoint(doc: Document, currentProviderId: string): void {
     currentProviderId,
   ) as ApiKeyProviderConfig;
 
-  if (config.isBuiltin) {
+  if (!canEditEndpoints(config)) {
     showTestResult(
       doc,
       getString("pref-cannot-edit-endpoint-builtin" as any) ||
@@ -816,7 +989,7 @@ function deleteEndpoint(doc: Document, currentProviderId: string): void {
     currentProviderId,
   ) as ApiKeyProviderConfig;
 
-  if (config.isBuiltin) {
+  if (!canEditEndpoints(config)) {
     showTestResult(
       doc,
       getString("pref-cannot-delete-endpoint-builtin" as any) ||
@@ -861,9 +1034,7 @@ function deleteEndpoint(doc: Document, currentProviderId: string): void {
 
   const newEndpoint = endpoints[newIndex];
 
-  const hasAnyKey = endpoints.some((ep) =>
-    ep.apiKeys.some((k) => k.key.trim() !== ""),
-  );
+  const hasAnyKey = hasUsableEndpoint(currentProviderId, endpoints);
   const newDefaultModel = newEndpoint?.defaultModel || "";
   const updates: Partial<ApiKeyProviderConfig> = {
     endpoints,
@@ -969,8 +1140,13 @@ function addNewApiKey(doc: Document, currentProviderId: string): void {
     return;
   }
 
+  // Bedrock keys may be AWS credentials, which need their format explained
+  const isBedrock =
+    providerManager.getProviderConfig(currentProviderId)?.type === "bedrock";
   const newApiKey = addon.data.prefs?.window?.prompt(
-    getString("pref-enter-apikey" as any) || "Enter API Key:",
+    isBedrock
+      ? getString("pref-enter-aws-credentials")
+      : getString("pref-enter-apikey" as any) || "Enter API Key:",
   );
 
   if (!newApiKey || !newApiKey.trim()) {
@@ -1247,9 +1423,7 @@ function deleteApiKey(doc: Document, currentProviderId: string): void {
   );
 
   const newCurrentKey = newApiKeys[newApiKeyIndex]?.key || "";
-  const hasAnyKey = endpoints.some((ep) =>
-    ep.apiKeys.some((k) => k.key.trim() !== ""),
-  );
+  const hasAnyKey = hasUsableEndpoint(currentProviderId, endpoints);
   const updates: Partial<ApiKeyProviderConfig> = {
     endpoints,
     apiKey: newCurrentKey,
@@ -1319,6 +1493,11 @@ export async function autoFetchModels(
   const win = doc.defaultView;
   if (!win) return;
 
+  // Providers without a key are only enabled once their config is saved
+  if (isApiKeyOptional(currentProviderId)) {
+    saveCurrentProviderConfig(doc, currentProviderId);
+  }
+
   const providerManager = getProviderManager();
   const provider = providerManager.getProvider(currentProviderId);
   if (!provider || !provider.isReady()) {
@@ -1336,13 +1515,13 @@ export async function autoFetchModels(
   const currentEndpoint = endpoints[currentEndpointIndex];
   const currentApiKey = currentEndpoint?.apiKeys[currentApiKeyIndex]?.key;
 
-  if (!currentApiKey) {
+  if (!currentApiKey && !isApiKeyOptional(currentProviderId)) {
     showTestResult(doc, getString("pref-provider-not-ready"), true);
     return;
   }
 
   provider.updateConfig({
-    apiKey: currentApiKey,
+    apiKey: currentApiKey || "",
     baseUrl: currentEndpoint?.baseUrl,
   });
 
@@ -1522,6 +1701,18 @@ export function bindApiKeyEvents(
     saveCurrentProviderConfig(doc, getCurrentProviderId()),
   );
 
+  for (const id of [
+    "pref-context-length",
+    "pref-keep-alive",
+    "pref-api-version",
+  ]) {
+    doc
+      .getElementById(id)
+      ?.addEventListener("blur", () =>
+        saveCurrentProviderConfig(doc, getCurrentProviderId()),
+      );
+  }
+
   const systemPromptInput = doc.getElementById(
     "pref-provider-systemprompt",
   ) as HTMLTextAreaElement;
@@ -1536,6 +1727,13 @@ export function bindApiKeyEvents(
     saveCurrentProviderConfig(doc, getCurrentProviderId()),
   );
 
+  const rotateKeysInput = doc.getElementById(
+    "pref-rotate-keys",
+  ) as HTMLInputElement;
+  rotateKeysInput?.addEventListener("command", () =>
+    saveCurrentProviderConfig(doc, getCurrentProviderId()),
+  );
+
   const refreshModelsBtn = doc.getElementById("pref-refresh-models");
   refreshModelsBtn?.addEventListener("click", () =>
     autoFetchModels(doc, getCurrentProviderId()),
@@ -1547,6 +1745,9 @@ export function bindApiKeyEvents(
     if (!win) return;
 
     const currentProviderId = getCurrentProviderId();
+    if (isApiKeyOptional(currentProviderId)) {
+      saveCurrentProviderConfig(doc, currentProviderId);
+    }
     const provider = providerManager.getProvider(currentProviderId);
     if (!provider || !provider.isReady()) {
       showTestResult(doc, getString("pref-provider-not-ready"), true);
@@ -1563,13 +1764,13 @@ export function bindApiKeyEvents(
     const currentEndpoint = endpoints[currentEndpointIndex];
     const currentApiKey = currentEndpoint?.apiKeys[currentApiKeyIndex]?.key;
 
-    if (!currentApiKey) {
+    if (!currentApiKey && !isApiKeyOptional(currentProviderId)) {
       showTestResult(doc, getString("pref-provider-not-ready"), true);
       return;
     }
 
     provider.updateConfig({
-      apiKey: currentApiKey,
+      apiKey: currentApiKey || "",
       baseUrl: currentEndpoint?.baseUrl,
     });
 
@@ -0,0 +1,87 @@
+/**
+ * ExtractionSchemaUI - Structured extraction schema settings
+ */
+
+import { getString } from "../../utils/locale";
+import { prefColors } from "../../utils/colors";
+import { setPref } from "../../utils/prefs";
+import {
+  getExtractionSchema,
+  getExtractionTarget,
+  parseExtractionSchema,
+  saveExtractionSchema,
+} from "../chat/StructuredExtraction";
+
+function showExtractionStatus(
+  doc: Document,
+  message: string,
+  isError: boolean,
+): void {
+  const statusEl = doc.getElementById("pref-extraction-status");
+  if (statusEl) {
+    statusEl.textContent = message;
+    (statusEl as HTMLElement).style.color = isError
+      ? prefColors.testError
+      : prefColors.testSuccess;
+  }
+}
+
+function getSchemaInput(doc: Document): HTMLTextAreaElement | null {
+  return doc.getElementById(
+    "pref-extraction-schema",
+  ) as HTMLTextAreaElement | null;
+}
+
+/**
+ * Show the current schema and write target
+ */
+export function populateExtractionPanel(doc: Document): void {
+  const schemaInput = getSchemaInput(doc);
+  if (schemaInput) {
+    schemaInput.value = JSON.stringify(getExtractionSchema(), null, 2);
+  }
+
+  const targetSelect = doc.getElementById(
+    "pref-extraction-target",
+  ) as unknown as XULMenuListElement | null;
+  if (targetSelect) {
+    targetSelect.value = getExtractionTarget();
+  }
+}
+
+function saveSchema(doc: Document): void {
+  const schemaInput = getSchemaInput(doc);
+  if (!schemaInput) return;
+
+  try {
+    saveExtractionSchema(parseExtractionSchema(schemaInput.value));
+  } catch (error) {
+    showExtractionStatus(
+      doc,
+      getString("pref-extraction-invalid", {
+        args: { error: error instanceof Error ? error.message : String(error) },
+      }),
+      true,
+    );
+    return;
+  }
+  populateExtractionPanel(doc);
+  showExtractionStatus(doc, getString("pref-extraction-saved"), false);
+}
+
+export function bindExtractionEvents(doc: Document): void {
+  doc
+    .getElementById("pref-extraction-target")
+    ?.addEventListener("command", (e: Event) => {
+      const value = (e.target as unknown as XULMenuListElement).value;
+      setPref("extractionTarget", value);
+    });
+  doc.getElementById("pref-extraction-save")?.addEventListener("click", () => {
+    saveSchema(doc);
+  });
+  doc.getElementById("pref-extraction-reset")?.addEventListener("click", () => {
+    saveExtractionSchema([]);
+    populateExtractionPanel(doc);
+    showExtractionStatus(doc, "", false);
+  });
+}
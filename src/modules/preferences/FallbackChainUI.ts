@@ -0,0 +1,95 @@
+/**
+ * FallbackChainUI - Fallback provider order settings
+ *
+ * One entry per line: a provider ID, or "providerId/model" to use another
+ * model than the provider's default.
+ */
+
+import { getString } from "../../utils/locale";
+import { prefColors } from "../../utils/colors";
+import { getProviderManager } from "../providers";
+import type { FallbackProviderEntry } from "../../types/provider";
+
+function showFallbackStatus(
+  doc: Document,
+  message: string,
+  isError: boolean,
+): void {
+  const statusEl = doc.getElementById("pref-fallback-status");
+  if (statusEl) {
+    statusEl.textContent = message;
+    (statusEl as HTMLElement).style.color = isError
+      ? prefColors.testError
+      : prefColors.testSuccess;
+  }
+}
+
+function getChainInput(doc: Document): HTMLTextAreaElement | null {
+  return doc.getElementById(
+    "pref-fallback-chain",
+  ) as HTMLTextAreaElement | null;
+}
+
+function formatEntry(entry: FallbackProviderEntry): string {
+  return entry.model ? `${entry.providerId}/${entry.model}` : entry.providerId;
+}
+
+/**
+ * Parse the fallback order; model IDs may contain "/" themselves
+ */
+function parseFallbackChain(text: string): FallbackProviderEntry[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .map((line) => {
+      const slash = line.indexOf("/");
+      const providerId = slash === -1 ? line : line.substring(0, slash).trim();
+      const model = slash === -1 ? "" : line.substring(slash + 1).trim();
+      return model ? { providerId, model } : { providerId };
+    });
+}
+
+/**
+ * Show the current fallback order
+ */
+export function populateFallbackPanel(doc: Document): void {
+  const chainInput = getChainInput(doc);
+  if (chainInput) {
+    chainInput.value = getProviderManager()
+      .getFallbackChain()
+      .map(formatEntry)
+      .join("\n");
+  }
+}
+
+function saveFallbackChain(doc: Document): void {
+  const chainInput = getChainInput(doc);
+  if (!chainInput) return;
+
+  const providerManager = getProviderManager();
+  const chain = parseFallbackChain(chainInput.value);
+  const unknown = chain.find(
+    (entry) => !providerManager.getProviderConfig(entry.providerId),
+  );
+  if (unknown) {
+    showFallbackStatus(
+      doc,
+      getString("pref-fallback-unknown", {
+        args: { provider: unknown.providerId },
+      }),
+      true,
+    );
+    return;
+  }
+
+  providerManager.setFallbackChain(chain);
+  populateFallbackPanel(doc);
+  showFallbackStatus(doc, getString("pref-fallback-saved"), false);
+}
+
+export function bindFallbackEvents(doc: Document): void {
+  doc.getElementById("pref-fallback-save")?.addEventListener("click", () => {
+    saveFallbackChain(doc);
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * HistoryBackupUI - Chat history backups and archives
+ *
+ * Backups are taken automatically once a day when the history is opened;
+ * restoring one first backs up the current history, so it can be undone.
+ * The whole history can also be exported to an archive file and imported
+ * from one, e.g. on another computer.
+ */
+
+import { getString } from "../../utils/locale";
+import { listStorageBackups } from "../chat";
+import { getChatManager } from "../ui/chat-panel/ChatPanelManager";
+import { triggerHistoryRefresh } from "../ui/chat-panel/ChatPanelEvents";
+import { clearElement } from "./utils";
+
+const JSON_FILTER: [string, string] = ["JSON (*.json)", "*.json"];
+
+/**
+ * List the available backups, newest first
+ */
+export async function populateHistoryBackupPanel(doc: Document): Promise<void> {
+  const popup = doc.getElementById("pref-history-backup-popup");
+  const select = doc.getElementById(
+    "pref-history-backup-select",
+  ) as unknown as XULMenuListElement | null;
+  const restoreBtn = doc.getElementById("pref-history-backup-restore");
+  if (!popup || !select) return;
+
+  clearElement(popup);
+  const backups = await listStorageBackups();
+
+  if (backups.length === 0) {
+    const emptyItem = doc.createXULElement("menuitem");
+    emptyItem.setAttribute("label", getString("pref-history-backup-none"));
+    emptyItem.setAttribute("value", "");
+    popup.appendChild(emptyItem);
+  }
+  for (const backup of backups) {
+    const menuitem = doc.createXULElement("menuitem");
+    menuitem.setAttribute("label", new Date(backup.date).toLocaleString());
+    menuitem.setAttribute("value", backup.path);
+    popup.appendChild(menuitem);
+  }
+
+  select.selectedIndex = 0;
+  if (backups.length === 0) {
+    restoreBtn?.setAttribute("disabled", "true");
+  } else {
+    restoreBtn?.removeAttribute("disabled");
+  }
+}
+
+function showArchiveStatus(doc: Document, message: string): void {
+  const status = doc.getElementById("pref-history-archive-status");
+  if (status) status.textContent = message;
+}
+
+async function exportHistory(doc: Document): Promise<void> {
+  const date = new Date().toISOString().substring(0, 10);
+  const path = await new ztoolkit.FilePicker(
+    getString("pref-history-export-title"),
+    "save",
+    [JSON_FILTER],
+    `zota-conversations-${date}.json`,
+    addon.data.prefs?.window,
+  ).open();
+  if (!path) return;
+
+  try {
+    const { json, count } = await getChatManager().exportHistory();
+    await IOUtils.writeUTF8(path, json);
+    showArchiveStatus(
+      doc,
+      getString("pref-history-exported", { args: { count } }),
+    );
+  } catch (error) {
+    ztoolkit.log("Export chat history error:", error);
+    showArchiveStatus(
+      doc,
+      getString("pref-history-export-failed", {
+        args: { error: String(error) },
+      }),
+    );
+  }
+}
+
+async function importHistory(doc: Document): Promise<void> {
+  const path = await new ztoolkit.FilePicker(
+    getString("pref-history-import-title"),
+    "open",
+    [JSON_FILTER],
+    undefined,
+    addon.data.prefs?.window,
+  ).open();
+  if (!path) return;
+
+  try {
+    const result = await getChatManager().importHistory(
+      await IOUtils.readUTF8(path),
+    );
+    triggerHistoryRefresh();
+    showArchiveStatus(
+      doc,
+      getString("pref-history-imported", {
+        args: {
+          imported: result.imported,
+          skipped: result.skipped,
+          unresolved: result.unresolved,
+        },
+      }),
+    );
+  } catch (error) {
+    ztoolkit.log("Import chat history error:", error);
+    showArchiveStatus(
+      doc,
+      getString("pref-history-import-failed", {
+        args: { error: String(error) },
+      }),
+    );
+  }
+}
+
+export function bindHistoryBackupEvents(doc: Document): void {
+  doc.getElementById("pref-history-export")?.addEventListener("click", () => {
+    exportHistory(doc);
+  });
+  doc.getElementById("pref-history-import")?.addEventListener("click", () => {
+    importHistory(doc);
+  });
+
+  const restoreBtn = doc.getElementById("pref-history-backup-restore");
+  restoreBtn?.addEventListener("click", async () => {
+    const select = doc.getElementById(
+      "pref-history-backup-select",
+    ) as unknown as XULMenuListElement | null;
+    const backupPath = select?.value;
+    if (!backupPath) return;
+
+    const confirmed = addon.data.prefs?.window?.confirm(
+      getString("pref-history-backup-confirm", {
+        args: { date: select.label },
+      }),
+    );
+    if (!confirmed) return;
+
+    const status = doc.getElementById("pref-history-backup-status");
+    try {
+      const restored = await getChatManager().restoreHistoryBackup(backupPath);
+      triggerHistoryRefresh();
+      if (status) {
+        status.textContent = getString(
+          restored ? "pref-history-backup-done" : "pref-history-backup-busy",
+        );
+      }
+    } catch (error) {
+      ztoolkit.log("Restore chat history error:", error);
+      if (status) {
+        status.textContent = getString("pref-history-backup-failed", {
+          args: { error: String(error) },
+        });
+      }
+    }
+    await populateHistoryBackupPanel(doc);
+  });
+}
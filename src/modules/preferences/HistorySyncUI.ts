@@ -0,0 +1,128 @@
+/**
+ * HistorySyncUI - Chat history sync folder settings
+ *
+ * Also owns the HistorySync instance, started with the plugin so history
+ * syncs in the background while a sync folder is set.
+ */
+
+import { getString } from "../../utils/locale";
+import { getPref, setPref } from "../../utils/prefs";
+import { HistorySync } from "../chat/HistorySync";
+import type { HistorySyncResult } from "../chat/HistorySync";
+import { getChatManager } from "../ui/chat-panel/ChatPanelManager";
+import { triggerHistoryRefresh } from "../ui/chat-panel/ChatPanelEvents";
+
+let historySync: HistorySync | null = null;
+
+/**
+ * Get the HistorySync singleton
+ */
+function getHistorySync(): HistorySync {
+  if (!historySync) {
+    historySync = new HistorySync(getChatManager());
+    historySync.onSync((result) => {
+      if (result.pulled > 0 || result.deleted > 0) {
+        triggerHistoryRefresh();
+      }
+    });
+  }
+  return historySync;
+}
+
+/**
+ * Start syncing in the background, if a sync folder is set
+ */
+export function startHistorySync(): void {
+  getHistorySync().start();
+}
+
+export function stopHistorySync(): void {
+  historySync?.stop();
+  historySync = null;
+}
+
+function showSyncStatus(doc: Document, message: string): void {
+  const status = doc.getElementById("pref-history-sync-status");
+  if (status) status.textContent = message;
+}
+
+function formatSyncResult(result: HistorySyncResult): string {
+  return getString("pref-history-sync-done", {
+    args: {
+      pushed: result.pushed,
+      pulled: result.pulled,
+      deleted: result.deleted,
+    },
+  });
+}
+
+/**
+ * Show the sync folder and whether sync is on
+ */
+export function populateHistorySyncPanel(doc: Document): void {
+  const folder = getPref("historySyncFolder");
+  const folderInput = doc.getElementById(
+    "pref-history-sync-folder",
+  ) as HTMLInputElement | null;
+  if (folderInput) folderInput.value = folder;
+
+  for (const id of ["pref-history-sync-off", "pref-history-sync-now"]) {
+    const button = doc.getElementById(id);
+    if (folder) {
+      button?.removeAttribute("disabled");
+    } else {
+      button?.setAttribute("disabled", "true");
+    }
+  }
+  if (!folder) {
+    showSyncStatus(doc, getString("pref-history-sync-disabled"));
+  }
+}
+
+async function syncNow(doc: Document): Promise<void> {
+  showSyncStatus(doc, getString("pref-history-sync-running"));
+  try {
+    showSyncStatus(doc, formatSyncResult(await getHistorySync().sync()));
+  } catch (error) {
+    ztoolkit.log("History sync error:", error);
+    showSyncStatus(
+      doc,
+      getString("pref-history-sync-failed", {
+        args: { error: String(error) },
+      }),
+    );
+  }
+}
+
+async function chooseFolder(doc: Document): Promise<void> {
+  const folder = await new ztoolkit.FilePicker(
+    getString("pref-history-sync-title"),
+    "folder",
+    undefined,
+    undefined,
+    addon.data.prefs?.window,
+  ).open();
+  if (!folder) return;
+
+  setPref("historySyncFolder", folder);
+  populateHistorySyncPanel(doc);
+  getHistorySync().start();
+  await syncNow(doc);
+}
+
+export function bindHistorySyncEvents(doc: Document): void {
+  doc
+    .getElementById("pref-history-sync-choose")
+    ?.addEventListener("click", () => {
+      chooseFolder(doc);
+    });
+  doc.getElementById("pref-history-sync-off")?.addEventListener("click", () => {
+    // Files already in the folder are kept
+    setPref("historySyncFolder", "");
+    getHistorySync().stop();
+    populateHistorySyncPanel(doc);
+  });
+  doc.getElementById("pref-history-sync-now")?.addEventListener("click", () => {
+    syncNow(doc);
+  });
+}
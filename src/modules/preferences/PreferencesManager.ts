@@ -9,6 +9,21 @@ import {
   populateApiKeyPanel,
   saveCurrentProviderConfig,
 } from "./ApiKeyProviderUI";
+import { bindUsageEvents, populateUsagePanel } from "./UsageUI";
+import {
+  bindHistoryBackupEvents,
+  populateHistoryBackupPanel,
+} from "./HistoryBackupUI";
+import {
+  bindHistorySyncEvents,
+  populateHistorySyncPanel,
+} from "./HistorySyncUI";
+import { bindTemplateEvents, populateTemplatePanel } from "./PromptTemplateUI";
+import {
+  bindExtractionEvents,
+  populateExtractionPanel,
+} from "./ExtractionSchemaUI";
+import { bindFallbackEvents, populateFallbackPanel } from "./FallbackChainUI";
 import { getString } from "../../utils/locale";
 import { prefColors } from "../../utils/colors";
 import { clearElement, showTestResult } from "./utils";
@@ -49,6 +64,12 @@ export async function initializePrefsUI(): Promise<void> {
   }
 
   setupModelChangeListener(doc);
+  populateFallbackPanel(doc);
+  populateTemplatePanel(doc);
+  populateExtractionPanel(doc);
+  await populateUsagePanel(doc);
+  await populateHistoryBackupPanel(doc);
+  populateHistorySyncPanel(doc);
 }
 
 function setupModelChangeListener(doc: Document): void {
@@ -85,6 +106,12 @@ export function bindPrefEvents(): void {
 
   bindActiveProviderSelect(doc);
   bindApiKeyEvents(doc, getCurrentProviderId);
+  bindFallbackEvents(doc);
+  bindTemplateEvents(doc);
+  bindExtractionEvents(doc);
+  bindUsageEvents(doc);
+  bindHistoryBackupEvents(doc);
+  bindHistorySyncEvents(doc);
 }
 
 function populateActiveProviderDropdown(doc: Document): void {
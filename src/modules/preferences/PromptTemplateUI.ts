@@ -0,0 +1,263 @@
+/**
+ * PromptTemplateUI - Prompt template library settings
+ */
+
+import { getString } from "../../utils/locale";
+import { prefColors } from "../../utils/colors";
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  exportPromptTemplates,
+  getPromptTemplates,
+  importPromptTemplates,
+  isValidCommand,
+  savePromptTemplates,
+} from "../chat/PromptTemplates";
+import type { PromptTemplate } from "../../types/chat";
+import { clearElement } from "./utils";
+
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+const JSON_FILTER: [string, string] = ["JSON (*.json)", "*.json"];
+
+// Command of the template being edited, null when adding a new one
+let editingCommand: string | null = null;
+
+function showTemplateStatus(
+  doc: Document,
+  message: string,
+  isError: boolean,
+): void {
+  const statusEl = doc.getElementById("pref-template-status");
+  if (statusEl) {
+    statusEl.textContent = message;
+    (statusEl as HTMLElement).style.color = isError
+      ? prefColors.testError
+      : prefColors.testSuccess;
+  }
+}
+
+function getEditorFields(doc: Document) {
+  return {
+    editor: doc.getElementById("pref-template-editor") as HTMLElement | null,
+    command: doc.getElementById(
+      "pref-template-command",
+    ) as HTMLInputElement | null,
+    description: doc.getElementById(
+      "pref-template-description",
+    ) as HTMLInputElement | null,
+    prompt: doc.getElementById(
+      "pref-template-prompt",
+    ) as HTMLTextAreaElement | null,
+  };
+}
+
+function openEditor(doc: Document, template: PromptTemplate | null): void {
+  const fields = getEditorFields(doc);
+  if (!fields.editor) return;
+  editingCommand = template?.command ?? null;
+  if (fields.command) fields.command.value = template?.command ?? "";
+  if (fields.description) {
+    fields.description.value = template?.description ?? "";
+  }
+  if (fields.prompt) fields.prompt.value = template?.prompt ?? "";
+  fields.editor.style.display = "flex";
+  fields.command?.focus();
+}
+
+function closeEditor(doc: Document): void {
+  const { editor } = getEditorFields(doc);
+  if (editor) editor.style.display = "none";
+  editingCommand = null;
+}
+
+function saveEditor(doc: Document): void {
+  const fields = getEditorFields(doc);
+  const command = fields.command?.value.trim().replace(/^\//, "") || "";
+  const prompt = fields.prompt?.value || "";
+
+  if (!isValidCommand(command)) {
+    showTemplateStatus(doc, getString("pref-template-invalid-command"), true);
+    return;
+  }
+  if (!prompt.trim()) {
+    showTemplateStatus(doc, getString("pref-template-empty-prompt"), true);
+    return;
+  }
+
+  const templates = getPromptTemplates();
+  if (
+    command !== editingCommand &&
+    templates.some((template) => template.command === command)
+  ) {
+    showTemplateStatus(doc, getString("pref-template-exists"), true);
+    return;
+  }
+
+  const template: PromptTemplate = {
+    command,
+    description: fields.description?.value.trim() || "",
+    prompt,
+  };
+  const index = templates.findIndex((t) => t.command === editingCommand);
+  if (index === -1) {
+    templates.push(template);
+  } else {
+    templates[index] = template;
+  }
+  savePromptTemplates(templates);
+
+  closeEditor(doc);
+  showTemplateStatus(doc, "", false);
+  populateTemplatePanel(doc);
+}
+
+/**
+ * Render the template list
+ */
+export function populateTemplatePanel(doc: Document): void {
+  const listContainer = doc.getElementById("pref-template-list");
+  if (!listContainer) return;
+
+  clearElement(listContainer);
+
+  const templates = getPromptTemplates();
+  templates.forEach((template) => {
+    const item = doc.createElementNS(XHTML_NS, "div") as HTMLDivElement;
+    item.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 8px;
+      border-bottom: 1px solid var(--color-border, #eee);
+      cursor: pointer;
+    `;
+    item.title = template.prompt;
+
+    const commandSpan = doc.createElementNS(
+      XHTML_NS,
+      "span",
+    ) as HTMLSpanElement;
+    commandSpan.textContent = `/${template.command}`;
+    commandSpan.style.cssText = "font-size: 12px; font-weight: bold;";
+    item.appendChild(commandSpan);
+
+    const descriptionSpan = doc.createElementNS(
+      XHTML_NS,
+      "span",
+    ) as HTMLSpanElement;
+    descriptionSpan.textContent = template.description;
+    descriptionSpan.style.cssText =
+      "flex: 1; font-size: 12px; opacity: 0.7; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;";
+    item.appendChild(descriptionSpan);
+
+    item.addEventListener("click", () => {
+      openEditor(doc, template);
+    });
+
+    const deleteBtn = doc.createElementNS(
+      XHTML_NS,
+      "button",
+    ) as HTMLButtonElement;
+    deleteBtn.textContent = "×";
+    deleteBtn.title = getString("pref-template-delete");
+    deleteBtn.style.cssText = `
+      border: none;
+      background: none;
+      color: #c00;
+      cursor: pointer;
+      font-size: 16px;
+      padding: 0 4px;
+      line-height: 1;
+    `;
+    deleteBtn.addEventListener("click", (e: MouseEvent) => {
+      e.stopPropagation();
+      savePromptTemplates(
+        getPromptTemplates().filter((t) => t.command !== template.command),
+      );
+      if (editingCommand === template.command) {
+        closeEditor(doc);
+      }
+      populateTemplatePanel(doc);
+    });
+    item.appendChild(deleteBtn);
+
+    listContainer.appendChild(item);
+  });
+
+  if (templates.length === 0) {
+    const emptyItem = doc.createElementNS(XHTML_NS, "div") as HTMLDivElement;
+    emptyItem.textContent = "—";
+    emptyItem.style.cssText =
+      "padding: 8px; text-align: center; color: #888; font-size: 12px;";
+    listContainer.appendChild(emptyItem);
+  }
+}
+
+async function importTemplates(doc: Document): Promise<void> {
+  const path = await new ztoolkit.FilePicker(
+    getString("pref-template-import-title"),
+    "open",
+    [JSON_FILTER],
+    undefined,
+    addon.data.prefs?.window,
+  ).open();
+  if (!path) return;
+
+  try {
+    const count = importPromptTemplates(await IOUtils.readUTF8(path));
+    showTemplateStatus(
+      doc,
+      getString("pref-template-imported", { args: { count } }),
+      false,
+    );
+    populateTemplatePanel(doc);
+  } catch (error) {
+    ztoolkit.log("[PromptTemplateUI] Import failed:", error);
+    showTemplateStatus(doc, getString("pref-template-import-failed"), true);
+  }
+}
+
+async function exportTemplates(doc: Document): Promise<void> {
+  const path = await new ztoolkit.FilePicker(
+    getString("pref-template-export-title"),
+    "save",
+    [JSON_FILTER],
+    "zota-prompt-templates.json",
+    addon.data.prefs?.window,
+  ).open();
+  if (!path) return;
+
+  try {
+    await IOUtils.writeUTF8(path, exportPromptTemplates());
+    showTemplateStatus(doc, getString("pref-template-exported"), false);
+  } catch (error) {
+    ztoolkit.log("[PromptTemplateUI] Export failed:", error);
+    showTemplateStatus(doc, getString("pref-template-export-failed"), true);
+  }
+}
+
+export function bindTemplateEvents(doc: Document): void {
+  doc.getElementById("pref-template-add")?.addEventListener("click", () => {
+    openEditor(doc, null);
+  });
+  doc.getElementById("pref-template-save")?.addEventListener("click", () => {
+    saveEditor(doc);
+  });
+  doc.getElementById("pref-template-cancel")?.addEventListener("click", () => {
+    closeEditor(doc);
+  });
+  doc.getElementById("pref-template-import")?.addEventListener("click", () => {
+    importTemplates(doc);
+  });
+  doc.getElementById("pref-template-export")?.addEventListener("click", () => {
+    exportTemplates(doc);
+  });
+  doc.getElementById("pref-template-reset")?.addEventListener("click", () => {
+    const confirmed = addon.data.prefs?.window?.confirm(
+      getString("pref-template-reset-confirm"),
+    );
+    if (!confirmed) return;
+    savePromptTemplates(DEFAULT_PROMPT_TEMPLATES);
+    closeEditor(doc);
+    populateTemplatePanel(doc);
+  });
+}
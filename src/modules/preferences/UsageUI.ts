@@ -0,0 +1,207 @@
+/**
+ * UsageUI - Token usage and estimated cost view
+ *
+ * Totals are grouped by day or month, then by provider and model.
+ * Cost is estimated from the current model prices, so changing a price
+ * also changes the estimate of past usage.
+ */
+
+import { getString } from "../../utils/locale";
+import { getProviderManager } from "../providers";
+import { getChatManager } from "../ui/chat-panel/ChatPanelManager";
+import { formatTokenCount } from "../chat/TokenBudget";
+import type { UsageBucket } from "../../types/chat";
+import { clearElement } from "./utils";
+
+type UsagePeriod = "day" | "month";
+
+interface UsageRow {
+  providerId: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // null when the model has no price
+}
+
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+const ROW_STYLE =
+  "display: grid; grid-template-columns: 2fr 1fr 1fr 1fr 1fr; gap: 8px; padding: 2px 8px; font-size: 12px;";
+
+/**
+ * Estimate the cost of a bucket from the model's prices
+ */
+function estimateCost(bucket: UsageBucket): number | null {
+  const modelInfo = getProviderManager().getModelInfo(
+    bucket.providerId,
+    bucket.model,
+  );
+  if (
+    modelInfo?.inputPrice === undefined &&
+    modelInfo?.outputPrice === undefined
+  ) {
+    return null;
+  }
+  return (
+    (bucket.inputTokens * (modelInfo.inputPrice ?? 0) +
+      bucket.outputTokens * (modelInfo.outputPrice ?? 0)) /
+    1000000
+  );
+}
+
+function formatCost(cost: number | null): string {
+  if (cost === null) return "—";
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Group buckets by period, newest first, then by provider and model
+ */
+function groupUsage(
+  buckets: UsageBucket[],
+  period: UsagePeriod,
+): Map<string, UsageRow[]> {
+  const groups = new Map<string, Map<string, UsageRow>>();
+  const sorted = [...buckets].sort((a, b) => b.date.localeCompare(a.date));
+
+  for (const bucket of sorted) {
+    const key = period === "month" ? bucket.date.substring(0, 7) : bucket.date;
+    let rows = groups.get(key);
+    if (!rows) {
+      rows = new Map();
+      groups.set(key, rows);
+    }
+
+    const rowKey = `${bucket.providerId}\n${bucket.model}`;
+    const row = rows.get(rowKey) || {
+      providerId: bucket.providerId,
+      model: bucket.model,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: null,
+    };
+    const cost = estimateCost(bucket);
+    row.requests += bucket.requests;
+    row.inputTokens += bucket.inputTokens;
+    row.outputTokens += bucket.outputTokens;
+    row.cost = cost === null ? row.cost : (row.cost ?? 0) + cost;
+    rows.set(rowKey, row);
+  }
+
+  const result = new Map<string, UsageRow[]>();
+  for (const [key, rows] of groups) {
+    result.set(key, Array.from(rows.values()));
+  }
+  return result;
+}
+
+function createRow(doc: Document, cells: string[], bold = false): HTMLElement {
+  const row = doc.createElementNS(XHTML_NS, "div") as HTMLDivElement;
+  row.style.cssText = ROW_STYLE + (bold ? " font-weight: bold;" : "");
+  cells.forEach((text, index) => {
+    const cell = doc.createElementNS(XHTML_NS, "span") as HTMLSpanElement;
+    cell.textContent = text;
+    cell.style.cssText =
+      index === 0
+        ? "overflow: hidden; text-overflow: ellipsis; white-space: nowrap;"
+        : "text-align: right;";
+    row.appendChild(cell);
+  });
+  return row;
+}
+
+function getSelectedPeriod(doc: Document): UsagePeriod {
+  const periodSelect = doc.getElementById(
+    "pref-usage-period",
+  ) as unknown as XULMenuListElement | null;
+  return periodSelect?.value === "month" ? "month" : "day";
+}
+
+/**
+ * Render the usage table for the selected period
+ */
+export async function populateUsagePanel(doc: Document): Promise<void> {
+  const container = doc.getElementById("pref-usage-table");
+  if (!container) return;
+
+  const buckets = await getChatManager().getUsage();
+  clearElement(container);
+
+  if (buckets.length === 0) {
+    const emptyItem = doc.createElementNS(XHTML_NS, "div") as HTMLDivElement;
+    emptyItem.textContent = getString("pref-usage-empty");
+    emptyItem.style.cssText =
+      "padding: 8px; text-align: center; color: #888; font-size: 12px;";
+    container.appendChild(emptyItem);
+    return;
+  }
+
+  const providerManager = getProviderManager();
+  container.appendChild(
+    createRow(
+      doc,
+      [
+        getString("pref-usage-model"),
+        getString("pref-usage-requests"),
+        getString("pref-usage-input"),
+        getString("pref-usage-output"),
+        getString("pref-usage-cost"),
+      ],
+      true,
+    ),
+  );
+
+  for (const [period, rows] of groupUsage(buckets, getSelectedPeriod(doc))) {
+    const pricedRows = rows.filter((row) => row.cost !== null);
+    const totalCost =
+      pricedRows.length > 0
+        ? pricedRows.reduce((sum, row) => sum + (row.cost ?? 0), 0)
+        : null;
+    const header = createRow(
+      doc,
+      [
+        period,
+        String(rows.reduce((sum, row) => sum + row.requests, 0)),
+        formatTokenCount(rows.reduce((sum, row) => sum + row.inputTokens, 0)),
+        formatTokenCount(rows.reduce((sum, row) => sum + row.outputTokens, 0)),
+        formatCost(totalCost),
+      ],
+      true,
+    );
+    header.style.borderTop = "1px solid var(--color-border, #eee)";
+    container.appendChild(header);
+
+    for (const row of rows) {
+      const providerName =
+        providerManager.getProviderConfig(row.providerId)?.name ||
+        row.providerId;
+      const item = createRow(doc, [
+        `${providerName} / ${row.model}`,
+        String(row.requests),
+        formatTokenCount(row.inputTokens),
+        formatTokenCount(row.outputTokens),
+        formatCost(row.cost),
+      ]);
+      item.title = `${providerName} / ${row.model}`;
+      container.appendChild(item);
+    }
+  }
+}
+
+export function bindUsageEvents(doc: Document): void {
+  const periodSelect = doc.getElementById("pref-usage-period");
+  periodSelect?.addEventListener("command", () => {
+    populateUsagePanel(doc);
+  });
+
+  const resetBtn = doc.getElementById("pref-usage-reset");
+  resetBtn?.addEventListener("click", async () => {
+    const confirmed = addon.data.prefs?.window?.confirm(
+      getString("pref-usage-reset-confirm"),
+    );
+    if (!confirmed) return;
+    await getChatManager().clearUsage();
+    await populateUsagePanel(doc);
+  });
+}
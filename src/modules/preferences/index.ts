@@ -11,6 +11,8 @@ import {
   cleanupPrefsUI,
 } from "./PreferencesManager";
 
+export { startHistorySync, stopHistorySync } from "./HistorySyncUI";
+
 /**
  * Register preferences scripts - main entry point
  */
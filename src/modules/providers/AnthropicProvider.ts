@@ -4,7 +4,17 @@
  */
 
 import { BaseProvider } from "./BaseProvider";
-import type { ChatMessage, StreamCallbacks } from "../../types/chat";
+import { extractUsage } from "./SSEParser";
+import type {
+  ChatMessage,
+  StreamCallbacks,
+  TokenUsage,
+} from "../../types/chat";
+import type {
+  ToolCompletionResult,
+  ToolDefinition,
+  ToolExchange,
+} from "../../types/tool";
 
 export type ClaudeThinkingEffort = "none" | "low" | "medium" | "high" | "max";
 
@@ -23,6 +33,30 @@ export class AnthropicProvider extends BaseProvider {
     return this._thinkingEffort !== "none";
   }
 
+  /**
+   * Send a Messages API request, with retries
+   * Services that host the Messages format elsewhere override this
+   */
+  protected async sendMessages(
+    requestBody: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return this.fetchWithRetry(
+      () =>
+        fetch(`${this._config.baseUrl}/messages`, {
+          method: "POST",
+          headers: {
+            "x-api-key": this._config.apiKey,
+            "anthropic-version": "2023-06-01",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        }),
+      signal,
+    );
+  }
+
   async streamChatCompletion(
     messages: ChatMessage[],
     callbacks: StreamCallbacks,
@@ -37,7 +71,10 @@ export class AnthropicProvider extends BaseProvider {
 
     try {
       const anthropicMessages = this.formatAnthropicMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
 
       const requestBody: Record<string, unknown> = {
         model: this._config.defaultModel,
@@ -52,18 +89,7 @@ export class AnthropicProvider extends BaseProvider {
         requestBody.output_config = { effort: this._thinkingEffort };
       }
 
-      const response = await fetch(`${this._config.baseUrl}/messages`, {
-        method: "POST",
-        headers: {
-          "x-api-key": this._config.apiKey,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-        signal,
-      });
-
-      await this.validateResponse(response);
+      const response = await this.sendMessages(requestBody, signal);
       await this.streamWithCallbacks(response, "anthropic", callbacks, signal);
     } catch (error) {
       if ((error as Error).name === "AbortError") {
@@ -73,13 +99,19 @@ export class AnthropicProvider extends BaseProvider {
     }
   }
 
-  async chatCompletion(messages: ChatMessage[]): Promise<string> {
+  async chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
     if (!this.isReady()) {
       throw new Error("Provider is not configured");
     }
 
     const anthropicMessages = this.formatAnthropicMessages(messages);
-    const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+    );
 
     const requestBody: Record<string, unknown> = {
       model: this._config.defaultModel,
@@ -93,21 +125,15 @@ export class AnthropicProvider extends BaseProvider {
       requestBody.output_config = { effort: this._thinkingEffort };
     }
 
-    const response = await fetch(`${this._config.baseUrl}/messages`, {
-      method: "POST",
-      headers: {
-        "x-api-key": this._config.apiKey,
-        "anthropic-version": "2023-06-01",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    await this.validateResponse(response);
+    const response = await this.sendMessages(requestBody);
 
     const data = (await response.json()) as {
       content?: Array<{ type: string; text?: string }>;
     };
+    const usage = extractUsage("anthropic", data);
+    if (usage) {
+      onUsage?.(usage);
+    }
 
     return (
       data.content
@@ -117,6 +143,104 @@ export class AnthropicProvider extends BaseProvider {
     );
   }
 
+  supportsToolCalling(): boolean {
+    return true;
+  }
+
+  /**
+   * Build the request body of a tool-enabled completion
+   */
+  private buildToolRequestBody(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+  ): Record<string, unknown> {
+    // Thinking is left off during tool rounds, since thinking blocks would
+    // have to be echoed back verbatim with every tool result
+    return {
+      model: this._config.defaultModel,
+      max_tokens: this._config.maxTokens || 8192,
+      system: this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+        exchanges,
+      ),
+      messages: [
+        ...this.formatAnthropicMessages(messages),
+        ...this.formatAnthropicToolExchanges(exchanges),
+      ],
+      tools: this.formatAnthropicTools(tools),
+    };
+  }
+
+  async chatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    if (!this.isReady()) {
+      throw new Error("Provider is not configured");
+    }
+
+    const response = await this.sendMessages(
+      this.buildToolRequestBody(messages, tools, exchanges),
+      signal,
+    );
+
+    const data = (await response.json()) as {
+      content?: Array<{
+        type: string;
+        text?: string;
+        id?: string;
+        name?: string;
+        input?: Record<string, unknown>;
+      }>;
+    };
+    const blocks = data.content || [];
+
+    return {
+      content: blocks
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join(""),
+      toolCalls: blocks
+        .filter((block) => block.type === "tool_use")
+        .map((block, index) => ({
+          id: block.id || `toolu_${index}`,
+          name: block.name || "",
+          arguments: block.input || {},
+        })),
+      usage: extractUsage("anthropic", data) ?? undefined,
+    };
+  }
+
+  async streamChatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    if (!this.isReady()) {
+      throw new Error("Provider is not configured");
+    }
+
+    const response = await this.sendMessages(
+      {
+        ...this.buildToolRequestBody(messages, tools, exchanges),
+        stream: true,
+      },
+      signal,
+    );
+    return this.readToolStream(
+      this.getResponseReader(response),
+      "anthropic",
+      onChunk,
+      signal,
+    );
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await fetch(`${this._config.baseUrl}/messages`, {
@@ -0,0 +1,153 @@
+/**
+ * AwsSigV4 - AWS Signature Version 4 request signing
+ * Implements the header-based signing flow with Web Crypto, for services
+ * called directly with fetch (Bedrock)
+ */
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // Temporary credentials, e.g. from SSO
+}
+
+export interface AwsRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Parse credentials stored as "ACCESS_KEY_ID:SECRET_ACCESS_KEY" with an
+ * optional ":SESSION_TOKEN"; none of the parts contain ":"
+ * @returns The credentials, or null for any other value
+ */
+export function parseAwsCredentials(value: string): AwsCredentials | null {
+  const [accessKeyId, secretAccessKey, sessionToken, ...rest] = value
+    .trim()
+    .split(":");
+  if (!accessKeyId || !secretAccessKey || rest.length > 0) return null;
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: sessionToken || undefined,
+  };
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(text)));
+}
+
+async function hmac(key: BufferSource, text: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(text));
+}
+
+/**
+ * URI-encode as SigV4 requires: everything but A-Z a-z 0-9 - _ . ~
+ */
+function uriEncode(text: string): string {
+  return encodeURIComponent(text).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Build the canonical URI from the path as sent
+ * Every service but S3 encodes the already encoded segments again
+ */
+function getCanonicalUri(pathname: string): string {
+  return pathname.split("/").map(uriEncode).join("/") || "/";
+}
+
+/**
+ * Build the canonical query string, sorted by encoded name, then value
+ */
+function getCanonicalQuery(searchParams: URLSearchParams): string {
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  return [...searchParams.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => compare(a, b) || compare(av, bv))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+/**
+ * Sign a request
+ * @returns The request headers plus the signing headers, without Host,
+ *   which fetch sets itself
+ */
+export async function signAwsRequest(
+  request: AwsRequest,
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now: Date = new Date(),
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.substring(0, 8);
+  const payloadHash = await sha256Hex(request.body || "");
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": payloadHash,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const signed = new Map<string, string>([["host", url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    signed.set(name.toLowerCase(), value.trim().replace(/\s+/g, " "));
+  }
+  const signedNames = [...signed.keys()].sort();
+  const signedHeaders = signedNames.join(";");
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalUri(url.pathname),
+    getCanonicalQuery(url.searchParams),
+    signedNames.map((name) => `${name}:${signed.get(name)}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const dateKey = await hmac(
+    encoder.encode(`AWS4${credentials.secretAccessKey}`),
+    dateStamp,
+  );
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  const signingKey = await hmac(serviceKey, "aws4_request");
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  headers.Authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
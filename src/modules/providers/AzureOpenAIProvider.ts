@@ -0,0 +1,74 @@
+/**
+ * AzureOpenAIProvider - Azure OpenAI Service implementation
+ * Extends OpenAIProvider as deployments serve the Chat Completions API
+ * Requests go to /openai/deployments/{deployment} with an api-version query
+ * parameter and authenticate with the api-key header; the model selected
+ * in the preferences is the deployment name
+ */
+
+import { OpenAIProvider } from "./OpenAIProvider";
+
+export const AZURE_DEFAULT_API_VERSION = "2024-10-21";
+
+// Deployments can only be listed with this data-plane API version
+const LIST_DEPLOYMENTS_API_VERSION = "2023-03-15-preview";
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  protected getAuthHeaders(): Record<string, string> {
+    return { "api-key": this._config.apiKey };
+  }
+
+  protected getChatCompletionsUrl(): string {
+    const deployment = encodeURIComponent(this._config.defaultModel);
+    const apiVersion = encodeURIComponent(
+      this._config.apiVersion?.trim() || AZURE_DEFAULT_API_VERSION,
+    );
+    return `${this.getResourceUrl()}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  /**
+   * Get the resource URL, also when the base URL was pasted with a path
+   */
+  private getResourceUrl(): string {
+    return this._config.baseUrl.replace(/\/+$/, "").replace(/\/openai.*$/, "");
+  }
+
+  private async fetchDeployments(): Promise<Response> {
+    return fetch(
+      `${this.getResourceUrl()}/openai/deployments?api-version=${LIST_DEPLOYMENTS_API_VERSION}`,
+      { headers: this.getAuthHeaders() },
+    );
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.fetchDeployments();
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List the deployments of the resource, since requests address
+   * deployments instead of models
+   */
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.fetchDeployments();
+      if (response.ok) {
+        const data = (await response.json()) as {
+          data?: Array<{ id: string; status?: string }>;
+        };
+        return (
+          data.data
+            ?.filter((d) => !d.status || d.status === "succeeded")
+            .map((d) => d.id) || []
+        );
+      }
+    } catch {
+      // Ignore errors
+    }
+    return this._config.availableModels || [];
+  }
+}
@@ -5,6 +5,7 @@
 import type {
   ChatMessage,
   StreamCallbacks,
+  TokenUsage,
   OpenAIMessage,
   OpenAIMessageContent,
 } from "../../types/chat";
@@ -17,14 +18,33 @@ import type {
   GeminiContent,
   GeminiPart,
 } from "../../types/provider";
+import type {
+  ToolCall,
+  ToolCompletionResult,
+  ToolDefinition,
+  ToolExchange,
+} from "../../types/tool";
+import { createProviderError } from "./ProviderError";
 import {
   parseSSEStream,
   type SSEFormat,
   type SSEParserCallbacks,
 } from "./SSEParser";
 
+// Page marker prefixed to document content, e.g. [Page 12]
+const PAGE_MARKER_PATTERN = /\[Page [^\]\n]+\]/;
+
 export abstract class BaseProvider implements AIProvider {
   protected _config: ApiKeyProviderConfig;
+  private onCredentialsRotated?: (
+    updates: Partial<ApiKeyProviderConfig>,
+  ) => void;
+
+  // Retries after rate limits and server errors, on top of the first request
+  static readonly MAX_RETRIES = 3;
+  static readonly RETRY_BASE_DELAY_MS = 1000;
+  // Longer Retry-After delays fail right away instead of blocking the chat
+  static readonly MAX_RETRY_DELAY_MS = 30000;
 
   static readonly DEFAULT_SYSTEM_PROMPT =
     "You are a helpful research assistant. Help the user understand and analyze academic papers and documents.";
@@ -51,14 +71,47 @@ When writing mathematical formulas, you MUST follow these formatting rules:
 
 === END FORMATTING REQUIREMENTS ===`;
 
+  static readonly CITATION_REQUIREMENTS = `
+
+=== CITATION REQUIREMENTS ===
+
+When the provided document content contains page markers such as [Page 12]:
+
+1. Cite the page every claim about the document comes from, right after the claim: [p. 12]
+2. Use [pp. 12-13] for a passage that spans pages, and separate citations for unrelated pages: [p. 3] [p. 7]
+3. Only cite page numbers that appear in the page markers - never guess a page
+4. Put word-for-word quotes from the document in a Markdown blockquote (> ...), followed by the citation
+
+=== END CITATION REQUIREMENTS ===`;
+
   constructor(config: ApiKeyProviderConfig) {
     this._config = config;
   }
 
-  protected buildSystemPrompt(userCustomPrompt?: string): string {
+  /**
+   * Build the system prompt
+   * Citation rules are only added when the request holds page-marked
+   * document content, in the messages or in tool results
+   */
+  protected buildSystemPrompt(
+    userCustomPrompt: string | undefined,
+    messages: ChatMessage[],
+    exchanges: ToolExchange[] = [],
+  ): string {
     const basePrompt =
       userCustomPrompt?.trim() || BaseProvider.DEFAULT_SYSTEM_PROMPT;
-    return basePrompt + BaseProvider.FORMATTING_REQUIREMENTS;
+    const hasPageMarkers =
+      messages.some((msg) => PAGE_MARKER_PATTERN.test(msg.content)) ||
+      exchanges.some((exchange) =>
+        exchange.results.some((result) =>
+          PAGE_MARKER_PATTERN.test(result.content),
+        ),
+      );
+    return (
+      basePrompt +
+      BaseProvider.FORMATTING_REQUIREMENTS +
+      (hasPageMarkers ? BaseProvider.CITATION_REQUIREMENTS : "")
+    );
   }
 
   get config(): ApiKeyProviderConfig {
@@ -69,9 +122,19 @@ When writing mathematical formulas, you MUST follow these formatting rules:
     return this._config.name;
   }
 
+  /**
+   * Whether requests need an API key
+   * Local servers override this, since they accept requests without one
+   */
+  protected requiresApiKey(): boolean {
+    return true;
+  }
+
   isReady(): boolean {
     return (
-      !!this._config.apiKey && !!this._config.baseUrl && this._config.enabled
+      (!!this._config.apiKey || !this.requiresApiKey()) &&
+      !!this._config.baseUrl &&
+      this._config.enabled
     );
   }
 
@@ -79,13 +142,84 @@ When writing mathematical formulas, you MUST follow these formatting rules:
     this._config = { ...this._config, ...config };
   }
 
+  /**
+   * Set the callback that persists a switch to another API key or endpoint
+   */
+  setOnCredentialsRotated(
+    callback: (updates: Partial<ApiKeyProviderConfig>) => void,
+  ): void {
+    this.onCredentialsRotated = callback;
+  }
+
   abstract streamChatCompletion(
     messages: ChatMessage[],
     callbacks: StreamCallbacks,
     signal?: AbortSignal,
   ): Promise<void>;
 
-  abstract chatCompletion(messages: ChatMessage[]): Promise<string>;
+  abstract chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string>;
+
+  /**
+   * Non-streaming completion that answers with a JSON object
+   * Providers with a JSON output mode override this; the default relies on
+   * the prompt asking for JSON
+   */
+  async chatCompletionJson(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    return this.chatCompletion(messages, onUsage);
+  }
+
+  /**
+   * Whether this provider can run tool-enabled completions
+   * Providers opt in by overriding this and chatCompletionWithTools
+   */
+  supportsToolCalling(): boolean {
+    return false;
+  }
+
+  /**
+   * Non-streaming completion with tools
+   * The default implementation ignores tools and returns a plain answer
+   */
+  async chatCompletionWithTools(
+    messages: ChatMessage[],
+    _tools: ToolDefinition[],
+    _exchanges: ToolExchange[],
+    _signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    let usage: TokenUsage | undefined;
+    const content = await this.chatCompletion(messages, (reported) => {
+      usage = reported;
+    });
+    return { content, toolCalls: [], usage };
+  }
+
+  /**
+   * Streaming completion with tools
+   * Answer text is passed to onChunk as it arrives. The default runs the
+   * request without streaming and passes on the answer whole.
+   */
+  async streamChatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    const result = await this.chatCompletionWithTools(
+      messages,
+      tools,
+      exchanges,
+      signal,
+    );
+    if (result.content) onChunk(result.content);
+    return result;
+  }
 
   abstract testConnection(): Promise<boolean>;
 
@@ -104,15 +238,136 @@ When writing mathematical formulas, you MUST follow these formatting rules:
   }
 
   /**
-   * Validate fetch response and throw error if not ok
+   * Validate fetch response and throw a ProviderError if not ok
    */
   protected async validateResponse(response: Response): Promise<void> {
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error: ${response.status} - ${errorText}`);
+      throw await createProviderError(response);
+    }
+  }
+
+  /**
+   * Send a request, retrying rate limits and server errors with backoff
+   * With rotateApiKeys on, rate limits and exhausted quota switch to the next
+   * API key or endpoint first. `send` runs again for every attempt, so it
+   * must read the key and base URL from the config each time.
+   * @throws ProviderError when the request keeps failing
+   */
+  protected async fetchWithRetry(
+    send: () => Promise<Response>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const maxRotations = this.getCredentials().length - 1;
+    let rotations = 0;
+    let retries = 0;
+
+    for (;;) {
+      const response = await send();
+      if (response.ok) return response;
+
+      const error = await createProviderError(response);
+      if (
+        error.canRotate &&
+        rotations < maxRotations &&
+        this.rotateCredentials()
+      ) {
+        rotations++;
+        ztoolkit.log(
+          `[${this._config.name}] ${error.kind}, switched to the next API key`,
+        );
+        continue;
+      }
+
+      if (!error.isRetryable || retries >= BaseProvider.MAX_RETRIES) {
+        throw error;
+      }
+      const delay =
+        error.retryAfterMs ??
+        BaseProvider.RETRY_BASE_DELAY_MS * 2 ** retries +
+          Math.random() * BaseProvider.RETRY_BASE_DELAY_MS;
+      if (delay > BaseProvider.MAX_RETRY_DELAY_MS) {
+        throw error;
+      }
+      retries++;
+      ztoolkit.log(
+        `[${this._config.name}] ${error.kind}, retry ${retries} in ${Math.round(delay)}ms`,
+      );
+      await this.waitBeforeRetry(delay, signal);
     }
   }
 
+  /**
+   * Wait for a retry delay, rejecting with an AbortError when aborted
+   */
+  private waitBeforeRetry(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abortError = new Error("Request aborted");
+      abortError.name = "AbortError";
+      if (signal?.aborted) {
+        reject(abortError);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Get every configured API key as endpoint and key positions
+   */
+  private getCredentials(): Array<{ endpointIndex: number; keyIndex: number }> {
+    const credentials: Array<{ endpointIndex: number; keyIndex: number }> = [];
+    (this._config.endpoints || []).forEach((endpoint, endpointIndex) => {
+      endpoint.apiKeys.forEach((apiKey, keyIndex) => {
+        if (apiKey.key.trim()) {
+          credentials.push({ endpointIndex, keyIndex });
+        }
+      });
+    });
+    return credentials;
+  }
+
+  /**
+   * Switch to the next API key, moving on to the next endpoint after the
+   * last key of the current one
+   * @returns Whether another key was selected
+   */
+  private rotateCredentials(): boolean {
+    if (!this._config.rotateApiKeys) return false;
+
+    const credentials = this.getCredentials();
+    const endpoints = this._config.endpoints || [];
+    const endpointIndex = this._config.currentEndpointIndex ?? 0;
+    const keyIndex = endpoints[endpointIndex]?.currentApiKeyIndex ?? 0;
+    const current = credentials.findIndex(
+      (c) => c.endpointIndex === endpointIndex && c.keyIndex === keyIndex,
+    );
+    const next = credentials[(current + 1) % credentials.length];
+    if (!next || credentials.indexOf(next) === current) return false;
+
+    const endpoint = endpoints[next.endpointIndex];
+    const updates: Partial<ApiKeyProviderConfig> = {
+      apiKey: endpoint.apiKeys[next.keyIndex].key,
+      baseUrl: endpoint.baseUrl,
+      currentEndpointIndex: next.endpointIndex,
+      endpoints: endpoints.map((ep, idx) =>
+        idx === next.endpointIndex
+          ? { ...ep, currentApiKeyIndex: next.keyIndex }
+          : ep,
+      ),
+    };
+    this.updateConfig(updates);
+    this.onCredentialsRotated?.(updates);
+    return true;
+  }
+
   /**
    * Get readable stream reader from response, throws if unavailable
    */
@@ -147,11 +402,51 @@ When writing mathematical formulas, you MUST follow these formatting rules:
         },
         onDone: () => onComplete(fullContent),
         onError,
+        onUsage: callbacks.onUsage,
       },
       signal,
     );
   }
 
+  /**
+   * Read a streamed tool-enabled response
+   * Text is passed to onChunk as it arrives; tool calls are assembled from
+   * their deltas when the stream ends
+   * @throws The stream's error, or an AbortError when aborted
+   */
+  protected readToolStream(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    format: SSEFormat,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    let content = "";
+    let toolCalls: ToolCall[] = [];
+    let usage: TokenUsage | undefined;
+
+    return new Promise((resolve, reject) => {
+      this.parseSSE(
+        reader,
+        format,
+        {
+          onText: (text) => {
+            content += text;
+            onChunk(text);
+          },
+          onToolCalls: (calls) => {
+            toolCalls = calls;
+          },
+          onUsage: (reported) => {
+            usage = reported;
+          },
+          onDone: () => resolve({ content, toolCalls, usage }),
+          onError: reject,
+        },
+        signal,
+      ).catch(reject);
+    });
+  }
+
   /**
    * Wrap unknown error as Error instance
    */
@@ -276,4 +571,175 @@ When writing mathematical formulas, you MUST follow these formatting rules:
         };
       });
   }
+
+  /**
+   * Format tools for OpenAI-compatible API
+   */
+  protected formatOpenAITools(
+    tools: ToolDefinition[],
+  ): Array<Record<string, unknown>> {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Format previous tool rounds as OpenAI assistant/tool messages
+   */
+  protected formatOpenAIToolExchanges(
+    exchanges: ToolExchange[],
+  ): Array<Record<string, unknown>> {
+    const apiMessages: Array<Record<string, unknown>> = [];
+    for (const exchange of exchanges) {
+      apiMessages.push({
+        role: "assistant",
+        content: exchange.content || null,
+        tool_calls: exchange.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      });
+      for (const result of exchange.results) {
+        apiMessages.push({
+          role: "tool",
+          tool_call_id: result.toolCallId,
+          content: result.content,
+        });
+      }
+    }
+    return apiMessages;
+  }
+
+  /**
+   * Parse tool calls from an OpenAI-compatible response message
+   */
+  protected parseOpenAIToolCalls(
+    toolCalls?: Array<{
+      id?: string;
+      function?: { name?: string; arguments?: string };
+    }>,
+  ): ToolCall[] {
+    return (toolCalls || []).map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name || "",
+      arguments: this.parseToolArguments(call.function?.arguments),
+    }));
+  }
+
+  /**
+   * Format tools for Anthropic API
+   */
+  protected formatAnthropicTools(
+    tools: ToolDefinition[],
+  ): Array<Record<string, unknown>> {
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+  }
+
+  /**
+   * Format previous tool rounds as Anthropic tool_use/tool_result blocks
+   */
+  protected formatAnthropicToolExchanges(
+    exchanges: ToolExchange[],
+  ): Array<Record<string, unknown>> {
+    const apiMessages: Array<Record<string, unknown>> = [];
+    for (const exchange of exchanges) {
+      const assistantBlocks: Array<Record<string, unknown>> = [];
+      if (exchange.content) {
+        assistantBlocks.push({ type: "text", text: exchange.content });
+      }
+      for (const call of exchange.toolCalls) {
+        assistantBlocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+      apiMessages.push({ role: "assistant", content: assistantBlocks });
+      apiMessages.push({
+        role: "user",
+        content: exchange.results.map((result) => ({
+          type: "tool_result",
+          tool_use_id: result.toolCallId,
+          content: result.content,
+          is_error: result.isError || false,
+        })),
+      });
+    }
+    return apiMessages;
+  }
+
+  /**
+   * Format tools for Gemini API
+   */
+  protected formatGeminiTools(
+    tools: ToolDefinition[],
+  ): Array<Record<string, unknown>> {
+    return [
+      {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Format previous tool rounds as Gemini functionCall/functionResponse parts
+   */
+  protected formatGeminiToolExchanges(
+    exchanges: ToolExchange[],
+  ): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+    for (const exchange of exchanges) {
+      const modelParts: GeminiPart[] = [];
+      if (exchange.content) {
+        modelParts.push({ text: exchange.content });
+      }
+      for (const call of exchange.toolCalls) {
+        modelParts.push({
+          functionCall: { name: call.name, args: call.arguments },
+        });
+      }
+      contents.push({ role: "model", parts: modelParts });
+      contents.push({
+        role: "user",
+        parts: exchange.results.map((result) => ({
+          functionResponse: {
+            name: result.name,
+            response: { content: result.content },
+          },
+        })),
+      });
+    }
+    return contents;
+  }
+
+  /**
+   * Parse a JSON-encoded tool argument string
+   */
+  protected parseToolArguments(raw?: string): Record<string, unknown> {
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
 }
@@ -0,0 +1,295 @@
+/**
+ * BedrockProvider - Anthropic models on Amazon Bedrock
+ * Extends AnthropicProvider as Bedrock takes the Messages API body, with
+ * the model in the URL and anthropic_version in the body
+ * The API key is either AWS credentials, "ACCESS_KEY_ID:SECRET_ACCESS_KEY"
+ * with an optional ":SESSION_TOKEN", used to sign requests with SigV4,
+ * or a Bedrock API key sent as a bearer token
+ * Streams arrive in the binary AWS event stream encoding and are turned
+ * back into Anthropic SSE events for the shared parser
+ */
+
+import { AnthropicProvider } from "./AnthropicProvider";
+import { parseAwsCredentials, signAwsRequest } from "./AwsSigV4";
+
+const BEDROCK_ANTHROPIC_VERSION = "bedrock-2023-05-31";
+const DEFAULT_REGION = "us-east-1";
+
+interface EventStreamMessage {
+  headers: Record<string, string>;
+  payload: Uint8Array;
+}
+
+// Value sizes of the non-string header types, by type id
+const HEADER_VALUE_SIZES: Record<number, number> = {
+  0: 0, // true
+  1: 0, // false
+  2: 1, // byte
+  3: 2, // short
+  4: 4, // integer
+  5: 8, // long
+  8: 8, // timestamp
+  9: 16, // uuid
+};
+
+/**
+ * Decode one message of the AWS event stream encoding
+ * Only string headers are kept; checksums are not verified, as TLS
+ * already protects the stream
+ */
+function decodeEventStreamMessage(bytes: Uint8Array): EventStreamMessage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const totalLength = view.getUint32(0);
+  const headersEnd = 12 + view.getUint32(4);
+  const decoder = new TextDecoder();
+
+  const headers: Record<string, string> = {};
+  let offset = 12;
+  while (offset < headersEnd) {
+    const nameLength = bytes[offset];
+    const name = decoder.decode(
+      bytes.subarray(offset + 1, offset + 1 + nameLength),
+    );
+    offset += 1 + nameLength;
+    const type = bytes[offset++];
+    if (type === 6 || type === 7) {
+      const valueLength = view.getUint16(offset);
+      if (type === 7) {
+        headers[name] = decoder.decode(
+          bytes.subarray(offset + 2, offset + 2 + valueLength),
+        );
+      }
+      offset += 2 + valueLength;
+    } else if (type in HEADER_VALUE_SIZES) {
+      offset += HEADER_VALUE_SIZES[type];
+    } else {
+      throw new Error(`Unknown event stream header type ${type}`);
+    }
+  }
+
+  return { headers, payload: bytes.subarray(headersEnd, totalLength - 4) };
+}
+
+/**
+ * Convert an event stream message to an Anthropic SSE event
+ * Exceptions become Anthropic error events
+ */
+function toAnthropicEvent(message: EventStreamMessage): string | null {
+  const text = new TextDecoder().decode(message.payload);
+  const messageType = message.headers[":message-type"];
+
+  if (messageType === "exception" || messageType === "error") {
+    let errorMessage = text;
+    try {
+      errorMessage = (JSON.parse(text) as { message?: string }).message || text;
+    } catch {
+      // Keep the raw payload
+    }
+    const error = {
+      type: "error",
+      error: {
+        type:
+          message.headers[":exception-type"] ||
+          message.headers[":error-code"] ||
+          "error",
+        message: errorMessage,
+      },
+    };
+    return `event: error\ndata: ${JSON.stringify(error)}\n\n`;
+  }
+
+  if (message.headers[":event-type"] !== "chunk") return null;
+  // Chunks carry the Anthropic event as base64-encoded JSON
+  const chunk = JSON.parse(text) as { bytes?: string };
+  if (!chunk.bytes) return null;
+  const binary = atob(chunk.bytes);
+  const eventJson = new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+  const eventType = (JSON.parse(eventJson) as { type?: string }).type;
+  return `event: ${eventType || "message"}\ndata: ${eventJson}\n\n`;
+}
+
+/**
+ * Wrap an event stream reader in a reader of Anthropic SSE text
+ */
+function toAnthropicSSEReader(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): ReadableStreamDefaultReader<Uint8Array> {
+  const encoder = new TextEncoder();
+  let buffer = new Uint8Array(0);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        // Emit every complete message in the buffer
+        let output = "";
+        while (buffer.length >= 4) {
+          const totalLength = new DataView(
+            buffer.buffer,
+            buffer.byteOffset,
+          ).getUint32(0);
+          if (buffer.length < totalLength) break;
+          const event = toAnthropicEvent(
+            decodeEventStreamMessage(buffer.subarray(0, totalLength)),
+          );
+          if (event) output += event;
+          buffer = buffer.slice(totalLength);
+        }
+        if (output) {
+          controller.enqueue(encoder.encode(output));
+          return;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const merged = new Uint8Array(buffer.length + value.length);
+        merged.set(buffer);
+        merged.set(value, buffer.length);
+        buffer = merged;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  }).getReader();
+}
+
+export class BedrockProvider extends AnthropicProvider {
+  /**
+   * Get the region from a runtime URL like
+   * https://bedrock-runtime.eu-west-1.amazonaws.com
+   */
+  private getRegion(): string {
+    const match = this._config.baseUrl.match(
+      /bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com/,
+    );
+    return match?.[1] || DEFAULT_REGION;
+  }
+
+  /**
+   * Add the auth headers to a request: a SigV4 signature for AWS
+   * credentials, a bearer token for a Bedrock API key
+   */
+  private async authorize(
+    method: string,
+    url: string,
+    service: string,
+    headers: Record<string, string>,
+    body?: string,
+  ): Promise<Record<string, string>> {
+    const credentials = parseAwsCredentials(this._config.apiKey);
+    if (!credentials) {
+      return { ...headers, Authorization: `Bearer ${this._config.apiKey}` };
+    }
+    return signAwsRequest(
+      { method, url, headers, body },
+      credentials,
+      this.getRegion(),
+      service,
+    );
+  }
+
+  protected async sendMessages(
+    requestBody: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const { model, stream, ...body } = requestBody;
+    const action = stream ? "invoke-with-response-stream" : "invoke";
+    const payload = JSON.stringify({
+      ...body,
+      anthropic_version: BEDROCK_ANTHROPIC_VERSION,
+    });
+
+    return this.fetchWithRetry(async () => {
+      const url = `${this._config.baseUrl}/model/${encodeURIComponent(String(model))}/${action}`;
+      const headers = await this.authorize(
+        "POST",
+        url,
+        "bedrock",
+        {
+          "Content-Type": "application/json",
+          Accept: stream
+            ? "application/vnd.amazon.eventstream"
+            : "application/json",
+        },
+        payload,
+      );
+      return fetch(url, { method: "POST", headers, body: payload, signal });
+    }, signal);
+  }
+
+  /**
+   * Bedrock only streams Messages API responses, so every reader is one
+   * of Anthropic SSE events
+   */
+  protected getResponseReader(
+    response: Response,
+  ): ReadableStreamDefaultReader<Uint8Array> {
+    return toAnthropicSSEReader(super.getResponseReader(response));
+  }
+
+  /**
+   * List models from the Bedrock control plane: Anthropic models that can
+   * be invoked on demand and the cross-region inference profiles, which
+   * newer models require
+   */
+  private async fetchModelIds(): Promise<string[]> {
+    const controlUrl = `https://bedrock.${this.getRegion()}.amazonaws.com`;
+    const get = async (url: string) =>
+      fetch(url, { headers: await this.authorize("GET", url, "bedrock", {}) });
+
+    const modelsResponse = await get(
+      `${controlUrl}/foundation-models?byProvider=anthropic`,
+    );
+    if (!modelsResponse.ok) {
+      throw new Error(`Listing models failed: ${modelsResponse.status}`);
+    }
+    const models = (await modelsResponse.json()) as {
+      modelSummaries?: Array<{
+        modelId: string;
+        inferenceTypesSupported?: string[];
+      }>;
+    };
+    const modelIds =
+      models.modelSummaries
+        ?.filter((m) => m.inferenceTypesSupported?.includes("ON_DEMAND"))
+        .map((m) => m.modelId) || [];
+
+    const profilesResponse = await get(
+      `${controlUrl}/inference-profiles?maxResults=1000`,
+    );
+    if (profilesResponse.ok) {
+      const profiles = (await profilesResponse.json()) as {
+        inferenceProfileSummaries?: Array<{ inferenceProfileId: string }>;
+      };
+      for (const profile of profiles.inferenceProfileSummaries || []) {
+        if (profile.inferenceProfileId.includes("anthropic.")) {
+          modelIds.push(profile.inferenceProfileId);
+        }
+      }
+    }
+    return modelIds;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.fetchModelIds();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      return await this.fetchModelIds();
+    } catch {
+      // Ignore errors
+    }
+    return this._config.availableModels || [];
+  }
+}
@@ -64,7 +64,10 @@ export class DeepSeekProvider extends OpenAIProvider {
 
     try {
       const apiMessages = this.formatOpenAIMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
       apiMessages.unshift({
         role: "system",
         content: systemPrompt,
@@ -76,6 +79,7 @@ export class DeepSeekProvider extends OpenAIProvider {
         temperature: this._config.temperature ?? 0.7,
         stream: true,
       };
+      this.addStreamUsageOption(requestBody);
 
       if (this._config.maxTokens && this._config.maxTokens > 0) {
         requestBody.max_tokens = this._config.maxTokens;
@@ -85,17 +89,19 @@ export class DeepSeekProvider extends OpenAIProvider {
         requestBody.thinking = { type: "enabled" };
       }
 
-      const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${this._config.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(
         response,
         "openai",
@@ -104,6 +110,7 @@ export class DeepSeekProvider extends OpenAIProvider {
           onComplete,
           onError,
           onReasoningChunk,
+          onUsage: callbacks.onUsage,
         },
         signal,
       );
@@ -145,6 +152,7 @@ export class DeepSeekProvider extends OpenAIProvider {
         },
         onDone: () => onComplete(fullContent),
         onError,
+        onUsage: callbacks.onUsage,
       },
       signal,
     );
@@ -55,7 +55,10 @@ export class GLMProvider extends OpenAIProvider {
 
     try {
       const apiMessages = this.formatOpenAIMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
       apiMessages.unshift({
         role: "system",
         content: systemPrompt,
@@ -67,6 +70,7 @@ export class GLMProvider extends OpenAIProvider {
         temperature: this._config.temperature ?? 0.7,
         stream: true,
       };
+      this.addStreamUsageOption(requestBody);
 
       if (this._config.maxTokens && this._config.maxTokens > 0) {
         requestBody.max_tokens = this._config.maxTokens;
@@ -78,17 +82,19 @@ export class GLMProvider extends OpenAIProvider {
         requestBody.thinking = { type: "disabled" };
       }
 
-      const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${this._config.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(
         response,
         "openai",
@@ -97,6 +103,7 @@ export class GLMProvider extends OpenAIProvider {
           onComplete,
           onError,
           onReasoningChunk,
+          onUsage: callbacks.onUsage,
         },
         signal,
       );
@@ -138,6 +145,7 @@ export class GLMProvider extends OpenAIProvider {
         },
         onDone: () => onComplete(fullContent),
         onError,
+        onUsage: callbacks.onUsage,
       },
       signal,
     );
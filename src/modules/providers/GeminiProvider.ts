@@ -3,7 +3,18 @@
  */
 
 import { BaseProvider } from "./BaseProvider";
-import type { ChatMessage, StreamCallbacks } from "../../types/chat";
+import { extractUsage } from "./SSEParser";
+import type {
+  ChatMessage,
+  StreamCallbacks,
+  TokenUsage,
+} from "../../types/chat";
+import type { GeminiPart } from "../../types/provider";
+import type {
+  ToolCompletionResult,
+  ToolDefinition,
+  ToolExchange,
+} from "../../types/tool";
 
 export type GeminiThinkingEffort = "none" | "low" | "medium" | "high";
 
@@ -22,6 +33,13 @@ export class GeminiProvider extends BaseProvider {
     return this._thinkingEffort !== "none";
   }
 
+  /**
+   * Build a model endpoint URL with the current API key
+   */
+  private getModelUrl(action: string, query: string = ""): string {
+    return `${this._config.baseUrl}/models/${this._config.defaultModel}:${action}?key=${this._config.apiKey}${query}`;
+  }
+
   private getThoughtsTokenLimit(): number {
     switch (this._thinkingEffort) {
       case "low":
@@ -48,8 +66,10 @@ export class GeminiProvider extends BaseProvider {
 
     try {
       const geminiContents = this.formatGeminiMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
-      const url = `${this._config.baseUrl}/models/${this._config.defaultModel}:streamGenerateContent?key=${this._config.apiKey}&alt=sse`;
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
 
       const generationConfig: Record<string, unknown> = {
         temperature: this._config.temperature ?? 0.7,
@@ -75,14 +95,16 @@ export class GeminiProvider extends BaseProvider {
         },
       };
 
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(this.getModelUrl("streamGenerateContent", "&alt=sse"), {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(response, "gemini", callbacks, signal);
     } catch (error) {
       if ((error as Error).name === "AbortError") {
@@ -92,14 +114,34 @@ export class GeminiProvider extends BaseProvider {
     }
   }
 
-  async chatCompletion(messages: ChatMessage[]): Promise<string> {
+  async chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    return this.generateContent(messages, onUsage, false);
+  }
+
+  async chatCompletionJson(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    return this.generateContent(messages, onUsage, true);
+  }
+
+  private async generateContent(
+    messages: ChatMessage[],
+    onUsage: ((usage: TokenUsage) => void) | undefined,
+    jsonMode: boolean,
+  ): Promise<string> {
     if (!this.isReady()) {
       throw new Error("Provider is not configured");
     }
 
     const geminiContents = this.formatGeminiMessages(messages);
-    const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
-    const url = `${this._config.baseUrl}/models/${this._config.defaultModel}:generateContent?key=${this._config.apiKey}`;
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+    );
 
     const generationConfig: Record<string, unknown> = {
       temperature: this._config.temperature ?? 0.7,
@@ -116,6 +158,10 @@ export class GeminiProvider extends BaseProvider {
       };
     }
 
+    if (jsonMode) {
+      generationConfig.responseMimeType = "application/json";
+    }
+
     const requestBody: Record<string, unknown> = {
       contents: geminiContents,
       generationConfig,
@@ -125,21 +171,156 @@ export class GeminiProvider extends BaseProvider {
       },
     };
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(requestBody),
-    });
-
-    await this.validateResponse(response);
+    const response = await this.fetchWithRetry(() =>
+      fetch(this.getModelUrl("generateContent"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody),
+      }),
+    );
 
     const data = (await response.json()) as {
       candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
     };
+    const usage = extractUsage("gemini", data);
+    if (usage) {
+      onUsage?.(usage);
+    }
 
     return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
   }
 
+  supportsToolCalling(): boolean {
+    return true;
+  }
+
+  /**
+   * Send a tool-enabled request, with retries
+   * @param action - generateContent, or streamGenerateContent to stream
+   */
+  private async sendToolRequest(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    action: "generateContent" | "streamGenerateContent",
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    if (!this.isReady()) {
+      throw new Error("Provider is not configured");
+    }
+
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+      exchanges,
+    );
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: this._config.temperature ?? 0.7,
+    };
+
+    if (this._config.maxTokens && this._config.maxTokens > 0) {
+      generationConfig.maxOutputTokens = this._config.maxTokens;
+    }
+
+    const requestBody: Record<string, unknown> = {
+      contents: [
+        ...this.formatGeminiMessages(messages),
+        ...this.formatGeminiToolExchanges(exchanges),
+      ],
+      generationConfig,
+      systemInstruction: {
+        role: "system",
+        parts: [{ text: systemPrompt }],
+      },
+      tools: this.formatGeminiTools(tools),
+    };
+
+    const query = action === "streamGenerateContent" ? "&alt=sse" : "";
+    return this.fetchWithRetry(
+      () =>
+        fetch(this.getModelUrl(action, query), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(requestBody),
+          signal,
+        }),
+      signal,
+    );
+  }
+
+  /**
+   * Gemini does not assign call IDs, so derive stable ones per round
+   */
+  private getToolCallId(name: string, round: number, index: number): string {
+    return `${name}-${round}-${index}`;
+  }
+
+  async chatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    const response = await this.sendToolRequest(
+      messages,
+      tools,
+      exchanges,
+      "generateContent",
+      signal,
+    );
+
+    const data = (await response.json()) as {
+      candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+    };
+    const parts = data.candidates?.[0]?.content?.parts || [];
+
+    return {
+      content: parts.map((part) => part.text || "").join(""),
+      toolCalls: parts
+        .filter((part) => part.functionCall)
+        .map((part, index) => ({
+          id: this.getToolCallId(
+            part.functionCall!.name,
+            exchanges.length,
+            index,
+          ),
+          name: part.functionCall!.name,
+          arguments: part.functionCall!.args || {},
+        })),
+      usage: extractUsage("gemini", data) ?? undefined,
+    };
+  }
+
+  async streamChatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    const response = await this.sendToolRequest(
+      messages,
+      tools,
+      exchanges,
+      "streamGenerateContent",
+      signal,
+    );
+    const result = await this.readToolStream(
+      this.getResponseReader(response),
+      "gemini",
+      onChunk,
+      signal,
+    );
+    return {
+      ...result,
+      toolCalls: result.toolCalls.map((call, index) => ({
+        ...call,
+        id: this.getToolCallId(call.name, exchanges.length, index),
+      })),
+    };
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await fetch(
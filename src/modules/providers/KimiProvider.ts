@@ -72,7 +72,10 @@ export class KimiProvider extends OpenAIProvider {
 
     try {
       const apiMessages = this.formatOpenAIMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
       apiMessages.unshift({
         role: "system",
         content: systemPrompt,
@@ -83,6 +86,7 @@ export class KimiProvider extends OpenAIProvider {
         messages: apiMessages,
         stream: true,
       };
+      this.addStreamUsageOption(requestBody);
 
       // Set temperature based on thinking mode:
       // - Thinking disabled: API requires temperature to be 0.6
@@ -100,17 +104,19 @@ export class KimiProvider extends OpenAIProvider {
         requestBody.max_tokens = 16000;
       }
 
-      const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${this._config.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(
         response,
         "openai",
@@ -119,6 +125,7 @@ export class KimiProvider extends OpenAIProvider {
           onComplete,
           onError,
           onReasoningChunk,
+          onUsage: callbacks.onUsage,
         },
         signal,
       );
@@ -160,6 +167,7 @@ export class KimiProvider extends OpenAIProvider {
         },
         onDone: () => onComplete(fullContent),
         onError,
+        onUsage: callbacks.onUsage,
       },
       signal,
     );
@@ -0,0 +1,32 @@
+/**
+ * LlamaCppProvider - llama.cpp server implementation
+ * Extends OpenAIProvider as llama-server serves an OpenAI-compatible API
+ * Runs locally, so no API key is needed unless the server sets --api-key
+ * The context length is fixed when the server starts; the configured value
+ * only sizes the chat history sent
+ */
+
+import { OpenAIProvider } from "./OpenAIProvider";
+
+export class LlamaCppProvider extends OpenAIProvider {
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Check the server's /health endpoint, which sits beside /v1
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const serverUrl = this._config.baseUrl.replace(/\/v1\/?$/, "");
+      const response = await fetch(`${serverUrl}/health`, {
+        headers: this._config.apiKey
+          ? { Authorization: `Bearer ${this._config.apiKey}` }
+          : {},
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
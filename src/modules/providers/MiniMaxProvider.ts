@@ -7,7 +7,12 @@
 
 import { AnthropicProvider } from "./AnthropicProvider";
 import type { ApiKeyProviderConfig, ModelInfo } from "../../types/provider";
-import type { ChatMessage, StreamCallbacks } from "../../types/chat";
+import { extractUsage, mergeUsage } from "./SSEParser";
+import type {
+  ChatMessage,
+  StreamCallbacks,
+  TokenUsage,
+} from "../../types/chat";
 
 const MINIMAX_DEFAULT_MODELS: ModelInfo[] = [
   {
@@ -112,7 +117,10 @@ export class MiniMaxProvider extends AnthropicProvider {
 
     try {
       const anthropicMessages = this.formatAnthropicMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
 
       const requestBody: Record<string, unknown> = {
         model: this._config.defaultModel,
@@ -128,18 +136,20 @@ export class MiniMaxProvider extends AnthropicProvider {
         };
       }
 
-      const response = await fetch(`${this._config.baseUrl}/messages`, {
-        method: "POST",
-        headers: {
-          "x-api-key": this._config.apiKey,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/messages`, {
+            method: "POST",
+            headers: {
+              "x-api-key": this._config.apiKey,
+              "anthropic-version": "2023-06-01",
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
 
       // Use custom stream parsing for MiniMax
       await this.parseMiniMaxStream(
@@ -149,6 +159,7 @@ export class MiniMaxProvider extends AnthropicProvider {
           onComplete,
           onError,
           onReasoningChunk,
+          onUsage: callbacks.onUsage,
         },
         signal,
       );
@@ -168,12 +179,20 @@ export class MiniMaxProvider extends AnthropicProvider {
     callbacks: StreamCallbacks,
     signal?: AbortSignal,
   ): Promise<void> {
-    const { onChunk, onComplete, onError, onReasoningChunk } = callbacks;
+    const { onChunk, onError, onReasoningChunk } = callbacks;
     const reader = this.getResponseReader(response);
     let fullContent = "";
     let fullReasoningContent = "";
     const decoder = new TextDecoder();
     let buffer = "";
+    let usage: TokenUsage | null = null;
+
+    const onComplete = (content: string): void => {
+      if (usage) {
+        callbacks.onUsage?.(usage);
+      }
+      callbacks.onComplete(content);
+    };
 
     const abortHandler = (): void => {
       reader.cancel().catch(() => {});
@@ -214,6 +233,11 @@ export class MiniMaxProvider extends AnthropicProvider {
           try {
             const parsed = JSON.parse(data);
 
+            const chunkUsage = extractUsage("anthropic", parsed);
+            if (chunkUsage) {
+              usage = mergeUsage(usage, chunkUsage);
+            }
+
             // Check for message stop
             if (parsed.type === "message_stop") {
               onComplete(fullContent);
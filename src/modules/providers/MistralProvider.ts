@@ -9,4 +9,9 @@ import { OpenAIProvider } from "./OpenAIProvider";
 export class MistralProvider extends OpenAIProvider {
   // Mistral inherits all OpenAI-compatible behavior
   // Future Mistral-specific features can be added here
+
+  /**
+   * Mistral rejects stream_options and reports usage in the final chunk
+   */
+  protected addStreamUsageOption(): void {}
 }
@@ -0,0 +1,218 @@
+/**
+ * OllamaProvider - Ollama native API implementation
+ * Uses /api/chat instead of the OpenAI-compatible endpoint so that
+ * keep_alive, num_ctx and thinking can be set per request
+ * Runs locally, so no API key is needed; one is sent when set, for proxies
+ */
+
+import { BaseProvider } from "./BaseProvider";
+import { extractUsage } from "./SSEParser";
+import type {
+  ChatMessage,
+  StreamCallbacks,
+  TokenUsage,
+} from "../../types/chat";
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+  images?: string[]; // Base64 without the data URL prefix
+}
+
+export class OllamaProvider extends BaseProvider {
+  private thinkingModeEnabled = false;
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Enable or disable thinking for models that support it
+   */
+  setThinkingMode(enabled: boolean): void {
+    this.thinkingModeEnabled = enabled;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this._config.apiKey) {
+      headers.Authorization = `Bearer ${this._config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private formatOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+    const apiMessages: OllamaMessage[] = this.filterMessages(messages).map(
+      (msg) => ({
+        role: msg.role as "user" | "assistant" | "system",
+        content: msg.content,
+        ...(msg.images && msg.images.length > 0
+          ? { images: msg.images.map((image) => image.base64) }
+          : {}),
+      }),
+    );
+    apiMessages.unshift({
+      role: "system",
+      content: this.buildSystemPrompt(this._config.systemPrompt, messages),
+    });
+    return apiMessages;
+  }
+
+  private buildRequestBody(
+    messages: ChatMessage[],
+    stream: boolean,
+  ): Record<string, unknown> {
+    const options: Record<string, unknown> = {
+      temperature: this._config.temperature ?? 0.7,
+    };
+    if (this._config.maxTokens && this._config.maxTokens > 0) {
+      options.num_predict = this._config.maxTokens;
+    }
+    if (this._config.contextLength && this._config.contextLength > 0) {
+      options.num_ctx = this._config.contextLength;
+    }
+
+    const requestBody: Record<string, unknown> = {
+      model: this._config.defaultModel,
+      messages: this.formatOllamaMessages(messages),
+      stream,
+      options,
+    };
+    if (this._config.keepAlive?.trim()) {
+      // A plain number is seconds, Ollama rejects it as a string
+      const keepAlive = this._config.keepAlive.trim();
+      requestBody.keep_alive = /^-?\d+$/.test(keepAlive)
+        ? Number(keepAlive)
+        : keepAlive;
+    }
+    if (this.thinkingModeEnabled) {
+      requestBody.think = true;
+    }
+    return requestBody;
+  }
+
+  async streamChatCompletion(
+    messages: ChatMessage[],
+    callbacks: StreamCallbacks,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const { onChunk, onComplete, onError, onReasoningChunk } = callbacks;
+
+    if (!this.isReady()) {
+      onError(new Error("Provider is not configured"));
+      return;
+    }
+
+    try {
+      const requestBody = this.buildRequestBody(messages, true);
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/api/chat`, {
+            method: "POST",
+            headers: this.getHeaders(),
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
+        signal,
+      );
+
+      let fullContent = "";
+      await this.parseSSE(
+        this.getResponseReader(response),
+        "ollama",
+        {
+          onText: (text) => {
+            fullContent += text;
+            onChunk(text);
+          },
+          onReasoningText: onReasoningChunk,
+          onDone: () => onComplete(fullContent),
+          onError,
+          onUsage: callbacks.onUsage,
+        },
+        signal,
+      );
+    } catch (error) {
+      if ((error as Error).name === "AbortError") {
+        return;
+      }
+      onError(this.wrapError(error));
+    }
+  }
+
+  async chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    return this.generateChat(messages, onUsage, false);
+  }
+
+  async chatCompletionJson(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    return this.generateChat(messages, onUsage, true);
+  }
+
+  private async generateChat(
+    messages: ChatMessage[],
+    onUsage: ((usage: TokenUsage) => void) | undefined,
+    jsonMode: boolean,
+  ): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error("Provider is not configured");
+    }
+
+    const requestBody = this.buildRequestBody(messages, false);
+    if (jsonMode) {
+      requestBody.format = "json";
+    }
+
+    const response = await this.fetchWithRetry(() =>
+      fetch(`${this._config.baseUrl}/api/chat`, {
+        method: "POST",
+        headers: this.getHeaders(),
+        body: JSON.stringify(requestBody),
+      }),
+    );
+
+    const data = (await response.json()) as {
+      message?: { content?: string };
+    };
+    const usage = extractUsage("ollama", data);
+    if (usage) {
+      onUsage?.(usage);
+    }
+    return data.message?.content || "";
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this._config.baseUrl}/api/tags`, {
+        headers: this.getHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this._config.baseUrl}/api/tags`, {
+        headers: this.getHeaders(),
+      });
+      if (response.ok) {
+        const data = (await response.json()) as {
+          models?: Array<{ name: string }>;
+        };
+        return data.models?.map((m) => m.name) || [];
+      }
+    } catch {
+      // Ignore errors
+    }
+    return this._config.availableModels || [];
+  }
+}
@@ -5,7 +5,18 @@
  */
 
 import { BaseProvider } from "./BaseProvider";
-import type { ChatMessage, StreamCallbacks } from "../../types/chat";
+import { extractUsage } from "./SSEParser";
+import type {
+  ChatMessage,
+  OpenAIMessage,
+  StreamCallbacks,
+  TokenUsage,
+} from "../../types/chat";
+import type {
+  ToolCompletionResult,
+  ToolDefinition,
+  ToolExchange,
+} from "../../types/tool";
 
 export type ReasoningEffort = "none" | "low" | "medium" | "high" | "xhigh";
 
@@ -24,6 +35,30 @@ export class OpenAIProvider extends BaseProvider {
     return this._reasoningEffort !== "none";
   }
 
+  /**
+   * Ask the stream to report token usage in a final chunk
+   * Compatible APIs that reject stream_options override this
+   */
+  protected addStreamUsageOption(requestBody: Record<string, unknown>): void {
+    requestBody.stream_options = { include_usage: true };
+  }
+
+  /**
+   * Get the headers that authenticate a request
+   * Services with another auth scheme override this
+   */
+  protected getAuthHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this._config.apiKey}` };
+  }
+
+  /**
+   * Get the Chat Completions URL
+   * Services that route by deployment override this
+   */
+  protected getChatCompletionsUrl(): string {
+    return `${this._config.baseUrl}/chat/completions`;
+  }
+
   private isResponsesEndpoint(): boolean {
     const baseUrl = this._config.baseUrl || "";
     return baseUrl.includes("/v1/responses") || baseUrl.includes("/responses");
@@ -41,6 +76,15 @@ export class OpenAIProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Get the API base URL ending in /v1 for the Responses API
+   */
+  private getResponsesBaseUrl(): string {
+    return this._config.baseUrl.endsWith("/v1")
+      ? this._config.baseUrl
+      : this._config.baseUrl.replace(/\/v1\/responses.*$/, "/v1");
+  }
+
   private async streamChatCompletionCompletions(
     messages: ChatMessage[],
     callbacks: StreamCallbacks,
@@ -55,7 +99,10 @@ export class OpenAIProvider extends BaseProvider {
 
     try {
       const apiMessages = this.formatOpenAIMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
       apiMessages.unshift({
         role: "system",
         content: systemPrompt,
@@ -67,6 +114,7 @@ export class OpenAIProvider extends BaseProvider {
         temperature: this._config.temperature ?? 0.7,
         stream: true,
       };
+      this.addStreamUsageOption(requestBody);
 
       if (this._config.maxTokens && this._config.maxTokens > 0) {
         requestBody.max_tokens = this._config.maxTokens;
@@ -76,17 +124,19 @@ export class OpenAIProvider extends BaseProvider {
         requestBody.reasoning_effort = this._reasoningEffort;
       }
 
-      const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(this.getChatCompletionsUrl(), {
+            method: "POST",
+            headers: {
+              ...this.getAuthHeaders(),
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(response, "openai", callbacks, signal);
     } catch (error) {
       if ((error as Error).name === "AbortError") {
@@ -110,7 +160,10 @@ export class OpenAIProvider extends BaseProvider {
 
     try {
       const input = this.formatInput(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
 
       const requestBody: Record<string, unknown> = {
         model: this._config.defaultModel,
@@ -132,21 +185,19 @@ export class OpenAIProvider extends BaseProvider {
         requestBody.reasoning = { effort: this._reasoningEffort };
       }
 
-      const baseUrl = this._config.baseUrl.endsWith("/v1")
-        ? this._config.baseUrl
-        : this._config.baseUrl.replace(/\/v1\/responses.*$/, "/v1");
-
-      const response = await fetch(`${baseUrl}/responses`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this.getResponsesBaseUrl()}/responses`, {
+            method: "POST",
+            headers: {
+              ...this.getAuthHeaders(),
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.parseResponsesStream(response, callbacks, signal);
     } catch (error) {
       if ((error as Error).name === "AbortError") {
@@ -156,23 +207,42 @@ export class OpenAIProvider extends BaseProvider {
     }
   }
 
-  async chatCompletion(messages: ChatMessage[]): Promise<string> {
+  async chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
+    if (this.isResponsesEndpoint()) {
+      return this.chatCompletionResponses(messages, onUsage);
+    } else {
+      return this.chatCompletionCompletions(messages, onUsage);
+    }
+  }
+
+  async chatCompletionJson(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string> {
     if (this.isResponsesEndpoint()) {
-      return this.chatCompletionResponses(messages);
+      return this.chatCompletionResponses(messages, onUsage, true);
     } else {
-      return this.chatCompletionCompletions(messages);
+      return this.chatCompletionCompletions(messages, onUsage, true);
     }
   }
 
   private async chatCompletionCompletions(
     messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+    jsonMode = false,
   ): Promise<string> {
     if (!this.isReady()) {
       throw new Error("Provider is not configured");
     }
 
     const apiMessages = this.formatOpenAIMessages(messages);
-    const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+    );
     apiMessages.unshift({
       role: "system",
       content: systemPrompt,
@@ -193,32 +263,45 @@ export class OpenAIProvider extends BaseProvider {
       requestBody.reasoning_effort = this._reasoningEffort;
     }
 
-    const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this._config.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    });
+    if (jsonMode) {
+      requestBody.response_format = { type: "json_object" };
+    }
 
-    await this.validateResponse(response);
+    const response = await this.fetchWithRetry(() =>
+      fetch(this.getChatCompletionsUrl(), {
+        method: "POST",
+        headers: {
+          ...this.getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+      }),
+    );
 
     const data = (await response.json()) as {
       choices?: Array<{ message?: { content?: string } }>;
     };
+    const usage = extractUsage("openai", data);
+    if (usage) {
+      onUsage?.(usage);
+    }
     return data.choices?.[0]?.message?.content || "";
   }
 
   private async chatCompletionResponses(
     messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+    jsonMode = false,
   ): Promise<string> {
     if (!this.isReady()) {
       throw new Error("Provider is not configured");
     }
 
     const input = this.formatInput(messages);
-    const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+    );
 
     const requestBody: Record<string, unknown> = {
       model: this._config.defaultModel,
@@ -239,26 +322,30 @@ export class OpenAIProvider extends BaseProvider {
       requestBody.reasoning = { effort: this._reasoningEffort };
     }
 
-    const baseUrl = this._config.baseUrl.endsWith("/v1")
-      ? this._config.baseUrl
-      : this._config.baseUrl.replace(/\/v1\/responses.*$/, "/v1");
-
-    const response = await fetch(`${baseUrl}/responses`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this._config.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    });
+    if (jsonMode) {
+      requestBody.text = { format: { type: "json_object" } };
+    }
 
-    await this.validateResponse(response);
+    const response = await this.fetchWithRetry(() =>
+      fetch(`${this.getResponsesBaseUrl()}/responses`, {
+        method: "POST",
+        headers: {
+          ...this.getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+      }),
+    );
 
     const data = (await response.json()) as {
       id?: string;
       output?: Array<{ type: string; text?: string }>;
       output_text?: string;
     };
+    const usage = extractUsage("openai", data);
+    if (usage) {
+      onUsage?.(usage);
+    }
 
     if (data.output_text) {
       return data.output_text;
@@ -276,14 +363,132 @@ export class OpenAIProvider extends BaseProvider {
     return "";
   }
 
+  supportsToolCalling(): boolean {
+    // Tool calling is implemented for the Chat Completions endpoint only
+    return !this.isResponsesEndpoint();
+  }
+
+  /**
+   * Send a tool-enabled Chat Completions request, with retries
+   */
+  private async sendToolRequest(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    stream: boolean,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    if (!this.isReady()) {
+      throw new Error("Provider is not configured");
+    }
+
+    const systemPrompt = this.buildSystemPrompt(
+      this._config.systemPrompt,
+      messages,
+      exchanges,
+    );
+    const apiMessages: Array<OpenAIMessage | Record<string, unknown>> = [
+      { role: "system", content: systemPrompt },
+      ...this.formatOpenAIMessages(messages),
+      ...this.formatOpenAIToolExchanges(exchanges),
+    ];
+
+    const requestBody: Record<string, unknown> = {
+      model: this._config.defaultModel,
+      messages: apiMessages,
+      temperature: this._config.temperature ?? 0.7,
+      stream,
+    };
+    if (stream) {
+      this.addStreamUsageOption(requestBody);
+    }
+
+    if (tools.length > 0) {
+      requestBody.tools = this.formatOpenAITools(tools);
+    }
+
+    if (this._config.maxTokens && this._config.maxTokens > 0) {
+      requestBody.max_tokens = this._config.maxTokens;
+    }
+
+    if (this.isReasoningEnabled()) {
+      requestBody.reasoning_effort = this._reasoningEffort;
+    }
+
+    return this.fetchWithRetry(
+      () =>
+        fetch(this.getChatCompletionsUrl(), {
+          method: "POST",
+          headers: {
+            ...this.getAuthHeaders(),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        }),
+      signal,
+    );
+  }
+
+  async chatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    const response = await this.sendToolRequest(
+      messages,
+      tools,
+      exchanges,
+      false,
+      signal,
+    );
+
+    const data = (await response.json()) as {
+      choices?: Array<{
+        message?: {
+          content?: string | null;
+          tool_calls?: Array<{
+            id?: string;
+            function?: { name?: string; arguments?: string };
+          }>;
+        };
+      }>;
+    };
+    const message = data.choices?.[0]?.message;
+    return {
+      content: message?.content || "",
+      toolCalls: this.parseOpenAIToolCalls(message?.tool_calls),
+      usage: extractUsage("openai", data) ?? undefined,
+    };
+  }
+
+  async streamChatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult> {
+    const response = await this.sendToolRequest(
+      messages,
+      tools,
+      exchanges,
+      true,
+      signal,
+    );
+    return this.readToolStream(
+      this.getResponseReader(response),
+      "openai",
+      onChunk,
+      signal,
+    );
+  }
+
   async testConnection(): Promise<boolean> {
     try {
-      const baseUrl = this._config.baseUrl.endsWith("/v1")
-        ? this._config.baseUrl
-        : this._config.baseUrl.replace(/\/v1\/responses.*$/, "/v1");
-
-      const response = await fetch(`${baseUrl}/models`, {
-        headers: { Authorization: `Bearer ${this._config.apiKey}` },
+      const response = await fetch(`${this.getResponsesBaseUrl()}/models`, {
+        headers: this.getAuthHeaders(),
       });
       return response.ok;
     } catch {
@@ -293,12 +498,8 @@ export class OpenAIProvider extends BaseProvider {
 
   async getAvailableModels(): Promise<string[]> {
     try {
-      const baseUrl = this._config.baseUrl.endsWith("/v1")
-        ? this._config.baseUrl
-        : this._config.baseUrl.replace(/\/v1\/responses.*$/, "/v1");
-
-      const response = await fetch(`${baseUrl}/models`, {
-        headers: { Authorization: `Bearer ${this._config.apiKey}` },
+      const response = await fetch(`${this.getResponsesBaseUrl()}/models`, {
+        headers: this.getAuthHeaders(),
       });
       if (response.ok) {
         const data = (await response.json()) as {
@@ -370,6 +571,10 @@ export class OpenAIProvider extends BaseProvider {
             }
 
             if (parsed.type === "response.completed") {
+              const usage = extractUsage("openai", parsed.response);
+              if (usage) {
+                callbacks.onUsage?.(usage);
+              }
               onComplete(fullContent);
               return;
             }
@@ -0,0 +1,108 @@
+/**
+ * ProviderError - Typed errors for failed provider API requests
+ *
+ * The HTTP status and error body decide the kind, which tells callers
+ * whether a request is worth retrying or switching credentials for.
+ */
+
+import type { ProviderErrorKind } from "../../types/provider";
+
+// Error codes and messages that mean the account has no quota or credit
+// left. A bare "quota" is not enough: Gemini reports its per-minute limits
+// as RESOURCE_EXHAUSTED "exceeded your current quota", which pass by waiting.
+const QUOTA_PATTERN =
+  /insufficient_quota|billing|insufficient[_ ](?:balance|credit)|credit balance|payment required/i;
+// Error bodies that mean the request does not fit the context window
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|input is too long|token limit/i;
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly status: number;
+  readonly retryAfterMs?: number; // From the Retry-After header, if sent
+
+  constructor(
+    kind: ProviderErrorKind,
+    status: number,
+    message: string,
+    retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * Whether the same request may succeed when sent again later
+   */
+  get isRetryable(): boolean {
+    return this.kind === "rate_limit" || this.kind === "server";
+  }
+
+  /**
+   * Whether another API key or endpoint may succeed right away
+   */
+  get canRotate(): boolean {
+    return this.kind === "rate_limit" || this.kind === "quota";
+  }
+}
+
+/**
+ * Classify a failed response by status code and error body
+ */
+export function getProviderErrorKind(
+  status: number,
+  body: string,
+): ProviderErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 402) return "quota";
+  if (status === 429) {
+    return QUOTA_PATTERN.test(body) ? "quota" : "rate_limit";
+  }
+  if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(body)) {
+    return "context_length";
+  }
+  // 529 is Anthropic's "overloaded"
+  if (status >= 500) return "server";
+  return "request";
+}
+
+/**
+ * Whether a request failed without a response, e.g. a refused connection
+ * or a host not found: fetch rejects with a TypeError then
+ */
+export function isNetworkError(error: Error): boolean {
+  return error.name === "TypeError" || error.name === "NetworkError";
+}
+
+/**
+ * Parse a Retry-After header: delay in seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Create the error for a response that is not ok
+ * Reads the response body
+ */
+export async function createProviderError(
+  response: Response,
+): Promise<ProviderError> {
+  const errorText = await response.text();
+  return new ProviderError(
+    getProviderErrorKind(response.status, errorText),
+    response.status,
+    `API Error: ${response.status} - ${errorText}`,
+    parseRetryAfter(response.headers.get("retry-after")),
+  );
+}
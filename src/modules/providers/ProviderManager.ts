@@ -10,8 +10,10 @@ import type {
   ProviderStorageData,
   BuiltinProviderId,
   ApiKeyProviderConfig,
+  FallbackProviderEntry,
   ModelInfo,
 } from "../../types/provider";
+import { BaseProvider } from "./BaseProvider";
 import { OpenAIProvider } from "./OpenAIProvider";
 import { AnthropicProvider } from "./AnthropicProvider";
 import { GeminiProvider } from "./GeminiProvider";
@@ -24,6 +26,10 @@ import { SiliconFlowProvider } from "./SiliconFlowProvider";
 import { MiniMaxProvider, MINIMAX_DEFAULT_MODELS } from "./MiniMaxProvider";
 import { XAIProvider } from "./XAIProvider";
 import { GLMProvider } from "./GLMProvider";
+import { OllamaProvider } from "./OllamaProvider";
+import { LlamaCppProvider } from "./LlamaCppProvider";
+import { AzureOpenAIProvider } from "./AzureOpenAIProvider";
+import { BedrockProvider } from "./BedrockProvider";
 import { config } from "../../../package.json";
 
 export const BUILTIN_PROVIDERS: Record<BuiltinProviderId, ProviderMetadata> = {
@@ -195,6 +201,46 @@ export const BUILTIN_PROVIDERS: Record<BuiltinProviderId, ProviderMetadata> = {
     website: "https://docs.x.ai",
     type: "xai",
   },
+  ollama: {
+    id: "ollama",
+    name: "Ollama",
+    defaultBaseUrl: "http://localhost:11434",
+    defaultModels: [],
+    defaultModelInfos: [],
+    website: "https://ollama.com",
+    type: "ollama",
+    apiKeyOptional: true,
+  },
+  llamacpp: {
+    id: "llamacpp",
+    name: "llama.cpp",
+    defaultBaseUrl: "http://localhost:8080/v1",
+    defaultModels: [],
+    defaultModelInfos: [],
+    website: "https://github.com/ggml-org/llama.cpp",
+    type: "llamacpp",
+    apiKeyOptional: true,
+  },
+  azure: {
+    id: "azure",
+    name: "Azure OpenAI",
+    defaultBaseUrl: "https://your-resource.openai.azure.com",
+    defaultModels: [],
+    defaultModelInfos: [],
+    website: "https://ai.azure.com",
+    type: "azure-openai",
+    editableEndpoints: true,
+  },
+  bedrock: {
+    id: "bedrock",
+    name: "Amazon Bedrock",
+    defaultBaseUrl: "https://bedrock-runtime.us-east-1.amazonaws.com",
+    defaultModels: [],
+    defaultModelInfos: [],
+    website: "https://console.aws.amazon.com/bedrock",
+    type: "bedrock",
+    editableEndpoints: true,
+  },
 };
 
 const PREFS_KEY = `${config.prefsPrefix}.providersConfig`;
@@ -203,6 +249,7 @@ export class ProviderManager {
   private providers: Map<string, AIProvider> = new Map();
   private activeProviderId: string = "openai";
   private configs: ProviderConfig[] = [];
+  private fallbackChain: FallbackProviderEntry[] = [];
   private onProviderChangeCallback?: (providerId: string) => void;
 
   constructor() {
@@ -223,6 +270,7 @@ export class ProviderManager {
         const providers = data.providers || [];
 
         this.activeProviderId = data.activeProviderId || "openai";
+        this.fallbackChain = data.fallbackChain || [];
         this.configs = this.mergeWithDefaultConfigs(providers);
       } else {
         this.configs = this.getDefaultConfigs();
@@ -290,6 +338,7 @@ export class ProviderManager {
     const data: ProviderStorageData = {
       activeProviderId: this.activeProviderId,
       providers: this.configs,
+      fallbackChain: this.fallbackChain,
     };
     Zotero.Prefs.set(PREFS_KEY, JSON.stringify(data), true);
   }
@@ -310,6 +359,10 @@ export class ProviderManager {
       "siliconflow",
       "minimax",
       "xai",
+      "ollama",
+      "llamacpp",
+      "azure",
+      "bedrock",
     ];
 
     const sortedProviders = apiKeyProviders.sort((a, b) =>
@@ -351,6 +404,17 @@ export class ProviderManager {
   }
 
   private createProvider(config: ProviderConfig): AIProvider | null {
+    const provider = this.instantiateProvider(config);
+    // Keep a switch to another API key after a rate limit across restarts
+    if (provider instanceof BaseProvider) {
+      provider.setOnCredentialsRotated((updates) =>
+        this.updateProviderConfig(config.id, updates),
+      );
+    }
+    return provider;
+  }
+
+  private instantiateProvider(config: ProviderConfig): AIProvider | null {
     switch (config.type) {
       case "anthropic-compatible":
         return new AnthropicProvider(config as ApiKeyProviderConfig);
@@ -374,6 +438,14 @@ export class ProviderManager {
         return new XAIProvider(config as ApiKeyProviderConfig);
       case "glm":
         return new GLMProvider(config as ApiKeyProviderConfig);
+      case "ollama":
+        return new OllamaProvider(config as ApiKeyProviderConfig);
+      case "llamacpp":
+        return new LlamaCppProvider(config as ApiKeyProviderConfig);
+      case "azure-openai":
+        return new AzureOpenAIProvider(config as ApiKeyProviderConfig);
+      case "bedrock":
+        return new BedrockProvider(config as ApiKeyProviderConfig);
       case "openai-compatible":
         return new OpenAIProvider(config as ApiKeyProviderConfig);
       default:
@@ -385,6 +457,47 @@ export class ProviderManager {
     return this.providers.get(this.activeProviderId) || null;
   }
 
+  /**
+   * Create a standalone provider instance with config overrides
+   * The instance is not registered, so the shared provider is left untouched
+   */
+  createProviderWithOverrides(
+    providerId: string,
+    overrides: Partial<ApiKeyProviderConfig>,
+  ): AIProvider | null {
+    const config = this.getProviderConfig(providerId);
+    if (!config || !config.enabled) return null;
+    return this.createProvider({ ...config, ...overrides });
+  }
+
+  getFallbackChain(): FallbackProviderEntry[] {
+    return [...this.fallbackChain];
+  }
+
+  setFallbackChain(chain: FallbackProviderEntry[]): void {
+    this.fallbackChain = chain;
+    this.saveToPrefs();
+  }
+
+  /**
+   * Get the providers of the fallback chain that are ready to use, in order
+   * Entries with a model get a standalone instance using that model
+   */
+  getFallbackProviders(): AIProvider[] {
+    const providers: AIProvider[] = [];
+    for (const entry of this.fallbackChain) {
+      const provider = entry.model
+        ? this.createProviderWithOverrides(entry.providerId, {
+            defaultModel: entry.model,
+          })
+        : this.getProvider(entry.providerId);
+      if (provider?.isReady()) {
+        providers.push(provider);
+      }
+    }
+    return providers;
+  }
+
   getActiveProviderId(): string {
     return this.activeProviderId;
   }
@@ -533,6 +646,35 @@ export class ProviderManager {
     return true;
   }
 
+  /**
+   * Set the price of a model, used to estimate the cost of its usage
+   * Prices are in USD per 1M tokens; undefined clears a price
+   */
+  setModelPrice(
+    providerId: string,
+    modelId: string,
+    price: Pick<ModelInfo, "inputPrice" | "outputPrice">,
+  ): boolean {
+    const config = this.getProviderConfig(
+      providerId,
+    ) as ApiKeyProviderConfig | null;
+    if (!config) return false;
+
+    const models = config.models || [];
+    const existing = models.find((m) => m.modelId === modelId);
+    const modelInfo: ModelInfo = {
+      ...(existing || { modelId }),
+      inputPrice: price.inputPrice,
+      outputPrice: price.outputPrice,
+    };
+    const newModelInfos = existing
+      ? models.map((m) => (m === existing ? modelInfo : m))
+      : [...models, modelInfo];
+
+    this.updateProviderConfig(providerId, { models: newModelInfos });
+    return true;
+  }
+
   getModelInfo(providerId: string, modelId: string): ModelInfo | null {
     const config = this.getProviderConfig(
       providerId,
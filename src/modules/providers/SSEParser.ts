@@ -1,97 +1,445 @@
 /**
- * SSEParser - Server-Sent Events stream parser
- * Supports multiple API formats: OpenAI, Anthropic, Gemini
+ * SSEParser - Streaming response parser
+ * Supports multiple API formats: OpenAI, Anthropic, Gemini, Ollama
+ *
+ * Each wire format is a StreamFormat in a registry: how events are framed
+ * (SSE "data:" lines or newline-delimited JSON) plus extractors for content,
+ * reasoning, usage, tool calls, completion and error events. A new format
+ * is added with registerStreamFormat, without touching the parser loop.
  */
 
-export type SSEFormat = "openai" | "anthropic" | "gemini";
+import type { TokenUsage } from "../../types/chat";
+import type { ToolCall } from "../../types/tool";
+
+export type BuiltinSSEFormat = "openai" | "anthropic" | "gemini" | "ollama";
+
+// Registered formats are looked up by name, so any string is accepted
+export type SSEFormat = BuiltinSSEFormat | (string & {});
 
 export interface SSEParserCallbacks {
   onText: (text: string) => void;
   onDone: () => void;
   onError?: (error: Error) => void;
   onReasoningText?: (text: string) => void; // Callback for reasoning content chunks
+  onUsage?: (usage: TokenUsage) => void; // Called once before onDone if usage was reported
+  onToolCalls?: (toolCalls: ToolCall[]) => void; // Called once before onDone with the assembled calls
 }
 
 /**
- * Content extractors for different API formats
+ * Part of a streamed tool call
+ * Deltas with the same index belong to one call; arguments are JSON text
+ * that is concatenated across deltas
  */
-const contentExtractors: Record<SSEFormat, (parsed: unknown) => string | null> =
-  {
-    openai: (parsed) => {
-      const data = parsed as {
-        choices?: Array<{ delta?: { content?: string } }>;
-      };
-      return data.choices?.[0]?.delta?.content || null;
-    },
-    anthropic: (parsed) => {
-      const data = parsed as {
-        type?: string;
-        delta?: { text?: string };
-        content_block?: { type?: string; text?: string };
-      };
-      if (data.type === "content_block_delta" && data.delta?.text) {
-        return data.delta.text;
-      }
-      return null;
-    },
-    gemini: (parsed) => {
-      const data = parsed as {
-        candidates?: Array<{
-          content?: { parts?: Array<{ text?: string }> };
-        }>;
-      };
-      return data.candidates?.[0]?.content?.parts?.[0]?.text || null;
-    },
-  };
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
 
 /**
- * Reasoning content extractors for different API formats
- * Returns reasoning_content if present in the response
+ * Extractor receiving a parsed event and, for SSE framing, the name from
+ * the preceding "event:" line ("" when none)
  */
-const reasoningExtractors: Record<
-  SSEFormat,
-  (parsed: unknown) => string | null
-> = {
-  openai: (parsed) => {
+type EventExtractor<T> = (parsed: unknown, event: string) => T;
+
+/**
+ * Wire format of a streaming API
+ */
+export interface StreamFormat {
+  // "sse": JSON in "data:" lines, with optional "event:" lines
+  // "ndjson": one JSON object per line; a "data:" prefix is tolerated
+  framing: "sse" | "ndjson";
+  content: EventExtractor<string | null>;
+  reasoning?: EventExtractor<string | null>;
+  usage?: (parsed: unknown) => TokenUsage | null; // Also used for non-streaming bodies
+  toolCalls?: EventExtractor<ToolCallDelta[] | null>;
+  // Each event holds whole calls, indexed from 0 within the event
+  wholeToolCalls?: boolean;
+  isComplete: EventExtractor<boolean>;
+  error?: EventExtractor<string | null>; // Message of an error event
+  // Usage arrives after the completion event (OpenAI), so keep reading
+  // until the stream ends when usage is wanted
+  usageAfterCompletion?: boolean;
+}
+
+const streamFormats = new Map<string, StreamFormat>();
+
+/**
+ * Register a wire format, replacing any format with the same name
+ */
+export function registerStreamFormat(name: string, format: StreamFormat): void {
+  streamFormats.set(name, format);
+}
+
+/**
+ * Get a registered wire format
+ * @throws Error if no format has that name
+ */
+export function getStreamFormat(name: SSEFormat): StreamFormat {
+  const format = streamFormats.get(name);
+  if (!format) {
+    throw new Error(`Unknown stream format: ${name}`);
+  }
+  return format;
+}
+
+/**
+ * Get the message of an `{"error": ...}` body, which is a string or an
+ * object with a message depending on the API
+ */
+function getErrorMessage(parsed: unknown): string | null {
+  const error = (parsed as { error?: unknown }).error;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object") {
+    const message = (error as { message?: unknown }).message;
+    return typeof message === "string" ? message : JSON.stringify(error);
+  }
+  return null;
+}
+
+registerStreamFormat("openai", {
+  framing: "sse",
+  content: (parsed) => {
+    const data = parsed as {
+      choices?: Array<{ delta?: { content?: string } }>;
+    };
+    return data.choices?.[0]?.delta?.content || null;
+  },
+  reasoning: (parsed) => {
     const data = parsed as {
       choices?: Array<{ delta?: { reasoning_content?: string | null } }>;
     };
-    const reasoning = data.choices?.[0]?.delta?.reasoning_content;
-    // Return null if reasoning_content is undefined or null
-    if (reasoning === undefined || reasoning === null) {
-      return null;
-    }
-    return reasoning;
+    return data.choices?.[0]?.delta?.reasoning_content || null;
   },
-  anthropic: () => null, // Anthropic doesn't support reasoning_content in this format
-  gemini: () => null, // Gemini doesn't support reasoning_content in this format
-};
-
-/**
- * Check if the event indicates completion for different formats
- */
-const completionCheckers: Record<SSEFormat, (parsed: unknown) => boolean> = {
-  openai: (parsed) => {
+  usage: (parsed) => {
+    type OpenAIUsage = {
+      prompt_tokens?: number;
+      completion_tokens?: number;
+      input_tokens?: number; // Responses API
+      output_tokens?: number; // Responses API
+      prompt_tokens_details?: { cached_tokens?: number };
+      input_tokens_details?: { cached_tokens?: number };
+      completion_tokens_details?: { reasoning_tokens?: number };
+      output_tokens_details?: { reasoning_tokens?: number };
+    };
+    const data = parsed as {
+      usage?: OpenAIUsage | null;
+      choices?: Array<{ usage?: OpenAIUsage | null }>;
+    };
+    // Some compatible APIs (e.g. Kimi) report usage on the choice
+    const usage = data.usage || data.choices?.[0]?.usage;
+    if (!usage) return null;
+    return {
+      inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+      cachedInputTokens:
+        usage.prompt_tokens_details?.cached_tokens ??
+        usage.input_tokens_details?.cached_tokens,
+      reasoningTokens:
+        usage.completion_tokens_details?.reasoning_tokens ??
+        usage.output_tokens_details?.reasoning_tokens,
+    };
+  },
+  toolCalls: (parsed) => {
+    const data = parsed as {
+      choices?: Array<{
+        delta?: {
+          tool_calls?: Array<{
+            index?: number;
+            id?: string;
+            function?: { name?: string; arguments?: string };
+          }>;
+        };
+      }>;
+    };
+    const calls = data.choices?.[0]?.delta?.tool_calls;
+    if (!calls || calls.length === 0) return null;
+    return calls.map((call, position) => ({
+      index: call.index ?? position,
+      id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments,
+    }));
+  },
+  isComplete: (parsed) => {
     const data = parsed as {
       choices?: Array<{ finish_reason?: string | null }>;
     };
     const finishReason = data.choices?.[0]?.finish_reason;
     return finishReason !== undefined && finishReason !== null;
   },
-  anthropic: (parsed) => {
+  // Compatible proxies send errors as data or as an "error" event
+  error: (parsed, event) =>
+    getErrorMessage(parsed) ??
+    (event === "error" ? JSON.stringify(parsed) : null),
+  usageAfterCompletion: true,
+});
+
+registerStreamFormat("anthropic", {
+  framing: "sse",
+  content: (parsed) => {
+    const data = parsed as {
+      type?: string;
+      delta?: { text?: string };
+    };
+    if (data.type === "content_block_delta" && data.delta?.text) {
+      return data.delta.text;
+    }
+    return null;
+  },
+  reasoning: (parsed) => {
+    const data = parsed as {
+      type?: string;
+      delta?: { type?: string; thinking?: string };
+    };
+    if (
+      data.type === "content_block_delta" &&
+      data.delta?.type === "thinking_delta"
+    ) {
+      return data.delta.thinking || null;
+    }
+    return null;
+  },
+  usage: (parsed) => {
+    type AnthropicUsage = {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_read_input_tokens?: number;
+      cache_creation_input_tokens?: number;
+    };
+    // message_start carries usage on the message, message_delta at the top level
+    const data = parsed as {
+      usage?: AnthropicUsage;
+      message?: { usage?: AnthropicUsage };
+    };
+    const usage = data.usage || data.message?.usage;
+    if (!usage) return null;
+    const cached = usage.cache_read_input_tokens ?? 0;
+    return {
+      inputTokens:
+        (usage.input_tokens ?? 0) +
+        cached +
+        (usage.cache_creation_input_tokens ?? 0),
+      outputTokens: usage.output_tokens ?? 0,
+      cachedInputTokens: cached || undefined,
+    };
+  },
+  toolCalls: (parsed) => {
+    const data = parsed as {
+      type?: string;
+      index?: number;
+      content_block?: { type?: string; id?: string; name?: string };
+      delta?: { type?: string; partial_json?: string };
+    };
+    const index = data.index ?? 0;
+    if (
+      data.type === "content_block_start" &&
+      data.content_block?.type === "tool_use"
+    ) {
+      return [
+        { index, id: data.content_block.id, name: data.content_block.name },
+      ];
+    }
+    if (
+      data.type === "content_block_delta" &&
+      data.delta?.type === "input_json_delta"
+    ) {
+      return [{ index, arguments: data.delta.partial_json || "" }];
+    }
+    return null;
+  },
+  isComplete: (parsed) => {
     const data = parsed as { type?: string };
     return data.type === "message_stop";
   },
-  gemini: (parsed) => {
+  error: (parsed) => {
+    const data = parsed as { type?: string };
+    return data.type === "error" ? getErrorMessage(parsed) : null;
+  },
+});
+
+registerStreamFormat("gemini", {
+  framing: "sse",
+  content: (parsed) => {
+    const data = parsed as {
+      candidates?: Array<{
+        content?: { parts?: Array<{ text?: string }> };
+      }>;
+    };
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || null;
+  },
+  usage: (parsed) => {
+    const data = parsed as {
+      usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        cachedContentTokenCount?: number;
+        thoughtsTokenCount?: number;
+      };
+    };
+    const usage = data.usageMetadata;
+    if (!usage) return null;
+    const thoughts = usage.thoughtsTokenCount ?? 0;
+    return {
+      inputTokens: usage.promptTokenCount ?? 0,
+      outputTokens: (usage.candidatesTokenCount ?? 0) + thoughts,
+      cachedInputTokens: usage.cachedContentTokenCount,
+      reasoningTokens: thoughts || undefined,
+    };
+  },
+  // Gemini sends each function call whole, with parsed arguments
+  toolCalls: (parsed) => {
+    const data = parsed as {
+      candidates?: Array<{
+        content?: {
+          parts?: Array<{
+            functionCall?: { name?: string; args?: Record<string, unknown> };
+          }>;
+        };
+      }>;
+    };
+    const calls = (data.candidates?.[0]?.content?.parts || [])
+      .map((part) => part.functionCall)
+      .filter((call) => !!call);
+    if (calls.length === 0) return null;
+    return calls.map((call, index) => ({
+      index,
+      name: call.name,
+      arguments: JSON.stringify(call.args || {}),
+    }));
+  },
+  wholeToolCalls: true,
+  isComplete: (parsed) => {
     const data = parsed as {
       candidates?: Array<{ finishReason?: string }>;
     };
     return data.candidates?.[0]?.finishReason !== undefined;
   },
-};
+  error: (parsed) => getErrorMessage(parsed),
+});
+
+registerStreamFormat("ollama", {
+  framing: "ndjson",
+  content: (parsed) => {
+    const data = parsed as { message?: { content?: string } };
+    return data.message?.content || null;
+  },
+  reasoning: (parsed) => {
+    const data = parsed as { message?: { thinking?: string } };
+    return data.message?.thinking || null;
+  },
+  usage: (parsed) => {
+    // Only the final chunk, with done set, carries the counts
+    const data = parsed as {
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+      return null;
+    }
+    return {
+      inputTokens: data.prompt_eval_count ?? 0,
+      outputTokens: data.eval_count ?? 0,
+    };
+  },
+  toolCalls: (parsed) => {
+    const data = parsed as {
+      message?: {
+        tool_calls?: Array<{
+          function?: { name?: string; arguments?: Record<string, unknown> };
+        }>;
+      };
+    };
+    const calls = data.message?.tool_calls;
+    if (!calls || calls.length === 0) return null;
+    return calls.map((call, index) => ({
+      index,
+      name: call.function?.name,
+      arguments: JSON.stringify(call.function?.arguments || {}),
+    }));
+  },
+  wholeToolCalls: true,
+  isComplete: (parsed) => {
+    const data = parsed as { done?: boolean };
+    return data.done === true;
+  },
+  // Ollama reports failures after the stream started as an error line
+  error: (parsed) => getErrorMessage(parsed),
+});
+
+/**
+ * Extract token usage from a parsed response body or stream event
+ */
+export function extractUsage(
+  format: SSEFormat,
+  parsed: unknown,
+): TokenUsage | null {
+  return getStreamFormat(format).usage?.(parsed) ?? null;
+}
+
+/**
+ * Merge usage reported across stream events
+ * Providers report cumulative counts, so the largest value of each field wins
+ */
+export function mergeUsage(
+  current: TokenUsage | null,
+  next: TokenUsage,
+): TokenUsage {
+  if (!current) return next;
+  const max = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.max(a, b);
+  return {
+    inputTokens: Math.max(current.inputTokens, next.inputTokens),
+    outputTokens: Math.max(current.outputTokens, next.outputTokens),
+    cachedInputTokens: max(current.cachedInputTokens, next.cachedInputTokens),
+    reasoningTokens: max(current.reasoningTokens, next.reasoningTokens),
+  };
+}
 
 /**
- * Parse SSE stream with unified handling for different API formats
+ * Assemble streamed tool call deltas into complete calls
+ * Calls without a name are dropped; unparsable arguments become {}
+ */
+export function assembleToolCalls(deltas: ToolCallDelta[]): ToolCall[] {
+  const byIndex = new Map<number, { id: string; name: string; args: string }>();
+  for (const delta of deltas) {
+    const call = byIndex.get(delta.index) || { id: "", name: "", args: "" };
+    if (delta.id) call.id = delta.id;
+    if (delta.name) call.name += delta.name;
+    if (delta.arguments) call.args += delta.arguments;
+    byIndex.set(delta.index, call);
+  }
+
+  return [...byIndex.entries()]
+    .sort(([a], [b]) => a - b)
+    .filter(([, call]) => call.name)
+    .map(([index, call]) => {
+      let args: Record<string, unknown> = {};
+      try {
+        const parsed = JSON.parse(call.args || "{}");
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+          args = parsed;
+        }
+      } catch {
+        // Keep empty arguments
+      }
+      return {
+        id: call.id || `call_${index}`,
+        name: call.name,
+        arguments: args,
+      };
+    });
+}
+
+function createAbortError(): Error {
+  const abortError = new Error("Request aborted");
+  abortError.name = "AbortError";
+  return abortError;
+}
+
+/**
+ * Parse a streaming response with unified handling for different API formats
  */
 export async function parseSSEStream(
   reader: ReadableStreamDefaultReader<Uint8Array>,
@@ -99,12 +447,107 @@ export async function parseSSEStream(
   callbacks: SSEParserCallbacks,
   signal?: AbortSignal,
 ): Promise<void> {
-  const { onText, onDone, onError, onReasoningText } = callbacks;
-  const extractContent = contentExtractors[format];
-  const extractReasoning = reasoningExtractors[format];
-  const isComplete = completionCheckers[format];
+  const { onText, onError, onReasoningText, onUsage, onToolCalls } = callbacks;
+  const streamFormat = getStreamFormat(format);
   const decoder = new TextDecoder();
   let buffer = "";
+  let event = "";
+  let usage: TokenUsage | null = null;
+  const toolCallDeltas: ToolCallDelta[] = [];
+  let wholeToolCallCount = 0;
+
+  const onDone = (): void => {
+    if (toolCallDeltas.length > 0) {
+      const toolCalls = assembleToolCalls(toolCallDeltas);
+      if (toolCalls.length > 0) {
+        onToolCalls?.(toolCalls);
+      }
+    }
+    if (usage) {
+      onUsage?.(usage);
+    }
+    callbacks.onDone();
+  };
+
+  /**
+   * Handle one line of the stream
+   * @returns Whether the stream is finished
+   */
+  const handleLine = (line: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      // A blank line ends an SSE event
+      event = "";
+      return false;
+    }
+    if (trimmed.startsWith(":")) return false; // SSE comment
+
+    if (trimmed.startsWith("event:")) {
+      event = trimmed.slice(6).trim();
+      return false;
+    }
+
+    let payload: string;
+    if (trimmed.startsWith("data:")) {
+      payload = trimmed.slice(5).trim();
+    } else if (streamFormat.framing === "ndjson") {
+      payload = trimmed;
+    } else {
+      return false; // Other SSE fields, such as id: and retry:
+    }
+
+    if (payload === "[DONE]") {
+      onDone();
+      return true;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      // Ignore parse errors for this chunk
+      return false;
+    }
+
+    const errorMessage = streamFormat.error?.(parsed, event);
+    if (errorMessage) {
+      onError?.(new Error(errorMessage));
+      return true;
+    }
+
+    const chunkUsage = streamFormat.usage?.(parsed);
+    if (chunkUsage) {
+      usage = mergeUsage(usage, chunkUsage);
+    }
+
+    // The completion event may carry the last content (Gemini)
+    const text = streamFormat.content(parsed, event);
+    if (text) {
+      onText(text);
+    }
+    const reasoningText = streamFormat.reasoning?.(parsed, event);
+    if (reasoningText) {
+      onReasoningText?.(reasoningText);
+    }
+    const deltas = streamFormat.toolCalls?.(parsed, event);
+    if (deltas) {
+      // Number whole calls after those of earlier events
+      const offset = streamFormat.wholeToolCalls ? wholeToolCallCount : 0;
+      for (const delta of deltas) {
+        toolCallDeltas.push({ ...delta, index: delta.index + offset });
+      }
+      if (streamFormat.wholeToolCalls) wholeToolCallCount += deltas.length;
+    }
+
+    const complete = streamFormat.isComplete(parsed, event);
+    const waitForUsage =
+      streamFormat.usageAfterCompletion && !!onUsage && usage === null;
+    if (complete && !waitForUsage) {
+      onDone();
+      return true;
+    }
+    return false;
+  };
 
   const abortHandler = (): void => {
     reader.cancel().catch(() => {});
@@ -118,11 +561,7 @@ export async function parseSSEStream(
     while (true) {
       if (signal?.aborted) {
         ztoolkit.log("[SSEParser] Signal aborted detected in loop");
-        const abortError = new Error("Request aborted");
-        abortError.name = "AbortError";
-        if (onError) {
-          onError(abortError);
-        }
+        onError?.(createAbortError());
         return;
       }
 
@@ -135,11 +574,7 @@ export async function parseSSEStream(
       if (result.done) {
         if (wasAborted && signal?.aborted) {
           ztoolkit.log("[SSEParser] Stream cancelled due to abort");
-          const abortError = new Error("Request aborted");
-          abortError.name = "AbortError";
-          if (onError) {
-            onError(abortError);
-          }
+          onError?.(createAbortError());
           return;
         }
         break;
@@ -151,81 +586,17 @@ export async function parseSSEStream(
       buffer = lines.pop() || "";
 
       for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-
-        if (format === "anthropic") {
-          if (!trimmed.startsWith("data: ")) continue;
-          const data = trimmed.slice(6);
-          if (data === "[DONE]") continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            if (isComplete(parsed)) {
-              onDone();
-              return;
-            }
-            const text = extractContent(parsed);
-            if (text) {
-              onText(text);
-            }
-          } catch {
-            // Ignore parse errors for this chunk
-          }
-        } else if (format === "gemini") {
-          try {
-            const parsed = JSON.parse(trimmed);
-            if (isComplete(parsed)) {
-              onDone();
-              return;
-            }
-            const text = extractContent(parsed);
-            if (text) {
-              onText(text);
-            }
-          } catch {
-            // Ignore parse errors for this chunk
-          }
-        } else {
-          if (!trimmed.startsWith("data: ")) continue;
-          const data = trimmed.slice(6);
-          if (data === "[DONE]") {
-            onDone();
-            return;
-          }
-
-          try {
-            const parsed = JSON.parse(data);
-            if (isComplete(parsed)) {
-              onDone();
-              return;
-            }
-            // Extract regular content
-            const text = extractContent(parsed);
-            if (text) {
-              onText(text);
-            }
-            // Extract reasoning content if present
-            const reasoningText = extractReasoning(parsed);
-            if (reasoningText) {
-              if (onReasoningText) {
-                onReasoningText(reasoningText);
-              }
-            }
-          } catch {
-            // Ignore parse errors for this chunk
-          }
-        }
+        if (handleLine(line)) return;
       }
     }
+
+    // The last line may not end with a newline
+    buffer += decoder.decode();
+    if (buffer && handleLine(buffer)) return;
     onDone();
   } catch (error) {
     if (signal?.aborted) {
-      const abortError = new Error("Request aborted");
-      abortError.name = "AbortError";
-      if (onError) {
-        onError(abortError);
-      }
+      onError?.(createAbortError());
       return;
     }
     if (onError) {
@@ -39,7 +39,10 @@ export class SiliconFlowProvider extends OpenAIProvider {
 
     try {
       const apiMessages = this.formatOpenAIMessages(messages);
-      const systemPrompt = this.buildSystemPrompt(this._config.systemPrompt);
+      const systemPrompt = this.buildSystemPrompt(
+        this._config.systemPrompt,
+        messages,
+      );
       apiMessages.unshift({
         role: "system",
         content: systemPrompt,
@@ -51,6 +54,7 @@ export class SiliconFlowProvider extends OpenAIProvider {
         temperature: this._config.temperature ?? 0.7,
         stream: true,
       };
+      this.addStreamUsageOption(requestBody);
 
       if (this._config.maxTokens && this._config.maxTokens > 0) {
         requestBody.max_tokens = this._config.maxTokens;
@@ -60,17 +64,19 @@ export class SiliconFlowProvider extends OpenAIProvider {
         requestBody.enable_thinking = true;
       }
 
-      const response = await fetch(`${this._config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this._config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+      const response = await this.fetchWithRetry(
+        () =>
+          fetch(`${this._config.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${this._config.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
         signal,
-      });
-
-      await this.validateResponse(response);
+      );
       await this.streamWithCallbacks(
         response,
         "openai",
@@ -79,6 +85,7 @@ export class SiliconFlowProvider extends OpenAIProvider {
           onComplete,
           onError,
           onReasoningChunk,
+          onUsage: callbacks.onUsage,
         },
         signal,
       );
@@ -120,6 +127,7 @@ export class SiliconFlowProvider extends OpenAIProvider {
         },
         onDone: () => onComplete(fullContent),
         onError,
+        onUsage: callbacks.onUsage,
       },
       signal,
     );
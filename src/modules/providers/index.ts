@@ -16,6 +16,13 @@ export {
 } from "./ModelStateManager";
 
 export { BaseProvider } from "./BaseProvider";
+export {
+  ProviderError,
+  createProviderError,
+  getProviderErrorKind,
+  isNetworkError,
+  parseRetryAfter,
+} from "./ProviderError";
 export { OpenAIProvider } from "./OpenAIProvider";
 export { AnthropicProvider } from "./AnthropicProvider";
 export { GeminiProvider } from "./GeminiProvider";
@@ -29,6 +36,13 @@ export { SiliconFlowProvider } from "./SiliconFlowProvider";
 export { MiniMaxProvider, MINIMAX_DEFAULT_MODELS } from "./MiniMaxProvider";
 export { XAIProvider } from "./XAIProvider";
 export { GLMProvider } from "./GLMProvider";
+export { OllamaProvider } from "./OllamaProvider";
+export { LlamaCppProvider } from "./LlamaCppProvider";
+export {
+  AzureOpenAIProvider,
+  AZURE_DEFAULT_API_VERSION,
+} from "./AzureOpenAIProvider";
+export { BedrockProvider } from "./BedrockProvider";
 
 export type {
   AIProvider,
@@ -43,4 +57,6 @@ export type {
   ModelCapability,
   ApiKeyEntry,
   EndpointConfig,
+  ProviderErrorKind,
+  FallbackProviderEntry,
 } from "../../types/provider";
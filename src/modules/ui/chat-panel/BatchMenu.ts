@@ -0,0 +1,292 @@
+/**
+ * BatchMenu - Batch job commands in the item context menu
+ *
+ * "Run Prompt on Items" queues the selected items as a batch job; the
+ * Batch Jobs window shows progress, pause/resume and per-item errors.
+ */
+
+import { config } from "../../../../package.json";
+import { getString } from "../../../utils/locale";
+import { BatchQueue } from "../../chat/BatchQueue";
+import { getPromptTemplates } from "../../chat/PromptTemplates";
+import type { BatchJob } from "../../../types/chat";
+import { createElement } from "./ChatPanelBuilder";
+import { getChatManager } from "./ChatPanelManager";
+import { getCurrentTheme } from "./ChatPanelTheme";
+
+const JOBS_CONTAINER_ID = `${config.addonRef}-batch-jobs`;
+
+let batchQueue: BatchQueue | null = null;
+let lastPrompt = "";
+
+/**
+ * Get the BatchQueue singleton
+ */
+export function getBatchQueue(): BatchQueue {
+  if (!batchQueue) {
+    batchQueue = new BatchQueue(getChatManager());
+  }
+  return batchQueue;
+}
+
+/**
+ * Load saved batch jobs and resume the running ones
+ */
+export async function restoreBatchQueue(): Promise<void> {
+  try {
+    await getBatchQueue().restore();
+  } catch (error) {
+    ztoolkit.log("[BatchMenu] Failed to restore batch jobs:", error);
+  }
+}
+
+export function destroyBatchQueue(): void {
+  batchQueue?.stop();
+  batchQueue = null;
+}
+
+function getSelectedItems(): Zotero.Item[] {
+  return (Zotero.getActiveZoteroPane()?.getSelectedItems() || []).filter(
+    (item) => item.isRegularItem(),
+  );
+}
+
+/**
+ * Ask for the prompt; "/command" picks a prompt template
+ */
+function askForPrompt(itemCount: number): string | null {
+  const input = Zotero.getMainWindow().prompt(
+    getString("batch-prompt", { args: { count: itemCount } }),
+    lastPrompt,
+  );
+  if (!input?.trim()) return null;
+  lastPrompt = input.trim();
+
+  const command = lastPrompt.match(/^\/([\w-]+)$/)?.[1];
+  const template = command
+    ? getPromptTemplates().find((t) => t.command === command)
+    : undefined;
+  return template ? template.prompt : lastPrompt;
+}
+
+async function startBatchJob(items: Zotero.Item[]): Promise<void> {
+  const prompt = askForPrompt(items.length);
+  if (!prompt) return;
+  try {
+    await getBatchQueue().createJob(items, prompt);
+    openBatchJobsWindow();
+  } catch (error) {
+    ztoolkit.log("[BatchMenu] Failed to create batch job:", error);
+  }
+}
+
+function createButton(
+  doc: Document,
+  label: string,
+  onClick: () => void,
+): HTMLElement {
+  const theme = getCurrentTheme();
+  const button = createElement(doc, "button", {
+    padding: "2px 8px",
+    fontSize: "12px",
+    border: `1px solid ${theme.borderColor}`,
+    borderRadius: "4px",
+    background: theme.buttonBg,
+    color: theme.textPrimary,
+    cursor: "pointer",
+  });
+  button.textContent = label;
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+function renderJob(doc: Document, job: BatchJob): HTMLElement {
+  const theme = getCurrentTheme();
+  const queue = getBatchQueue();
+  const done = job.items.filter((entry) => entry.status === "done").length;
+  const failed = job.items.filter((entry) => entry.status === "failed");
+
+  const card = createElement(doc, "div", {
+    display: "flex",
+    flexDirection: "column",
+    gap: "6px",
+    padding: "8px",
+    border: `1px solid ${theme.borderColor}`,
+    borderRadius: "6px",
+  });
+
+  const header = createElement(doc, "div", {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+  });
+  const title = createElement(doc, "span", {
+    flex: "1",
+    fontWeight: "600",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  });
+  title.textContent = job.title;
+  title.title = job.prompt;
+  header.appendChild(title);
+
+  if (job.status === "running") {
+    header.appendChild(
+      createButton(doc, getString("batch-pause"), () => {
+        queue.pauseJob(job.id);
+      }),
+    );
+  } else if (job.status === "paused") {
+    header.appendChild(
+      createButton(doc, getString("batch-resume"), () => {
+        queue.resumeJob(job.id);
+      }),
+    );
+  }
+  if (failed.length > 0 && job.status !== "running") {
+    header.appendChild(
+      createButton(doc, getString("batch-retry-failed"), () => {
+        queue.retryFailed(job.id);
+      }),
+    );
+  }
+  header.appendChild(
+    createButton(doc, getString("batch-remove"), () => {
+      queue.removeJob(job.id);
+    }),
+  );
+  card.appendChild(header);
+
+  const progress = createElement(
+    doc,
+    "progress",
+    { width: "100%" },
+    {
+      max: String(job.items.length),
+      value: String(done + failed.length),
+    },
+  );
+  card.appendChild(progress);
+
+  const status = createElement(doc, "div", {
+    fontSize: "12px",
+    color: theme.textMuted,
+  });
+  status.textContent = getString(`batch-status-${job.status}`, {
+    args: { done, failed: failed.length, total: job.items.length },
+  });
+  card.appendChild(status);
+
+  if (job.error) {
+    const error = createElement(doc, "div", {
+      fontSize: "12px",
+      color: theme.textSecondary,
+    });
+    error.textContent = job.error;
+    card.appendChild(error);
+  }
+
+  // Per-item error report
+  for (const entry of failed) {
+    const row = createElement(doc, "div", {
+      fontSize: "12px",
+      color: theme.textSecondary,
+    });
+    row.textContent = `${entry.title}: ${entry.error || ""}`;
+    card.appendChild(row);
+  }
+
+  return card;
+}
+
+function renderJobs(doc: Document): void {
+  const container = doc.getElementById(JOBS_CONTAINER_ID);
+  if (!container) return;
+  container.textContent = "";
+
+  const jobs = getBatchQueue().getJobs();
+  if (jobs.length === 0) {
+    const empty = createElement(doc, "div", {
+      padding: "16px",
+      textAlign: "center",
+      color: getCurrentTheme().textMuted,
+    });
+    empty.textContent = getString("batch-empty");
+    container.appendChild(empty);
+    return;
+  }
+  for (const job of jobs) {
+    container.appendChild(renderJob(doc, job));
+  }
+}
+
+/**
+ * Open the Batch Jobs window, or focus it when already open
+ */
+export function openBatchJobsWindow(): void {
+  const openWindow = addon.data.dialog?.window;
+  if (openWindow && !openWindow.closed) {
+    openWindow.focus();
+    return;
+  }
+
+  let unsubscribe: (() => void) | null = null;
+  const dialog = new ztoolkit.Dialog(1, 1)
+    .addCell(0, 0, {
+      tag: "div",
+      namespace: "html",
+      id: JOBS_CONTAINER_ID,
+      styles: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        minWidth: "480px",
+        maxHeight: "480px",
+        overflowY: "auto",
+      },
+    })
+    .addButton(getString("batch-close"), "close")
+    .setDialogData({
+      loadCallback: () => {
+        const doc = dialog.window.document;
+        renderJobs(doc);
+        unsubscribe = getBatchQueue().onChange(() => renderJobs(doc));
+      },
+      unloadCallback: () => {
+        unsubscribe?.();
+        addon.data.dialog = undefined;
+      },
+    })
+    .open(getString("batch-title"), {
+      centerscreen: true,
+      resizable: true,
+      fitContent: true,
+    });
+  addon.data.dialog = dialog;
+}
+
+/**
+ * Register the batch job item context menu entries
+ */
+export function registerBatchMenu(): void {
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: `${config.addonRef}-batch-run`,
+    label: getString("batch-menu"),
+    isHidden: () => getSelectedItems().length === 0,
+    commandListener: () => {
+      startBatchJob(getSelectedItems());
+    },
+  });
+
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: `${config.addonRef}-batch-jobs`,
+    label: getString("batch-title"),
+    isHidden: () => getBatchQueue().getJobs().length === 0,
+    commandListener: () => {
+      openBatchJobsWindow();
+    },
+  });
+}
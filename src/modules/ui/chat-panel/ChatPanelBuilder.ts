@@ -4,6 +4,7 @@
 
 import { config } from "../../../../package.json";
 import { getString } from "../../../utils/locale";
+import { getPref } from "../../../utils/prefs";
 import { chatColors } from "../../../utils/colors";
 import type { ThemeColors } from "./types";
 import { HTML_NS, SVG_NS } from "./types";
@@ -361,16 +362,148 @@ export function createChatContainer(
     { id: "chat-pdf-status" },
   );
 
+  // PDF context mode: full text or smart (retrieved) context
+  const pdfModeSelect = createElement(
+    doc,
+    "select",
+    {
+      fontSize: "11px",
+      padding: "1px 4px",
+      borderRadius: "4px",
+      border: `1px solid ${theme.inputBorderColor}`,
+      background: theme.buttonBg,
+      color: theme.textSecondary,
+      cursor: "pointer",
+    },
+    { id: "chat-pdf-mode", title: getString("chat-pdf-mode-tooltip") },
+  ) as HTMLSelectElement;
+  const pdfModeOptions: Array<{
+    value: string;
+    label: Parameters<typeof getString>[0];
+  }> = [
+    { value: "full", label: "chat-pdf-mode-full" },
+    { value: "smart", label: "chat-pdf-mode-smart" },
+  ];
+  for (const option of pdfModeOptions) {
+    const optionEl = createElement(
+      doc,
+      "option",
+      {},
+      {
+        value: option.value,
+      },
+    ) as HTMLOptionElement;
+    optionEl.textContent = getString(option.label);
+    pdfModeSelect.appendChild(optionEl);
+  }
+  pdfModeSelect.value = (getPref("pdfContextMode") as string) || "full";
+
   pdfLabel.appendChild(pdfCheckbox);
   pdfLabel.appendChild(pdfText);
+  pdfLabel.appendChild(pdfModeSelect);
   pdfLabel.appendChild(pdfStatus);
 
+  // Attach annotations checkbox - highlights, notes and comments of the PDF
+  const annotationsLabel = createElement(
+    doc,
+    "label",
+    {
+      display: "none",
+      alignItems: "center",
+      gap: "6px",
+      fontSize: "12px",
+      color: theme.textSecondary,
+      cursor: "pointer",
+    },
+    {
+      id: "chat-annotations-label",
+      title: getString("chat-attach-annotations-tooltip"),
+    },
+  );
+  const annotationsCheckbox = createElement(
+    doc,
+    "input",
+    {
+      margin: "0",
+      cursor: "pointer",
+    },
+    { type: "checkbox", id: "chat-attach-annotations" },
+  ) as HTMLInputElement;
+  const annotationsText = createElement(doc, "span", {});
+  annotationsText.textContent = getString("chat-attach-annotations");
+  annotationsLabel.appendChild(annotationsCheckbox);
+  annotationsLabel.appendChild(annotationsText);
+
+  // PDF context options, shown while a PDF is open in the reader
+  const contextOptions = createElement(doc, "div", {
+    display: "flex",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: "10px",
+  });
+  contextOptions.appendChild(pdfLabel);
+  contextOptions.appendChild(annotationsLabel);
+
   // Toolbar buttons
   const toolbarButtons = createElement(doc, "div", {
     display: "flex",
+    alignItems: "center",
     gap: "6px",
   });
 
+  // Model pinned to the current session, hidden when the session follows
+  // the global model
+  const sessionModelBadge = createElement(
+    doc,
+    "span",
+    {
+      display: "none",
+      alignItems: "center",
+      gap: "4px",
+      maxWidth: "140px",
+      padding: "2px 6px",
+      border: `1px solid ${theme.inputBorderColor}`,
+      borderRadius: "10px",
+      fontSize: "11px",
+      color: theme.textSecondary,
+      cursor: "pointer",
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+    },
+    { id: "chat-session-model" },
+  );
+
+  // Library tools toggle - lets the model call Zotero tools
+  const toolsLabel = createElement(
+    doc,
+    "label",
+    {
+      display: "flex",
+      alignItems: "center",
+      gap: "4px",
+      fontSize: "12px",
+      color: theme.textSecondary,
+      cursor: "pointer",
+      marginRight: "4px",
+    },
+    { id: "chat-tools-label", title: getString("chat-tools-tooltip") },
+  );
+  const toolsCheckbox = createElement(
+    doc,
+    "input",
+    {
+      margin: "0",
+      cursor: "pointer",
+    },
+    { type: "checkbox", id: "chat-tools-enabled" },
+  ) as HTMLInputElement;
+  toolsCheckbox.checked = !!getPref("toolsEnabled");
+  const toolsText = createElement(doc, "span", {});
+  toolsText.textContent = getString("chat-tools-toggle");
+  toolsLabel.appendChild(toolsCheckbox);
+  toolsLabel.appendChild(toolsText);
+
   const btnStyle: Partial<CSSStyleDeclaration> = {
     background: theme.buttonBg,
     border: `1px solid ${theme.inputBorderColor}`,
@@ -406,10 +539,12 @@ export function createChatContainer(
   });
   historyBtn.appendChild(historyIcon);
 
+  toolbarButtons.appendChild(sessionModelBadge);
+  toolbarButtons.appendChild(toolsLabel);
   toolbarButtons.appendChild(newChatBtn);
   toolbarButtons.appendChild(historyBtn);
 
-  toolbar.appendChild(pdfLabel);
+  toolbar.appendChild(contextOptions);
   toolbar.appendChild(toolbarButtons);
 
   // Attachments Preview
@@ -730,6 +865,7 @@ export function createChatContainer(
   const inputArea = createElement(doc, "div", {
     display: "flex",
     flexDirection: "column",
+    position: "relative",
     padding: "14px",
     background: theme.inputAreaBg,
     borderTop: `1px solid ${theme.borderColor}`,
@@ -1041,6 +1177,56 @@ export function createChatContainer(
     `chrome://${config.addonRef}/content/icons/disable-thinking.svg`;
   thinkingBtn.appendChild(thinkingIcon);
 
+  // Compare mode - send each question to several providers side by side
+  const compareContainer = createElement(doc, "div", {
+    position: "relative",
+  });
+  const compareBtn = createElement(
+    doc,
+    "button",
+    {
+      width: "28px",
+      height: "28px",
+      background: "transparent",
+      border: "none",
+      borderRadius: "6px",
+      cursor: "pointer",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      padding: "0",
+      fontSize: "15px",
+      color: theme.textMuted,
+    },
+    { id: "chat-compare-btn" },
+  );
+  compareBtn.title = getString("chat-compare");
+  compareBtn.textContent = "⇆";
+
+  const compareDropdown = createElement(
+    doc,
+    "div",
+    {
+      display: "none",
+      position: "absolute",
+      bottom: "100%",
+      left: "0",
+      marginBottom: "4px",
+      minWidth: "220px",
+      maxWidth: "300px",
+      maxHeight: "300px",
+      overflowY: "auto",
+      background: theme.dropdownBg,
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: "8px",
+      boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+      zIndex: "10002",
+    },
+    { id: "chat-compare-dropdown" },
+  );
+  compareContainer.appendChild(compareBtn);
+  compareContainer.appendChild(compareDropdown);
+
   // Pin button - toggle window always on top
   const pinBtn = createElement(
     doc,
@@ -1111,11 +1297,48 @@ export function createChatContainer(
   leftContainer.appendChild(modelSelectorContainer);
   leftContainer.appendChild(settingsBtn);
   leftContainer.appendChild(thinkingBtn);
+  leftContainer.appendChild(compareContainer);
   leftContainer.appendChild(pinBtn);
   leftContainer.appendChild(panelModeBtn);
 
+  // Estimated tokens of the next request versus the model's input limit
+  const tokenIndicator = createElement(
+    doc,
+    "span",
+    {
+      fontSize: "11px",
+      color: theme.textMuted,
+      whiteSpace: "nowrap",
+      cursor: "default",
+    },
+    { id: "chat-token-indicator" },
+  );
+
   inputBottomBar.appendChild(leftContainer);
+  inputBottomBar.appendChild(tokenIndicator);
+
+  // Slash command menu - prompt templates matching "/command" in the input
+  const slashMenu = createElement(
+    doc,
+    "div",
+    {
+      display: "none",
+      position: "absolute",
+      bottom: "100%",
+      left: "14px",
+      right: "14px",
+      maxHeight: "200px",
+      overflowY: "auto",
+      background: theme.dropdownBg,
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: "8px",
+      boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+      zIndex: "10002",
+    },
+    { id: "chat-slash-menu" },
+  );
 
+  inputArea.appendChild(slashMenu);
   inputArea.appendChild(inputWrapper);
   inputArea.appendChild(inputBottomBar);
 
@@ -4,6 +4,7 @@
 
 import { config } from "../../../../package.json";
 import type { ChatPanelContext, AttachmentState, SessionInfo } from "./types";
+import type { SessionModelPin, SessionSearchQuery } from "../../../types/chat";
 import { chatColors } from "../../../utils/colors";
 import {
   createElement,
@@ -20,6 +21,11 @@ import {
   toggleHistoryDropdown,
   setupClickOutsideHandler,
 } from "./HistoryDropdown";
+import {
+  createHistorySearchBar,
+  highlightSearchTerms,
+  isSearchActive,
+} from "./HistorySearch";
 
 import { getString } from "../../../utils/locale";
 import {
@@ -46,6 +52,7 @@ import {
   setIsSendingMessageForContainer,
   getChatContainer,
   getFloatingContainer,
+  getChatManager,
   updateSendButtonStateForContainer as updateContainerSendButtonState,
 } from "./ChatPanelManager";
 import {
@@ -53,7 +60,25 @@ import {
   getSessionStreamingState,
 } from "./StreamingStateManager";
 import { startStreamingScroll } from "./AutoScrollManager";
-import { getNoteExportService } from "../../chat";
+import {
+  getCompareProviderIds,
+  populateCompareDropdown,
+  updateCompareButtonState,
+} from "./CompareMenu";
+import {
+  handleSlashCommandKeydown,
+  hideSlashCommandMenu,
+  updateSlashCommandMenu,
+} from "./SlashCommandMenu";
+import {
+  getTemplateValues,
+  type TemplateValues,
+} from "../../chat/PromptTemplates";
+import {
+  getNoteExportService,
+  formatTokenCount,
+  getHighlightTerms,
+} from "../../chat";
 import {
   getGlobalInputText,
   setGlobalInputText,
@@ -214,6 +239,7 @@ function updateUnifiedReferenceForItem(
       },
       theme,
     );
+    updateTokenIndicator(chatContainer);
   }
   if (floatingContainer) {
     updateUnifiedReferenceDisplay(
@@ -227,6 +253,7 @@ function updateUnifiedReferenceForItem(
       },
       theme,
     );
+    updateTokenIndicator(floatingContainer);
   }
 }
 
@@ -296,6 +323,25 @@ function getActiveReaderItem(): Zotero.Item | null {
   return null;
 }
 
+/**
+ * Get prompt template variables from the current item and selected PDF text
+ */
+function getTemplateValuesForContext(
+  context: ChatPanelContext,
+): TemplateValues {
+  const currentItem = context.getCurrentItem();
+  const activeReaderItem = getActiveReaderItem();
+  const item =
+    currentItem && currentItem.id > 0 ? currentItem : activeReaderItem;
+
+  const attachmentState = context.getAttachmentState();
+  let selection = attachmentState.pendingSelectedText || "";
+  if (!selection && activeReaderItem && !attachmentState.isQuoteCancelled) {
+    selection = context.chatManager.getSelectedText() || "";
+  }
+  return getTemplateValues(item, selection);
+}
+
 /**
  * Setup all event handlers for the chat panel
  */
@@ -315,6 +361,9 @@ export function setupEventHandlers(context: ChatPanelContext): void {
   const attachPdfCheckbox = container.querySelector(
     "#chat-attach-pdf",
   ) as HTMLInputElement;
+  const attachAnnotationsCheckbox = container.querySelector(
+    "#chat-attach-annotations",
+  ) as HTMLInputElement | null;
   const newChatBtn = container.querySelector("#chat-new") as HTMLButtonElement;
   const historyBtn = container.querySelector(
     "#chat-history-btn",
@@ -335,6 +384,10 @@ export function setupEventHandlers(context: ChatPanelContext): void {
   ) as HTMLButtonElement;
   // History dropdown state
   const historyState = createHistoryDropdownState();
+  // History search query, kept while the panel is open
+  let historySearchQuery: SessionSearchQuery = { text: "" };
+  // Ignores results of searches superseded while they ran
+  let historySearchRequest = 0;
 
   // Allow ArrowUp / ArrowDown to scroll message area in both sidebar and floating views
   if (chatHistory) {
@@ -571,6 +624,26 @@ export function setupEventHandlers(context: ChatPanelContext): void {
     );
   });
 
+  // PDF context mode - full text or smart (retrieved) context
+  const pdfModeSelect = container.querySelector(
+    "#chat-pdf-mode",
+  ) as HTMLSelectElement | null;
+  pdfModeSelect?.addEventListener("change", () => {
+    setPref("pdfContextMode", pdfModeSelect.value);
+    updateTokenIndicator(container);
+  });
+  attachPdfCheckbox?.addEventListener("change", () => {
+    updateTokenIndicator(container);
+  });
+
+  // Library tools toggle
+  const toolsCheckbox = container.querySelector(
+    "#chat-tools-enabled",
+  ) as HTMLInputElement | null;
+  toolsCheckbox?.addEventListener("change", () => {
+    setPref("toolsEnabled", toolsCheckbox.checked);
+  });
+
   // Pause button - abort AI response
   pauseButton?.addEventListener("click", async () => {
     if (pauseButton) {
@@ -596,6 +669,15 @@ export function setupEventHandlers(context: ChatPanelContext): void {
 
   // Input keydown - Enter to send (blocked while sending), ArrowUp/ArrowDown for history
   messageInput?.addEventListener("keydown", (e: KeyboardEvent) => {
+    // Slash command menu takes navigation keys while open
+    if (
+      handleSlashCommandKeydown(e, container, () =>
+        getTemplateValuesForContext(context),
+      )
+    ) {
+      return;
+    }
+
     // Handle ArrowUp - show previous input from history (only when input is empty or navigating history)
     if (e.key === "ArrowUp" && !e.shiftKey) {
       const currentText = messageInput.value;
@@ -679,9 +761,17 @@ export function setupEventHandlers(context: ChatPanelContext): void {
         Math.min(messageInput.scrollHeight, 140) + "px";
       // Sync to global state for cross-view synchronization
       setGlobalInputText(messageInput.value);
+      updateTokenIndicator(container);
+      updateSlashCommandMenu(container, () =>
+        getTemplateValuesForContext(context),
+      );
     }
   });
 
+  messageInput?.addEventListener("blur", () => {
+    hideSlashCommandMenu(container);
+  });
+
   // Check for PDF when input is focused, also reset history navigation
   messageInput?.addEventListener("focus", () => {
     // Reset history navigation when focusing input
@@ -755,6 +845,9 @@ export function setupEventHandlers(context: ChatPanelContext): void {
     if (attachPdfCheckbox) {
       attachPdfCheckbox.checked = false;
     }
+    if (attachAnnotationsCheckbox) {
+      attachAnnotationsCheckbox.checked = false;
+    }
 
     // Clear chat history display and show empty state
     if (chatHistory && emptyState) {
@@ -771,6 +864,9 @@ export function setupEventHandlers(context: ChatPanelContext): void {
       sendButton.style.cursor = "pointer";
     }
 
+    // New sessions follow the global model
+    updateModelSelectorDisplay(container);
+
     ztoolkit.log(
       "New chat started for item:",
       item!.id,
@@ -800,6 +896,54 @@ export function setupEventHandlers(context: ChatPanelContext): void {
   const refreshHistoryDropdown = async () => {
     if (!historyDropdown) return;
 
+    const doc = container.ownerDocument!;
+    const theme = getCurrentTheme();
+
+    // Get all sessions
+    const allSessions = await chatManager.getAllSessions();
+
+    // Search filter choices: providers that answered and documents with history
+    const providerManager = getProviderManager();
+    const providers = (await chatManager.getSearchProviderIds()).map((id) => ({
+      value: id,
+      label: providerManager.getProviderConfig(id)?.name || id,
+    }));
+    const documentNames = new Map<number, string>();
+    for (const s of allSessions) {
+      if (!documentNames.has(s.itemId)) documentNames.set(s.itemId, s.itemName);
+    }
+    const documents = Array.from(documentNames, ([id, name]) => ({
+      value: String(id),
+      label: name,
+    })).sort((a, b) => a.label.localeCompare(b.label));
+
+    // The search bar is kept while the list below it changes
+    historyDropdown.textContent = "";
+    const sessionList = createElement(doc, "div", {});
+    historyDropdown.appendChild(
+      createHistorySearchBar(
+        doc,
+        theme,
+        { providers, documents },
+        historySearchQuery,
+        (query) => {
+          historySearchQuery = query;
+          void renderHistoryList(sessionList, allSessions);
+        },
+      ),
+    );
+    historyDropdown.appendChild(sessionList);
+
+    await renderHistoryList(sessionList, allSessions);
+  };
+
+  // Helper function to render the sessions, or search results, of the history dropdown
+  const renderHistoryList = async (
+    sessionList: HTMLElement,
+    allSessions: Awaited<ReturnType<typeof chatManager.getAllSessions>>,
+  ) => {
+    if (!historyDropdown) return;
+
     // Get current item to filter sessions by document
     const currentItem = context.getCurrentItem();
     const currentItemId = currentItem?.id;
@@ -807,43 +951,64 @@ export function setupEventHandlers(context: ChatPanelContext): void {
     // Check if we are in library view (no active reader)
     const inLibraryView = isInLibraryView();
 
-    // Get all sessions
-    const allSessions = await chatManager.getAllSessions();
-
-    // Filter sessions: if we have a current item and not in library view,
-    // show only that document's sessions
-    // Otherwise show all sessions grouped by document
-    let sessions: SessionInfo[] = allSessions.map((s) => ({
-      sessionId: s.sessionId,
-      itemId: s.itemId,
-      itemName: s.itemName,
-      messageCount: s.messageCount,
-      lastMessage: s.lastMessage,
-      lastUpdated: s.lastUpdated,
-      isEmpty: s.isEmpty,
-      sessionTitle: s.sessionTitle,
-    }));
-
-    // Document isolation: if we have a selected document and not in library view,
-    // only show sessions for that document
+    let sessions: SessionInfo[];
     let groupByDocument = false;
     let documentName: string | undefined;
+    let emptyText: string | undefined;
+
+    const searchRequest = ++historySearchRequest;
+    if (isSearchActive(historySearchQuery)) {
+      // Search covers every document's sessions, newest first
+      const results = await chatManager.searchSessions(historySearchQuery);
+      if (searchRequest !== historySearchRequest) return;
+
+      const searchTerms = getHighlightTerms(historySearchQuery.text);
+      sessions = results.map(({ meta, snippet }) => ({
+        sessionId: meta.sessionId,
+        itemId: meta.itemId,
+        itemName: meta.itemName,
+        messageCount: meta.messageCount,
+        lastMessage: meta.lastMessagePreview,
+        lastUpdated: meta.lastUpdated,
+        isEmpty: meta.isEmpty,
+        sessionTitle: meta.sessionTitle,
+        snippet: snippet || undefined,
+        searchTerms,
+      }));
+      emptyText = getString("chat-search-no-results");
+    } else {
+      // Filter sessions: if we have a current item and not in library view,
+      // show only that document's sessions
+      // Otherwise show all sessions grouped by document
+      sessions = allSessions.map((s) => ({
+        sessionId: s.sessionId,
+        itemId: s.itemId,
+        itemName: s.itemName,
+        messageCount: s.messageCount,
+        lastMessage: s.lastMessage,
+        lastUpdated: s.lastUpdated,
+        isEmpty: s.isEmpty,
+        sessionTitle: s.sessionTitle,
+      }));
 
-    if (inLibraryView) {
-      // In library view: show all sessions grouped by document name
-      groupByDocument = true;
-    } else if (currentItemId !== undefined && currentItemId !== null) {
-      // In reader view with a selected document: show only that document's sessions
-      sessions = sessions.filter((s) => s.itemId === currentItemId);
-      if (sessions.length > 0) {
-        documentName = sessions[0]?.itemName;
+      // Document isolation: if we have a selected document and not in library view,
+      // only show sessions for that document
+      if (inLibraryView) {
+        // In library view: show all sessions grouped by document name
+        groupByDocument = true;
+      } else if (currentItemId !== undefined && currentItemId !== null) {
+        // In reader view with a selected document: show only that document's sessions
+        sessions = sessions.filter((s) => s.itemId === currentItemId);
+        if (sessions.length > 0) {
+          documentName = sessions[0]?.itemName;
+        }
       }
     }
 
     const theme = getCurrentTheme();
 
     populateHistoryDropdown(
-      historyDropdown,
+      sessionList,
       container.ownerDocument!,
       sessions,
       historyState,
@@ -931,8 +1096,17 @@ export function setupEventHandlers(context: ChatPanelContext): void {
               loadedSession.messages,
               getCurrentTheme(),
               shouldShowStreaming,
+              loadedSession.itemId,
             );
 
+            // Mark the matches of the search that found the session
+            if (session.searchTerms) {
+              highlightSearchTerms(
+                chatHistory,
+                session.searchTerms,
+              )?.scrollIntoView({ block: "center" });
+            }
+
             // If the session is streaming, ensure streaming scroll is active
             if (shouldShowStreaming) {
               const { startStreamingScroll } =
@@ -954,6 +1128,9 @@ export function setupEventHandlers(context: ChatPanelContext): void {
             sendButton.style.opacity = shouldDisable ? "0.5" : "1";
             sendButton.style.cursor = shouldDisable ? "not-allowed" : "pointer";
           }
+
+          // Show the model pinned to the loaded session, if any
+          updateModelSelectorDisplay(container);
         }
       },
       // onDelete callback
@@ -995,8 +1172,10 @@ export function setupEventHandlers(context: ChatPanelContext): void {
                 newSession.messages,
                 getCurrentTheme(),
                 false,
+                newSession.itemId,
               );
             }
+            updateModelSelectorDisplay(container);
           }
         }
 
@@ -1036,6 +1215,8 @@ export function setupEventHandlers(context: ChatPanelContext): void {
       },
       // groupByDocument - when true, sessions are grouped by document name
       groupByDocument,
+      // emptyText - shown instead of the no history message
+      emptyText,
     );
   };
 
@@ -1154,6 +1335,16 @@ export function setupEventHandlers(context: ChatPanelContext): void {
       }
     });
 
+    // Click the pinned model badge to unpin it
+    const sessionModelBadge = container.querySelector(
+      "#chat-session-model",
+    ) as HTMLElement | null;
+    sessionModelBadge?.addEventListener("click", async () => {
+      const itemId = context.getCurrentItem()?.id ?? 0;
+      await getChatManager().unpinSessionModel(itemId);
+      updateModelSelectorDisplay(container);
+    });
+
     // Close model dropdown when clicking outside
     container.ownerDocument?.addEventListener("click", (e: Event) => {
       const target = e.target as HTMLElement;
@@ -1267,6 +1458,35 @@ export function setupEventHandlers(context: ChatPanelContext): void {
     });
   }
 
+  // Compare mode button - pick the providers answering side by side
+  const compareBtn = container.querySelector(
+    "#chat-compare-btn",
+  ) as HTMLButtonElement | null;
+  const compareDropdown = container.querySelector(
+    "#chat-compare-dropdown",
+  ) as HTMLElement | null;
+  if (compareBtn && compareDropdown) {
+    updateCompareButtonState(container);
+
+    compareBtn.addEventListener("click", () => {
+      const isVisible = compareDropdown.style.display === "block";
+      if (isVisible) {
+        compareDropdown.style.display = "none";
+      } else {
+        populateCompareDropdown(container, compareDropdown);
+        compareDropdown.style.display = "block";
+      }
+    });
+
+    // Close compare dropdown when clicking outside
+    container.ownerDocument?.addEventListener("click", (e: Event) => {
+      const target = e.target as HTMLElement;
+      if (!compareBtn.contains(target) && !compareDropdown.contains(target)) {
+        compareDropdown.style.display = "none";
+      }
+    });
+  }
+
   // Panel mode toggle button - switch between sidebar and floating mode
   const panelModeBtn = container.querySelector(
     "#chat-panel-mode-btn",
@@ -1502,9 +1722,17 @@ async function sendMessage(
   // Use current item or fall back to active reader
   const item = context.getCurrentItem();
 
+  // Annotations are read from the PDF open in the reader
+  const attachAnnotationsCheckbox = container.querySelector(
+    "#chat-attach-annotations",
+  ) as HTMLInputElement | null;
+
   // Determine target item first (needed for getting correct images)
   let targetItem = item;
-  if (attachPdfCheckbox?.checked && activeReaderItem) {
+  if (
+    (attachPdfCheckbox?.checked || attachAnnotationsCheckbox?.checked) &&
+    activeReaderItem
+  ) {
     targetItem = activeReaderItem;
   }
 
@@ -1539,6 +1767,8 @@ async function sendMessage(
   const attachmentState = context.getAttachmentState();
   const shouldAttachPdf =
     attachPdfCheckbox?.checked && activeReaderItem !== null;
+  const shouldAttachAnnotations =
+    attachAnnotationsCheckbox?.checked && activeReaderItem !== null;
 
   // Clear input immediately after getting the content
   if (messageInput) {
@@ -1572,6 +1802,9 @@ async function sendMessage(
     }
   }
 
+  // Compare mode sends the question to several providers side by side
+  const compareProviderIds = getCompareProviderIds();
+
   // Build attachment options (shared between global and item chat)
   const attachmentOptions = {
     selectedText: selectedText || undefined,
@@ -1608,8 +1841,13 @@ async function sendMessage(
       .sendMessage(content, {
         item: targetItem,
         attachPdf: shouldAttachPdf,
+        pdfContextMode:
+          getPref("pdfContextMode") === "smart" ? "smart" : "full",
+        attachAnnotations: shouldAttachAnnotations,
         images: currentImages.length > 0 ? currentImages : undefined,
         documents: currentDocuments.length > 0 ? currentDocuments : undefined,
+        compareProviderIds:
+          compareProviderIds.length > 0 ? compareProviderIds : undefined,
         ...attachmentOptions,
       })
       .catch((error) => {
@@ -1648,6 +1886,9 @@ export async function updatePdfCheckboxVisibilityForItem(
 ): Promise<void> {
   const pdfLabel = container.querySelector("#chat-pdf-label") as HTMLElement;
   if (!pdfLabel) return;
+  const annotationsLabel = container.querySelector(
+    "#chat-annotations-label",
+  ) as HTMLElement | null;
 
   // Always check the active reader item, not the chat context
   const activeReaderItem = getActiveReaderItem();
@@ -1655,12 +1896,18 @@ export async function updatePdfCheckboxVisibilityForItem(
   if (!activeReaderItem) {
     // No reader active - hide checkbox
     pdfLabel.style.display = "none";
+    if (annotationsLabel) {
+      annotationsLabel.style.display = "none";
+    }
     ztoolkit.log("PDF checkbox hidden: no active reader");
     return;
   }
 
   const hasPdf = await chatManager.hasPdfAttachment(activeReaderItem);
   pdfLabel.style.display = hasPdf ? "flex" : "none";
+  if (annotationsLabel) {
+    annotationsLabel.style.display = hasPdf ? "flex" : "none";
+  }
   ztoolkit.log(
     "PDF checkbox visibility based on active reader:",
     hasPdf ? "visible" : "hidden",
@@ -1686,8 +1933,11 @@ export function updateModelSelectorDisplay(container: HTMLElement): void {
   ) as HTMLElement;
   if (!modelSelectorText) return;
 
-  const modelStateManager = getModelStateManager();
-  const currentModel = modelStateManager.getCurrentModel();
+  // A model pinned to the session takes precedence over the global model
+  const itemId = currentContext?.getCurrentItem()?.id ?? 0;
+  const pin = getChatManager().getSessionModelPin(itemId);
+  updateSessionModelBadge(container, pin);
+  const currentModel = pin?.model ?? getModelStateManager().getCurrentModel();
 
   // Show model name if selected, otherwise show default text
   if (currentModel) {
@@ -1701,6 +1951,90 @@ export function updateModelSelectorDisplay(container: HTMLElement): void {
     // Show default text when no model selected
     modelSelectorText.textContent = getString("chat-select-model");
   }
+
+  // The input limit depends on the selected model
+  updateTokenIndicator(container);
+}
+
+/**
+ * Show or hide the badge of the model pinned to the current session
+ */
+function updateSessionModelBadge(
+  container: HTMLElement,
+  pin: SessionModelPin | null,
+): void {
+  const badge = container.querySelector(
+    "#chat-session-model",
+  ) as HTMLElement | null;
+  if (!badge) return;
+
+  if (!pin) {
+    badge.style.display = "none";
+    return;
+  }
+
+  const providerName =
+    getProviderManager().getProviderConfig(pin.providerId)?.name ||
+    pin.providerId;
+  badge.textContent = `📌 ${pin.model}`;
+  badge.title = getString("chat-session-model-tooltip", {
+    args: { provider: providerName, model: pin.model },
+  });
+  badge.style.display = "inline-flex";
+}
+
+// Latest token estimate requested per container; earlier ones that finish
+// late are dropped
+const tokenIndicatorRequests = new WeakMap<HTMLElement, number>();
+
+/**
+ * Update the token indicator with the estimated size of the next request
+ * History of the current session plus the text in the input and the
+ * pending PDF, images and documents are counted
+ */
+export async function updateTokenIndicator(
+  container: HTMLElement,
+): Promise<void> {
+  const indicator = container.querySelector(
+    "#chat-token-indicator",
+  ) as HTMLElement | null;
+  if (!indicator) return;
+
+  const request = (tokenIndicatorRequests.get(container) ?? 0) + 1;
+  tokenIndicatorRequests.set(container, request);
+
+  const messageInput = container.querySelector(
+    "#chat-message-input",
+  ) as HTMLTextAreaElement | null;
+  const attachPdfCheckbox = container.querySelector(
+    "#chat-attach-pdf",
+  ) as HTMLInputElement | null;
+  // The PDF is read from the reader, whose item the message is sent to
+  const pdfItem = attachPdfCheckbox?.checked ? getActiveReaderItem() : null;
+  const itemId = pdfItem?.id ?? currentContext?.getCurrentItem()?.id ?? 0;
+  const usage = await getChatManager().estimateContextUsage(itemId, {
+    text: messageInput?.value ?? "",
+    pdfItemId: pdfItem?.id,
+    pdfContextMode: getPref("pdfContextMode") === "smart" ? "smart" : "full",
+    images: currentContext?.getImages(),
+    documents: currentContext?.getDocuments(),
+  });
+  if (tokenIndicatorRequests.get(container) !== request) return;
+  if (!usage) {
+    indicator.textContent = "";
+    return;
+  }
+
+  const overLimit = usage.tokens > usage.limit;
+  indicator.dataset.overLimit = String(overLimit);
+  indicator.style.color = overLimit
+    ? chatColors.errorBubbleText
+    : getCurrentTheme().textMuted;
+  indicator.textContent = `~${formatTokenCount(usage.tokens)} / ${formatTokenCount(usage.limit)}`;
+  indicator.title = getString(
+    overLimit ? "chat-token-indicator-over-limit" : "chat-token-indicator",
+    { args: { tokens: usage.tokens, limit: usage.limit } },
+  );
 }
 
 /**
@@ -1715,12 +2049,17 @@ function populateModelDropdown(
   const theme = getCurrentTheme();
   dropdown.textContent = "";
 
+  // Pinned sessions list the models of their own provider
+  const itemId = context.getCurrentItem()?.id ?? 0;
+  const pin = getChatManager().getSessionModelPin(itemId);
+
   const providerManager = getProviderManager();
-  const activeProviderId = providerManager.getActiveProviderId();
-  const currentModel = getPref("model") as string;
+  const activeProviderId =
+    pin?.providerId ?? providerManager.getActiveProviderId();
+  const currentModel = pin?.model ?? (getPref("model") as string);
 
   // Only show models from the active provider
-  const activeProvider = providerManager.getActiveProvider();
+  const activeProvider = providerManager.getProvider(activeProviderId);
   if (!activeProvider) {
     // No active provider - show message
     const noProviders = createElement(doc, "div", {
@@ -1819,14 +2158,22 @@ function populateModelDropdown(
         });
 
         // Click to select model
-        modelItem.addEventListener("click", () => {
+        modelItem.addEventListener("click", async () => {
+          dropdown.style.display = "none";
+
+          // Pinned sessions change their own model, not the global one
+          if (pin) {
+            await getChatManager().setSessionModel(itemId, config.id, model);
+            updateModelSelectorDisplay(container);
+            return;
+          }
+
           // Use ModelStateManager to set model (ensures synchronization)
           const modelStateManager = getModelStateManager();
           modelStateManager.setModel(model, config.id);
 
-          // Update display and close dropdown
+          // Update display
           updateModelSelectorDisplay(container);
-          dropdown.style.display = "none";
 
           // Handle DeepSeek model-specific thinking mode defaults
           const isDeepSeekReasoner = model === "deepseek-reasoner";
@@ -1872,6 +2219,35 @@ function populateModelDropdown(
     }
   }
 
+  // Pin or unpin the model for the current session
+  const pinItem = createElement(doc, "div", {
+    padding: "8px 12px",
+    fontSize: "12px",
+    color: theme.textSecondary,
+    cursor: "pointer",
+    borderTop: `1px solid ${theme.borderColor}`,
+  });
+  pinItem.textContent = getString(
+    pin ? "chat-session-model-unpin" : "chat-session-model-pin",
+  );
+  pinItem.addEventListener("mouseenter", () => {
+    pinItem.style.background = theme.dropdownItemHoverBg;
+  });
+  pinItem.addEventListener("mouseleave", () => {
+    pinItem.style.background = "transparent";
+  });
+  pinItem.addEventListener("click", async () => {
+    dropdown.style.display = "none";
+    const chatManager = getChatManager();
+    if (pin) {
+      await chatManager.unpinSessionModel(itemId);
+    } else {
+      await chatManager.pinSessionModel(itemId);
+    }
+    updateModelSelectorDisplay(container);
+  });
+  dropdown.appendChild(pinItem);
+
   // If no providers configured
   if (providers.length === 0) {
     const noProviders = createElement(doc, "div", {
@@ -2004,6 +2380,7 @@ function updateUnifiedReferenceForDocuments(): void {
       },
       theme,
     );
+    updateTokenIndicator(chatContainer);
   }
   if (floatingContainer) {
     updateUnifiedReferenceDisplayForDocuments(
@@ -2015,6 +2392,7 @@ function updateUnifiedReferenceForDocuments(): void {
       },
       theme,
     );
+    updateTokenIndicator(floatingContainer);
   }
 }
 
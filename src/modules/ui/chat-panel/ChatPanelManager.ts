@@ -23,6 +23,9 @@ import {
   setRegenerateCallback,
   setContinueCallback,
   setSwitchVersionCallback,
+  setKeepComparisonCallback,
+  setEditMessageCallback,
+  setSwitchBranchCallback,
 } from "./MessageRenderer";
 import { renderMarkdownToElement } from "./MarkdownRenderer";
 import { refreshMermaidDiagrams } from "./MermaidRenderer";
@@ -38,6 +41,7 @@ import {
   updateModelSelectorDisplay,
   setCurrentContext,
   triggerHistoryRefresh,
+  updateTokenIndicator,
 } from "./ChatPanelEvents";
 import { getGlobalInputText } from "./InputStateManager";
 import {
@@ -334,6 +338,8 @@ let tabNotifierID: string | null = null;
 let globalTabNotifierID: string | null = null; // Persistent notifier for sidebar sync
 let contentInitialized = false;
 let moduleCurrentItem: Zotero.Item | null = null;
+// Chat shown in library view: global chat (id 0) or a collection (negative id)
+let libraryViewItem: Zotero.Item = { id: 0 } as Zotero.Item;
 let themeCleanup: (() => void) | null = null;
 
 // Panel mode state
@@ -1012,6 +1018,19 @@ async function initializeChatContentCommon(
     manager.switchMessageVersion(itemId, messageId, versionIndex);
   });
 
+  setKeepComparisonCallback((messageId: string, answerIndex: number) => {
+    const itemId = moduleCurrentItem?.id ?? 0;
+    manager.keepComparisonAnswer(itemId, messageId, answerIndex);
+  });
+  setEditMessageCallback(async (messageId: string, question: string) => {
+    const itemId = moduleCurrentItem?.id ?? 0;
+    await manager.editUserMessage(itemId, messageId, question);
+  });
+  setSwitchBranchCallback((messageId: string, branchIndex: number) => {
+    const itemId = moduleCurrentItem?.id ?? 0;
+    manager.switchBranch(itemId, messageId, branchIndex);
+  });
+
   // Initialize scroll manager for this container
   const chatHistory = container.querySelector("#chat-history") as HTMLElement;
   if (chatHistory) {
@@ -1038,7 +1057,7 @@ async function initializeChatContentCommon(
     moduleCurrentItem = activeItem;
   }
   if (!moduleCurrentItem) {
-    moduleCurrentItem = { id: 0 } as Zotero.Item;
+    moduleCurrentItem = libraryViewItem;
   }
 
   // Update PDF checkbox visibility
@@ -1217,9 +1236,9 @@ async function refreshChatForContainer(container: HTMLElement): Promise<void> {
     // Reader view - use the active reader item
     moduleCurrentItem = activeItem;
   } else {
-    // Library view - use global chat (itemId = 0)
+    // Library view - use global chat (itemId = 0) or the open collection chat
     // This ensures we show library/global chat when switching from reader to library
-    moduleCurrentItem = { id: 0 } as Zotero.Item;
+    moduleCurrentItem = libraryViewItem;
   }
 
   const itemToUse = moduleCurrentItem;
@@ -1243,6 +1262,12 @@ async function refreshChatForContainer(container: HTMLElement): Promise<void> {
   if (attachPdfCheckbox) {
     attachPdfCheckbox.checked = false;
   }
+  const attachAnnotationsCheckbox = container.querySelector(
+    "#chat-attach-annotations",
+  ) as HTMLInputElement | null;
+  if (attachAnnotationsCheckbox) {
+    attachAnnotationsCheckbox.checked = false;
+  }
 
   // Load and render session
   // Get the active session for this item, or create a new one if none exists
@@ -1281,6 +1306,7 @@ async function refreshChatForContainer(container: HTMLElement): Promise<void> {
       session.messages,
       getCurrentTheme(),
       isSessionStreaming,
+      sessionItemId,
     );
   }
 
@@ -1299,6 +1325,7 @@ async function refreshChatForContainer(container: HTMLElement): Promise<void> {
     }
     messageInput.focus();
   }
+  updateTokenIndicator(container);
 
   // Sync unified reference display from global state
   // This ensures the reference bar is consistent across sidebar and floating views
@@ -1975,6 +2002,7 @@ function setupChatManagerCallbacks(
             session.messages,
             getCurrentTheme(),
             shouldShowStreaming,
+            itemId,
           );
 
           // Now try to update the streaming content again
@@ -2053,6 +2081,7 @@ function setupChatManagerCallbacks(
               messages,
               getCurrentTheme(),
               shouldShowStreaming,
+              itemId,
             );
 
             // Scroll to bottom after rendering (not during streaming)
@@ -2122,6 +2151,9 @@ function setupChatManagerCallbacks(
       });
     },
     onPdfAttached: () => {
+      // Smart context retrieves per question, so keep the checkbox on
+      if (getPref("pdfContextMode") === "smart") return;
+
       // Update all active containers
       const containers = getActiveContainers();
       containers.forEach((cont) => {
@@ -2159,12 +2191,15 @@ function setupChatManagerCallbacks(
           updateSendButtonStateForContainer(cont);
 
           // Uncheck PDF attach checkbox after message complete
+          // (smart context retrieves per question, so it stays on)
           const attachPdfCheckbox = cont.querySelector(
             "#chat-attach-pdf",
           ) as HTMLInputElement;
-          if (attachPdfCheckbox) {
+          if (attachPdfCheckbox && getPref("pdfContextMode") !== "smart") {
             attachPdfCheckbox.checked = false;
           }
+
+          updateTokenIndicator(cont);
         }
       });
 
@@ -2196,6 +2231,7 @@ function setupChatManagerCallbacks(
                   session.messages,
                   getCurrentTheme(),
                   false,
+                  itemId,
                 );
               }
             }
@@ -2425,6 +2461,65 @@ export function unregisterToolbarButton(): void {
   unregisterGlobalTabNotifier();
 }
 
+/**
+ * Open a chat over all items of a collection
+ */
+export async function openCollectionChat(
+  collection: Zotero.Collection,
+  includeSubcollections: boolean,
+): Promise<void> {
+  const session = await getChatManager().createCollectionSession(
+    collection,
+    includeSubcollections,
+  );
+  libraryViewItem = { id: session.itemId } as Zotero.Item;
+  moduleCurrentItem = libraryViewItem;
+
+  if (!isPanelShown()) {
+    showPanel();
+    return;
+  }
+  const container =
+    currentPanelMode === "sidebar" ? chatContainer : floatingContainer;
+  if (container) {
+    await refreshChatForContainer(container);
+  }
+}
+
+/**
+ * Register "Chat with Collection" entries in the collection context menu
+ */
+export function registerCollectionMenu(): void {
+  const getSelectedCollection = () =>
+    Zotero.getActiveZoteroPane()?.getSelectedCollection() || null;
+
+  ztoolkit.Menu.register("collection", {
+    tag: "menuitem",
+    id: `${config.addonRef}-collection-chat`,
+    label: getString("chat-collection-menu"),
+    isHidden: () => !getSelectedCollection(),
+    commandListener: () => {
+      const collection = getSelectedCollection();
+      if (collection) {
+        openCollectionChat(collection, false);
+      }
+    },
+  });
+
+  ztoolkit.Menu.register("collection", {
+    tag: "menuitem",
+    id: `${config.addonRef}-collection-chat-subcollections`,
+    label: getString("chat-collection-menu-subcollections"),
+    isHidden: () => !getSelectedCollection()?.hasChildCollections(),
+    commandListener: () => {
+      const collection = getSelectedCollection();
+      if (collection) {
+        openCollectionChat(collection, true);
+      }
+    },
+  });
+}
+
 /**
  * Create context for event handlers
  */
@@ -2453,6 +2548,9 @@ function createContext(
     },
     setCurrentItem: (item: Zotero.Item | null) => {
       moduleCurrentItem = item;
+      if (item && item.id <= 0) {
+        libraryViewItem = item;
+      }
     },
     getTheme: getCurrentTheme,
     getAttachmentState: () => ({
@@ -2601,8 +2699,11 @@ function createContext(
             messages,
             getCurrentTheme(),
             isStreaming,
+            sessionInfo?.itemId,
           );
         }
+        // The session shown may have its own pinned model
+        updateModelSelectorDisplay(container);
       }
     },
     appendError: (errorMessage: string) => {
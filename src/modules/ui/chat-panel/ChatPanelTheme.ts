@@ -162,10 +162,21 @@ export function applyThemeToContainer(container: HTMLElement): void {
     toolbar.style.borderTopColor = theme.borderColor;
   }
 
-  // PDF label
-  const pdfLabel = container.querySelector("#chat-pdf-label") as HTMLElement;
-  if (pdfLabel) {
-    pdfLabel.style.color = theme.textSecondary;
+  // PDF, annotations and tools labels
+  container
+    .querySelectorAll(
+      "#chat-pdf-label, #chat-annotations-label, #chat-tools-label",
+    )
+    .forEach((label: Element) => {
+      (label as HTMLElement).style.color = theme.textSecondary;
+    });
+
+  // Token indicator keeps its warning color when over the limit
+  const tokenIndicator = container.querySelector(
+    "#chat-token-indicator",
+  ) as HTMLElement | null;
+  if (tokenIndicator && tokenIndicator.dataset.overLimit !== "true") {
+    tokenIndicator.style.color = theme.textMuted;
   }
 
   // Toolbar buttons
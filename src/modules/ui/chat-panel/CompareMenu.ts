@@ -0,0 +1,143 @@
+/**
+ * CompareMenu - Pick the providers that answer side by side in compare mode
+ *
+ * The selection is stored in the compareProviders pref; compare mode is on
+ * while at least two of the selected providers are ready.
+ */
+
+import { ChatManager } from "../../chat";
+import { getProviderManager } from "../../providers";
+import { getPref, setPref } from "../../../utils/prefs";
+import { getString } from "../../../utils/locale";
+import { createElement } from "./ChatPanelBuilder";
+import { getCurrentTheme } from "./ChatPanelTheme";
+
+function getSelectedIds(): string[] {
+  return ((getPref("compareProviders") as string) || "")
+    .split(",")
+    .filter(Boolean);
+}
+
+/**
+ * Get the ready providers selected for compare mode
+ * @returns The provider IDs, or an empty array when compare mode is off
+ */
+export function getCompareProviderIds(): string[] {
+  const providerManager = getProviderManager();
+  const ids = getSelectedIds().filter(
+    (id) => providerManager.getProvider(id)?.isReady() ?? false,
+  );
+  return ids.length > 1 ? ids : [];
+}
+
+/**
+ * Highlight the compare button while compare mode is on
+ */
+export function updateCompareButtonState(container: HTMLElement): void {
+  const button = container.querySelector(
+    "#chat-compare-btn",
+  ) as HTMLElement | null;
+  if (!button) return;
+
+  const theme = getCurrentTheme();
+  const count = getCompareProviderIds().length;
+  button.style.background = count > 0 ? theme.buttonBg : "transparent";
+  button.style.color = count > 0 ? theme.textPrimary : theme.textMuted;
+  button.title =
+    count > 0
+      ? getString("chat-compare-active", { args: { count } })
+      : getString("chat-compare");
+}
+
+/**
+ * List the configured providers with a checkbox each
+ */
+export function populateCompareDropdown(
+  container: HTMLElement,
+  dropdown: HTMLElement,
+): void {
+  const doc = container.ownerDocument!;
+  const theme = getCurrentTheme();
+  dropdown.textContent = "";
+
+  const header = createElement(doc, "div", {
+    padding: "8px 12px",
+    fontSize: "11px",
+    fontWeight: "600",
+    color: theme.textMuted,
+    background: theme.buttonBg,
+    borderBottom: `1px solid ${theme.borderColor}`,
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+    position: "sticky",
+    top: "0",
+    zIndex: "1",
+  });
+  header.textContent = getString("chat-compare-title", {
+    args: { max: ChatManager.MAX_COMPARE_PROVIDERS },
+  });
+  dropdown.appendChild(header);
+
+  const providers = getProviderManager()
+    .getConfiguredProviders()
+    .filter((provider) => provider.isReady());
+  if (providers.length < 2) {
+    const hint = createElement(doc, "div", {
+      padding: "12px",
+      fontSize: "12px",
+      color: theme.textMuted,
+      textAlign: "center",
+    });
+    hint.textContent = getString("chat-compare-need-providers");
+    dropdown.appendChild(hint);
+    return;
+  }
+
+  // Providers no longer ready are dropped from the selection
+  const selected = getSelectedIds().filter((id) =>
+    providers.some((provider) => provider.config.id === id),
+  );
+  for (const provider of providers) {
+    const { id, name, defaultModel } = provider.config;
+    const isSelected = selected.includes(id);
+    const isFull =
+      !isSelected && selected.length >= ChatManager.MAX_COMPARE_PROVIDERS;
+
+    const row = createElement(doc, "label", {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      padding: "8px 12px",
+      fontSize: "12px",
+      color: isFull ? theme.textMuted : theme.textPrimary,
+      cursor: isFull ? "default" : "pointer",
+    });
+
+    const checkbox = createElement(
+      doc,
+      "input",
+      { margin: "0", cursor: "inherit" },
+      { type: "checkbox" },
+    ) as HTMLInputElement;
+    checkbox.checked = isSelected;
+    checkbox.disabled = isFull;
+    checkbox.addEventListener("change", () => {
+      const ids = selected.filter((selectedId) => selectedId !== id);
+      if (checkbox.checked) ids.push(id);
+      setPref("compareProviders", ids.join(","));
+      populateCompareDropdown(container, dropdown);
+      updateCompareButtonState(container);
+    });
+    row.appendChild(checkbox);
+
+    const label = createElement(doc, "span", {
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+    });
+    label.textContent = `${name} / ${defaultModel}`;
+    row.appendChild(label);
+
+    dropdown.appendChild(row);
+  }
+}
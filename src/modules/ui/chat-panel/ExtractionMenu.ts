@@ -0,0 +1,141 @@
+/**
+ * ExtractionMenu - "Extract Data" command in the item context menu
+ *
+ * Runs the structured extraction schema over the selected items, writes
+ * the values to each item and, for several items, saves a CSV/TSV table.
+ */
+
+import { config } from "../../../../package.json";
+import { getString } from "../../../utils/locale";
+import {
+  formatExtractionTable,
+  getExtractionSchema,
+  getExtractionTarget,
+  writeExtractionResult,
+} from "../../chat/StructuredExtraction";
+import type { ExtractionField, ExtractionResult } from "../../../types/chat";
+import { getChatManager } from "./ChatPanelManager";
+
+function getSelectedItems(): Zotero.Item[] {
+  return (Zotero.getActiveZoteroPane()?.getSelectedItems() || []).filter(
+    (item) => item.isRegularItem(),
+  );
+}
+
+/**
+ * Ask for a file and save the results; the extension picks CSV or TSV
+ */
+async function saveExtractionTable(
+  fields: ExtractionField[],
+  results: ExtractionResult[],
+): Promise<void> {
+  const path = await new ztoolkit.FilePicker(
+    getString("extract-save-title"),
+    "save",
+    [
+      ["CSV (*.csv)", "*.csv"],
+      ["TSV (*.tsv)", "*.tsv"],
+    ],
+    "zota-extraction.csv",
+    Zotero.getMainWindow(),
+  ).open();
+  if (!path) return;
+
+  const delimiter = path.toLowerCase().endsWith(".tsv") ? "\t" : ",";
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  await IOUtils.writeUTF8(
+    path,
+    "\uFEFF" + formatExtractionTable(fields, results, delimiter),
+  );
+}
+
+async function runExtraction(items: Zotero.Item[]): Promise<void> {
+  const fields = getExtractionSchema();
+  const target = getExtractionTarget();
+
+  const progress = new ztoolkit.ProgressWindow(getString("extract-title"), {
+    closeOnClick: true,
+    closeTime: -1,
+  })
+    .createLine({
+      text: getString("extract-progress", {
+        args: { done: 0, total: items.length },
+      }),
+      progress: 0,
+    })
+    .show();
+
+  let results: ExtractionResult[];
+  try {
+    results = await getChatManager().extractStructuredData(
+      items,
+      fields,
+      (done, total) => {
+        progress.changeLine({
+          text: getString("extract-progress", { args: { done, total } }),
+          progress: Math.round((done / total) * 100),
+        });
+      },
+    );
+  } catch (error) {
+    ztoolkit.log("[ExtractionMenu] Extraction failed:", error);
+    progress.changeLine({
+      type: "fail",
+      text: getString("extract-failed", {
+        args: { error: error instanceof Error ? error.message : String(error) },
+      }),
+      progress: 100,
+    });
+    progress.startCloseTimer(5000);
+    return;
+  }
+
+  // Items without any value keep what an earlier extraction wrote
+  for (const result of results) {
+    const item = items.find((candidate) => candidate.id === result.itemId);
+    if (!item || Object.values(result.values).every((v) => v === null)) {
+      continue;
+    }
+    try {
+      await writeExtractionResult(item, fields, result, target);
+    } catch (error) {
+      ztoolkit.log("[ExtractionMenu] Failed to write item:", item.id, error);
+      result.errors.push(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  const failed = results.filter((result) => result.errors.length > 0).length;
+  progress.changeLine({
+    type: failed > 0 ? "default" : "success",
+    text: getString("extract-done", {
+      args: { count: results.length, failed },
+    }),
+    progress: 100,
+  });
+  progress.startCloseTimer(5000);
+
+  if (results.length > 1) {
+    try {
+      await saveExtractionTable(fields, results);
+    } catch (error) {
+      ztoolkit.log("[ExtractionMenu] Failed to save table:", error);
+    }
+  }
+}
+
+/**
+ * Register the "Extract Data" item context menu entry
+ */
+export function registerExtractionMenu(): void {
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: `${config.addonRef}-extract-data`,
+    label: getString("extract-menu"),
+    isHidden: () => getSelectedItems().length === 0,
+    commandListener: () => {
+      runExtraction(getSelectedItems());
+    },
+  });
+}
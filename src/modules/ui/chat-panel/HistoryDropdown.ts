@@ -7,6 +7,7 @@ import { getString } from "../../../utils/locale";
 import { chatColors } from "../../../utils/colors";
 import type { ThemeColors, SessionInfo } from "./types";
 import { createElement } from "./ChatPanelBuilder";
+import { highlightSearchTerms } from "./HistorySearch";
 
 // Number of sessions to show per page
 export const SESSIONS_PER_PAGE = 20;
@@ -175,6 +176,24 @@ export function createSessionItem(
   metaEl.appendChild(msgCount);
 
   contentWrapper.appendChild(titleContainer);
+
+  // Search results show the matching text, with the query words marked
+  if (session.snippet) {
+    const snippetEl = createElement(doc, "div", {
+      fontSize: "12px",
+      color: theme.textSecondary,
+      marginBottom: "4px",
+      lineHeight: "1.4",
+      overflow: "hidden",
+      display: "-webkit-box",
+      webkitLineClamp: "2",
+      webkitBoxOrient: "vertical",
+    });
+    snippetEl.textContent = session.snippet;
+    highlightSearchTerms(snippetEl, session.searchTerms || []);
+    contentWrapper.appendChild(snippetEl);
+  }
+
   contentWrapper.appendChild(metaEl);
 
   // 时间信息 - 绝对定位到最右端
@@ -468,6 +487,7 @@ function groupSessionsByDocument(
 /**
  * Populate the history dropdown with sessions
  * When groupByDocument is true, sessions are grouped by document name
+ * emptyText replaces the no history message, e.g. for searches
  */
 export function populateHistoryDropdown(
   dropdown: HTMLElement,
@@ -480,6 +500,7 @@ export function populateHistoryDropdown(
   documentName?: string,
   onExport?: (session: SessionInfo) => void,
   groupByDocument: boolean = false,
+  emptyText?: string,
 ): void {
   // Reset state
   state.allSessions = sessions;
@@ -494,7 +515,7 @@ export function populateHistoryDropdown(
       color: chatColors.emptyText,
       fontSize: "13px",
     });
-    emptyMsg.textContent = getString("chat-no-history");
+    emptyMsg.textContent = emptyText || getString("chat-no-history");
     dropdown.appendChild(emptyMsg);
     return;
   }
@@ -0,0 +1,267 @@
+/**
+ * HistorySearch - Search bar of the history dropdown and match highlighting
+ */
+
+import { getString } from "../../../utils/locale";
+import type { SessionSearchQuery } from "../../../types/chat";
+import type { ThemeColors } from "./types";
+import { createElement } from "./ChatPanelBuilder";
+
+// Delay before a typed query is searched
+const SEARCH_DEBOUNCE_MS = 250;
+const HIGHLIGHT_COLOR = "rgba(255, 213, 79, 0.6)";
+
+export interface HistorySearchOption {
+  value: string;
+  label: string;
+}
+
+export interface HistorySearchOptions {
+  providers: HistorySearchOption[];
+  documents: HistorySearchOption[];
+}
+
+/**
+ * Whether a query searches or filters at all
+ */
+export function isSearchActive(query: SessionSearchQuery): boolean {
+  return (
+    query.text.trim() !== "" ||
+    query.from !== undefined ||
+    query.to !== undefined ||
+    !!query.providerId ||
+    query.itemId !== undefined
+  );
+}
+
+/**
+ * Format a timestamp as the yyyy-mm-dd value of a date input
+ */
+function toDateInputValue(timestamp?: number): string {
+  if (timestamp === undefined) return "";
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a date input value as the start or end of that local day
+ */
+function fromDateInputValue(
+  value: string,
+  endOfDay: boolean,
+): number | undefined {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/**
+ * Create the search bar shown at the top of the history dropdown
+ * onChange receives the updated query; text changes are debounced
+ */
+export function createHistorySearchBar(
+  doc: Document,
+  theme: ThemeColors,
+  options: HistorySearchOptions,
+  query: SessionSearchQuery,
+  onChange: (query: SessionSearchQuery) => void,
+): HTMLElement {
+  const bar = createElement(doc, "div", {
+    padding: "8px 10px",
+    borderBottom: `1px solid ${theme.borderColor}`,
+    display: "flex",
+    flexDirection: "column",
+    gap: "6px",
+  });
+  // Clicks inside the bar must not select a session or close the dropdown
+  bar.addEventListener("click", (e) => e.stopPropagation());
+
+  const controlStyles: Partial<CSSStyleDeclaration> = {
+    boxSizing: "border-box",
+    padding: "4px 6px",
+    fontSize: "12px",
+    color: theme.textPrimary,
+    background: theme.inputBg,
+    border: `1px solid ${theme.inputBorderColor}`,
+    borderRadius: "4px",
+    minWidth: "0",
+  };
+
+  let current: SessionSearchQuery = { ...query };
+  const emit = (updates: Partial<SessionSearchQuery>) => {
+    current = { ...current, ...updates };
+    onChange(current);
+  };
+
+  // Text
+  const textInput = createElement(
+    doc,
+    "input",
+    { ...controlStyles, width: "100%" },
+    { type: "search" },
+  ) as HTMLInputElement;
+  textInput.placeholder = getString("chat-search-placeholder");
+  textInput.value = query.text;
+  let debounceTimer: number | null = null;
+  textInput.addEventListener("input", () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(() => {
+      debounceTimer = null;
+      emit({ text: textInput.value });
+    }, SEARCH_DEBOUNCE_MS);
+  });
+  bar.appendChild(textInput);
+
+  // Date range
+  const dateRow = createElement(doc, "div", {
+    display: "flex",
+    alignItems: "center",
+    gap: "4px",
+    fontSize: "11px",
+    color: theme.textMuted,
+  });
+  const fromInput = createElement(
+    doc,
+    "input",
+    { ...controlStyles, flex: "1" },
+    { type: "date" },
+  ) as HTMLInputElement;
+  fromInput.title = getString("chat-search-from");
+  fromInput.value = toDateInputValue(query.from);
+  fromInput.addEventListener("change", () => {
+    emit({ from: fromDateInputValue(fromInput.value, false) });
+  });
+  const separator = createElement(doc, "span", {});
+  separator.textContent = "–";
+  const toInput = createElement(
+    doc,
+    "input",
+    { ...controlStyles, flex: "1" },
+    { type: "date" },
+  ) as HTMLInputElement;
+  toInput.title = getString("chat-search-to");
+  toInput.value = toDateInputValue(query.to);
+  toInput.addEventListener("change", () => {
+    emit({ to: fromDateInputValue(toInput.value, true) });
+  });
+  dateRow.appendChild(fromInput);
+  dateRow.appendChild(separator);
+  dateRow.appendChild(toInput);
+  bar.appendChild(dateRow);
+
+  // Provider and document
+  const filterRow = createElement(doc, "div", {
+    display: "flex",
+    gap: "4px",
+  });
+  const createSelect = (
+    allLabel: string,
+    choices: HistorySearchOption[],
+    value: string,
+    onSelect: (value: string) => void,
+  ) => {
+    const select = createElement(doc, "select", {
+      ...controlStyles,
+      flex: "1",
+    }) as HTMLSelectElement;
+    for (const choice of [{ value: "", label: allLabel }, ...choices]) {
+      const option = createElement(doc, "option", {}) as HTMLOptionElement;
+      option.value = choice.value;
+      option.textContent = choice.label;
+      select.appendChild(option);
+    }
+    select.value = value;
+    select.addEventListener("change", () => onSelect(select.value));
+    return select;
+  };
+  filterRow.appendChild(
+    createSelect(
+      getString("chat-search-all-providers"),
+      options.providers,
+      query.providerId || "",
+      (value) => emit({ providerId: value || undefined }),
+    ),
+  );
+  filterRow.appendChild(
+    createSelect(
+      getString("chat-search-all-documents"),
+      options.documents,
+      query.itemId !== undefined ? String(query.itemId) : "",
+      (value) => emit({ itemId: value ? Number(value) : undefined }),
+    ),
+  );
+  bar.appendChild(filterRow);
+
+  return bar;
+}
+
+/**
+ * Highlight the search terms in the text under an element
+ * Rendered math is skipped, its text nodes are not the source text
+ * @returns The first highlighted match, if any
+ */
+export function highlightSearchTerms(
+  root: HTMLElement,
+  terms: string[],
+): HTMLElement | null {
+  const needles = terms.filter((term) => term);
+  if (needles.length === 0) return null;
+
+  const doc = root.ownerDocument;
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(".katex, mark, script, style")
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  let firstMark: HTMLElement | null = null;
+  for (const node of textNodes) {
+    const text = node.data;
+    const lowerText = text.toLowerCase();
+    const ranges: Array<[number, number]> = [];
+    for (const needle of needles) {
+      let pos = lowerText.indexOf(needle);
+      while (pos >= 0) {
+        ranges.push([pos, pos + needle.length]);
+        pos = lowerText.indexOf(needle, pos + needle.length);
+      }
+    }
+    if (ranges.length === 0) continue;
+
+    // Merge overlapping matches of different terms
+    ranges.sort((a, b) => a[0] - b[0]);
+    const fragment = doc.createDocumentFragment();
+    let last = 0;
+    for (const [start, end] of ranges) {
+      if (end <= last) continue;
+      const from = Math.max(start, last);
+      fragment.appendChild(doc.createTextNode(text.substring(last, from)));
+      const mark = createElement(doc, "mark", {
+        background: HIGHLIGHT_COLOR,
+        color: "inherit",
+        borderRadius: "2px",
+      });
+      mark.textContent = text.substring(from, end);
+      fragment.appendChild(mark);
+      firstMark ||= mark;
+      last = end;
+    }
+    fragment.appendChild(doc.createTextNode(text.substring(last)));
+    node.replaceWith(fragment);
+  }
+
+  return firstMark;
+}
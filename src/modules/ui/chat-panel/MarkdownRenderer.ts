@@ -196,6 +196,45 @@ md.inline.ruler.after("escape", "math_inline", (state, silent) => {
   return false;
 });
 
+// Page citations emitted by the model: [p. 12] or [pp. 12-13]
+const PAGE_CITATION_REGEX = /^\[(pp?)\.\s*(\d+)(?:\s*[-–]\s*(\d+))?\]/;
+
+// Configure markdown-it to turn page citations into dedicated tokens
+md.inline.ruler.before("link", "page_citation", (state, silent) => {
+  if (state.src.charCodeAt(state.pos) !== 0x5b) return false;
+
+  const match = state.src
+    .slice(state.pos, state.posMax)
+    .match(PAGE_CITATION_REGEX);
+  if (!match) return false;
+
+  if (silent) return true;
+
+  const token = state.push("page_citation", "a", 0);
+  token.content = match[0];
+  token.meta = { page: parseInt(match[2], 10) };
+  state.pos += match[0].length;
+  return true;
+});
+
+/**
+ * Navigate the active Zotero reader to a 1-based page number
+ */
+function navigateReaderToPage(page: number): void {
+  const mainWindow = Zotero.getMainWindow() as Window & {
+    Zotero_Tabs?: { selectedID: string };
+  };
+  const tabs = mainWindow.Zotero_Tabs;
+  if (!tabs) return;
+
+  const reader = Zotero.Reader.getByTabID(tabs.selectedID);
+  if (!reader) {
+    ztoolkit.log("[MarkdownRenderer] No active reader for page citation");
+    return;
+  }
+  reader.navigate({ pageIndex: page - 1 });
+}
+
 /**
  * Pre-process markdown content to ensure $$...$$ formulas are properly detected as block elements
  * This works around markdown-it's requirement for empty lines before/after block-level elements
@@ -611,6 +650,26 @@ export function renderInlineTokens(
         stack.pop();
         break;
 
+      case "page_citation": {
+        const page = token.meta?.page as number;
+        const a = doc.createElementNS(HTML_NS, "a") as HTMLAnchorElement;
+        a.textContent = token.content;
+        a.title = getString("chat-citation-goto-page", {
+          args: { page },
+        });
+        a.setAttribute("data-page", String(page));
+        a.style.color = chatColors.markdownLink;
+        a.style.textDecoration = "none";
+        a.style.cursor = "pointer";
+        a.style.whiteSpace = "nowrap";
+        a.addEventListener("click", (e) => {
+          e.preventDefault();
+          navigateReaderToPage(page);
+        });
+        current.appendChild(a);
+        break;
+      }
+
       case "math_inline": {
         const mathHtml = renderMathToHTML(token.content, false);
         const span = doc.createElementNS(HTML_NS, "span") as HTMLElement;
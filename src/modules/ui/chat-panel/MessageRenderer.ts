@@ -3,7 +3,7 @@
  */
 
 import { config } from "../../../../package.json";
-import type { ChatMessage } from "../../chat";
+import type { ChatMessage, ComparisonAnswer } from "../../chat";
 import { chatColors } from "../../../utils/colors";
 import type { ThemeColors } from "./types";
 import { HTML_NS, SVG_NS } from "./types";
@@ -11,6 +11,16 @@ import { renderMarkdownToElement } from "./MarkdownRenderer";
 import { createElement, copyToClipboard } from "./ChatPanelBuilder";
 import { getString } from "../../../utils/locale";
 import { syncMessageNavigation } from "./MessageNavigation";
+import { getPdfHighlighter } from "../../chat/PdfHighlighter";
+
+// Hints shown under provider errors; plain request errors get none
+const ERROR_HINT_KEYS = {
+  rate_limit: "chat-error-hint-rate-limit",
+  auth: "chat-error-hint-auth",
+  quota: "chat-error-hint-quota",
+  context_length: "chat-error-hint-context-length",
+  server: "chat-error-hint-server",
+} as const;
 
 // Callbacks for regenerate and version switching
 let regenerateCallback: ((messageId: string) => Promise<void>) | null = null;
@@ -20,6 +30,15 @@ let switchVersionCallback:
 let continueCallback:
   | ((messageId: string, messageContent: string) => Promise<void>)
   | null = null;
+let keepComparisonCallback:
+  | ((messageId: string, answerIndex: number) => void)
+  | null = null;
+let editMessageCallback:
+  | ((messageId: string, question: string) => Promise<void>)
+  | null = null;
+let switchBranchCallback:
+  | ((messageId: string, branchIndex: number) => void)
+  | null = null;
 
 /**
  * Set the regenerate callback function
@@ -48,6 +67,33 @@ export function setSwitchVersionCallback(
   switchVersionCallback = callback;
 }
 
+/**
+ * Set the callback for keeping one answer of a comparison
+ */
+export function setKeepComparisonCallback(
+  callback: (messageId: string, answerIndex: number) => void,
+): void {
+  keepComparisonCallback = callback;
+}
+
+/**
+ * Set the callback for editing a question into a new branch
+ */
+export function setEditMessageCallback(
+  callback: (messageId: string, question: string) => Promise<void>,
+): void {
+  editMessageCallback = callback;
+}
+
+/**
+ * Set the branch switch callback function
+ */
+export function setSwitchBranchCallback(
+  callback: (messageId: string, branchIndex: number) => void,
+): void {
+  switchBranchCallback = callback;
+}
+
 /**
  * Create a thinking section with collapsible content
  */
@@ -173,6 +219,405 @@ function createThinkingSection(
   return container;
 }
 
+/**
+ * Create a collapsible list of the library tools called for a message
+ */
+function createToolCallsSection(
+  doc: Document,
+  toolCalls: NonNullable<ChatMessage["toolCalls"]>,
+  theme: ThemeColors,
+): HTMLElement {
+  const container = createElement(
+    doc,
+    "div",
+    {
+      display: "flex",
+      flexDirection: "column",
+      marginBottom: "12px",
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: "8px",
+      overflow: "hidden",
+      background: theme.assistantBubbleBg,
+    },
+    { class: "chat-tool-calls-section" },
+  );
+
+  const header = createElement(
+    doc,
+    "div",
+    {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      padding: "6px 12px",
+      background: "rgba(45, 90, 135, 0.08)",
+      cursor: "pointer",
+      userSelect: "none",
+    },
+    { class: "chat-tool-calls-header" },
+  );
+
+  const headerText = createElement(doc, "span", {
+    fontSize: "12px",
+    fontWeight: "600",
+    color: theme.textPrimary,
+    flex: "1",
+  });
+  headerText.textContent = getString("chat-tool-calls-title", {
+    args: { count: toolCalls.length },
+  });
+  header.appendChild(headerText);
+
+  const chevronIcon = createElement(doc, "span", {
+    fontSize: "10px",
+    opacity: "0.6",
+  });
+  chevronIcon.textContent = "▶";
+  header.appendChild(chevronIcon);
+
+  // Collapsed by default - the answer matters more than the trace
+  const list = createElement(
+    doc,
+    "div",
+    {
+      display: "none",
+      padding: "6px 12px",
+      fontSize: "12px",
+      lineHeight: "1.5",
+      color: theme.textSecondary,
+      maxHeight: "200px",
+      overflowY: "auto",
+      userSelect: "text",
+    },
+    { class: "chat-tool-calls-list" },
+  );
+
+  for (const call of toolCalls) {
+    const row = createElement(doc, "div", {
+      fontFamily: "monospace",
+      whiteSpace: "pre-wrap",
+      wordBreak: "break-word",
+      color: call.isError ? chatColors.errorBubbleText : theme.textSecondary,
+    });
+    const preview =
+      call.result.length > 200
+        ? `${call.result.substring(0, 200)}...`
+        : call.result;
+    row.textContent = `${call.name}(${JSON.stringify(call.arguments)}) → ${preview}`;
+    list.appendChild(row);
+  }
+
+  let isExpanded = false;
+  header.addEventListener("click", () => {
+    isExpanded = !isExpanded;
+    list.style.display = isExpanded ? "block" : "none";
+    chevronIcon.textContent = isExpanded ? "▼" : "▶";
+  });
+
+  container.appendChild(header);
+  container.appendChild(list);
+
+  return container;
+}
+
+/**
+ * Create the side-by-side answers of a comparison
+ * Each column can be kept as the reply once every answer has finished
+ */
+function createComparisonSection(
+  doc: Document,
+  msg: ChatMessage,
+  answers: ComparisonAnswer[],
+  theme: ThemeColors,
+): HTMLElement {
+  const grid = createElement(
+    doc,
+    "div",
+    {
+      display: "grid",
+      gridTemplateColumns: `repeat(${answers.length}, minmax(0, 1fr))`,
+      gap: "8px",
+      whiteSpace: "normal",
+    },
+    { class: "chat-comparison" },
+  );
+  const isFinished = msg.isComplete === true;
+
+  answers.forEach((answer, index) => {
+    const column = createElement(doc, "div", {
+      display: "flex",
+      flexDirection: "column",
+      gap: "6px",
+      minWidth: "0",
+      padding: "8px 10px",
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: "8px",
+    });
+
+    const header = createElement(
+      doc,
+      "div",
+      {
+        fontSize: "11px",
+        fontWeight: "600",
+        color: theme.textMuted,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+      },
+      { title: `${answer.providerId} / ${answer.model}` },
+    );
+    header.textContent = answer.model;
+    column.appendChild(header);
+
+    const body = createElement(doc, "div", {
+      flex: "1",
+      fontSize: "13px",
+      whiteSpace: "pre-wrap",
+      overflowX: "auto",
+    });
+    if (answer.error) {
+      body.style.color = chatColors.errorBubbleText;
+      body.textContent = `⚠️ ${answer.error}`;
+    } else if (answer.content) {
+      renderMarkdownToElement(body, answer.content);
+    } else {
+      body.style.color = theme.textMuted;
+      body.textContent = isFinished ? "—" : "…";
+    }
+    column.appendChild(body);
+
+    if (isFinished && !answer.error && answer.content.trim()) {
+      const keepBtn = createElement(
+        doc,
+        "button",
+        {
+          alignSelf: "flex-start",
+          padding: "2px 8px",
+          fontSize: "11px",
+          background: "transparent",
+          border: `1px solid ${theme.borderColor}`,
+          borderRadius: "4px",
+          color: theme.textSecondary,
+          cursor: "pointer",
+        },
+        {
+          class: "chat-comparison-keep",
+          title: getString("chat-compare-keep-tooltip"),
+        },
+      );
+      keepBtn.textContent = getString("chat-compare-keep");
+      keepBtn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        keepComparisonCallback?.(msg.id, index);
+      });
+      column.appendChild(keepBtn);
+    }
+
+    grid.appendChild(column);
+  });
+
+  return grid;
+}
+
+/**
+ * Create the marker shown where older turns were rolled into a summary
+ * Clicking it expands the summary sent in their place
+ */
+function createSummaryBoundary(
+  doc: Document,
+  msg: ChatMessage,
+  theme: ThemeColors,
+): HTMLElement {
+  const container = createElement(
+    doc,
+    "div",
+    {
+      display: "flex",
+      flexDirection: "column",
+      margin: "8px 0 16px",
+    },
+    { class: "chat-summary-boundary", "data-message-id": msg.id },
+  );
+
+  const header = createElement(doc, "div", {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    cursor: "pointer",
+    userSelect: "none",
+  });
+
+  const lineStyle = {
+    flex: "1",
+    height: "1px",
+    background: theme.borderColor,
+  };
+  header.appendChild(createElement(doc, "div", lineStyle));
+
+  const label = createElement(doc, "span", {
+    fontSize: "11px",
+    color: theme.textMuted,
+    whiteSpace: "nowrap",
+  });
+  label.textContent = `${getString("chat-summary-boundary", {
+    args: { count: msg.summarizedCount ?? 0 },
+  })} ▶`;
+  label.title = getString("chat-summary-boundary-tooltip");
+  header.appendChild(label);
+
+  header.appendChild(createElement(doc, "div", lineStyle));
+
+  const content = createElement(
+    doc,
+    "div",
+    {
+      display: "none",
+      marginTop: "8px",
+      padding: "10px 12px",
+      fontSize: "13px",
+      lineHeight: "1.5",
+      color: theme.textSecondary,
+      background: theme.assistantBubbleBg,
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: "8px",
+      maxHeight: "300px",
+      overflowY: "auto",
+      userSelect: "text",
+    },
+    { class: "chat-summary-content" },
+  );
+  renderMarkdownToElement(content, msg.content);
+
+  let isExpanded = false;
+  header.addEventListener("click", () => {
+    isExpanded = !isExpanded;
+    content.style.display = isExpanded ? "block" : "none";
+    label.textContent = `${getString("chat-summary-boundary", {
+      args: { count: msg.summarizedCount ?? 0 },
+    })} ${isExpanded ? "▼" : "▶"}`;
+  });
+
+  container.appendChild(header);
+  container.appendChild(content);
+  return container;
+}
+
+/**
+ * Get the assistant's explanation of a quote: the paragraphs that follow it
+ * (up to the next quote or heading), or the paragraph before it
+ */
+function getQuoteExplanation(blockquote: HTMLElement): string {
+  const parts: string[] = [];
+  let sibling = blockquote.nextElementSibling;
+  while (sibling && !/^(BLOCKQUOTE|H[1-6]|HR)$/i.test(sibling.tagName)) {
+    if (!sibling.classList.contains("chat-quote-actions")) {
+      parts.push(sibling.textContent?.trim() || "");
+    }
+    sibling = sibling.nextElementSibling;
+  }
+  let explanation = parts.filter(Boolean).join("\n\n");
+  if (!explanation) {
+    const previous = blockquote.previousElementSibling;
+    if (previous && !/^(BLOCKQUOTE|H[1-6]|HR)$/i.test(previous.tagName)) {
+      explanation = previous.textContent?.trim() || "";
+    }
+  }
+  return explanation.substring(0, 2000);
+}
+
+/**
+ * Add "Highlight in PDF" actions below each quoted passage of an answer
+ * @param itemId Session item whose PDF the passages are highlighted in
+ */
+function addQuoteHighlightActions(
+  doc: Document,
+  content: HTMLElement,
+  theme: ThemeColors,
+  itemId: number,
+): void {
+  // Global and collection sessions have no PDF of their own
+  if (itemId <= 0) return;
+
+  const blockquotes = Array.from(
+    content.querySelectorAll("blockquote"),
+  ) as HTMLElement[];
+
+  for (const blockquote of blockquotes) {
+    // Only top-level quotes; nested quotes belong to their parent
+    if (blockquote.parentElement?.closest("blockquote")) continue;
+    const quote = blockquote.textContent?.trim() || "";
+    if (!quote) continue;
+
+    const actions = createElement(
+      doc,
+      "div",
+      {
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        margin: "-6px 0 10px 0",
+        fontSize: "11px",
+        whiteSpace: "normal",
+      },
+      { class: "chat-quote-actions" },
+    );
+
+    const status = createElement(doc, "span", {
+      color: theme.textMuted,
+    });
+
+    const createAction = (
+      label: Parameters<typeof getString>[0],
+      withComment: boolean,
+    ): HTMLElement => {
+      const button = createElement(doc, "button", {
+        padding: "1px 6px",
+        fontSize: "11px",
+        background: "transparent",
+        border: `1px solid ${theme.inputBorderColor}`,
+        borderRadius: "4px",
+        color: theme.textSecondary,
+        cursor: "pointer",
+      });
+      button.textContent = getString(label);
+      button.addEventListener("click", async (e) => {
+        e.stopPropagation();
+        // One highlight at a time, or a double click adds two
+        const buttons = Array.from(
+          actions.querySelectorAll("button"),
+        ) as HTMLButtonElement[];
+        if (buttons.some((b) => b.disabled)) return;
+        buttons.forEach((b) => (b.disabled = true));
+        status.textContent = "";
+        const comment = withComment
+          ? getQuoteExplanation(blockquote)
+          : undefined;
+        const result = await getPdfHighlighter()
+          .highlightInItem(itemId, quote, comment)
+          .finally(() => buttons.forEach((b) => (b.disabled = false)));
+        if (result.success) {
+          status.textContent = getString("chat-highlight-done");
+        } else if (result.error === "no-reader") {
+          status.textContent = getString("chat-highlight-no-reader");
+        } else if (result.error === "not-found") {
+          status.textContent = getString("chat-highlight-not-found");
+        } else {
+          status.textContent = getString("chat-highlight-failed");
+        }
+      });
+      return button;
+    };
+
+    actions.appendChild(createAction("chat-highlight-in-pdf", false));
+    if (getQuoteExplanation(blockquote)) {
+      actions.appendChild(createAction("chat-highlight-with-comment", true));
+    }
+    actions.appendChild(status);
+    blockquote.insertAdjacentElement("afterend", actions);
+  }
+}
+
 /**
  * Format timestamp to "yy/mm/dd hh:mm:ss" format
  */
@@ -392,7 +837,17 @@ function createVersionNavigation(
   currentIndex: number,
   totalVersions: number,
   theme: ThemeColors,
+  kind: "version" | "branch" = "version",
 ): HTMLElement {
+  // Versions of an answer, or branches forking at an edited question
+  const switchTo = (index: number) => {
+    if (kind === "branch") {
+      switchBranchCallback?.(messageId, index);
+    } else {
+      switchVersionCallback?.(messageId, index);
+    }
+  };
+
   const container = createElement(
     doc,
     "div",
@@ -423,7 +878,12 @@ function createVersionNavigation(
       opacity: currentIndex > 0 ? "0.6" : "0.3",
       transition: "opacity 0.2s ease",
     },
-    { class: "chat-version-prev-btn", title: getString("chat-prev-version") },
+    {
+      class: "chat-version-prev-btn",
+      title: getString(
+        kind === "branch" ? "chat-prev-branch" : "chat-prev-version",
+      ),
+    },
   );
 
   const prevIcon = createElement(doc, "img", {
@@ -443,9 +903,7 @@ function createVersionNavigation(
     });
     prevBtn.addEventListener("click", (e) => {
       e.stopPropagation();
-      if (switchVersionCallback) {
-        switchVersionCallback(messageId, currentIndex - 1);
-      }
+      switchTo(currentIndex - 1);
     });
   }
 
@@ -485,7 +943,12 @@ function createVersionNavigation(
       opacity: currentIndex < totalVersions - 1 ? "0.6" : "0.3",
       transition: "opacity 0.2s ease",
     },
-    { class: "chat-version-next-btn", title: getString("chat-next-version") },
+    {
+      class: "chat-version-next-btn",
+      title: getString(
+        kind === "branch" ? "chat-next-branch" : "chat-next-version",
+      ),
+    },
   );
 
   const nextIcon = createElement(doc, "img", {
@@ -505,9 +968,7 @@ function createVersionNavigation(
     });
     nextBtn.addEventListener("click", (e) => {
       e.stopPropagation();
-      if (switchVersionCallback) {
-        switchVersionCallback(messageId, currentIndex + 1);
-      }
+      switchTo(currentIndex + 1);
     });
   }
 
@@ -516,6 +977,148 @@ function createVersionNavigation(
   return container;
 }
 
+/**
+ * Replace the question of a user bubble with an inline editor
+ */
+function openQuestionEditor(
+  doc: Document,
+  bubble: HTMLElement,
+  messageId: string,
+  question: string,
+  theme: ThemeColors,
+): void {
+  if (bubble.querySelector(".chat-question-editor")) return;
+  const content = bubble.querySelector(".chat-content") as HTMLElement | null;
+  if (content) content.style.display = "none";
+
+  const editor = createElement(
+    doc,
+    "div",
+    {
+      display: "flex",
+      flexDirection: "column",
+      gap: "6px",
+      minWidth: "240px",
+    },
+    { class: "chat-question-editor" },
+  );
+
+  const textarea = createElement(doc, "textarea", {
+    width: "100%",
+    minHeight: "60px",
+    padding: "6px 8px",
+    boxSizing: "border-box",
+    fontSize: "14px",
+    fontFamily: "inherit",
+    color: theme.textPrimary,
+    background: theme.inputBg,
+    border: `1px solid ${theme.inputBorderColor}`,
+    borderRadius: "6px",
+    resize: "vertical",
+  }) as HTMLTextAreaElement;
+  textarea.value = question;
+  editor.appendChild(textarea);
+
+  const actions = createElement(doc, "div", {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: "6px",
+  });
+  const buttonStyle = {
+    padding: "3px 10px",
+    fontSize: "12px",
+    border: `1px solid ${theme.inputBorderColor}`,
+    borderRadius: "4px",
+    background: theme.buttonBg,
+    color: theme.textPrimary,
+    cursor: "pointer",
+  };
+
+  const close = () => {
+    editor.remove();
+    if (content) content.style.display = "";
+  };
+
+  const cancelBtn = createElement(doc, "button", buttonStyle);
+  cancelBtn.textContent = getString("chat-edit-cancel");
+  cancelBtn.addEventListener("click", (e) => {
+    e.stopPropagation();
+    close();
+  });
+
+  const submit = () => {
+    const edited = textarea.value.trim();
+    if (!edited || edited === question) {
+      close();
+      return;
+    }
+    editMessageCallback?.(messageId, edited);
+  };
+
+  const saveBtn = createElement(doc, "button", buttonStyle);
+  saveBtn.textContent = getString("chat-edit-save");
+  saveBtn.addEventListener("click", (e) => {
+    e.stopPropagation();
+    submit();
+  });
+
+  textarea.addEventListener("keydown", (e: KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    }
+  });
+
+  actions.appendChild(cancelBtn);
+  actions.appendChild(saveBtn);
+  editor.appendChild(actions);
+  bubble.appendChild(editor);
+  textarea.focus();
+}
+
+/**
+ * Create an edit button for user questions
+ */
+function createEditButton(doc: Document, onClick: () => void): HTMLElement {
+  const editBtn = createElement(
+    doc,
+    "button",
+    {
+      display: "inline-flex",
+      alignItems: "center",
+      justifyContent: "center",
+      width: "16px",
+      height: "16px",
+      padding: "0",
+      margin: "0",
+      background: "transparent",
+      border: "none",
+      cursor: "pointer",
+      opacity: "0.6",
+      fontSize: "12px",
+      transition: "opacity 0.2s ease",
+    },
+    { class: "chat-edit-btn", title: getString("chat-edit-question") },
+  );
+  editBtn.textContent = "✎";
+
+  editBtn.addEventListener("mouseenter", () => {
+    editBtn.style.opacity = "1";
+  });
+  editBtn.addEventListener("mouseleave", () => {
+    editBtn.style.opacity = "0.6";
+  });
+  editBtn.addEventListener("click", (e) => {
+    e.stopPropagation();
+    onClick();
+  });
+
+  return editBtn;
+}
+
 /**
  * Create a message element for display in chat history
  */
@@ -525,6 +1128,7 @@ export function createMessageElement(
   theme: ThemeColors,
   isLastAssistant: boolean = false,
   isGloballyStreaming: boolean = false,
+  itemId: number = 0, // Session item, for highlighting quotes in its PDF
 ): HTMLElement {
   const wrapper = createElement(
     doc,
@@ -869,9 +1473,28 @@ export function createMessageElement(
     }
     content.textContent = `⚠️ ${errorDisplay}`;
     rawContent = errorDisplay;
+
+    // What to do about it, for failures the provider error kind explains
+    if (msg.errorKind && msg.errorKind !== "request") {
+      const hint = createElement(doc, "div", {
+        marginTop: "6px",
+        fontSize: "12px",
+        opacity: "0.85",
+      });
+      hint.textContent = getString(ERROR_HINT_KEYS[msg.errorKind]);
+      content.appendChild(hint);
+    }
+  } else if (msg.comparison) {
+    // Compare mode: answers side by side until one is kept
+    bubble.style.display = "block";
+    bubble.style.maxWidth = "100%";
+    content.appendChild(
+      createComparisonSection(doc, msg, msg.comparison, theme),
+    );
   } else {
     // Render assistant message as markdown
     renderMarkdownToElement(content, msg.content);
+    addQuoteHighlightActions(doc, content, theme, itemId);
   }
 
   bubble.appendChild(content);
@@ -889,6 +1512,14 @@ export function createMessageElement(
     }
   }
 
+  // Add tool calls section for assistant messages that used library tools
+  if (msg.role === "assistant" && msg.toolCalls && msg.toolCalls.length > 0) {
+    bubble.insertBefore(
+      createToolCallsSection(doc, msg.toolCalls, theme),
+      content,
+    );
+  }
+
   wrapper.appendChild(bubble);
 
   // Create metadata row (timestamp + copy button)
@@ -954,6 +1585,56 @@ export function createMessageElement(
       timestamp.textContent = formatTimestamp(msg.timestamp);
       metaRow.appendChild(timestamp);
 
+      // Model that produced the answer
+      if (msg.model) {
+        const modelLabel = createElement(
+          doc,
+          "span",
+          {
+            maxWidth: "160px",
+            fontSize: "11px",
+            color: theme.textMuted,
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+            userSelect: "none",
+          },
+          {
+            class: "chat-message-model",
+            title: msg.providerId
+              ? `${msg.providerId} / ${msg.model}`
+              : msg.model,
+          },
+        );
+        modelLabel.textContent = msg.model;
+        metaRow.appendChild(modelLabel);
+      }
+
+      // Answered by a fallback provider after the first one failed
+      if (msg.fallbackFrom) {
+        const fallbackLabel = createElement(
+          doc,
+          "span",
+          {
+            maxWidth: "160px",
+            fontSize: "11px",
+            color: theme.textMuted,
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+            userSelect: "none",
+          },
+          {
+            class: "chat-message-fallback",
+            title: `${msg.fallbackFrom.providerId} / ${msg.fallbackFrom.model || ""}: ${msg.fallbackFrom.error}`,
+          },
+        );
+        fallbackLabel.textContent = getString("chat-fallback-notice", {
+          args: { provider: msg.fallbackFrom.providerId },
+        });
+        metaRow.appendChild(fallbackLabel);
+      }
+
       // Version navigation (only if there are multiple versions)
       const hasMultipleVersions =
         msg.contentVersions && msg.contentVersions.length > 1;
@@ -994,7 +1675,28 @@ export function createMessageElement(
       metaRow.appendChild(timestamp);
     }
   } else {
-    // For user/error messages: only timestamp
+    // For user messages: branch navigation, edit button and timestamp
+    if (msg.branchCount && msg.branchCount > 1) {
+      metaRow.appendChild(
+        createVersionNavigation(
+          doc,
+          msg.id,
+          msg.branchIndex ?? 0,
+          msg.branchCount,
+          theme,
+          "branch",
+        ),
+      );
+    }
+
+    if (msg.role === "user" && !isGloballyStreaming) {
+      metaRow.appendChild(
+        createEditButton(doc, () =>
+          openQuestionEditor(doc, bubble, msg.id, rawContent, theme),
+        ),
+      );
+    }
+
     const timestamp = createElement(
       doc,
       "span",
@@ -1022,13 +1724,14 @@ export function renderMessages(
   messages: ChatMessage[],
   theme: ThemeColors,
   isGloballyStreaming: boolean = false,
+  itemId: number = 0,
 ): void {
   const doc = chatHistory.ownerDocument;
   if (!doc) return;
 
   // Remove only message elements, preserve emptyState
   const messageElements = chatHistory.querySelectorAll(
-    ".chat-message, .message-wrapper",
+    ".chat-message, .message-wrapper, .chat-summary-boundary",
   );
   messageElements.forEach((el) => el.remove());
 
@@ -1046,8 +1749,19 @@ export function renderMessages(
 
   if (emptyState) emptyState.style.display = "none";
 
-  // Filter out hidden messages
-  const visibleMessages = messages.filter((msg) => !msg.isHidden);
+  // Filter out hidden messages; summaries are shown as boundary markers
+  const visibleMessages = messages.filter(
+    (msg) => !msg.isHidden && !msg.isSummary,
+  );
+  const summaryAfter = new Map<string, ChatMessage>();
+  let previous: ChatMessage | null = null;
+  for (const msg of messages) {
+    if (msg.isSummary && previous) {
+      summaryAfter.set(previous.id, msg);
+    } else if (!msg.isHidden && !msg.isSummary) {
+      previous = msg;
+    }
+  }
 
   // Find the last assistant message index for streaming content ID
   let lastAssistantIndex = -1;
@@ -1069,8 +1783,13 @@ export function renderMessages(
         theme,
         isLastAssistant,
         isGloballyStreaming,
+        itemId,
       ),
     );
+    const summary = summaryAfter.get(msg.id);
+    if (summary) {
+      chatHistory.appendChild(createSummaryBoundary(doc, summary, theme));
+    }
   }
 
   syncMessageNavigation(chatHistory, visibleMessages, theme);
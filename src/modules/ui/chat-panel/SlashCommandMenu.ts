@@ -0,0 +1,198 @@
+/**
+ * SlashCommandMenu - Autocomplete for prompt templates typed as "/command"
+ */
+
+import type { PromptTemplate } from "../../../types/chat";
+import {
+  fillPromptTemplate,
+  matchPromptTemplates,
+  type TemplateValues,
+} from "../../chat/PromptTemplates";
+import { createElement } from "./ChatPanelBuilder";
+import { getCurrentTheme } from "./ChatPanelTheme";
+
+// Input that opens the menu: a slash followed by a partial command
+const SLASH_COMMAND_INPUT = /^\/([\w-]*)$/;
+
+interface SlashMenuState {
+  matches: PromptTemplate[];
+  selectedIndex: number;
+}
+
+const menuStates = new WeakMap<HTMLElement, SlashMenuState>();
+
+function getMenu(container: HTMLElement): HTMLElement | null {
+  return container.querySelector("#chat-slash-menu") as HTMLElement | null;
+}
+
+function getInput(container: HTMLElement): HTMLTextAreaElement | null {
+  return container.querySelector(
+    "#chat-message-input",
+  ) as HTMLTextAreaElement | null;
+}
+
+/**
+ * Check if the slash command menu is open
+ */
+export function isSlashCommandMenuOpen(container: HTMLElement): boolean {
+  return menuStates.has(container);
+}
+
+export function hideSlashCommandMenu(container: HTMLElement): void {
+  menuStates.delete(container);
+  const menu = getMenu(container);
+  if (menu) menu.style.display = "none";
+}
+
+/**
+ * Replace the input with the filled template
+ */
+function applyTemplate(
+  container: HTMLElement,
+  template: PromptTemplate,
+  resolveValues: () => TemplateValues,
+): void {
+  hideSlashCommandMenu(container);
+  const input = getInput(container);
+  if (!input) return;
+
+  const text = fillPromptTemplate(template.prompt, resolveValues());
+  input.value = text;
+  input.selectionStart = text.length;
+  input.selectionEnd = text.length;
+  input.focus();
+  // Let the input handlers resize the box and sync the text
+  const win = input.ownerDocument.defaultView;
+  if (win) {
+    input.dispatchEvent(new win.Event("input", { bubbles: true }));
+  }
+}
+
+function renderMenu(
+  container: HTMLElement,
+  state: SlashMenuState,
+  resolveValues: () => TemplateValues,
+): void {
+  const menu = getMenu(container);
+  if (!menu) return;
+  const doc = container.ownerDocument;
+  const theme = getCurrentTheme();
+
+  menu.textContent = "";
+  menu.style.background = theme.dropdownBg;
+  menu.style.borderColor = theme.borderColor;
+  menu.style.display = "block";
+
+  state.matches.forEach((template, index) => {
+    const isSelected = index === state.selectedIndex;
+    const row = createElement(doc, "div", {
+      display: "flex",
+      alignItems: "baseline",
+      gap: "8px",
+      padding: "6px 12px",
+      fontSize: "12px",
+      cursor: "pointer",
+      background: isSelected ? theme.dropdownItemHoverBg : "transparent",
+    });
+
+    const command = createElement(doc, "span", {
+      fontWeight: "600",
+      color: theme.textPrimary,
+      whiteSpace: "nowrap",
+    });
+    command.textContent = `/${template.command}`;
+    row.appendChild(command);
+
+    const description = createElement(doc, "span", {
+      color: theme.textMuted,
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+    });
+    description.textContent = template.description;
+    row.appendChild(description);
+
+    // Keep focus in the input while clicking
+    row.addEventListener("mousedown", (e: MouseEvent) => e.preventDefault());
+    row.addEventListener("click", () => {
+      applyTemplate(container, template, resolveValues);
+    });
+    row.addEventListener("mouseenter", () => {
+      if (state.selectedIndex !== index) {
+        state.selectedIndex = index;
+        renderMenu(container, state, resolveValues);
+      }
+    });
+    menu.appendChild(row);
+
+    if (isSelected) {
+      row.scrollIntoView({ block: "nearest" });
+    }
+  });
+}
+
+/**
+ * Show or hide the menu for the current input text
+ */
+export function updateSlashCommandMenu(
+  container: HTMLElement,
+  resolveValues: () => TemplateValues,
+): void {
+  const input = getInput(container);
+  const match = input?.value.match(SLASH_COMMAND_INPUT);
+  const matches = match ? matchPromptTemplates(match[1]) : [];
+  if (matches.length === 0) {
+    hideSlashCommandMenu(container);
+    return;
+  }
+
+  const previous = menuStates.get(container);
+  const state: SlashMenuState = {
+    matches,
+    selectedIndex: Math.min(previous?.selectedIndex ?? 0, matches.length - 1),
+  };
+  menuStates.set(container, state);
+  renderMenu(container, state, resolveValues);
+}
+
+/**
+ * Handle navigation keys while the menu is open
+ * @returns Whether the key was consumed by the menu
+ */
+export function handleSlashCommandKeydown(
+  e: KeyboardEvent,
+  container: HTMLElement,
+  resolveValues: () => TemplateValues,
+): boolean {
+  const state = menuStates.get(container);
+  if (!state) return false;
+
+  switch (e.key) {
+    case "ArrowDown":
+    case "ArrowUp": {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      state.selectedIndex =
+        (state.selectedIndex + step + state.matches.length) %
+        state.matches.length;
+      renderMenu(container, state, resolveValues);
+      break;
+    }
+    case "Enter":
+    case "Tab":
+      if (e.shiftKey) return false;
+      applyTemplate(
+        container,
+        state.matches[state.selectedIndex],
+        resolveValues,
+      );
+      break;
+    case "Escape":
+      hideSlashCommandMenu(container);
+      break;
+    default:
+      return false;
+  }
+  e.preventDefault();
+  e.stopPropagation();
+  return true;
+}
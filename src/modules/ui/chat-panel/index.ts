@@ -10,10 +10,20 @@ export {
   isPanelShown,
   registerToolbarButton,
   unregisterToolbarButton,
+  registerCollectionMenu,
+  openCollectionChat,
   unregisterAll,
   getChatManager,
   addSelectedTextAttachment,
 } from "./ChatPanelManager";
+export { registerExtractionMenu } from "./ExtractionMenu";
+export {
+  registerBatchMenu,
+  restoreBatchQueue,
+  destroyBatchQueue,
+  getBatchQueue,
+  openBatchJobsWindow,
+} from "./BatchMenu";
 
 // Theme utilities
 export { getCurrentTheme, isDarkMode } from "./ChatPanelTheme";
@@ -58,6 +58,8 @@ export interface SessionInfo {
   lastUpdated: number;
   isEmpty: boolean;
   sessionTitle?: string; // AI生成的会话标题
+  snippet?: string; // Search result text around the first match
+  searchTerms?: string[]; // Search words to highlight when opened
 }
 
 // Image data for input preview
@@ -5,6 +5,11 @@
 export {
   registerToolbarButton,
   unregisterToolbarButton,
+  registerCollectionMenu,
+  registerExtractionMenu,
+  registerBatchMenu,
+  restoreBatchQueue,
+  destroyBatchQueue,
   togglePanel,
   showPanel,
   hidePanel,
@@ -2,6 +2,9 @@
  * Chat Types - Type definitions for chat functionality
  */
 
+import type { ProviderErrorKind } from "./provider";
+import type { ToolCallRecord } from "./tool";
+
 // Image data attached to a message
 export interface MessageImage {
   id: string;
@@ -21,6 +24,55 @@ export interface DocumentReference {
 export interface ContentVersion {
   content: string;
   timestamp: number;
+  providerId?: string; // Provider and model that produced this version
+  model?: string;
+}
+
+// Answer from one provider while comparing models side by side
+export interface ComparisonAnswer {
+  providerId: string;
+  model: string;
+  content: string;
+  isComplete?: boolean; // false when aborted
+  error?: string; // Error message when the request failed
+}
+
+// How PDF content is attached to a message
+// "full": the (truncated) full text once per session
+// "smart": the chunks most relevant to each question
+export type PdfContextMode = "full" | "smart";
+
+// PDF chunk injected into a message by smart context retrieval
+export interface RetrievedChunk {
+  pageIndex: number; // 0-based page index
+  pageLabel: string; // Page label shown in the reader
+  text: string;
+  score: number; // Relevance score from the retriever
+}
+
+// Token usage reported by a provider for one or more requests
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number; // Input tokens served from the prompt cache
+  reasoningTokens?: number; // Output tokens spent on reasoning
+}
+
+// Token usage of an assistant message, with the model that produced it
+export interface MessageUsage extends TokenUsage {
+  providerId: string;
+  model: string;
+}
+
+// Token usage aggregated per day, provider and model
+export interface UsageBucket {
+  date: string; // Local date, YYYY-MM-DD
+  providerId: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
 }
 
 // Chat message
@@ -30,6 +82,9 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   pdfContext?: boolean; // Whether PDF context is included
+  pdfContentAttached?: boolean; // Whether it carries the session's pdfContent
+  retrievedChunks?: RetrievedChunk[]; // PDF chunks injected by smart context
+  annotationCount?: number; // Number of PDF annotations included as context
   selectedText?: string; // Selected PDF text
   images?: MessageImage[]; // Attached images
   documents?: DocumentReference[]; // Attached document references
@@ -42,6 +97,105 @@ export interface ChatMessage {
   isHidden?: boolean; // Whether to hide this message in the UI
   // For reasoning/thinking content from AI
   reasoningContent?: string; // Reasoning/thinking content from AI models that support it
+  // For tool calling
+  toolCalls?: ToolCallRecord[]; // Tools executed while producing this answer
+  // For usage tracking
+  usage?: MessageUsage; // Tokens used to produce this answer
+  // For conversation summaries (system messages replacing older turns in requests)
+  isSummary?: boolean; // Whether this message summarizes the turns before it
+  summarizedCount?: number; // Number of earlier messages covered by the summary
+  // For assistant messages: the provider and model that produced the answer
+  providerId?: string;
+  model?: string;
+  // For compare mode: answers shown side by side until one is kept
+  comparison?: ComparisonAnswer[];
+  // For error messages: the kind of provider failure, when known
+  errorKind?: ProviderErrorKind;
+  // For answers from a fallback provider: the provider that failed first
+  fallbackFrom?: {
+    providerId: string;
+    model?: string;
+    error: string;
+  };
+  // For edited questions: position among the branches forking here
+  branchIndex?: number; // 0-based, oldest first
+  branchCount?: number;
+}
+
+// Inactive continuation of a conversation, forked by editing a question.
+// Messages within a path are linked by their order, so a branch needs only
+// the parent link where it forks: together with the selected path, the
+// branches hold the same tree as parent links on every message would, while
+// requests, export, summaries and sync keep reading messages as a plain list.
+export interface MessageBranch {
+  parentId: string | null; // Message the branch continues from, null at the start
+  messages: ChatMessage[]; // Starts with the question that was edited
+}
+
+// Prompt template, invoked as a slash command in the chat input
+export interface PromptTemplate {
+  command: string; // Typed after "/" (letters, digits, "-" and "_")
+  description: string;
+  prompt: string; // May contain {{variables}} filled from the active item
+}
+
+// Field of a structured extraction schema
+export interface ExtractionField {
+  name: string; // Column and JSON key
+  description: string; // Tells the model what to extract
+  type: "string" | "number" | "boolean";
+}
+
+export type ExtractionValue = string | number | boolean | null;
+
+// Where extracted values are written on the item
+export type ExtractionTarget = "note" | "extra" | "both";
+
+// Structured extraction result for one item
+export interface ExtractionResult {
+  itemId: number;
+  itemKey: string;
+  title: string;
+  values: Record<string, ExtractionValue>; // null when not found or invalid
+  errors: string[];
+}
+
+// Item of a batch job and its progress
+export interface BatchJobItem {
+  itemId: number;
+  title: string;
+  status: "pending" | "running" | "done" | "failed";
+  attempts: number; // Requests made, including retries
+  error?: string; // Last error message
+  noteId?: number; // Child note holding the answer
+}
+
+// Prompt run over many items in the background, persisted across restarts
+export interface BatchJob {
+  id: string;
+  title: string; // Also the title of the notes it creates
+  prompt: string; // May contain {{variables}} filled per item
+  status: "running" | "paused" | "done";
+  error?: string; // Why the job was paused, when it failed to run
+  createdAt: number;
+  updatedAt: number;
+  items: BatchJobItem[];
+}
+
+// Sessions in the sync folder as of the last history sync
+export interface HistorySyncState {
+  folder: string; // Sync folder the state belongs to
+  sessions: Record<string, number>; // Session ID to updatedAt when last synced
+  lastSync: number;
+}
+
+// Provider and model settings pinned to a session, overriding the global ones
+export interface SessionModelPin {
+  providerId: string;
+  model: string;
+  temperature?: number;
+  thinkingModeEnabled?: boolean;
+  reasoningEffort?: string; // OpenAI reasoning effort or Claude/Gemini thinking effort
 }
 
 // Chat session
@@ -50,12 +204,17 @@ export interface ChatSession {
   itemId: number; // Associated Zotero Item ID
   messages: ChatMessage[];
   pdfAttached: boolean;
-  pdfContent?: string;
+  pdfContent?: string; // Full PDF text or collection context, sent once
   createdAt: number;
   updatedAt: number;
   title?: string; // Session title, optional
   documentIds?: number[]; // Array of associated document item IDs
   documentNames?: string[]; // Array of document display names
+  collectionId?: number; // Collection the session chats over (itemId is -collectionId)
+  collectionName?: string; // Collection name when the session was created
+  includeSubcollections?: boolean; // Whether subcollection items are included
+  modelPin?: SessionModelPin; // Provider and model used instead of the global ones
+  branches?: MessageBranch[]; // Inactive branches; messages holds the selected path
 }
 
 // Document sessions list (one document can have multiple sessions)
@@ -101,6 +260,7 @@ export interface StreamCallbacks {
   onComplete: (fullContent: string) => void;
   onError: (error: Error) => void;
   onReasoningChunk?: (chunk: string) => void; // Callback for reasoning content chunks
+  onUsage?: (usage: TokenUsage) => void; // Token usage reported by the provider
 }
 
 // Chat manager callbacks with session identification
@@ -123,10 +283,22 @@ export interface ChatManagerCallbacks {
 // Send message options
 export interface SendMessageOptions {
   attachPdf?: boolean;
+  pdfContextMode?: PdfContextMode; // How PDF content is attached (default "full")
+  attachAnnotations?: boolean; // Include the PDF's highlights and comments
   selectedText?: string;
   images?: Array<{ id: string; base64: string; mimeType: string }>;
   documents?: DocumentReference[]; // Attached document references
   continueFromMessageId?: string; // Message ID to continue from (for continue response feature)
+  compareProviderIds?: string[]; // Send to these providers side by side instead
+}
+
+// Input not yet sent, to estimate the size of the next request
+export interface PendingInput {
+  text: string;
+  pdfItemId?: number; // Item whose PDF is to be attached
+  pdfContextMode?: PdfContextMode;
+  images?: SendMessageOptions["images"];
+  documents?: DocumentReference[];
 }
 
 // Stored session metadata
@@ -141,4 +313,21 @@ export interface StoredSessionMeta {
   isEmpty: boolean; // Whether session is empty (no messages)
   documentIds?: number[]; // Document IDs for multi-document sessions
   documentNames?: string[]; // Document display names
+  collectionId?: number; // Collection ID for collection sessions
+  usage?: TokenUsage; // Total tokens used by the session's answers
+}
+
+// Full-text search over stored sessions
+export interface SessionSearchQuery {
+  text: string; // Words to find; empty matches every session
+  from?: number; // Earliest last update (timestamp)
+  to?: number; // Latest last update (timestamp)
+  providerId?: string; // Only sessions this provider answered in
+  itemId?: number; // Only sessions of this document
+}
+
+export interface SessionSearchResult {
+  meta: StoredSessionMeta;
+  snippet: string; // Text around the first match
+  matchCount: number; // Messages that contain a query term
 }
@@ -2,7 +2,12 @@
  * Provider Types - Multi-provider AI API type definitions
  */
 
-import type { ChatMessage, StreamCallbacks } from "./chat";
+import type { ChatMessage, StreamCallbacks, TokenUsage } from "./chat";
+import type {
+  ToolCompletionResult,
+  ToolDefinition,
+  ToolExchange,
+} from "./tool";
 
 /**
  * Model capabilities
@@ -13,6 +18,17 @@ export type ModelCapability =
   | "tool_use"
   | "web_search";
 
+/**
+ * Failure categories of provider API requests
+ */
+export type ProviderErrorKind =
+  | "rate_limit"
+  | "auth"
+  | "quota"
+  | "context_length"
+  | "server"
+  | "request";
+
 /**
  * Model information with metadata
  */
@@ -23,6 +39,8 @@ export interface ModelInfo {
   maxOutput?: number;
   capabilities?: ModelCapability[];
   isCustom?: boolean;
+  inputPrice?: number; // USD per 1M input tokens, set by the user
+  outputPrice?: number; // USD per 1M output tokens, set by the user
 }
 
 /**
@@ -42,7 +60,11 @@ export type ProviderType =
   | "siliconflow"
   | "minimax"
   | "xai"
-  | "glm";
+  | "glm"
+  | "ollama"
+  | "llamacpp"
+  | "azure-openai"
+  | "bedrock";
 
 /**
  * Provider identifier for built-in providers
@@ -59,7 +81,11 @@ export type BuiltinProviderId =
   | "glm"
   | "siliconflow"
   | "minimax"
-  | "xai";
+  | "xai"
+  | "ollama"
+  | "llamacpp"
+  | "azure"
+  | "bedrock";
 
 /**
  * Base provider configuration
@@ -108,6 +134,10 @@ export interface ApiKeyProviderConfig extends BaseProviderConfig {
   pdfMaxChars?: number;
   maxDocuments?: number;
   streamingOutput?: boolean;
+  rotateApiKeys?: boolean; // Switch to the next key or endpoint when rate-limited or out of quota
+  contextLength?: number; // Context window of local models, in tokens
+  keepAlive?: string; // Ollama: how long the model stays loaded, e.g. "10m" or "-1"
+  apiVersion?: string; // Azure OpenAI: api-version query parameter
   endpoints?: EndpointConfig[];
   currentEndpointIndex?: number;
 }
@@ -138,6 +168,8 @@ export interface ProviderMetadata {
   website: string;
   type: ProviderType;
   endpoints?: EndpointOption[];
+  apiKeyOptional?: boolean; // Local servers that accept requests without a key
+  editableEndpoints?: boolean; // Built-ins whose URL differs per account, like Azure resources
 }
 
 /**
@@ -146,6 +178,15 @@ export interface ProviderMetadata {
 export interface ProviderStorageData {
   activeProviderId: string;
   providers: ProviderConfig[];
+  fallbackChain?: FallbackProviderEntry[]; // Tried in order when a request fails
+}
+
+/**
+ * Provider and model to retry a failed request with
+ */
+export interface FallbackProviderEntry {
+  providerId: string;
+  model?: string; // The provider's default model when unset
 }
 
 /**
@@ -195,6 +236,14 @@ export interface GeminiPart {
     mime_type: string;
     data: string;
   };
+  functionCall?: {
+    name: string;
+    args: Record<string, unknown>;
+  };
+  functionResponse?: {
+    name: string;
+    response: Record<string, unknown>;
+  };
 }
 
 /**
@@ -210,7 +259,28 @@ export interface AIProvider {
     callbacks: StreamCallbacks,
     signal?: AbortSignal,
   ): Promise<void>;
-  chatCompletion(messages: ChatMessage[]): Promise<string>;
+  chatCompletion(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string>;
+  chatCompletionJson(
+    messages: ChatMessage[],
+    onUsage?: (usage: TokenUsage) => void,
+  ): Promise<string>;
+  supportsToolCalling(): boolean;
+  chatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult>;
+  streamChatCompletionWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    exchanges: ToolExchange[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolCompletionResult>;
   testConnection(): Promise<boolean>;
   getAvailableModels(): Promise<string[]>;
 }
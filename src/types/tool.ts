@@ -0,0 +1,63 @@
+/**
+ * Tool Types - Provider-neutral tool/function calling definitions
+ */
+
+import type { TokenUsage } from "./chat";
+
+// JSON schema describing tool parameters
+export interface ToolParameterSchema {
+  type: "object";
+  properties: Record<
+    string,
+    {
+      type: "string" | "number" | "integer" | "boolean";
+      description?: string;
+      enum?: string[];
+    }
+  >;
+  required?: string[];
+}
+
+// Tool exposed to the model
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+// Tool invocation requested by the model
+export interface ToolCall {
+  id: string; // Provider-assigned call ID (generated for Gemini)
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Result of executing a tool call
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string; // Serialized result passed back to the model
+  isError?: boolean;
+}
+
+// One round of the agent loop: assistant tool calls and their results
+export interface ToolExchange {
+  content: string; // Assistant text emitted alongside the tool calls
+  toolCalls: ToolCall[];
+  results: ToolResult[];
+}
+
+// Response of a single tool-enabled completion
+export interface ToolCompletionResult {
+  content: string;
+  toolCalls: ToolCall[]; // Empty when the model produced a final answer
+  usage?: TokenUsage;
+}
+
+// Tool call stored on an assistant message for display
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError?: boolean;
+}
@@ -0,0 +1,106 @@
+/**
+ * Recorded streaming responses, trimmed to a few events each
+ */
+
+export const OPENAI_STREAM = `data: {"id":"chatcmpl-1","object":"chat.completion.chunk","choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-1","object":"chat.completion.chunk","choices":[{"index":0,"delta":{"content":"Hello"},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-1","object":"chat.completion.chunk","choices":[{"index":0,"delta":{"content":" world"},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-1","object":"chat.completion.chunk","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}
+
+data: {"id":"chatcmpl-1","object":"chat.completion.chunk","choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"total_tokens":14}}
+
+data: [DONE]
+
+`;
+
+export const OPENAI_TOOL_STREAM = `data: {"choices":[{"index":0,"delta":{"role":"assistant","tool_calls":[{"index":0,"id":"call_abc","type":"function","function":{"name":"search_library","arguments":""}}]},"finish_reason":null}]}
+
+data: {"choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"query\\":"}}]},"finish_reason":null}]}
+
+data: {"choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"graphene\\"}"}}]},"finish_reason":null}]}
+
+data: {"choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}
+
+data: [DONE]
+
+`;
+
+export const OPENAI_ERROR_EVENT_STREAM = `data: {"choices":[{"index":0,"delta":{"content":"Partial"},"finish_reason":null}]}
+
+event: error
+data: {"message":"upstream timeout"}
+
+`;
+
+export const ANTHROPIC_STREAM = `event: message_start
+data: {"type":"message_start","message":{"id":"msg_1","type":"message","role":"assistant","content":[],"model":"claude-sonnet","usage":{"input_tokens":25,"output_tokens":1}}}
+
+event: content_block_start
+data: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}
+
+event: ping
+data: {"type": "ping"}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" there"}}
+
+event: content_block_stop
+data: {"type":"content_block_stop","index":0}
+
+event: content_block_start
+data: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_1","name":"get_item","input":{}}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"key\\": \\"AB"}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"CD12\\"}"}}
+
+event: content_block_stop
+data: {"type":"content_block_stop","index":1}
+
+event: message_delta
+data: {"type":"message_delta","delta":{"stop_reason":"tool_use","stop_sequence":null},"usage":{"output_tokens":15}}
+
+event: message_stop
+data: {"type":"message_stop"}
+
+`;
+
+export const ANTHROPIC_ERROR_STREAM = `event: message_start
+data: {"type":"message_start","message":{"id":"msg_2","usage":{"input_tokens":10,"output_tokens":1}}}
+
+event: error
+data: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}
+
+`;
+
+export const GEMINI_STREAM = `data: {"candidates":[{"content":{"parts":[{"text":"Graphene is"}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":8,"candidatesTokenCount":3,"totalTokenCount":11}}
+
+data: {"candidates":[{"content":{"parts":[{"text":" a carbon allotrope."}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":8,"candidatesTokenCount":9,"totalTokenCount":17}}
+
+data: {"candidates":[{"content":{"parts":[{"text":""}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":8,"candidatesTokenCount":9,"totalTokenCount":17}}
+
+`;
+
+export const GEMINI_TOOL_STREAM = `data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"search_library","args":{"query":"graphene"}}}],"role":"model"},"index":0}]}
+
+data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"get_item","args":{"key":"ABCD2345"}}}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":40,"candidatesTokenCount":12,"totalTokenCount":52}}
+
+`;
+
+export const OLLAMA_STREAM = `{"model":"qwen3:8b","created_at":"2026-01-10T09:00:00.000Z","message":{"role":"assistant","content":"","thinking":"The user greets me."},"done":false}
+{"model":"qwen3:8b","created_at":"2026-01-10T09:00:00.100Z","message":{"role":"assistant","content":"Hello"},"done":false}
+{"model":"qwen3:8b","created_at":"2026-01-10T09:00:00.200Z","message":{"role":"assistant","content":"!"},"done":false}
+{"model":"qwen3:8b","created_at":"2026-01-10T09:00:00.300Z","message":{"role":"assistant","content":""},"done_reason":"stop","done":true,"total_duration":912000000,"prompt_eval_count":31,"eval_count":7}
+`;
+
+export const OLLAMA_ERROR_STREAM = `{"model":"qwen3:8b","message":{"role":"assistant","content":"Hel"},"done":false}
+{"error":"model runner has unexpectedly stopped"}
+`;
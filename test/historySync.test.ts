@@ -0,0 +1,92 @@
+import { assert } from "chai";
+import type { ChatMessage, ChatSession } from "../src/types/chat";
+import { mergeSessions } from "../src/modules/chat/HistorySync";
+
+function message(id: string, timestamp: number): ChatMessage {
+  return { id, role: "user", content: id, timestamp };
+}
+
+function session(updatedAt: number, messages: ChatMessage[]): ChatSession {
+  return { id: "s1", itemId: 1, messages, createdAt: 0, updatedAt };
+}
+
+function ids(merged: ChatSession): string[] {
+  return merged.messages.map((m) => m.id);
+}
+
+describe("mergeSessions", function () {
+  const a = message("a", 10);
+  const b = message("b", 20);
+
+  it("should return the newer copy when the older adds nothing", function () {
+    const older = session(100, [a]);
+    const newer = session(200, [a, b]);
+    assert.strictEqual(mergeSessions(older, newer), newer);
+    assert.strictEqual(mergeSessions(newer, older), newer);
+  });
+
+  it("should keep the local copy when both are as new", function () {
+    const local = session(100, [a, b]);
+    const remote = session(100, [a, b]);
+    assert.strictEqual(mergeSessions(local, remote), local);
+  });
+
+  it("should keep messages the older copy added after the last sync", function () {
+    const c = message("c", 30);
+    const d = message("d", 40);
+    const older = session(150, [a, c]);
+    const newer = session(200, [a, d]);
+
+    const merged = mergeSessions(older, newer, 25);
+    assert.deepEqual(ids(merged), ["a", "c", "d"]);
+    assert.equal(merged.updatedAt, 200);
+  });
+
+  it("should insert added messages after the message they followed", function () {
+    const c = message("c", 30);
+    const d = message("d", 40);
+    const older = session(150, [a, b, c, d]);
+    const newer = session(200, [a, b]);
+
+    assert.deepEqual(ids(mergeSessions(older, newer)), ["a", "b", "c", "d"]);
+  });
+
+  it("should append messages whose predecessor was dropped", function () {
+    const p = message("p", 5);
+    const q = message("q", 30);
+    const older = session(150, [p, q]);
+    const newer = session(200, [b]);
+
+    // p is from before the last sync, so it was deleted from the newer copy
+    assert.deepEqual(ids(mergeSessions(older, newer, 10)), ["b", "q"]);
+  });
+
+  it("should drop messages older than the last message both share", function () {
+    const c = message("c", 30);
+    const older = session(150, [a, b, c]);
+    const newer = session(200, [a, c]);
+
+    // b was deleted from the newer copy
+    const merged = mergeSessions(older, newer);
+    assert.deepEqual(ids(merged), ["a", "c"]);
+    assert.strictEqual(merged, newer);
+  });
+
+  it("should drop messages from before the last sync", function () {
+    const older = session(150, [b]);
+    const newer = session(200, [a]);
+
+    assert.deepEqual(ids(mergeSessions(older, newer, 50)), ["a"]);
+    assert.deepEqual(ids(mergeSessions(older, newer, 15)), ["b", "a"]);
+  });
+
+  it("should not change either copy", function () {
+    const c = message("c", 30);
+    const older = session(150, [a, c]);
+    const newer = session(200, [a, b]);
+
+    mergeSessions(older, newer);
+    assert.deepEqual(ids(older), ["a", "c"]);
+    assert.deepEqual(ids(newer), ["a", "b"]);
+  });
+});
@@ -0,0 +1,176 @@
+import { assert } from "chai";
+import type { TokenUsage } from "../src/types/chat";
+import type { ToolCall } from "../src/types/tool";
+import {
+  assembleToolCalls,
+  parseSSEStream,
+  registerStreamFormat,
+  type SSEFormat,
+} from "../src/modules/providers/SSEParser";
+import {
+  ANTHROPIC_ERROR_STREAM,
+  ANTHROPIC_STREAM,
+  GEMINI_STREAM,
+  GEMINI_TOOL_STREAM,
+  OLLAMA_ERROR_STREAM,
+  OLLAMA_STREAM,
+  OPENAI_ERROR_EVENT_STREAM,
+  OPENAI_STREAM,
+  OPENAI_TOOL_STREAM,
+} from "./fixtures/streams";
+
+interface ParseResult {
+  text: string;
+  reasoning: string;
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+  error?: Error;
+  doneCount: number;
+}
+
+/**
+ * Feed a recorded stream to the parser in chunks of the given size, so
+ * events are split across reads like on the network
+ */
+async function parse(
+  stream: string,
+  format: SSEFormat,
+  chunkSize = 17,
+): Promise<ParseResult> {
+  const bytes = new TextEncoder().encode(stream);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+
+  const result: ParseResult = { text: "", reasoning: "", doneCount: 0 };
+  await parseSSEStream(body.getReader(), format, {
+    onText: (text) => (result.text += text),
+    onReasoningText: (text) => (result.reasoning += text),
+    onUsage: (usage) => (result.usage = usage),
+    onToolCalls: (toolCalls) => (result.toolCalls = toolCalls),
+    onError: (error) => (result.error = error),
+    onDone: () => result.doneCount++,
+  });
+  return result;
+}
+
+describe("SSEParser", function () {
+  it("should parse an OpenAI stream with usage after the finish chunk", async function () {
+    const result = await parse(OPENAI_STREAM, "openai");
+    assert.equal(result.text, "Hello world");
+    assert.equal(result.doneCount, 1);
+    assert.equal(result.usage?.inputTokens, 12);
+    assert.equal(result.usage?.outputTokens, 2);
+  });
+
+  it("should assemble OpenAI tool call deltas", async function () {
+    const result = await parse(OPENAI_TOOL_STREAM, "openai");
+    assert.deepEqual(result.toolCalls, [
+      {
+        id: "call_abc",
+        name: "search_library",
+        arguments: { query: "graphene" },
+      },
+    ]);
+  });
+
+  it("should report an OpenAI-compatible error event", async function () {
+    const result = await parse(OPENAI_ERROR_EVENT_STREAM, "openai");
+    assert.equal(result.text, "Partial");
+    assert.include(result.error?.message, "upstream timeout");
+    assert.equal(result.doneCount, 0);
+  });
+
+  it("should parse an Anthropic stream with named events", async function () {
+    const result = await parse(ANTHROPIC_STREAM, "anthropic");
+    assert.equal(result.text, "Hi there");
+    assert.equal(result.usage?.inputTokens, 25);
+    assert.equal(result.usage?.outputTokens, 15);
+    assert.deepEqual(result.toolCalls, [
+      { id: "toolu_1", name: "get_item", arguments: { key: "ABCD12" } },
+    ]);
+  });
+
+  it("should report an Anthropic error event", async function () {
+    const result = await parse(ANTHROPIC_ERROR_STREAM, "anthropic");
+    assert.equal(result.error?.message, "Overloaded");
+    assert.equal(result.doneCount, 0);
+  });
+
+  it("should parse a Gemini SSE stream", async function () {
+    const result = await parse(GEMINI_STREAM, "gemini");
+    assert.equal(result.text, "Graphene is a carbon allotrope.");
+    assert.equal(result.usage?.outputTokens, 9);
+  });
+
+  it("should keep Gemini function calls sent in separate events", async function () {
+    const result = await parse(GEMINI_TOOL_STREAM, "gemini");
+    assert.deepEqual(
+      result.toolCalls?.map((call) => [call.name, call.arguments]),
+      [
+        ["search_library", { query: "graphene" }],
+        ["get_item", { key: "ABCD2345" }],
+      ],
+    );
+    assert.equal(result.doneCount, 1);
+  });
+
+  it("should parse an Ollama NDJSON stream with thinking", async function () {
+    const result = await parse(OLLAMA_STREAM, "ollama", 5);
+    assert.equal(result.text, "Hello!");
+    assert.equal(result.reasoning, "The user greets me.");
+    assert.equal(result.usage?.inputTokens, 31);
+    assert.equal(result.usage?.outputTokens, 7);
+    assert.equal(result.doneCount, 1);
+  });
+
+  it("should report an Ollama error line", async function () {
+    const result = await parse(OLLAMA_ERROR_STREAM, "ollama");
+    assert.equal(result.text, "Hel");
+    assert.equal(result.error?.message, "model runner has unexpectedly stopped");
+  });
+
+  it("should handle a stream without a trailing newline", async function () {
+    const result = await parse(OLLAMA_STREAM.trimEnd(), "ollama");
+    assert.equal(result.text, "Hello!");
+    assert.equal(result.doneCount, 1);
+  });
+
+  it("should parse a registered format without parser changes", async function () {
+    // Cohere-style stream: event type in the JSON, text in a nested field
+    registerStreamFormat("test-cohere", {
+      framing: "ndjson",
+      content: (parsed) => {
+        const data = parsed as { type?: string; delta?: { text?: string } };
+        return data.type === "content-delta" ? data.delta?.text || null : null;
+      },
+      isComplete: (parsed) =>
+        (parsed as { type?: string }).type === "message-end",
+    });
+    const stream = [
+      `{"type":"message-start"}`,
+      `{"type":"content-delta","delta":{"text":"Cited "}}`,
+      `{"type":"content-delta","delta":{"text":"answer"}}`,
+      `{"type":"message-end"}`,
+      `{"type":"content-delta","delta":{"text":"ignored"}}`,
+    ].join("\n");
+    const result = await parse(stream, "test-cohere");
+    assert.equal(result.text, "Cited answer");
+    assert.equal(result.doneCount, 1);
+  });
+
+  it("should drop unnamed tool calls and keep invalid arguments empty", function () {
+    const toolCalls = assembleToolCalls([
+      { index: 1, name: "search", arguments: "{not json" },
+      { index: 0, arguments: "{}" },
+    ]);
+    assert.deepEqual(toolCalls, [
+      { id: "call_1", name: "search", arguments: {} },
+    ]);
+  });
+});
@@ -3,8 +3,32 @@
 /* eslint-disable */
 // @ts-nocheck
 export type FluentMessageId =
+  | 'batch-close'
+  | 'batch-empty'
+  | 'batch-menu'
+  | 'batch-pause'
+  | 'batch-prompt'
+  | 'batch-remove'
+  | 'batch-resume'
+  | 'batch-retry-failed'
+  | 'batch-status-done'
+  | 'batch-status-paused'
+  | 'batch-status-running'
+  | 'batch-title'
+  | 'chat-attach-annotations'
+  | 'chat-attach-annotations-tooltip'
   | 'chat-attach-pdf'
+  | 'chat-citation-goto-page'
   | 'chat-close'
+  | 'chat-collection-menu'
+  | 'chat-collection-menu-subcollections'
+  | 'chat-compare'
+  | 'chat-compare-active'
+  | 'chat-compare-failed'
+  | 'chat-compare-keep'
+  | 'chat-compare-keep-tooltip'
+  | 'chat-compare-need-providers'
+  | 'chat-compare-title'
   | 'chat-configure-provider'
   | 'chat-continue'
   | 'chat-continue-prompt'
@@ -18,11 +42,26 @@ export type FluentMessageId =
   | 'chat-document-label'
   | 'chat-document-single'
   | 'chat-drop-document'
+  | 'chat-edit-cancel'
+  | 'chat-edit-question'
+  | 'chat-edit-save'
   | 'chat-empty-subtitle'
   | 'chat-empty-title'
   | 'chat-enable-thinking'
+  | 'chat-error-hint-auth'
+  | 'chat-error-hint-context-length'
+  | 'chat-error-hint-quota'
+  | 'chat-error-hint-rate-limit'
+  | 'chat-error-hint-server'
   | 'chat-error-no-provider'
   | 'chat-export-note'
+  | 'chat-fallback-notice'
+  | 'chat-highlight-done'
+  | 'chat-highlight-failed'
+  | 'chat-highlight-in-pdf'
+  | 'chat-highlight-no-reader'
+  | 'chat-highlight-not-found'
+  | 'chat-highlight-with-comment'
   | 'chat-history'
   | 'chat-image-label'
   | 'chat-input-placeholder'
@@ -30,6 +69,7 @@ export type FluentMessageId =
   | 'chat-model-list-title'
   | 'chat-multiple-documents'
   | 'chat-new-chat'
+  | 'chat-next-branch'
   | 'chat-next-version'
   | 'chat-no-history'
   | 'chat-no-messages'
@@ -38,15 +78,30 @@ export type FluentMessageId =
   | 'chat-openai-reasoning-effort'
   | 'chat-openai-reasoning-effort-title'
   | 'chat-pause'
+  | 'chat-pdf-mode-full'
+  | 'chat-pdf-mode-smart'
+  | 'chat-pdf-mode-tooltip'
   | 'chat-pin'
+  | 'chat-prev-branch'
   | 'chat-prev-version'
   | 'chat-quote-label'
   | 'chat-reference-label'
   | 'chat-regenerate'
+  | 'chat-search-all-documents'
+  | 'chat-search-all-providers'
+  | 'chat-search-from'
+  | 'chat-search-no-results'
+  | 'chat-search-placeholder'
+  | 'chat-search-to'
   | 'chat-select-model'
   | 'chat-send'
+  | 'chat-session-model-pin'
+  | 'chat-session-model-tooltip'
+  | 'chat-session-model-unpin'
   | 'chat-show-more'
   | 'chat-start-conversation'
+  | 'chat-summary-boundary'
+  | 'chat-summary-boundary-tooltip'
   | 'chat-switch-to-floating'
   | 'chat-switch-to-sidebar'
   | 'chat-text-quote-label'
@@ -54,9 +109,21 @@ export type FluentMessageId =
   | 'chat-thinking-effort-title'
   | 'chat-thinking-title'
   | 'chat-toggle-panel-mode'
+  | 'chat-token-indicator'
+  | 'chat-token-indicator-over-limit'
+  | 'chat-tool-calls-title'
+  | 'chat-tool-limit-reached'
   | 'chat-toolbar-button-tooltip'
+  | 'chat-tools-toggle'
+  | 'chat-tools-tooltip'
   | 'chat-unpin'
   | 'chat-version-indicator'
+  | 'extract-done'
+  | 'extract-failed'
+  | 'extract-menu'
+  | 'extract-progress'
+  | 'extract-save-title'
+  | 'extract-title'
   | 'pref-active-provider'
   | 'pref-add-apikey'
   | 'pref-add-endpoint'
@@ -65,6 +132,8 @@ export type FluentMessageId =
   | 'pref-add-openai-endpoint'
   | 'pref-anthropic-compatible'
   | 'pref-api-key'
+  | 'pref-api-version'
+  | 'pref-api-version-hint'
   | 'pref-apikey-deleted'
   | 'pref-apikey-edited'
   | 'pref-apikey-exists'
@@ -74,6 +143,8 @@ export type FluentMessageId =
   | 'pref-cannot-delete-builtin'
   | 'pref-cannot-delete-endpoint-builtin'
   | 'pref-cannot-edit-endpoint-builtin'
+  | 'pref-context-length'
+  | 'pref-context-length-hint'
   | 'pref-custom-providers'
   | 'pref-delete-apikey'
   | 'pref-delete-apikey-confirm'
@@ -91,12 +162,56 @@ export type FluentMessageId =
   | 'pref-endpoint-exists'
   | 'pref-enter-apikey'
   | 'pref-enter-apikey-name'
+  | 'pref-enter-aws-credentials'
   | 'pref-enter-base-url'
   | 'pref-enter-model-id'
   | 'pref-enter-provider-name'
+  | 'pref-extraction'
+  | 'pref-extraction-hint'
+  | 'pref-extraction-invalid'
+  | 'pref-extraction-reset'
+  | 'pref-extraction-save'
+  | 'pref-extraction-saved'
+  | 'pref-extraction-target'
+  | 'pref-extraction-target-both'
+  | 'pref-extraction-target-extra'
+  | 'pref-extraction-target-note'
+  | 'pref-fallback'
+  | 'pref-fallback-hint'
+  | 'pref-fallback-save'
+  | 'pref-fallback-saved'
+  | 'pref-fallback-unknown'
   | 'pref-fetch-models-failed'
   | 'pref-fetching-models'
   | 'pref-hide-key'
+  | 'pref-history-backup'
+  | 'pref-history-backup-busy'
+  | 'pref-history-backup-confirm'
+  | 'pref-history-backup-done'
+  | 'pref-history-backup-failed'
+  | 'pref-history-backup-hint'
+  | 'pref-history-backup-none'
+  | 'pref-history-backup-restore'
+  | 'pref-history-export'
+  | 'pref-history-export-failed'
+  | 'pref-history-export-title'
+  | 'pref-history-exported'
+  | 'pref-history-import'
+  | 'pref-history-import-failed'
+  | 'pref-history-import-title'
+  | 'pref-history-imported'
+  | 'pref-history-sync'
+  | 'pref-history-sync-choose'
+  | 'pref-history-sync-disabled'
+  | 'pref-history-sync-done'
+  | 'pref-history-sync-failed'
+  | 'pref-history-sync-hint'
+  | 'pref-history-sync-now'
+  | 'pref-history-sync-off'
+  | 'pref-history-sync-running'
+  | 'pref-history-sync-title'
+  | 'pref-keep-alive'
+  | 'pref-keep-alive-hint'
   | 'pref-max-documents'
   | 'pref-max-documents-hint'
   | 'pref-max-tokens'
@@ -105,6 +220,11 @@ export type FluentMessageId =
   | 'pref-model-custom'
   | 'pref-model-exists'
   | 'pref-model-list'
+  | 'pref-model-price'
+  | 'pref-model-price-input'
+  | 'pref-model-price-invalid'
+  | 'pref-model-price-label'
+  | 'pref-model-price-output'
   | 'pref-models-loaded'
   | 'pref-openai-compatible'
   | 'pref-pdf-max-chars'
@@ -112,15 +232,51 @@ export type FluentMessageId =
   | 'pref-provider-added'
   | 'pref-provider-not-ready'
   | 'pref-refresh-models'
+  | 'pref-rotate-keys'
+  | 'pref-rotate-keys-hint'
   | 'pref-show-key'
   | 'pref-streaming-output'
   | 'pref-streaming-output-hint'
   | 'pref-system-prompt'
   | 'pref-system-prompt-placeholder'
   | 'pref-temperature'
+  | 'pref-template-add'
+  | 'pref-template-cancel'
+  | 'pref-template-command'
+  | 'pref-template-delete'
+  | 'pref-template-description'
+  | 'pref-template-empty-prompt'
+  | 'pref-template-exists'
+  | 'pref-template-export'
+  | 'pref-template-export-failed'
+  | 'pref-template-export-title'
+  | 'pref-template-exported'
+  | 'pref-template-import'
+  | 'pref-template-import-failed'
+  | 'pref-template-import-title'
+  | 'pref-template-imported'
+  | 'pref-template-invalid-command'
+  | 'pref-template-prompt'
+  | 'pref-template-reset'
+  | 'pref-template-reset-confirm'
+  | 'pref-template-save'
+  | 'pref-template-variables-hint'
+  | 'pref-templates'
   | 'pref-test-connection'
   | 'pref-test-failed'
   | 'pref-test-success'
   | 'pref-testing'
   | 'pref-title'
+  | 'pref-usage'
+  | 'pref-usage-cost'
+  | 'pref-usage-daily'
+  | 'pref-usage-empty'
+  | 'pref-usage-hint'
+  | 'pref-usage-input'
+  | 'pref-usage-model'
+  | 'pref-usage-monthly'
+  | 'pref-usage-output'
+  | 'pref-usage-requests'
+  | 'pref-usage-reset'
+  | 'pref-usage-reset-confirm'
   | 'pref-visit-website';
@@ -18,6 +18,14 @@ declare namespace _ZoteroTypes {
       "keepWindowTop": boolean;
       "thinkingModeEnabled": boolean;
       "openaiReasoningEffort": string;
+      "pdfContextMode": string;
+      "toolsEnabled": boolean;
+      "promptTemplates": string;
+      "compareProviders": string;
+      "extractionSchema": string;
+      "extractionTarget": string;
+      "batchConcurrency": number;
+      "historySyncFolder": string;
     };
   }
 }